@@ -1,10 +1,16 @@
 'use client'
 
-import { useState } from 'react'
-import { Loader2, BarChart3, BoxSelect } from 'lucide-react'
+import { useEffect, useMemo, useState } from 'react'
+import { Loader2, BarChart3, BoxSelect, Grid3x3, Download } from 'lucide-react'
 import Button from '@/components/ui/Button'
-import { cn } from '@/lib/utils'
+import { cn, formatDate } from '@/lib/utils'
 import dynamic from 'next/dynamic'
+import type { ControlResponseResult, CrossSiteResult, SignificanceResult, TimeSeries } from '@/lib/stats'
+import type { ResponseMeasure } from '@/components/analysis/ResponseChart'
+import CorrelationExplorer from '@/components/analysis/CorrelationExplorer'
+import FlaggedRecordsPanel, { type FlaggedRecord } from '@/components/analysis/FlaggedRecordsPanel'
+import SavedAnalysesBar, { type SavedAnalysisSummary } from '@/components/analysis/SavedAnalysesBar'
+import { configToSearchParams, sanitiseConfig, type AnalysisConfig } from '@/lib/analysis-config'
 
 const BoxPlotChart = dynamic(() => import('@/components/analysis/BoxPlotChart'), {
   loading: () => <div className="h-64 flex items-center justify-center text-sm text-brand-grey-1">Loading chart…</div>,
@@ -12,6 +18,15 @@ const BoxPlotChart = dynamic(() => import('@/components/analysis/BoxPlotChart'),
 const BarChartWithSE = dynamic(() => import('@/components/analysis/BarChartWithSE'), {
   loading: () => <div className="h-64 flex items-center justify-center text-sm text-brand-grey-1">Loading chart…</div>,
 })
+const ResponseChart = dynamic(() => import('@/components/analysis/ResponseChart'), {
+  loading: () => <div className="h-64 flex items-center justify-center text-sm text-brand-grey-1">Loading chart…</div>,
+})
+const TrendChart = dynamic(() => import('@/components/analysis/TrendChart'), {
+  loading: () => <div className="h-64 flex items-center justify-center text-sm text-brand-grey-1">Loading chart…</div>,
+})
+const ForestPlot = dynamic(() => import('@/components/analysis/ForestPlot'), {
+  loading: () => <div className="h-40 flex items-center justify-center text-sm text-brand-grey-1">Loading chart…</div>,
+})
 
 const DATA_SOURCES = [
   { value: 'sampleMetadata', label: 'Assay Results' },
@@ -20,10 +35,24 @@ const DATA_SOURCES = [
   { value: 'plotData', label: 'Plot Data' },
 ]
 
+const RESPONSE_MEASURES: { value: ResponseMeasure; label: string }[] = [
+  { value: 'percentResponse', label: '% Response' },
+  { value: 'difference', label: 'Difference' },
+  { value: 'responseRatio', label: 'Ratio' },
+]
+
+const OUTLIER_METHODS = [
+  { value: 'iqr', label: 'IQR fences (1.5 × IQR)' },
+  { value: 'grubbs', label: 'Grubbs test (5%)' },
+  { value: 'residual', label: 'Studentised residual (|t| > 3)' },
+  { value: 'none', label: 'None' },
+]
+
 const GROUP_BY_OPTIONS = [
   { value: 'treatment', label: 'Treatment' },
   { value: 'trial', label: 'Trial' },
   { value: 'block', label: 'Block' },
+  { value: 'date', label: 'Sampling Date (Treatment × Date)' },
 ]
 
 interface GroupStats {
@@ -38,28 +67,108 @@ interface GroupStats {
   max: number
   n: number
   values: number[]
+  letter?: string
 }
 
 interface MetricStats {
   metric: string
   unit: string
   groups: GroupStats[]
+  significance: SignificanceResult | null
+  crossSite: CrossSiteResult | null
+  response: ControlResponseResult | null
+  flagged: FlaggedRecord[]
+  timeSeries: TimeSeries[] | null
+  unitOptions: string[]
+  optimalRange: { min: number | null; max: number | null } | null
+  censored: number
+}
+
+function formatP(p: number | null): string {
+  if (p == null) return '—'
+  return p < 0.001 ? '<0.001' : p.toFixed(3)
+}
+
+function formatRange({ min, max }: { min: number | null; max: number | null }): string {
+  const fmt = (v: number) => String(Number(v.toPrecision(3)))
+  if (min != null && max != null) return `${fmt(min)}–${fmt(max)}`
+  return min != null ? `≥ ${fmt(min)}` : `≤ ${fmt(max!)}`
 }
 
 interface AnalysisClientProps {
   trials: { id: string; name: string }[]
   assayTypes: string[]
+  savedAnalyses: SavedAnalysisSummary[]
+  activeId: string | null
+  initialConfig: AnalysisConfig
+  /** Run straight away when the config was restored from a saved analysis or URL */
+  autoRun: boolean
+  userId: string | null
 }
 
-export default function AnalysisClient({ trials, assayTypes }: AnalysisClientProps) {
-  const [source, setSource] = useState('sampleMetadata')
-  const [selectedTrials, setSelectedTrials] = useState<string[]>([])
-  const [groupBy, setGroupBy] = useState('treatment')
-  const [assayType, setAssayType] = useState('')
-  const [chartType, setChartType] = useState<'bar' | 'box'>('bar')
+export default function AnalysisClient({
+  trials,
+  assayTypes,
+  savedAnalyses,
+  activeId,
+  initialConfig,
+  autoRun,
+  userId,
+}: AnalysisClientProps) {
+  const [mode, setMode] = useState(initialConfig.mode)
+  const [source, setSource] = useState(initialConfig.source)
+  const [selectedTrials, setSelectedTrials] = useState<string[]>(initialConfig.trialIds)
+  const [groupBy, setGroupBy] = useState(initialConfig.groupBy)
+  const [assayType, setAssayType] = useState(initialConfig.assayType)
+  const [control, setControl] = useState(initialConfig.control)
+  const [chartType, setChartType] = useState(initialConfig.chartType)
+  const [responseMeasure, setResponseMeasure] = useState<ResponseMeasure>(initialConfig.responseMeasure)
+  const [trendMode, setTrendMode] = useState(initialConfig.trendMode)
+  const [outlierMethod, setOutlierMethod] = useState(initialConfig.outliers)
+  const [includeExcluded, setIncludeExcluded] = useState(initialConfig.includeExcluded)
+  const [correlationMethod, setCorrelationMethod] = useState(initialConfig.correlationMethod)
+  const [correlationSources, setCorrelationSources] = useState(initialConfig.correlationSources)
+  const [units, setUnits] = useState(initialConfig.units)
   const [loading, setLoading] = useState(false)
   const [metrics, setMetrics] = useState<MetricStats[]>([])
   const [hasRun, setHasRun] = useState(false)
+  const [lastParams, setLastParams] = useState<string | null>(null)
+  const [exporting, setExporting] = useState(false)
+  const [exportError, setExportError] = useState<string | null>(null)
+
+  const config: AnalysisConfig = useMemo(() => ({
+    mode,
+    source,
+    trialIds: selectedTrials,
+    groupBy,
+    assayType,
+    chartType,
+    control,
+    outliers: outlierMethod,
+    includeExcluded,
+    responseMeasure,
+    trendMode,
+    correlationMethod,
+    correlationSources,
+    units,
+  }), [mode, source, selectedTrials, groupBy, assayType, chartType, control, outlierMethod,
+    includeExcluded, responseMeasure, trendMode, correlationMethod, correlationSources, units])
+
+  // Mirror the settings into the URL so a reload or shared link restores them.
+  // The saved id is kept only while the settings still match the saved config.
+  useEffect(() => {
+    const params = configToSearchParams(config)
+    const saved = savedAnalyses.find(a => a.id === activeId)
+    if (saved && configToSearchParams(sanitiseConfig(saved.config)).toString() === params.toString()) {
+      params.set('saved', saved.id)
+    }
+    const query = params.toString()
+    window.history.replaceState(null, '', query ? `/analysis?${query}` : '/analysis')
+  }, [config, activeId, savedAnalyses])
+
+  useEffect(() => {
+    if (autoRun && initialConfig.mode === 'groups') runAnalysis()
+  }, []) // eslint-disable-line react-hooks/exhaustive-deps
 
   function toggleTrial(id: string) {
     setSelectedTrials(prev =>
@@ -67,11 +176,7 @@ export default function AnalysisClient({ trials, assayTypes }: AnalysisClientPro
     )
   }
 
-  async function runAnalysis() {
-    setLoading(true)
-    setMetrics([])
-    setHasRun(true)
-
+  function analysisParams(unitTargets = units): URLSearchParams {
     const params = new URLSearchParams()
     params.set('source', source)
     params.set('groupBy', groupBy)
@@ -81,7 +186,26 @@ export default function AnalysisClient({ trials, assayTypes }: AnalysisClientPro
     if (assayType && source === 'sampleMetadata') {
       params.set('assayType', assayType)
     }
+    if (control && groupBy === 'treatment') {
+      params.set('control', control)
+    }
+    params.set('outliers', outlierMethod)
+    if (includeExcluded) {
+      params.set('includeExcluded', 'true')
+    }
+    if (unitTargets.length > 0) {
+      params.set('units', unitTargets.join(','))
+    }
+    return params
+  }
+
+  async function runAnalysis(unitTargets = units) {
+    setLoading(true)
+    setMetrics([])
+    setHasRun(true)
 
+    const params = analysisParams(unitTargets)
+    setLastParams(params.toString())
     try {
       const res = await fetch(`/api/analysis?${params}`)
       const data = await res.json()
@@ -92,194 +216,515 @@ export default function AnalysisClient({ trials, assayTypes }: AnalysisClientPro
     setLoading(false)
   }
 
+  // Re-run with the metric expressed in another unit
+  function changeUnit(metric: string, unit: string) {
+    const next = [...units.filter(u => u.slice(0, u.lastIndexOf(':')) !== metric), `${metric}:${unit}`]
+    setUnits(next)
+    runAnalysis(next)
+  }
+
+  // Exports the results on screen, i.e. the params of the last run
+  async function exportWorkbook() {
+    if (!lastParams) return
+    setExporting(true)
+    setExportError(null)
+    try {
+      const res = await fetch(`/api/analysis/export?${lastParams}`)
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}))
+        throw new Error(data.error || 'Export failed')
+      }
+      const blob = await res.blob()
+      const filename = res.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1] ?? 'analysis.xlsx'
+      const url = URL.createObjectURL(blob)
+      const a = document.createElement('a')
+      a.href = url
+      a.download = filename
+      a.click()
+      setTimeout(() => URL.revokeObjectURL(url), 1000)
+    } catch (err) {
+      setExportError(err instanceof Error ? err.message : 'Export failed')
+    }
+    setExporting(false)
+  }
+
+  // Control candidates come from the treatment labels of the last run
+  const treatmentLabels = groupBy === 'treatment'
+    ? Array.from(new Set(metrics.flatMap(m => m.groups.map(g => g.label)))).sort()
+    : []
+
+  // Trial selection is shared by the group comparison and correlation modes
+  const trialSelection = (
+    <div className="mb-4">
+      <label className="signpost-label block mb-2">SELECT TRIALS</label>
+      <div className="flex flex-wrap gap-2">
+        {trials.map(t => (
+          <button
+            key={t.id}
+            onClick={() => toggleTrial(t.id)}
+            className={cn(
+              'px-3 py-1.5 rounded-full text-xs font-medium transition-colors',
+              selectedTrials.includes(t.id)
+                ? 'bg-brand-black text-white'
+                : 'bg-brand-grey-3 text-brand-black/70 hover:bg-brand-grey-2'
+            )}
+          >
+            {t.id}
+          </button>
+        ))}
+        {trials.length === 0 && (
+          <p className="text-sm text-brand-grey-1">No trials found</p>
+        )}
+      </div>
+      {selectedTrials.length === 0 && trials.length > 0 && (
+        <p className="text-xs text-brand-grey-1 mt-1">No trials selected — will analyse across all trials</p>
+      )}
+    </div>
+  )
+
   return (
     <div>
-      {/* Controls */}
-      <div className="card mb-6">
-        <div className="grid grid-cols-2 gap-4 mb-4">
-          {/* Data Source */}
-          <div>
-            <label className="signpost-label block mb-1">DATA SOURCE</label>
-            <select
-              value={source}
-              onChange={e => setSource(e.target.value)}
-              className="w-full px-3 py-2 rounded-lg border border-brand-grey-2 bg-brand-grey-3 text-sm text-brand-black focus:outline-none focus:border-brand-black/30"
-            >
-              {DATA_SOURCES.map(ds => (
-                <option key={ds.value} value={ds.value}>{ds.label}</option>
-              ))}
-            </select>
-          </div>
+      <SavedAnalysesBar
+        savedAnalyses={savedAnalyses}
+        activeId={activeId}
+        userId={userId}
+        config={config}
+      />
 
-          {/* Group By */}
-          <div>
-            <label className="signpost-label block mb-1">GROUP BY</label>
-            <select
-              value={groupBy}
-              onChange={e => setGroupBy(e.target.value)}
-              className="w-full px-3 py-2 rounded-lg border border-brand-grey-2 bg-brand-grey-3 text-sm text-brand-black focus:outline-none focus:border-brand-black/30"
-            >
-              {GROUP_BY_OPTIONS.map(o => (
-                <option key={o.value} value={o.value}>{o.label}</option>
-              ))}
-            </select>
-          </div>
+      {/* Mode */}
+      <div className="flex gap-2 mb-4">
+        {([['groups', 'Compare Groups', BarChart3], ['correlation', 'Correlations', Grid3x3]] as const).map(([value, label, Icon]) => (
+          <button
+            key={value}
+            onClick={() => setMode(value)}
+            className={cn(
+              'flex items-center gap-1.5 px-3 py-2 rounded-lg text-sm font-medium transition-colors',
+              mode === value
+                ? 'bg-brand-black text-white'
+                : 'bg-brand-grey-3 border border-brand-grey-2 text-brand-black/70 hover:bg-brand-grey-2'
+            )}
+          >
+            <Icon size={14} />
+            {label}
+          </button>
+        ))}
+      </div>
 
-          {/* Assay Type (only for sampleMetadata) */}
-          {source === 'sampleMetadata' && assayTypes.length > 0 && (
-            <div>
-              <label className="signpost-label block mb-1">ASSAY TYPE</label>
-              <select
-                value={assayType}
-                onChange={e => setAssayType(e.target.value)}
-                className="w-full px-3 py-2 rounded-lg border border-brand-grey-2 bg-brand-grey-3 text-sm text-brand-black focus:outline-none focus:border-brand-black/30"
-              >
-                <option value="">All assay types</option>
-                {assayTypes.map(at => (
-                  <option key={at} value={at}>{at}</option>
-                ))}
-              </select>
+      {mode === 'correlation' ? (
+        <>
+          <div className="card mb-6">{trialSelection}</div>
+          <CorrelationExplorer
+            selectedTrials={selectedTrials}
+            method={correlationMethod}
+            sources={correlationSources}
+            onMethodChange={setCorrelationMethod}
+            onSourcesChange={setCorrelationSources}
+            autoRun={autoRun && initialConfig.mode === 'correlation'}
+          />
+        </>
+      ) : (
+        <>
+          {/* Controls */}
+          <div className="card mb-6">
+            <div className="grid grid-cols-2 gap-4 mb-4">
+              {/* Data Source */}
+              <div>
+                <label className="signpost-label block mb-1">DATA SOURCE</label>
+                <select
+                  value={source}
+                  onChange={e => {
+                    setSource(e.target.value)
+                    // Plot data has no sampling date
+                    if (e.target.value === 'plotData' && groupBy === 'date') setGroupBy('treatment')
+                  }}
+                  className="w-full px-3 py-2 rounded-lg border border-brand-grey-2 bg-brand-grey-3 text-sm text-brand-black focus:outline-none focus:border-brand-black/30"
+                >
+                  {DATA_SOURCES.map(ds => (
+                    <option key={ds.value} value={ds.value}>{ds.label}</option>
+                  ))}
+                </select>
+              </div>
+
+              {/* Group By */}
+              <div>
+                <label className="signpost-label block mb-1">GROUP BY</label>
+                <select
+                  value={groupBy}
+                  onChange={e => setGroupBy(e.target.value)}
+                  className="w-full px-3 py-2 rounded-lg border border-brand-grey-2 bg-brand-grey-3 text-sm text-brand-black focus:outline-none focus:border-brand-black/30"
+                >
+                  {GROUP_BY_OPTIONS.filter(o => !(o.value === 'date' && source === 'plotData')).map(o => (
+                    <option key={o.value} value={o.value}>{o.label}</option>
+                  ))}
+                </select>
+              </div>
+
+              {/* Assay Type (only for sampleMetadata) */}
+              {source === 'sampleMetadata' && assayTypes.length > 0 && (
+                <div>
+                  <label className="signpost-label block mb-1">ASSAY TYPE</label>
+                  <select
+                    value={assayType}
+                    onChange={e => setAssayType(e.target.value)}
+                    className="w-full px-3 py-2 rounded-lg border border-brand-grey-2 bg-brand-grey-3 text-sm text-brand-black focus:outline-none focus:border-brand-black/30"
+                  >
+                    <option value="">All assay types</option>
+                    {assayTypes.map(at => (
+                      <option key={at} value={at}>{at}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              {/* Control treatment (response metrics and cross-trial effect sizes) */}
+              {groupBy === 'treatment' && (
+                <div>
+                  <label className="signpost-label block mb-1">CONTROL TREATMENT</label>
+                  <select
+                    value={control}
+                    onChange={e => setControl(e.target.value)}
+                    className="w-full px-3 py-2 rounded-lg border border-brand-grey-2 bg-brand-grey-3 text-sm text-brand-black focus:outline-none focus:border-brand-black/30"
+                  >
+                    <option value="">Trial&apos;s flagged control (else Control / Untreated / Nil)</option>
+                    {treatmentLabels.map(l => (
+                      <option key={l} value={l}>{l}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              {/* Outlier flagging */}
+              <div>
+                <label className="signpost-label block mb-1">OUTLIER FLAGGING</label>
+                <select
+                  value={outlierMethod}
+                  onChange={e => setOutlierMethod(e.target.value)}
+                  className="w-full px-3 py-2 rounded-lg border border-brand-grey-2 bg-brand-grey-3 text-sm text-brand-black focus:outline-none focus:border-brand-black/30"
+                >
+                  {OUTLIER_METHODS.map(o => (
+                    <option key={o.value} value={o.value}>{o.label}</option>
+                  ))}
+                </select>
+                <label className="flex items-center gap-2 mt-2 text-xs text-brand-black/70">
+                  <input
+                    type="checkbox"
+                    checked={includeExcluded}
+                    onChange={e => setIncludeExcluded(e.target.checked)}
+                    className="accent-brand-black"
+                  />
+                  Include excluded records
+                </label>
+              </div>
+
+              {/* Chart Type */}
+              <div>
+                <label className="signpost-label block mb-1">CHART TYPE</label>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => setChartType('bar')}
+                    className={cn(
+                      'flex items-center gap-1.5 px-3 py-2 rounded-lg text-sm font-medium transition-colors',
+                      chartType === 'bar'
+                        ? 'bg-brand-black text-white'
+                        : 'bg-brand-grey-3 border border-brand-grey-2 text-brand-black/70 hover:bg-brand-grey-2'
+                    )}
+                  >
+                    <BarChart3 size={14} />
+                    Bar (Mean + SE)
+                  </button>
+                  <button
+                    onClick={() => setChartType('box')}
+                    className={cn(
+                      'flex items-center gap-1.5 px-3 py-2 rounded-lg text-sm font-medium transition-colors',
+                      chartType === 'box'
+                        ? 'bg-brand-black text-white'
+                        : 'bg-brand-grey-3 border border-brand-grey-2 text-brand-black/70 hover:bg-brand-grey-2'
+                    )}
+                  >
+                    <BoxSelect size={14} />
+                    Box Plot
+                  </button>
+                </div>
+              </div>
             </div>
-          )}
 
-          {/* Chart Type */}
-          <div>
-            <label className="signpost-label block mb-1">CHART TYPE</label>
+            {trialSelection}
+
             <div className="flex gap-2">
-              <button
-                onClick={() => setChartType('bar')}
-                className={cn(
-                  'flex items-center gap-1.5 px-3 py-2 rounded-lg text-sm font-medium transition-colors',
-                  chartType === 'bar'
-                    ? 'bg-brand-black text-white'
-                    : 'bg-brand-grey-3 border border-brand-grey-2 text-brand-black/70 hover:bg-brand-grey-2'
-                )}
-              >
-                <BarChart3 size={14} />
-                Bar (Mean + SE)
-              </button>
-              <button
-                onClick={() => setChartType('box')}
-                className={cn(
-                  'flex items-center gap-1.5 px-3 py-2 rounded-lg text-sm font-medium transition-colors',
-                  chartType === 'box'
-                    ? 'bg-brand-black text-white'
-                    : 'bg-brand-grey-3 border border-brand-grey-2 text-brand-black/70 hover:bg-brand-grey-2'
+              <Button onClick={() => runAnalysis()} disabled={loading}>
+                {loading ? (
+                  <>
+                    <Loader2 size={14} className="animate-spin" />
+                    Analysing...
+                  </>
+                ) : (
+                  <>
+                    <BarChart3 size={14} />
+                    Run Analysis
+                  </>
                 )}
-              >
-                <BoxSelect size={14} />
-                Box Plot
-              </button>
+              </Button>
+              <Button variant="secondary" onClick={exportWorkbook} disabled={loading || exporting || metrics.length === 0}>
+                {exporting ? <Loader2 size={14} className="animate-spin" /> : <Download size={14} />}
+                Export XLSX
+              </Button>
             </div>
-          </div>
-        </div>
-
-        {/* Trial Selection */}
-        <div className="mb-4">
-          <label className="signpost-label block mb-2">SELECT TRIALS</label>
-          <div className="flex flex-wrap gap-2">
-            {trials.map(t => (
-              <button
-                key={t.id}
-                onClick={() => toggleTrial(t.id)}
-                className={cn(
-                  'px-3 py-1.5 rounded-full text-xs font-medium transition-colors',
-                  selectedTrials.includes(t.id)
-                    ? 'bg-brand-black text-white'
-                    : 'bg-brand-grey-3 text-brand-black/70 hover:bg-brand-grey-2'
-                )}
-              >
-                {t.id}
-              </button>
-            ))}
-            {trials.length === 0 && (
-              <p className="text-sm text-brand-grey-1">No trials found</p>
+            {exportError && (
+              <div className="mt-3 p-3 rounded-lg bg-red-50 border border-red-200 text-sm text-red-700">{exportError}</div>
             )}
           </div>
-          {selectedTrials.length === 0 && trials.length > 0 && (
-            <p className="text-xs text-brand-grey-1 mt-1">No trials selected — will analyse across all trials</p>
-          )}
-        </div>
-
-        <Button onClick={runAnalysis} disabled={loading}>
-          {loading ? (
-            <>
-              <Loader2 size={14} className="animate-spin" />
-              Analysing...
-            </>
-          ) : (
-            <>
-              <BarChart3 size={14} />
-              Run Analysis
-            </>
+
+          {/* Results */}
+          {hasRun && !loading && metrics.length === 0 && (
+            <div className="card text-center py-8">
+              <p className="text-brand-grey-1 text-sm">No data found for the selected criteria.</p>
+              <p className="text-brand-grey-1 text-xs mt-1">Try selecting different trials or data source.</p>
+            </div>
           )}
-        </Button>
-      </div>
 
-      {/* Results */}
-      {hasRun && !loading && metrics.length === 0 && (
-        <div className="card text-center py-8">
-          <p className="text-brand-grey-1 text-sm">No data found for the selected criteria.</p>
-          <p className="text-brand-grey-1 text-xs mt-1">Try selecting different trials or data source.</p>
-        </div>
-      )}
+          {metrics.length > 0 && (
+            <div className="space-y-6">
+              {metrics.map(m => (
+                <div key={m.metric} className="card">
+                  <div className="flex items-center justify-between mb-4">
+                    <div className="flex items-center gap-2">
+                      <h3 className="text-sm font-bold text-brand-black">{m.metric}</h3>
+                      {m.unitOptions.length > 1 ? (
+                        <select
+                          value={m.unit}
+                          onChange={e => changeUnit(m.metric, e.target.value)}
+                          disabled={loading}
+                          className="px-1.5 py-0.5 rounded border border-brand-grey-2 bg-brand-grey-3 text-xs text-brand-grey-1 focus:outline-none focus:border-brand-black/30"
+                        >
+                          {!m.unitOptions.includes(m.unit) && <option value={m.unit}>{m.unit}</option>}
+                          {m.unitOptions.map(u => <option key={u} value={u}>{u}</option>)}
+                        </select>
+                      ) : m.unit && (
+                        <span className="text-xs text-brand-grey-1">({m.unit})</span>
+                      )}
+                      {m.optimalRange && (
+                        <span className="text-xs text-brand-grey-1">
+                          Optimal {formatRange(m.optimalRange)}
+                        </span>
+                      )}
+                    </div>
+                    <div className="text-xs text-brand-grey-1">
+                      {m.groups.reduce((s, g) => s + g.n, 0)} observations across {m.groups.length} groups
+                    </div>
+                  </div>
 
-      {metrics.length > 0 && (
-        <div className="space-y-6">
-          {metrics.map(m => (
-            <div key={m.metric} className="card">
-              <div className="flex items-center justify-between mb-4">
-                <div>
-                  <h3 className="text-sm font-bold text-brand-black">{m.metric}</h3>
-                  {m.unit && (
-                    <span className="text-xs text-brand-grey-1">({m.unit})</span>
+                  {m.timeSeries ? (
+                    <>
+                      <div className="flex justify-end gap-1 mb-2">
+                        {([['mean', 'Mean'], ['delta', 'Change from baseline']] as const).map(([value, label]) => (
+                          <button
+                            key={value}
+                            onClick={() => setTrendMode(value)}
+                            className={cn(
+                              'px-2.5 py-1 rounded-full text-xs font-medium transition-colors',
+                              trendMode === value
+                                ? 'bg-brand-black text-white'
+                                : 'bg-brand-grey-3 text-brand-black/70 hover:bg-brand-grey-2'
+                            )}
+                          >
+                            {label}
+                          </button>
+                        ))}
+                      </div>
+                      <TrendChart series={m.timeSeries} unit={m.unit} mode={trendMode} />
+                    </>
+                  ) : chartType === 'bar' ? (
+                    <BarChartWithSE metric={m} />
+                  ) : (
+                    <BoxPlotChart metric={m} />
                   )}
-                </div>
-                <div className="text-xs text-brand-grey-1">
-                  {m.groups.reduce((s, g) => s + g.n, 0)} observations across {m.groups.length} groups
-                </div>
-              </div>
 
-              {chartType === 'bar' ? (
-                <BarChartWithSE metric={m} />
-              ) : (
-                <BoxPlotChart metric={m} />
-              )}
+                  {/* Per-interval change by treatment */}
+                  {m.timeSeries && m.timeSeries.length > 0 && (
+                    <div className="mt-4 overflow-x-auto">
+                      <table className="w-full text-xs">
+                        <thead>
+                          <tr className="border-b border-brand-grey-2">
+                            <th className="text-left py-1.5 px-2 text-brand-grey-1 font-medium">Treatment</th>
+                            <th className="text-left py-1.5 px-2 text-brand-grey-1 font-medium">Date</th>
+                            <th className="text-right py-1.5 px-2 text-brand-grey-1 font-medium">n</th>
+                            <th className="text-right py-1.5 px-2 text-brand-grey-1 font-medium">Mean ± SE</th>
+                            <th className="text-right py-1.5 px-2 text-brand-grey-1 font-medium">Δ previous</th>
+                            <th className="text-right py-1.5 px-2 text-brand-grey-1 font-medium">Δ baseline ± SE</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {m.timeSeries.flatMap(ts =>
+                            ts.points.map((p, i) => (
+                              <tr key={`${ts.label}-${p.date}`} className="border-b border-brand-grey-3">
+                                <td className="py-1.5 px-2 font-medium">{i === 0 ? ts.label : ''}</td>
+                                <td className="py-1.5 px-2">{formatDate(p.date)}{i === 0 && <span className="text-brand-grey-1"> (baseline)</span>}</td>
+                                <td className="text-right py-1.5 px-2 font-mono">{p.n}</td>
+                                <td className="text-right py-1.5 px-2 font-mono">{p.mean.toFixed(2)} ± {p.stdError.toFixed(2)}</td>
+                                <td className="text-right py-1.5 px-2 font-mono">
+                                  {p.deltaFromPrevious != null ? `${p.deltaFromPrevious >= 0 ? '+' : ''}${p.deltaFromPrevious.toFixed(2)}` : '—'}
+                                </td>
+                                <td className="text-right py-1.5 px-2 font-mono">
+                                  {i === 0 ? '—' : `${p.deltaFromBaseline >= 0 ? '+' : ''}${p.deltaFromBaseline.toFixed(2)} ± ${p.deltaFromBaselineSe.toFixed(2)}`}
+                                </td>
+                              </tr>
+                            ))
+                          )}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
 
-              {/* Summary table */}
-              <div className="mt-4 overflow-x-auto">
-                <table className="w-full text-xs">
-                  <thead>
-                    <tr className="border-b border-brand-grey-2">
-                      <th className="text-left py-1.5 px-2 text-brand-grey-1 font-medium">Group</th>
-                      <th className="text-right py-1.5 px-2 text-brand-grey-1 font-medium">n</th>
-                      <th className="text-right py-1.5 px-2 text-brand-grey-1 font-medium">Mean</th>
-                      <th className="text-right py-1.5 px-2 text-brand-grey-1 font-medium">SE</th>
-                      <th className="text-right py-1.5 px-2 text-brand-grey-1 font-medium">SD</th>
-                      <th className="text-right py-1.5 px-2 text-brand-grey-1 font-medium">Min</th>
-                      <th className="text-right py-1.5 px-2 text-brand-grey-1 font-medium">Median</th>
-                      <th className="text-right py-1.5 px-2 text-brand-grey-1 font-medium">Max</th>
-                    </tr>
-                  </thead>
-                  <tbody>
-                    {m.groups.map(g => (
-                      <tr key={g.label} className="border-b border-brand-grey-3">
-                        <td className="py-1.5 px-2 font-medium">{g.label}</td>
-                        <td className="text-right py-1.5 px-2 font-mono">{g.n}</td>
-                        <td className="text-right py-1.5 px-2 font-mono">{g.mean.toFixed(2)}</td>
-                        <td className="text-right py-1.5 px-2 font-mono">{g.stdError.toFixed(3)}</td>
-                        <td className="text-right py-1.5 px-2 font-mono">{g.stdDev.toFixed(3)}</td>
-                        <td className="text-right py-1.5 px-2 font-mono">{g.min.toFixed(2)}</td>
-                        <td className="text-right py-1.5 px-2 font-mono">{g.median.toFixed(2)}</td>
-                        <td className="text-right py-1.5 px-2 font-mono">{g.max.toFixed(2)}</td>
-                      </tr>
-                    ))}
-                  </tbody>
-                </table>
-              </div>
+                  {/* ANOVA summary */}
+                  {m.significance && (
+                    <div className="mt-4 flex flex-wrap gap-x-6 gap-y-1 text-xs text-brand-black/70">
+                      <span>
+                        <span className="text-brand-grey-1">ANOVA:</span>{' '}
+                        {m.significance.design === 'rcbd' ? 'RCBD (block = rep)' : 'One-way'}
+                      </span>
+                      <span>
+                        <span className="text-brand-grey-1">F:</span>{' '}
+                        <span className="font-mono">{m.significance.anova[0].f?.toFixed(2) ?? '—'}</span>
+                      </span>
+                      <span className={cn(m.significance.pValue != null && m.significance.pValue < 0.05 && 'text-green-lush font-semibold')}>
+                        <span className="text-brand-grey-1 font-normal">p:</span>{' '}
+                        <span className="font-mono">{formatP(m.significance.pValue)}</span>
+                      </span>
+                      <span>
+                        <span className="text-brand-grey-1">LSD (5%):</span>{' '}
+                        <span className="font-mono">{m.significance.lsd05?.toFixed(3) ?? '—'}</span>
+                      </span>
+                      <span>
+                        <span className="text-brand-grey-1">HSD (5%):</span>{' '}
+                        <span className="font-mono">{m.significance.hsd05?.toFixed(3) ?? '—'}</span>
+                      </span>
+                      <span>
+                        <span className="text-brand-grey-1">CV:</span>{' '}
+                        <span className="font-mono">{m.significance.cv != null ? `${m.significance.cv.toFixed(1)}%` : '—'}</span>
+                      </span>
+                      <span className="text-brand-grey-1">Means sharing a letter do not differ (Tukey HSD, p &lt; 0.05)</span>
+                    </div>
+                  )}
+
+                  {/* Response vs control */}
+                  {m.response && m.response.groups.length > 0 && (
+                    <div className="mt-6">
+                      <div className="flex items-center justify-between mb-2">
+                        <h4 className="signpost-label">RESPONSE VS {m.response.controls.join(' / ').toUpperCase()}</h4>
+                        <div className="flex gap-1">
+                          {RESPONSE_MEASURES.map(rm => (
+                            <button
+                              key={rm.value}
+                              onClick={() => setResponseMeasure(rm.value)}
+                              className={cn(
+                                'px-2.5 py-1 rounded-full text-xs font-medium transition-colors',
+                                responseMeasure === rm.value
+                                  ? 'bg-brand-black text-white'
+                                  : 'bg-brand-grey-3 text-brand-black/70 hover:bg-brand-grey-2'
+                              )}
+                            >
+                              {rm.label}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                      <ResponseChart response={m.response} measure={responseMeasure} unit={m.unit} />
+                      <div className="mt-2 overflow-x-auto">
+                        <table className="w-full text-xs">
+                          <thead>
+                            <tr className="border-b border-brand-grey-2">
+                              <th className="text-left py-1.5 px-2 text-brand-grey-1 font-medium">Treatment</th>
+                              <th className="text-right py-1.5 px-2 text-brand-grey-1 font-medium">n</th>
+                              <th className="text-right py-1.5 px-2 text-brand-grey-1 font-medium">Difference</th>
+                              <th className="text-right py-1.5 px-2 text-brand-grey-1 font-medium">% Response</th>
+                              <th className="text-right py-1.5 px-2 text-brand-grey-1 font-medium">Ratio</th>
+                              <th className="text-right py-1.5 px-2 text-brand-grey-1 font-medium">Paired by rep</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {m.response.groups.map(g => (
+                              <tr key={g.label} className="border-b border-brand-grey-3">
+                                <td className="py-1.5 px-2 font-medium">{g.label}</td>
+                                <td className="text-right py-1.5 px-2 font-mono">{g.n}</td>
+                                <td className="text-right py-1.5 px-2 font-mono">{g.difference.toFixed(2)} ± {g.differenceSe.toFixed(2)}</td>
+                                <td className="text-right py-1.5 px-2 font-mono">
+                                  {g.percentResponse != null ? `${g.percentResponse.toFixed(1)}% ± ${g.percentResponseSe!.toFixed(1)}` : '—'}
+                                </td>
+                                <td className="text-right py-1.5 px-2 font-mono">
+                                  {g.responseRatio != null ? `${g.responseRatio.toFixed(3)} ± ${g.responseRatioSe!.toFixed(3)}` : '—'}
+                                </td>
+                                <td className="text-right py-1.5 px-2 font-mono">{Math.round(g.pairedFraction * 100)}%</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Cross-trial effect sizes */}
+                  {m.crossSite && m.crossSite.effects.length > 0 && (
+                    <div className="mt-6">
+                      <div className="flex items-center justify-between mb-2">
+                        <h4 className="signpost-label">EFFECT VS {m.crossSite.control.toUpperCase()} ACROSS SITES</h4>
+                        <span className="text-xs text-brand-grey-1">
+                          {m.crossSite.siteCount} site{m.crossSite.siteCount === 1 ? '' : 's'} · site as random effect · 95% CI
+                        </span>
+                      </div>
+                      <ForestPlot result={m.crossSite} unit={m.unit} />
+                    </div>
+                  )}
+
+                  <FlaggedRecordsPanel records={m.flagged} onChanged={() => runAnalysis()} />
+
+                  {m.censored > 0 && (
+                    <p className="mt-2 text-xs text-brand-grey-1">
+                      {m.censored} value{m.censored === 1 ? '' : 's'} reported against a detection limit (e.g. &lt;0.5) left out of the statistics.
+                    </p>
+                  )}
+
+                  {/* Summary table */}
+                  <div className="mt-4 overflow-x-auto">
+                    <table className="w-full text-xs">
+                      <thead>
+                        <tr className="border-b border-brand-grey-2">
+                          <th className="text-left py-1.5 px-2 text-brand-grey-1 font-medium">Group</th>
+                          <th className="text-right py-1.5 px-2 text-brand-grey-1 font-medium">n</th>
+                          <th className="text-right py-1.5 px-2 text-brand-grey-1 font-medium">Mean</th>
+                          <th className="text-right py-1.5 px-2 text-brand-grey-1 font-medium">SE</th>
+                          <th className="text-right py-1.5 px-2 text-brand-grey-1 font-medium">SD</th>
+                          <th className="text-right py-1.5 px-2 text-brand-grey-1 font-medium">Min</th>
+                          <th className="text-right py-1.5 px-2 text-brand-grey-1 font-medium">Median</th>
+                          <th className="text-right py-1.5 px-2 text-brand-grey-1 font-medium">Max</th>
+                          {m.significance && (
+                            <th className="text-center py-1.5 px-2 text-brand-grey-1 font-medium">Tukey</th>
+                          )}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {m.groups.map(g => (
+                          <tr key={g.label} className="border-b border-brand-grey-3">
+                            <td className="py-1.5 px-2 font-medium">{g.label}</td>
+                            <td className="text-right py-1.5 px-2 font-mono">{g.n}</td>
+                            <td className="text-right py-1.5 px-2 font-mono">{g.mean.toFixed(2)}</td>
+                            <td className="text-right py-1.5 px-2 font-mono">{g.stdError.toFixed(3)}</td>
+                            <td className="text-right py-1.5 px-2 font-mono">{g.stdDev.toFixed(3)}</td>
+                            <td className="text-right py-1.5 px-2 font-mono">{g.min.toFixed(2)}</td>
+                            <td className="text-right py-1.5 px-2 font-mono">{g.median.toFixed(2)}</td>
+                            <td className="text-right py-1.5 px-2 font-mono">{g.max.toFixed(2)}</td>
+                            {m.significance && (
+                              <td className="text-center py-1.5 px-2 font-mono font-semibold">{g.letter || ''}</td>
+                            )}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              ))}
             </div>
-          ))}
-        </div>
+          )}
+        </>
       )}
     </div>
   )
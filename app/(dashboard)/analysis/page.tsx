@@ -1,33 +1,61 @@
 import { createServerSupabaseClient } from '@/lib/supabase/server'
+import { getUserRole } from '@/lib/auth'
+import { configFromSearchParams, sanitiseConfig } from '@/lib/analysis-config'
 import PageHeader from '@/components/layout/PageHeader'
 import AnalysisClient from './AnalysisClient'
 
 export const dynamic = 'force-dynamic'
 
-async function getData() {
+type SearchParams = Record<string, string | string[] | undefined>
+
+async function getData(searchParams: SearchParams) {
   const supabase = createServerSupabaseClient()
+  const savedId = typeof searchParams.saved === 'string' ? searchParams.saved : null
 
-  const [trialsRes, assayTypesRes] = await Promise.all([
+  const [trialsRes, assayTypesRes, savedRes, { userId }] = await Promise.all([
     supabase.from('trials').select('id, name').order('id'),
     supabase.from('sample_metadata').select('assay_type').limit(1000),
+    supabase.from('saved_analyses').select('id, name, description, config, created_by, updated_at').order('updated_at', { ascending: false }),
+    getUserRole(),
   ])
 
   // Extract unique assay types
   const assayTypes = [...new Set((assayTypesRes.data || []).map(r => r.assay_type))].sort()
 
+  const savedAnalyses = savedRes.data || []
+  const active = savedId ? savedAnalyses.find(a => a.id === savedId) ?? null : null
+
+  // A saved analysis takes precedence; otherwise restore from the URL itself
+  const initialConfig = active ? sanitiseConfig(active.config) : configFromSearchParams(searchParams)
+  const autoRun = active != null || Object.keys(searchParams).some(k => k !== 'saved')
+
   return {
     trials: trialsRes.data || [],
     assayTypes,
+    savedAnalyses,
+    activeId: active?.id ?? null,
+    initialConfig,
+    autoRun,
+    userId,
   }
 }
 
-export default async function AnalysisPage() {
-  const { trials, assayTypes } = await getData()
+export default async function AnalysisPage({ searchParams }: { searchParams: SearchParams }) {
+  const { trials, assayTypes, savedAnalyses, activeId, initialConfig, autoRun, userId } = await getData(searchParams)
 
   return (
     <div>
       <PageHeader label="DATA ANALYSIS" title="Analysis" />
-      <AnalysisClient trials={trials} assayTypes={assayTypes} />
+      <AnalysisClient
+        key={activeId ?? 'url'}
+        trials={trials}
+        assayTypes={assayTypes}
+        savedAnalyses={savedAnalyses}
+        activeId={activeId}
+        initialConfig={initialConfig}
+        autoRun={autoRun}
+        userId={userId}
+      />
     </div>
   )
 }
@@ -2,6 +2,7 @@ import { createServerSupabaseClient } from '@/lib/supabase/server'
 import { notFound } from 'next/navigation'
 import PageHeader from '@/components/layout/PageHeader'
 import TrialCard from '@/components/trials/TrialCard'
+import ClientReportActions from '@/components/clients/ClientReportActions'
 import { MapPin, Mail, Phone } from 'lucide-react'
 
 export const dynamic = 'force-dynamic'
@@ -54,10 +55,17 @@ export default async function ClientDetailPage({
   if (!data) notFound()
 
   const { client, trials } = data
+  const years = Array.from(new Set(
+    trials.map((t) => t.planting_date ? String(t.planting_date).slice(0, 4) : null).filter((y): y is string => y != null)
+  )).sort().reverse()
 
   return (
     <div>
-      <PageHeader label="CLIENT" title={client.name} />
+      <PageHeader
+        label="CLIENT"
+        title={client.name}
+        action={<ClientReportActions clientId={client.id} years={years} />}
+      />
 
       {/* Client info card */}
       <div className="card mb-6">
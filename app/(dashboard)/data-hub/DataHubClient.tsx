@@ -6,6 +6,9 @@ import FolderUpload from '@/components/data-hub/FolderUpload'
 import SingleFileUpload from '@/components/data-hub/SingleFileUpload'
 import PasteData from '@/components/data-hub/PasteData'
 import UploadLog from '@/components/data-hub/UploadLog'
+import ImportProfilesManager from '@/components/data-hub/ImportProfilesManager'
+import TrialTemplateCard from '@/components/data-hub/TrialTemplateCard'
+import type { ImportProfile } from '@/lib/import-profiles'
 import { FolderUp, FileUp, ClipboardPaste } from 'lucide-react'
 
 const tabs = [
@@ -17,9 +20,10 @@ const tabs = [
 interface DataHubClientProps {
   trials: { id: string; name: string }[]
   uploadLog: any[]
+  importProfiles: ImportProfile[]
 }
 
-export default function DataHubClient({ trials, uploadLog }: DataHubClientProps) {
+export default function DataHubClient({ trials, uploadLog, importProfiles }: DataHubClientProps) {
   const [activeTab, setActiveTab] = useState('folder')
 
   return (
@@ -73,6 +77,10 @@ export default function DataHubClient({ trials, uploadLog }: DataHubClientProps)
           </div>
         </div>
 
+        <TrialTemplateCard />
+
+        <ImportProfilesManager profiles={importProfiles} />
+
         {/* Upload log */}
         <div className="card">
           <p className="signpost-label mb-3">UPLOAD LOG</p>
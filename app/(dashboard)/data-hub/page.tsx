@@ -3,20 +3,23 @@ import { getUserRole, canUpload } from '@/lib/auth'
 import { redirect } from 'next/navigation'
 import PageHeader from '@/components/layout/PageHeader'
 import DataHubClient from './DataHubClient'
+import { profileFromRow } from '@/lib/import-profiles'
 
 export const dynamic = 'force-dynamic'
 
 async function getData() {
   const supabase = createServerSupabaseClient()
 
-  const [trialsRes, logRes] = await Promise.all([
+  const [trialsRes, logRes, profilesRes] = await Promise.all([
     supabase.from('trials').select('id, name').order('id'),
-    supabase.from('upload_log').select('*').order('created_at', { ascending: false }).limit(50),
+    supabase.from('upload_log').select('*, raw_uploads(status)').order('created_at', { ascending: false }).limit(50),
+    supabase.from('import_profiles').select('*').order('name'),
   ])
 
   return {
     trials: trialsRes.data || [],
     uploadLog: logRes.data || [],
+    importProfiles: (profilesRes.data || []).map(profileFromRow),
   }
 }
 
@@ -27,12 +30,12 @@ export default async function DataHubPage() {
     redirect('/dashboard')
   }
 
-  const { trials, uploadLog } = await getData()
+  const { trials, uploadLog, importProfiles } = await getData()
 
   return (
     <div>
       <PageHeader label="DATA MANAGEMENT" title="Data Hub" />
-      <DataHubClient trials={trials} uploadLog={uploadLog} />
+      <DataHubClient trials={trials} uploadLog={uploadLog} importProfiles={importProfiles} />
     </div>
   )
 }
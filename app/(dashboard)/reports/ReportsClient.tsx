@@ -4,17 +4,35 @@ import { useState } from 'react'
 import Button from '@/components/ui/Button'
 import ProductTag from '@/components/ui/ProductTag'
 import StatusPill from '@/components/ui/StatusPill'
-import { formatDate, getProductColor } from '@/lib/utils'
+import PdfReportPanel, { type ReportPhoto } from '@/components/reports/PdfReportPanel'
+import ReportTemplatesManager, { type ManagedTemplate } from '@/components/reports/ReportTemplatesManager'
+import type { TemplateMatch } from '@/lib/report-templates'
+import { cn, formatDate, getProductColor } from '@/lib/utils'
 import { FileText, Loader2 } from 'lucide-react'
 
 interface TrialReport {
   trial: any
   treatments: any[]
   samples: any[]
-  yieldSummary: { product: string; avgYield: number }[]
+  yieldSummary: {
+    product: string
+    avgYield: number
+    isControl: boolean
+    differenceVsControl: number | null
+    percentResponse: number | null
+  }[]
+  photos: ReportPhoto[]
+  template: { id: string | null; matchedBy: TemplateMatch }
 }
 
-export default function ReportsClient({ trials }: { trials: { id: string; name: string }[] }) {
+interface ReportsClientProps {
+  trials: { id: string; name: string }[]
+  templates: ManagedTemplate[]
+  clients: { id: string; name: string }[]
+  canManageTemplates: boolean
+}
+
+export default function ReportsClient({ trials, templates, clients, canManageTemplates }: ReportsClientProps) {
   const [selectedTrial, setSelectedTrial] = useState('')
   const [report, setReport] = useState<TrialReport | null>(null)
   const [loading, setLoading] = useState(false)
@@ -69,6 +87,15 @@ export default function ReportsClient({ trials }: { trials: { id: string; name:
 
       {report && (
         <div className="space-y-6">
+          <PdfReportPanel
+            key={report.trial.id}
+            trialId={report.trial.id}
+            photos={report.photos ?? []}
+            templates={templates}
+            resolvedTemplateId={report.template?.id ?? null}
+            matchedBy={report.template?.matchedBy ?? 'builtin'}
+          />
+
           {/* Trial header */}
           <div className="card">
             <div className="flex items-center gap-3 mb-3">
@@ -140,8 +167,18 @@ export default function ReportsClient({ trials }: { trials: { id: string; name:
                   return (
                     <div key={ys.product}>
                       <div className="flex items-center justify-between mb-1">
-                        <ProductTag product={ys.product} />
-                        <span className="font-mono text-sm font-bold">{ys.avgYield.toFixed(2)} t/ha</span>
+                        <div className="flex items-center gap-2">
+                          <ProductTag product={ys.product} />
+                          {ys.isControl && <span className="text-xs text-brand-grey-1">Control</span>}
+                        </div>
+                        <span className="font-mono text-sm font-bold">
+                          {ys.avgYield.toFixed(2)} t/ha
+                          {ys.percentResponse != null && (
+                            <span className={cn('ml-2 text-xs font-medium', ys.percentResponse >= 0 ? 'text-green-lush' : 'text-[#e67e22]')}>
+                              {ys.percentResponse >= 0 ? '+' : ''}{ys.percentResponse.toFixed(1)}%
+                            </span>
+                          )}
+                        </span>
                       </div>
                       <div className="h-3 bg-brand-grey-3 rounded-full overflow-hidden">
                         <div
@@ -160,6 +197,12 @@ export default function ReportsClient({ trials }: { trials: { id: string; name:
           )}
         </div>
       )}
+
+      {canManageTemplates && (
+        <div className="mt-6">
+          <ReportTemplatesManager templates={templates} clients={clients} />
+        </div>
+      )}
     </div>
   )
 }
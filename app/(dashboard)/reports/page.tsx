@@ -1,4 +1,6 @@
 import { createServerSupabaseClient } from '@/lib/supabase/server'
+import { getUserRole, canModify } from '@/lib/auth'
+import { templateFromRow } from '@/lib/report-templates'
 import PageHeader from '@/components/layout/PageHeader'
 import ReportsClient from './ReportsClient'
 
@@ -7,22 +9,33 @@ export const dynamic = 'force-dynamic'
 async function getReportData() {
   const supabase = createServerSupabaseClient()
 
-  const [trialsRes] = await Promise.all([
+  const [trialsRes, templatesRes, clientsRes] = await Promise.all([
     supabase.from('trials').select('id, name').order('id'),
+    supabase.from('report_templates').select('*').order('name'),
+    supabase.from('clients').select('id, name, report_template_id').order('name'),
   ])
 
+  const clients = clientsRes.data || []
+  const templates = (templatesRes.data || []).map(row => ({
+    ...templateFromRow(row),
+    id: row.id as string,
+    client_ids: clients.filter(c => c.report_template_id === row.id).map(c => c.id),
+  }))
+
   return {
     trials: trialsRes.data || [],
+    templates,
+    clients: clients.map(c => ({ id: c.id, name: c.name })),
   }
 }
 
 export default async function ReportsPage() {
-  const { trials } = await getReportData()
+  const [{ trials, templates, clients }, { role }] = await Promise.all([getReportData(), getUserRole()])
 
   return (
     <div>
       <PageHeader label="REPORTING" title="Reports" />
-      <ReportsClient trials={trials} />
+      <ReportsClient trials={trials} templates={templates} clients={clients} canManageTemplates={canModify(role)} />
     </div>
   )
 }
@@ -5,6 +5,7 @@ import Button from '@/components/ui/Button'
 import { createClient } from '@/lib/supabase/client'
 import { LogOut, Database, Download, CheckCircle, XCircle, Shield, Users, ChevronDown } from 'lucide-react'
 import { useUserRole, type UserRole } from '@/components/providers/UserRoleProvider'
+import MetricCatalogueManager from '@/components/analysis/MetricCatalogueManager'
 
 const EXPORT_TABLES = [
   { key: 'trials', label: 'Trials' },
@@ -211,6 +212,9 @@ export default function SettingsClient({ user }: { user: any }) {
         </div>
       )}
 
+      {/* Metric catalogue (Admin only) */}
+      {canManageUsers && <MetricCatalogueManager />}
+
       {/* Supabase connection */}
       <div className="card">
         <p className="signpost-label mb-3">SUPABASE CONNECTION</p>
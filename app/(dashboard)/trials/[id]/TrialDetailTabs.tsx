@@ -7,6 +7,11 @@ import SoilHealthTable from '@/components/trials/SoilHealthTable'
 import PlotDataTable from '@/components/trials/PlotDataTable'
 import ManagementLog from '@/components/trials/ManagementLog'
 import MetadataTable from '@/components/trials/MetadataTable'
+import SampleRegistry from '@/components/trials/SampleRegistry'
+import TrialDesignPanel from '@/components/trials/TrialDesignPanel'
+import DepthProfileChart from '@/components/trials/DepthProfileChart'
+import SavedAnalysesList from '@/components/trials/SavedAnalysesList'
+import ReportHistory from '@/components/trials/ReportHistory'
 import PhotosTab from '@/components/trials/PhotosTab'
 import TrialMap from '@/components/trials/TrialMapWrapper'
 import StatCard from '@/components/ui/StatCard'
@@ -18,6 +23,7 @@ import ApplicationZoneAnalysis from '@/components/trials/ApplicationZoneAnalysis
 import WeatherTab from '@/components/weather/WeatherTab'
 import { parseGPS } from '@/lib/weather'
 import { createClient } from '@/lib/supabase/client'
+import { withRegistry } from '@/lib/sample-registry'
 
 interface TrialDetailTabsProps {
   trial: any
@@ -34,7 +40,7 @@ interface TrialDetailTabsProps {
   supabaseUrl: string
 }
 
-const tabs = ['Summary', 'Treatments', 'Applications', 'Soil Health', 'Plot Data', 'Assay Results', 'Photos', 'Map', 'Weather', 'Fields', 'Management']
+const tabs = ['Summary', 'Treatments', 'Applications', 'Soil Health', 'Plot Data', 'Design', 'Assay Results', 'Samples', 'Photos', 'Map', 'Weather', 'Fields', 'Analyses', 'Reports', 'Management']
 
 // Hook to lazily fetch data from Supabase when a tab is first opened
 function useLazyTabData<T>(trialId: string, activeTab: string, triggerTab: string, fetcher: (supabase: any, trialId: string) => Promise<T>, initial?: T) {
@@ -92,11 +98,33 @@ export default function TrialDetailTabs({
     return data || []
   }, [])
 
+  // Only depth-resolved chemistry feeds the depth profile
+  const fetchDepthChemistry = useCallback(async (supabase: any, trialId: string) => {
+    const { data } = await supabase
+      .from('soil_chemistry')
+      .select('date, metric, value, unit, depth_upper_cm, depth_lower_cm')
+      .eq('trial_id', trialId)
+      .not('depth_upper_cm', 'is', null)
+    return data || []
+  }, [])
+
   const fetchPhotos = useCallback(async (supabase: any, trialId: string) => {
     const { data } = await supabase.from('trial_photos').select('*').eq('trial_id', trialId).order('created_at', { ascending: false })
     return data || []
   }, [])
 
+  const fetchAnalyses = useCallback(async (supabase: any, trialId: string) => {
+    const { data } = await supabase.from('saved_analyses').select('*').contains('trial_ids', [trialId]).order('updated_at', { ascending: false })
+    return data || []
+  }, [])
+
+  // Report history comes from the API, which signs the download URLs
+  const fetchReports = useCallback(async (_supabase: any, trialId: string) => {
+    const res = await fetch(`/api/trials/${encodeURIComponent(trialId)}/reports`)
+    if (!res.ok) throw new Error('Failed to load reports')
+    return res.json()
+  }, [])
+
   // Fetch spatial data (chemistry, GIS layers) — used by both Map and Applications (zone analysis) tabs
   const fetchSpatialData = useCallback(async (supabase: any, trialId: string) => {
     const fieldIds = linkedFieldsRef.current.map((lf: any) => lf.field_id).filter(Boolean)
@@ -109,8 +137,22 @@ export default function TrialDetailTabs({
       queries.push(supabase.from('field_gis_layers').select('*').in('field_id', fieldIds).order('created_at'))
     }
     const results = await Promise.all(queries)
+    // Chemistry from registered samples is placed by the registry's coordinates
+    const soilChemistry: any[] = await withRegistry(supabase, results[0].data || [])
+    const located = new Map<string, any>()
+    for (const row of soilChemistry) {
+      if (!row.sample_no || row.latitude == null || row.longitude == null || located.has(row.sample_no)) continue
+      located.set(row.sample_no, {
+        sample_no: row.sample_no,
+        latitude: Number(row.latitude),
+        longitude: Number(row.longitude),
+        property: null,
+        block: null,
+      })
+    }
     return {
-      soilChemistry: results[0].data || [],
+      soilChemistry,
+      registeredSamples: Array.from(located.values()),
       gisLayers: results[1].data || [],
       customLayers: results[2].data || [],
       fieldGisLayers: fieldIds.length > 0 ? (results[3].data || []) : [],
@@ -118,7 +160,10 @@ export default function TrialDetailTabs({
   }, [])
 
   const { data: metadata, loading: metadataLoading, error: metadataError } = useLazyTabData(trial.id, activeTab, 'Assay Results', fetchMetadata, [])
+  const { data: depthChemistry } = useLazyTabData(trial.id, activeTab, 'Soil Health', fetchDepthChemistry, [])
   const { data: photos, loading: photosLoading, error: photosError } = useLazyTabData(trial.id, activeTab, 'Photos', fetchPhotos, [])
+  const { data: analyses, loading: analysesLoading, error: analysesError } = useLazyTabData(trial.id, activeTab, 'Analyses', fetchAnalyses, [])
+  const { data: reports, loading: reportsLoading, error: reportsError } = useLazyTabData(trial.id, activeTab, 'Reports', fetchReports, [])
 
   // Spatial data (chemistry, GIS layers) — shared by Map and Applications zone analysis.
   // Trigger fetch on whichever tab is visited first to avoid a double-fetch.
@@ -134,6 +179,11 @@ export default function TrialDetailTabs({
   const zoneAnalysisData = spatialData
   const zoneLoading = spatialLoading
   const zoneError = spatialError
+  // Soil health samples, plus registered samples located only by the registry
+  const locatedSampleNos = new Set(samples.filter(s => s.latitude != null).map(s => s.sample_no))
+  const spatialSamples = spatialData
+    ? [...samples, ...spatialData.registeredSamples.filter((r: any) => !locatedSampleNos.has(r.sample_no))]
+    : samples
 
   return (
     <div>
@@ -224,7 +274,7 @@ export default function TrialDetailTabs({
 
       {activeTab === 'Treatments' && (
         <div className="card">
-          <TreatmentsTable treatments={treatments} />
+          <TreatmentsTable treatments={treatments} trialId={trial.id} />
         </div>
       )}
 
@@ -248,7 +298,7 @@ export default function TrialDetailTabs({
                 <ApplicationZoneAnalysis
                   trialId={trial.id}
                   applications={applications}
-                  samples={samples}
+                  samples={spatialSamples}
                   soilChemistry={zoneAnalysisData.soilChemistry}
                   gisLayers={zoneAnalysisData.gisLayers}
                   customLayers={zoneAnalysisData.customLayers}
@@ -260,9 +310,16 @@ export default function TrialDetailTabs({
       )}
 
       {activeTab === 'Soil Health' && (
-        <div className="card">
-          <SoilHealthTable samples={samples} />
-        </div>
+        <>
+          <div className="card">
+            <SoilHealthTable samples={samples} />
+          </div>
+          {depthChemistry && depthChemistry.length > 0 && (
+            <div className="card mt-4">
+              <DepthProfileChart chemistry={depthChemistry} />
+            </div>
+          )}
+        </>
       )}
 
       {activeTab === 'Plot Data' && (
@@ -271,6 +328,18 @@ export default function TrialDetailTabs({
         </div>
       )}
 
+      {activeTab === 'Design' && (
+        <div className="card">
+          <TrialDesignPanel
+            trialId={trial.id}
+            treatments={treatments}
+            numTreatments={trial.num_treatments}
+            defaultReps={trial.reps}
+            linkedFields={linkedFields}
+          />
+        </div>
+      )}
+
       {activeTab === 'Assay Results' && (
         <div className="card">
           {metadataLoading ? (
@@ -283,6 +352,12 @@ export default function TrialDetailTabs({
         </div>
       )}
 
+      {activeTab === 'Samples' && (
+        <div className="card">
+          <SampleRegistry trialId={trial.id} />
+        </div>
+      )}
+
       {activeTab === 'Photos' && (
         <div className="card">
           {photosLoading ? (
@@ -310,7 +385,7 @@ export default function TrialDetailTabs({
         <div className="card" style={{ display: activeTab === 'Map' ? undefined : 'none' }}>
           <TrialMap
             trial={trial}
-            samples={samples}
+            samples={spatialSamples}
             gisLayers={mapData.gisLayers}
             customLayers={mapData.customLayers}
             soilChemistry={mapData.soilChemistry}
@@ -341,6 +416,30 @@ export default function TrialDetailTabs({
         />
       )}
 
+      {activeTab === 'Analyses' && (
+        <div className="card">
+          {analysesLoading ? (
+            <p className="text-sm text-brand-grey-1 py-8 text-center">Loading analyses…</p>
+          ) : analysesError ? (
+            <p className="text-sm text-red-600 py-8 text-center">Failed to load analyses. Please refresh the page.</p>
+          ) : (
+            <SavedAnalysesList analyses={analyses || []} trialId={trial.id} />
+          )}
+        </div>
+      )}
+
+      {activeTab === 'Reports' && (
+        <div className="card">
+          {reportsLoading ? (
+            <p className="text-sm text-brand-grey-1 py-8 text-center">Loading reports…</p>
+          ) : reportsError ? (
+            <p className="text-sm text-red-600 py-8 text-center">Failed to load reports. Please refresh the page.</p>
+          ) : (
+            <ReportHistory jobs={reports || []} trialId={trial.id} />
+          )}
+        </div>
+      )}
+
       {activeTab === 'Management' && (
         <div className="card">
           <ManagementLog entries={log} trialId={trial.id} />
@@ -6,7 +6,7 @@ import TrialStatusToggle from '@/components/trials/TrialStatusToggle'
 import DataBadge from '@/components/ui/DataBadge'
 import Link from 'next/link'
 import Button from '@/components/ui/Button'
-import { Upload } from 'lucide-react'
+import { Download, Upload } from 'lucide-react'
 import TrialDetailTabs from './TrialDetailTabs'
 
 export const dynamic = 'force-dynamic'
@@ -18,7 +18,7 @@ async function getTrialData(id: string) {
   const [trialRes, treatmentsRes, samplesRes, plotsRes, logRes, dataFilesRes, chemCountRes, tissueCountRes, metadataCountRes, photosCountRes, gisCountRes, linkedFieldsRes, allFieldsRes, applicationsRes] = await Promise.all([
     supabase.from('trials').select('*').eq('id', id).single(),
     supabase.from('treatments').select('*').eq('trial_id', id).order('sort_order'),
-    supabase.from('soil_health_samples').select('*').eq('trial_id', id).order('sample_no'),
+    supabase.from('soil_health_samples').select('*').eq('trial_id', id).order('sample_no').order('depth_upper_cm'),
     supabase.from('plot_data').select('*').eq('trial_id', id).order('plot'),
     supabase.from('management_log').select('*').eq('trial_id', id).order('date'),
     supabase.from('trial_data_files').select('*').eq('trial_id', id),
@@ -108,14 +108,22 @@ export default async function TrialDetailPage({
               {trial.trial_type && <span>{trial.trial_type}</span>}
             </div>
           </div>
-          {canUpload(role) && (
-            <Link href={`/data-hub?trial=${encodeURIComponent(trial.id)}`}>
-              <Button size="sm">
-                <Upload size={14} />
-                Upload Data
+          <div className="flex items-center gap-2">
+            <a href={`/api/trials/template?trialId=${encodeURIComponent(trial.id)}`}>
+              <Button size="sm" variant="secondary">
+                <Download size={14} />
+                Template
               </Button>
-            </Link>
-          )}
+            </a>
+            {canUpload(role) && (
+              <Link href={`/data-hub?trial=${encodeURIComponent(trial.id)}`}>
+                <Button size="sm">
+                  <Upload size={14} />
+                  Upload Data
+                </Button>
+              </Link>
+            )}
+          </div>
         </div>
 
         {/* Data coverage badges */}
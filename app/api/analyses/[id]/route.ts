@@ -0,0 +1,109 @@
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+import { requireAuth, safeErrorResponse } from '@/lib/api-utils'
+import { canModify } from '@/lib/auth'
+import { sanitiseConfig } from '@/lib/analysis-config'
+
+async function loadOwner(id: string) {
+  const supabase = createServerSupabaseClient()
+  const { data } = await supabase
+    .from('saved_analyses')
+    .select('id, created_by')
+    .eq('id', id)
+    .single()
+  return data
+}
+
+export async function GET(
+  _request: Request,
+  { params }: { params: { id: string } }
+) {
+  const auth = await requireAuth()
+  if (!auth.authenticated) return auth.response
+
+  const supabase = createServerSupabaseClient()
+  const { data, error } = await supabase
+    .from('saved_analyses')
+    .select('*')
+    .eq('id', params.id)
+    .single()
+
+  if (error || !data) {
+    return NextResponse.json({ error: 'Analysis not found' }, { status: 404 })
+  }
+  return NextResponse.json(data)
+}
+
+/**
+ * PUT /api/analyses/[id]
+ *
+ * Body: { name?, description?, config? } — owner or admin only.
+ */
+export async function PUT(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const auth = await requireAuth()
+  if (!auth.authenticated) return auth.response
+
+  const existing = await loadOwner(params.id)
+  if (!existing) {
+    return NextResponse.json({ error: 'Analysis not found' }, { status: 404 })
+  }
+  if (existing.created_by !== auth.userId && !canModify(auth.role)) {
+    return NextResponse.json({ error: 'Only the owner can change this analysis' }, { status: 403 })
+  }
+
+  const body = await request.json()
+  const updates: Record<string, unknown> = { updated_at: new Date().toISOString() }
+
+  if ('name' in body) {
+    const name = typeof body.name === 'string' ? body.name.trim() : ''
+    if (!name) {
+      return NextResponse.json({ error: 'Analysis name is required' }, { status: 400 })
+    }
+    updates.name = name
+  }
+  if ('description' in body) updates.description = body.description || null
+  if ('config' in body) {
+    const config = sanitiseConfig(body.config)
+    updates.config = config
+    updates.trial_ids = config.trialIds
+  }
+
+  const supabase = createServerSupabaseClient()
+  const { data, error } = await supabase
+    .from('saved_analyses')
+    .update(updates)
+    .eq('id', params.id)
+    .select()
+    .single()
+
+  if (error) return safeErrorResponse(error, 'PUT /api/analyses/[id]')
+  return NextResponse.json(data)
+}
+
+export async function DELETE(
+  _request: Request,
+  { params }: { params: { id: string } }
+) {
+  const auth = await requireAuth()
+  if (!auth.authenticated) return auth.response
+
+  const existing = await loadOwner(params.id)
+  if (!existing) {
+    return NextResponse.json({ error: 'Analysis not found' }, { status: 404 })
+  }
+  if (existing.created_by !== auth.userId && !canModify(auth.role)) {
+    return NextResponse.json({ error: 'Only the owner can delete this analysis' }, { status: 403 })
+  }
+
+  const supabase = createServerSupabaseClient()
+  const { error } = await supabase
+    .from('saved_analyses')
+    .delete()
+    .eq('id', params.id)
+
+  if (error) return safeErrorResponse(error, 'DELETE /api/analyses/[id]')
+  return NextResponse.json({ ok: true })
+}
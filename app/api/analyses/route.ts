@@ -0,0 +1,74 @@
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+import { requireAuth, safeErrorResponse } from '@/lib/api-utils'
+import { sanitiseConfig } from '@/lib/analysis-config'
+
+/**
+ * GET /api/analyses
+ *
+ * Query params:
+ *   trialId — only analyses that include this trial
+ *   mine    — 'true' to list only the current user's analyses
+ */
+export async function GET(request: Request) {
+  const auth = await requireAuth()
+  if (!auth.authenticated) return auth.response
+
+  const { searchParams } = new URL(request.url)
+  const trialId = searchParams.get('trialId')
+  const mine = searchParams.get('mine') === 'true'
+
+  const supabase = createServerSupabaseClient()
+  let query = supabase
+    .from('saved_analyses')
+    .select('*')
+    .order('updated_at', { ascending: false })
+
+  if (trialId) query = query.contains('trial_ids', [trialId])
+  if (mine) query = query.eq('created_by', auth.userId)
+
+  const { data, error } = await query
+
+  if (error) return safeErrorResponse(error, 'GET /api/analyses')
+  return NextResponse.json(data)
+}
+
+/**
+ * POST /api/analyses
+ *
+ * Body: { name, description?, config }
+ * trial_ids is taken from config.trialIds so the analysis shows up on each
+ * trial's Analyses tab.
+ */
+export async function POST(request: Request) {
+  const auth = await requireAuth()
+  if (!auth.authenticated) return auth.response
+
+  const supabase = createServerSupabaseClient()
+  const body = await request.json()
+  const name = typeof body.name === 'string' ? body.name.trim() : ''
+
+  if (!name) {
+    return NextResponse.json({ error: 'Analysis name is required' }, { status: 400 })
+  }
+  if (!body.config || typeof body.config !== 'object') {
+    return NextResponse.json({ error: 'Analysis config is required' }, { status: 400 })
+  }
+
+  const config = sanitiseConfig(body.config)
+
+  const { data, error } = await supabase
+    .from('saved_analyses')
+    .insert({
+      name,
+      description: body.description || null,
+      config,
+      trial_ids: config.trialIds,
+      created_by: auth.userId,
+    })
+    .select()
+    .single()
+
+  if (error) return safeErrorResponse(error, 'POST /api/analyses')
+  return NextResponse.json(data, { status: 201 })
+}
@@ -0,0 +1,237 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import { requireAuth, safeErrorResponse } from '@/lib/api-utils'
+import { correlate, principalComponents, type CorrelationMethod } from '@/lib/stats'
+import { canonicalMeasurement, type CanonicalMetric } from '@/lib/units'
+import { loadMetricCatalogue } from '@/lib/metric-catalogue'
+import { withRegistry } from '@/lib/sample-registry'
+
+interface Variable {
+  key: string         // "Soil: pH", "Plot: Yield (t/ha)", ...
+  source: string
+  metric: string
+  unit: string
+  n: number
+}
+
+interface SampleUnit {
+  key: string         // trial + normalised sample/plot number
+  trialId: string
+  ref: string
+  treatment: string | null
+  values: Record<string, number>
+}
+
+const VALID_METHODS = new Set(['pearson', 'spearman'])
+const VALID_SOURCES = new Set(['soilChemistry', 'tissueChemistry', 'sampleMetadata', 'plotData'])
+const MAX_VARIABLES = 40
+
+const PLOT_METRICS: { column: string; metric: string; unit: string }[] = [
+  { column: 'yield_t_ha', metric: 'Yield', unit: 't/ha' },
+  { column: 'plant_count', metric: 'Plant Count', unit: 'count' },
+  { column: 'vigour', metric: 'Vigour', unit: 'score' },
+  { column: 'disease_score', metric: 'Disease Score', unit: 'score' },
+]
+
+/** Sample numbers and plot numbers are matched case-insensitively, ignoring leading zeros. */
+function normaliseRef(ref: unknown): string {
+  return String(ref ?? '').trim().toLowerCase().replace(/^0+(?=\d)/, '')
+}
+
+/**
+ * GET /api/analysis/correlation
+ * Query params:
+ *   - trialId / trialIds: trials to include (optional; default all)
+ *   - method: 'pearson' | 'spearman' (default: 'pearson')
+ *   - sources: comma-separated subset of soilChemistry, tissueChemistry,
+ *     sampleMetadata, plotData (default: all)
+ *   - includeExcluded: 'true' to keep records excluded from analysis
+ *
+ * Joins every source on trial + sample number (plot number for plot data),
+ * averaging repeated measurements of a metric within a sample. Measurements
+ * are put on their catalogue name and unit first (as in lib/analysis), and
+ * values left in different units stay separate variables. Returns the
+ * joined units, the correlation matrix with p-values, and a PCA of the
+ * variables with good coverage.
+ */
+export async function GET(request: NextRequest) {
+  const auth = await requireAuth()
+  if (!auth.authenticated) return auth.response
+
+  const supabase = createServerSupabaseClient()
+  const params = request.nextUrl.searchParams
+
+  const trialIdsParam = params.get('trialIds')
+  const trialId = params.get('trialId')
+  const method = params.get('method') || 'pearson'
+  const sourcesParam = params.get('sources')
+  const includeExcluded = params.get('includeExcluded') === 'true'
+
+  if (!VALID_METHODS.has(method)) {
+    return NextResponse.json({ error: 'Invalid method' }, { status: 400 })
+  }
+  const sources = sourcesParam
+    ? sourcesParam.split(',').map(s => s.trim()).filter(Boolean)
+    : Array.from(VALID_SOURCES)
+  if (sources.length === 0 || !sources.every(s => VALID_SOURCES.has(s))) {
+    return NextResponse.json({ error: 'Invalid sources' }, { status: 400 })
+  }
+
+  const trialIds = trialIdsParam
+    ? trialIdsParam.split(',').map(s => s.trim()).filter(Boolean)
+    : trialId
+      ? [trialId]
+      : []
+
+  const fetchTable = async (table: string) => {
+    let query = supabase.from(table).select('*')
+    if (trialIds.length > 0) query = query.in('trial_id', trialIds)
+    if (!includeExcluded) query = query.eq('excluded', false)
+    return query
+  }
+
+  const tQuery = trialIds.length > 0
+    ? supabase.from('treatments').select('trial_id, trt_number, product, application').in('trial_id', trialIds)
+    : supabase.from('treatments').select('trial_id, trt_number, product, application')
+
+  const [soilRes, tissueRes, metaRes, plotRes, trtRes] = await Promise.all([
+    sources.includes('soilChemistry') ? fetchTable('soil_chemistry') : null,
+    sources.includes('tissueChemistry') ? fetchTable('tissue_chemistry') : null,
+    sources.includes('sampleMetadata') ? fetchTable('sample_metadata') : null,
+    sources.includes('plotData') ? fetchTable('plot_data') : null,
+    tQuery,
+  ])
+
+  for (const res of [soilRes, tissueRes, metaRes, plotRes]) {
+    if (res?.error) return safeErrorResponse(res.error, 'GET /api/analysis/correlation')
+  }
+
+  let catalogues: CanonicalMetric[][]
+  let soilRows: any[], tissueRows: any[]
+  try {
+    // Registered samples give lab rows their treatment
+    ;[soilRows, tissueRows] = await Promise.all([
+      withRegistry(supabase, soilRes?.data || []),
+      withRegistry(supabase, tissueRes?.data || []),
+    ])
+    catalogues = await Promise.all([
+      soilRes ? loadMetricCatalogue(supabase, 'soilChemistry') : [],
+      tissueRes ? loadMetricCatalogue(supabase, 'tissueChemistry') : [],
+      metaRes ? loadMetricCatalogue(supabase, 'sampleMetadata') : [],
+    ])
+  } catch (err) {
+    return safeErrorResponse(err, 'GET /api/analysis/correlation')
+  }
+  const [soilCatalogue, tissueCatalogue, metaCatalogue] = catalogues
+
+  const treatmentLabels: Record<string, Record<number, string>> = {}
+  for (const t of trtRes.data || []) {
+    if (!treatmentLabels[t.trial_id]) treatmentLabels[t.trial_id] = {}
+    treatmentLabels[t.trial_id][t.trt_number] = t.product || t.application || `Trt ${t.trt_number}`
+  }
+
+  // Accumulate sums per unit × variable so repeated measurements are averaged
+  const units = new Map<string, { trialId: string; ref: string; treatment: string | null; sums: Map<string, { s: number; n: number }> }>()
+  const variables = new Map<string, Omit<Variable, 'n'>>()
+
+  const add = (row: any, ref: unknown, source: string, metric: string, unit: string, raw: unknown, trtNum: unknown) => {
+    const value = typeof raw === 'string' ? parseFloat(raw) : (raw as number)
+    if (raw == null || !isFinite(value)) return
+    const norm = normaliseRef(ref)
+    if (!norm) return
+
+    const unitKey = `${row.trial_id}:${norm}`
+    if (!units.has(unitKey)) {
+      units.set(unitKey, { trialId: row.trial_id, ref: String(ref).trim(), treatment: null, sums: new Map() })
+    }
+    const u = units.get(unitKey)!
+    if (u.treatment == null && trtNum != null && trtNum !== '') {
+      const n = Number(trtNum)
+      u.treatment = treatmentLabels[row.trial_id]?.[n] || `Trt ${n}`
+    }
+
+    const varKey = unit ? `${source}: ${metric} (${unit})` : `${source}: ${metric}`
+    if (!variables.has(varKey)) variables.set(varKey, { key: varKey, source, metric, unit })
+    const acc = u.sums.get(varKey) || { s: 0, n: 0 }
+    acc.s += value
+    acc.n += 1
+    u.sums.set(varKey, acc)
+  }
+
+  // Catalogue name and unit, so aliases and convertible units share a variable
+  const addMeasurement = (row: any, source: string, catalogue: CanonicalMetric[], trtNum: unknown) => {
+    const value = typeof row.value === 'string' ? parseFloat(row.value) : row.value
+    if (row.value == null || row.metric == null || !isFinite(value)) return
+    const m = canonicalMeasurement({ metric: row.metric, value, unit: row.unit || '' }, catalogue)
+    add(row, row.sample_no, source, m.metric, m.unit, m.value, trtNum)
+  }
+
+  for (const row of soilRows) addMeasurement(row, 'Soil', soilCatalogue, row.treatment)
+  for (const row of tissueRows) addMeasurement(row, 'Tissue', tissueCatalogue, row.treatment)
+  for (const row of metaRes?.data || []) addMeasurement(row, row.assay_type || 'Assay', metaCatalogue, row.treatment)
+  for (const row of plotRes?.data || []) {
+    for (const pm of PLOT_METRICS) add(row, row.plot, 'Plot', pm.metric, pm.unit, row[pm.column], row.trt_number)
+  }
+
+  const unitList: SampleUnit[] = Array.from(units.entries()).map(([key, u]) => ({
+    key,
+    trialId: u.trialId,
+    ref: u.ref,
+    treatment: u.treatment,
+    values: Object.fromEntries(Array.from(u.sums.entries()).map(([k, acc]) => [k, acc.s / acc.n])),
+  }))
+
+  // Keep the best-covered variables so the matrix stays readable
+  const variableList: Variable[] = Array.from(variables.values())
+    .map(v => ({ ...v, n: unitList.filter(u => v.key in u.values).length }))
+    .filter(v => v.n >= 3)
+    .sort((a, b) => b.n - a.n || a.key.localeCompare(b.key))
+    .slice(0, MAX_VARIABLES)
+    .sort((a, b) => a.key.localeCompare(b.key))
+
+  const columns = variableList.map(v => unitList.map(u => u.values[v.key] ?? NaN))
+  const size = variableList.length
+  const r: (number | null)[][] = Array.from({ length: size }, () => new Array(size).fill(null))
+  const p: (number | null)[][] = Array.from({ length: size }, () => new Array(size).fill(null))
+  const n: number[][] = Array.from({ length: size }, () => new Array(size).fill(0))
+  for (let i = 0; i < size; i++) {
+    for (let j = i; j < size; j++) {
+      const res = i === j
+        ? { r: 1, pValue: 0, n: variableList[i].n }
+        : correlate(columns[i], columns[j], method as CorrelationMethod)
+      r[i][j] = r[j][i] = res.r
+      p[i][j] = p[j][i] = res.pValue
+      n[i][j] = n[j][i] = res.n
+    }
+  }
+
+  // PCA on complete cases of the variables measured on most units
+  const maxN = Math.max(0, ...variableList.map(v => v.n))
+  const pcaVars = variableList.filter(v => v.n >= 0.8 * maxN)
+  const complete = unitList.filter(u => pcaVars.every(v => v.key in u.values))
+  const varying = pcaVars.filter(v => new Set(complete.map(u => u.values[v.key])).size > 1)
+  const pcaResult = principalComponents(complete.map(u => varying.map(v => u.values[v.key])))
+  const pca = pcaResult && {
+    variables: varying.map(v => v.key),
+    explained: pcaResult.explained,
+    scores: complete.map((u, i) => ({
+      unit: u.key,
+      ref: u.ref,
+      trialId: u.trialId,
+      treatment: u.treatment,
+      pc1: pcaResult.scores[i][0],
+      pc2: pcaResult.scores[i][1],
+    })),
+    loadings: varying.map((v, j) => ({ variable: v.key, pc1: pcaResult.loadings[j][0], pc2: pcaResult.loadings[j][1] })),
+  }
+
+  return NextResponse.json({
+    method,
+    variables: variableList,
+    units: unitList,
+    matrix: { r, p, n },
+    pca,
+  }, {
+    headers: { 'Cache-Control': 'private, max-age=30, stale-while-revalidate=60' },
+  })
+}
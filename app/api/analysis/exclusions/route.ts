@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import { requireAuth, safeErrorResponse } from '@/lib/api-utils'
+import { canUpload } from '@/lib/auth'
+
+const VALID_TABLES = new Set(['plot_data', 'soil_chemistry', 'tissue_chemistry', 'sample_metadata'])
+
+/**
+ * POST /api/analysis/exclusions
+ * Body: { table, ids: string[], excluded: boolean, reason?: string }
+ *
+ * Excludes records from analysis (reason required) or restores them.
+ * Records are flagged, never deleted, so `includeExcluded=true` on
+ * /api/analysis reproduces the original result.
+ */
+export async function POST(request: Request) {
+  const auth = await requireAuth()
+  if (!auth.authenticated) return auth.response
+  if (!canUpload(auth.role)) {
+    return NextResponse.json({ error: 'Upload permission required' }, { status: 403 })
+  }
+
+  const body = await request.json().catch(() => null)
+  const table = body?.table
+  const ids: unknown = body?.ids
+  const excluded = body?.excluded !== false
+  const reason = typeof body?.reason === 'string' ? body.reason.trim() : ''
+
+  if (!VALID_TABLES.has(table)) {
+    return NextResponse.json({ error: 'Invalid table' }, { status: 400 })
+  }
+  if (!Array.isArray(ids) || ids.length === 0 || !ids.every(id => typeof id === 'string')) {
+    return NextResponse.json({ error: 'ids must be a non-empty array' }, { status: 400 })
+  }
+  if (excluded && !reason) {
+    return NextResponse.json({ error: 'A reason is required to exclude records' }, { status: 400 })
+  }
+
+  const updates = excluded
+    ? { excluded: true, exclusion_reason: reason, excluded_by: auth.userId, excluded_at: new Date().toISOString() }
+    : { excluded: false, exclusion_reason: null, excluded_by: null, excluded_at: null }
+
+  const supabase = createServerSupabaseClient()
+  const { data, error } = await supabase
+    .from(table)
+    .update(updates)
+    .in('id', ids as string[])
+    .select('id')
+
+  if (error) return safeErrorResponse(error, 'POST /api/analysis/exclusions')
+  return NextResponse.json({ updated: data?.length ?? 0 })
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import { requireAuth, safeErrorResponse } from '@/lib/api-utils'
+import { parseAnalysisQuery, runAnalysis } from '@/lib/analysis'
+import { buildAnalysisWorkbook } from '@/lib/analysis-export'
+
+/**
+ * GET /api/analysis/export
+ * Takes the same query params as GET /api/analysis and returns the results
+ * as an XLSX workbook: a summary sheet per metric, a long-format "Raw Data"
+ * sheet with trial/plot/rep provenance, and a "Parameters" sheet.
+ */
+export async function GET(request: NextRequest) {
+  const auth = await requireAuth()
+  if (!auth.authenticated) return auth.response
+
+  const query = parseAnalysisQuery(request.nextUrl.searchParams)
+  if ('error' in query) {
+    return NextResponse.json({ error: query.error }, { status: 400 })
+  }
+
+  try {
+    const supabase = createServerSupabaseClient()
+    const { metrics, rawValues } = await runAnalysis(supabase, query)
+    if (metrics.length === 0) {
+      return NextResponse.json({ error: 'No data found for the selected criteria' }, { status: 404 })
+    }
+
+    const buffer = buildAnalysisWorkbook(query, metrics, rawValues, request.nextUrl.searchParams.toString())
+    const stamp = new Date().toISOString().slice(0, 10)
+    const scope = query.trialIds.length === 1 ? query.trialIds[0] : query.trialIds.length > 1 ? 'multi-trial' : 'all-trials'
+    const filename = `analysis_${scope}_${query.source}_${stamp}.xlsx`.replace(/[^\w.-]/g, '_')
+
+    return new NextResponse(new Uint8Array(buffer), {
+      headers: {
+        'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'private, no-store',
+      },
+    })
+  } catch (err) {
+    return safeErrorResponse(err, 'GET /api/analysis/export')
+  }
+}
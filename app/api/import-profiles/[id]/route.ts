@@ -0,0 +1,69 @@
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+import { requireAuth, safeErrorResponse } from '@/lib/api-utils'
+import { canUpload } from '@/lib/auth'
+import { sanitiseProfile, PROFILE_FILE_TYPES } from '@/lib/import-profiles'
+
+/**
+ * PUT /api/import-profiles/[id]
+ *
+ * Body: the same fields as POST /api/import-profiles (without rawUploadId).
+ * The header fingerprint is recomputed from headers.
+ */
+export async function PUT(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const auth = await requireAuth()
+  if (!auth.authenticated) return auth.response
+  if (!canUpload(auth.role)) {
+    return NextResponse.json({ error: 'Upload permission required' }, { status: 403 })
+  }
+
+  const profile = sanitiseProfile(await request.json())
+  if (!profile.name) {
+    return NextResponse.json({ error: 'Profile name is required' }, { status: 400 })
+  }
+  if (!PROFILE_FILE_TYPES[profile.file_type]) {
+    return NextResponse.json({ error: 'Invalid file type' }, { status: 400 })
+  }
+  if (profile.headers.length === 0) {
+    return NextResponse.json({ error: 'Headers are required to match files to the profile' }, { status: 400 })
+  }
+
+  try {
+    const supabase = createServerSupabaseClient()
+    const { data, error } = await supabase
+      .from('import_profiles')
+      .update({ ...profile, updated_at: new Date().toISOString() })
+      .eq('id', params.id)
+      .select()
+      .single()
+    if (error || !data) {
+      return NextResponse.json({ error: 'Profile not found' }, { status: 404 })
+    }
+    return NextResponse.json(data)
+  } catch (err) {
+    return safeErrorResponse(err, 'PUT /api/import-profiles/[id]')
+  }
+}
+
+export async function DELETE(
+  _request: Request,
+  { params }: { params: { id: string } }
+) {
+  const auth = await requireAuth()
+  if (!auth.authenticated) return auth.response
+  if (!canUpload(auth.role)) {
+    return NextResponse.json({ error: 'Upload permission required' }, { status: 403 })
+  }
+
+  const supabase = createServerSupabaseClient()
+  const { error } = await supabase
+    .from('import_profiles')
+    .delete()
+    .eq('id', params.id)
+
+  if (error) return safeErrorResponse(error, 'DELETE /api/import-profiles/[id]')
+  return NextResponse.json({ ok: true })
+}
@@ -0,0 +1,98 @@
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth, safeErrorResponse } from '@/lib/api-utils'
+import { canUpload } from '@/lib/auth'
+import { sanitiseProfile, profileFromRow, PROFILE_FILE_TYPES, type ImportProfile } from '@/lib/import-profiles'
+
+/**
+ * GET /api/import-profiles
+ * Query params:
+ *   - fileType: only profiles for this file type (optional)
+ */
+export async function GET(request: NextRequest) {
+  const auth = await requireAuth()
+  if (!auth.authenticated) return auth.response
+
+  const supabase = createServerSupabaseClient()
+  let query = supabase.from('import_profiles').select('*').order('name')
+  const fileType = request.nextUrl.searchParams.get('fileType')
+  if (fileType) query = query.eq('file_type', fileType)
+
+  const { data, error } = await query
+  if (error) return safeErrorResponse(error, 'GET /api/import-profiles')
+  return NextResponse.json(data || [])
+}
+
+/**
+ * POST /api/import-profiles
+ *
+ * Body: { name, lab?, file_type, headers, column_overrides?, units?,
+ *         header_row_offset?, sheet_name?, date_format? }
+ *
+ * Or, to save a mapping confirmed in column review:
+ *   { name, lab?, rawUploadId, column_overrides }
+ * The file type and headers come from the raw upload; sheet, offset, units
+ * and date format carry over from the profile it was read with, if any.
+ */
+export async function POST(request: NextRequest) {
+  const auth = await requireAuth()
+  if (!auth.authenticated) return auth.response
+  if (!canUpload(auth.role)) {
+    return NextResponse.json({ error: 'Upload permission required' }, { status: 403 })
+  }
+
+  const body = await request.json()
+
+  try {
+    const supabase = createServerSupabaseClient()
+    let input = body
+
+    if (body.rawUploadId) {
+      const { data: rawUpload } = await supabase
+        .from('raw_uploads')
+        .select('file_type, headers, import_profile_id')
+        .eq('id', body.rawUploadId)
+        .single()
+      if (!rawUpload) {
+        return NextResponse.json({ error: 'Upload not found' }, { status: 404 })
+      }
+
+      let base: Partial<ImportProfile> = {}
+      if (rawUpload.import_profile_id) {
+        const { data } = await supabase.from('import_profiles').select('*').eq('id', rawUpload.import_profile_id).single()
+        if (data) base = profileFromRow(data)
+      }
+
+      input = {
+        ...base,
+        name: body.name,
+        lab: body.lab,
+        file_type: rawUpload.file_type,
+        headers: rawUpload.headers || [],
+        column_overrides: { ...base.column_overrides, ...body.column_overrides },
+      }
+    }
+
+    const profile = sanitiseProfile(input)
+    if (!profile.name) {
+      return NextResponse.json({ error: 'Profile name is required' }, { status: 400 })
+    }
+    if (!PROFILE_FILE_TYPES[profile.file_type]) {
+      return NextResponse.json({ error: 'Invalid file type' }, { status: 400 })
+    }
+    if (profile.headers.length === 0) {
+      return NextResponse.json({ error: 'Headers are required to match files to the profile' }, { status: 400 })
+    }
+
+    const { data, error } = await supabase
+      .from('import_profiles')
+      .insert({ ...profile, created_by: auth.userId })
+      .select()
+      .single()
+    if (error) throw error
+
+    return NextResponse.json(data, { status: 201 })
+  } catch (err) {
+    return safeErrorResponse(err, 'POST /api/import-profiles')
+  }
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server'
+import { createAdminSupabaseClient } from '@/lib/supabase/admin'
+import { safeErrorResponse } from '@/lib/api-utils'
+import { scheduleWeeklyJobs, processPendingJobs } from '@/lib/report-jobs'
+import { dispatchOutbox, getMailer } from '@/lib/mailer'
+
+/**
+ * POST /api/jobs/reports
+ *
+ * Scheduler entry point, called by cron (hourly is plenty) with
+ * `Authorization: Bearer <CRON_SECRET>`. Queues weekly reports for active
+ * trials that are due, renders pending report jobs, then sends pending
+ * outbox emails through the configured mailer. Runs with the service role
+ * because there is no user session.
+ */
+export async function POST(request: Request) {
+  const secret = process.env.CRON_SECRET
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const supabase = createAdminSupabaseClient()
+  if (!supabase) {
+    return NextResponse.json({ error: 'SUPABASE_SERVICE_ROLE_KEY is not configured' }, { status: 503 })
+  }
+
+  try {
+    const scheduled = await scheduleWeeklyJobs(supabase)
+    const jobs = await processPendingJobs(supabase)
+    const mailer = getMailer()
+    const emails = await dispatchOutbox(supabase, mailer)
+
+    return NextResponse.json({
+      scheduled,
+      succeeded: jobs.filter(j => j.status === 'succeeded').length,
+      failed: jobs.filter(j => j.status === 'failed').length,
+      mailer: mailer.name,
+      emails,
+    })
+  } catch (err) {
+    return safeErrorResponse(err, 'POST /api/jobs/reports')
+  }
+}
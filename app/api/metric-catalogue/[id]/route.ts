@@ -0,0 +1,70 @@
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+import { requireAuth, safeErrorResponse } from '@/lib/api-utils'
+import { canModify } from '@/lib/auth'
+import { sanitiseMetric } from '@/lib/metric-catalogue'
+
+/**
+ * PUT /api/metric-catalogue/[id]
+ *
+ * Body: the same fields as POST /api/metric-catalogue (source can't change).
+ * Stored rows keep their names and values; merge them to re-key.
+ */
+export async function PUT(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const auth = await requireAuth()
+  if (!auth.authenticated) return auth.response
+  if (!canModify(auth.role)) {
+    return NextResponse.json({ error: 'Only admins can manage the metric catalogue' }, { status: 403 })
+  }
+
+  const metric = sanitiseMetric(await request.json())
+  if (!metric.name) {
+    return NextResponse.json({ error: 'Metric name is required' }, { status: 400 })
+  }
+
+  try {
+    const supabase = createServerSupabaseClient()
+    const { data, error } = await supabase
+      .from('metric_catalogue')
+      .update({ ...metric, updated_at: new Date().toISOString() })
+      .eq('id', params.id)
+      .select()
+      .single()
+    if (error?.code === '23505') {
+      return NextResponse.json({ error: `"${metric.name}" is already in the catalogue` }, { status: 409 })
+    }
+    if (error || !data) {
+      return NextResponse.json({ error: 'Metric not found' }, { status: 404 })
+    }
+    return NextResponse.json(data)
+  } catch (err) {
+    return safeErrorResponse(err, 'PUT /api/metric-catalogue/[id]')
+  }
+}
+
+/**
+ * DELETE /api/metric-catalogue/[id]
+ * A deleted entry that overrode a built-in one reverts to the built-in.
+ */
+export async function DELETE(
+  _request: Request,
+  { params }: { params: { id: string } }
+) {
+  const auth = await requireAuth()
+  if (!auth.authenticated) return auth.response
+  if (!canModify(auth.role)) {
+    return NextResponse.json({ error: 'Only admins can manage the metric catalogue' }, { status: 403 })
+  }
+
+  const supabase = createServerSupabaseClient()
+  const { error } = await supabase
+    .from('metric_catalogue')
+    .delete()
+    .eq('id', params.id)
+
+  if (error) return safeErrorResponse(error, 'DELETE /api/metric-catalogue/[id]')
+  return NextResponse.json({ ok: true })
+}
@@ -0,0 +1,38 @@
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+import { requireAuth, safeErrorResponse } from '@/lib/api-utils'
+import { canModify } from '@/lib/auth'
+import { CATALOGUE_TABLES, mergeMetrics } from '@/lib/metric-catalogue'
+
+/**
+ * POST /api/metric-catalogue/merge
+ *
+ * Body: { source, target, metrics: string[] }
+ * Records each metric name as an alias of the target entry and re-keys the
+ * rows stored under it to the target's name and unit. Returns
+ * { updated, skipped }; skipped rows would have duplicated a sample's
+ * existing value for the target.
+ */
+export async function POST(request: Request) {
+  const auth = await requireAuth()
+  if (!auth.authenticated) return auth.response
+  if (!canModify(auth.role)) {
+    return NextResponse.json({ error: 'Only admins can manage the metric catalogue' }, { status: 403 })
+  }
+
+  const body = await request.json()
+  const metrics = Array.isArray(body.metrics)
+    ? body.metrics.filter((m: unknown): m is string => typeof m === 'string' && m.trim() !== '')
+    : []
+  if (!CATALOGUE_TABLES[body.source] || typeof body.target !== 'string' || metrics.length === 0) {
+    return NextResponse.json({ error: 'source, target and metrics are required' }, { status: 400 })
+  }
+
+  try {
+    const supabase = createServerSupabaseClient()
+    const result = await mergeMetrics(supabase, body.source, body.target, metrics)
+    return NextResponse.json(result)
+  } catch (err) {
+    return safeErrorResponse(err, 'POST /api/metric-catalogue/merge')
+  }
+}
@@ -0,0 +1,88 @@
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth, safeErrorResponse } from '@/lib/api-utils'
+import { canModify } from '@/lib/auth'
+import {
+  CATALOGUE_TABLES, listMetricCatalogue, loadMetricCatalogue, sanitiseMetric,
+} from '@/lib/metric-catalogue'
+import { findCanonicalMetric } from '@/lib/units'
+
+/**
+ * GET /api/metric-catalogue
+ * Query params:
+ *   - source: soilChemistry | tissueChemistry | sampleMetadata (default soilChemistry)
+ *
+ * Returns { metrics, observed }: the catalogue entries (built-in ones with
+ * id null) and each metric/unit stored in the source's table, with the
+ * entry it resolves to (canonical null when it resolves to none).
+ */
+export async function GET(request: NextRequest) {
+  const auth = await requireAuth()
+  if (!auth.authenticated) return auth.response
+
+  const source = request.nextUrl.searchParams.get('source') || 'soilChemistry'
+  const table = CATALOGUE_TABLES[source]
+  if (!table) {
+    return NextResponse.json({ error: 'Invalid source' }, { status: 400 })
+  }
+
+  try {
+    const supabase = createServerSupabaseClient()
+    const [metrics, catalogue, observedRes] = await Promise.all([
+      listMetricCatalogue(supabase, source),
+      loadMetricCatalogue(supabase, source),
+      supabase.rpc('distinct_metrics', { p_table_name: table }),
+    ])
+    if (observedRes.error) throw observedRes.error
+
+    const observed = ((observedRes.data || []) as { metric: string; unit: string; n: number }[]).map(row => ({
+      metric: row.metric,
+      unit: row.unit,
+      rows: Number(row.n),
+      canonical: findCanonicalMetric(catalogue, row.metric)?.name ?? null,
+    }))
+    return NextResponse.json({ metrics, observed })
+  } catch (err) {
+    return safeErrorResponse(err, 'GET /api/metric-catalogue')
+  }
+}
+
+/**
+ * POST /api/metric-catalogue
+ *
+ * Body: { source, name, category?, unit, aliases?, equivalentWeight?,
+ *         optimalMin?, optimalMax? }
+ * An entry named like a built-in one replaces it for that source.
+ */
+export async function POST(request: NextRequest) {
+  const auth = await requireAuth()
+  if (!auth.authenticated) return auth.response
+  if (!canModify(auth.role)) {
+    return NextResponse.json({ error: 'Only admins can manage the metric catalogue' }, { status: 403 })
+  }
+
+  const body = await request.json()
+  if (!CATALOGUE_TABLES[body.source]) {
+    return NextResponse.json({ error: 'Invalid source' }, { status: 400 })
+  }
+  const metric = sanitiseMetric(body)
+  if (!metric.name) {
+    return NextResponse.json({ error: 'Metric name is required' }, { status: 400 })
+  }
+
+  try {
+    const supabase = createServerSupabaseClient()
+    const { data, error } = await supabase
+      .from('metric_catalogue')
+      .insert({ ...metric, source: body.source })
+      .select()
+      .single()
+    if (error?.code === '23505') {
+      return NextResponse.json({ error: `"${metric.name}" is already in the catalogue` }, { status: 409 })
+    }
+    if (error) throw error
+    return NextResponse.json(data, { status: 201 })
+  } catch (err) {
+    return safeErrorResponse(err, 'POST /api/metric-catalogue')
+  }
+}
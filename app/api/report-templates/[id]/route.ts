@@ -0,0 +1,81 @@
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+import { requireAuth, safeErrorResponse } from '@/lib/api-utils'
+import { canModify } from '@/lib/auth'
+import { sanitiseTemplate, assignTemplateClients } from '@/lib/report-templates'
+
+/**
+ * PUT /api/report-templates/[id]
+ *
+ * Body: the same fields as POST; client_ids, when present, replaces the
+ * set of clients using this template. Admin only.
+ */
+export async function PUT(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const auth = await requireAuth()
+  if (!auth.authenticated) return auth.response
+  if (!canModify(auth.role)) {
+    return NextResponse.json({ error: 'Only admins can manage report templates' }, { status: 403 })
+  }
+
+  const body = await request.json()
+  const template = sanitiseTemplate(body)
+  if (!template.name) {
+    return NextResponse.json({ error: 'Template name is required' }, { status: 400 })
+  }
+  if (template.sections.length === 0) {
+    return NextResponse.json({ error: 'Choose at least one section' }, { status: 400 })
+  }
+
+  try {
+    const supabase = createServerSupabaseClient()
+    if (template.is_default) {
+      const { error } = await supabase
+        .from('report_templates')
+        .update({ is_default: false })
+        .eq('is_default', true)
+        .neq('id', params.id)
+      if (error) throw error
+    }
+
+    const { data, error } = await supabase
+      .from('report_templates')
+      .update({ ...template, updated_at: new Date().toISOString() })
+      .eq('id', params.id)
+      .select()
+      .single()
+    if (error || !data) {
+      return NextResponse.json({ error: 'Template not found' }, { status: 404 })
+    }
+
+    if (Array.isArray(body.client_ids)) {
+      await assignTemplateClients(supabase, params.id, body.client_ids.filter((id: unknown) => typeof id === 'string'))
+    }
+
+    return NextResponse.json(data)
+  } catch (err) {
+    return safeErrorResponse(err, 'PUT /api/report-templates/[id]')
+  }
+}
+
+export async function DELETE(
+  _request: Request,
+  { params }: { params: { id: string } }
+) {
+  const auth = await requireAuth()
+  if (!auth.authenticated) return auth.response
+  if (!canModify(auth.role)) {
+    return NextResponse.json({ error: 'Only admins can manage report templates' }, { status: 403 })
+  }
+
+  const supabase = createServerSupabaseClient()
+  const { error } = await supabase
+    .from('report_templates')
+    .delete()
+    .eq('id', params.id)
+
+  if (error) return safeErrorResponse(error, 'DELETE /api/report-templates/[id]')
+  return NextResponse.json({ ok: true })
+}
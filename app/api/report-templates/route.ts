@@ -0,0 +1,75 @@
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+import { requireAuth, safeErrorResponse } from '@/lib/api-utils'
+import { canModify } from '@/lib/auth'
+import { sanitiseTemplate, assignTemplateClients } from '@/lib/report-templates'
+
+/**
+ * GET /api/report-templates
+ *
+ * Every template, each with the ids of the clients assigned to it.
+ */
+export async function GET() {
+  const auth = await requireAuth()
+  if (!auth.authenticated) return auth.response
+
+  const supabase = createServerSupabaseClient()
+  const [templatesRes, clientsRes] = await Promise.all([
+    supabase.from('report_templates').select('*').order('name'),
+    supabase.from('clients').select('id, report_template_id').not('report_template_id', 'is', null),
+  ])
+
+  if (templatesRes.error) return safeErrorResponse(templatesRes.error, 'GET /api/report-templates')
+
+  const clients = clientsRes.data || []
+  return NextResponse.json((templatesRes.data || []).map(t => ({
+    ...t,
+    client_ids: clients.filter(c => c.report_template_id === t.id).map(c => c.id),
+  })))
+}
+
+/**
+ * POST /api/report-templates
+ *
+ * Body: { name, description?, sections, metrics?, branding?, trial_types?,
+ *         is_default?, client_ids? } — admin only.
+ * Flagging a template as default clears the flag on the previous one.
+ */
+export async function POST(request: Request) {
+  const auth = await requireAuth()
+  if (!auth.authenticated) return auth.response
+  if (!canModify(auth.role)) {
+    return NextResponse.json({ error: 'Only admins can manage report templates' }, { status: 403 })
+  }
+
+  const body = await request.json()
+  const template = sanitiseTemplate(body)
+  if (!template.name) {
+    return NextResponse.json({ error: 'Template name is required' }, { status: 400 })
+  }
+  if (template.sections.length === 0) {
+    return NextResponse.json({ error: 'Choose at least one section' }, { status: 400 })
+  }
+
+  try {
+    const supabase = createServerSupabaseClient()
+    if (template.is_default) {
+      const { error } = await supabase.from('report_templates').update({ is_default: false }).eq('is_default', true)
+      if (error) throw error
+    }
+
+    const { data, error } = await supabase
+      .from('report_templates')
+      .insert({ ...template, created_by: auth.userId })
+      .select()
+      .single()
+    if (error) throw error
+
+    const clientIds = Array.isArray(body.client_ids) ? body.client_ids.filter((id: unknown) => typeof id === 'string') : []
+    await assignTemplateClients(supabase, data.id, clientIds)
+
+    return NextResponse.json({ ...data, client_ids: clientIds }, { status: 201 })
+  } catch (err) {
+    return safeErrorResponse(err, 'POST /api/report-templates')
+  }
+}
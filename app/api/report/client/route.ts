@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import { requireAuth, safeErrorResponse } from '@/lib/api-utils'
+import {
+  loadClientPortfolio,
+  buildClientReportPdf,
+  buildClientReportWorkbook,
+  portfolioFilename,
+} from '@/lib/client-report'
+
+const VALID_FORMATS = new Set(['pdf', 'xlsx'])
+
+/**
+ * GET /api/report/client
+ * Query params:
+ *   - clientId: client to report on (required)
+ *   - format: 'pdf' (default) or 'xlsx'
+ *   - year: only trials planted in this year (default: every season)
+ *
+ * Returns the client's portfolio report as an attachment: trial status,
+ * product performance across sites, soil trends per field and a map of
+ * trial locations (PDF only).
+ */
+export async function GET(request: NextRequest) {
+  const auth = await requireAuth()
+  if (!auth.authenticated) return auth.response
+
+  const params = request.nextUrl.searchParams
+  const clientId = params.get('clientId')
+  if (!clientId) {
+    return NextResponse.json({ error: 'Missing clientId' }, { status: 400 })
+  }
+  const format = params.get('format') || 'pdf'
+  if (!VALID_FORMATS.has(format)) {
+    return NextResponse.json({ error: 'Invalid format' }, { status: 400 })
+  }
+  const year = params.get('year')
+  if (year && !/^\d{4}$/.test(year)) {
+    return NextResponse.json({ error: 'Invalid year' }, { status: 400 })
+  }
+
+  try {
+    const supabase = createServerSupabaseClient()
+    const portfolio = await loadClientPortfolio(supabase, clientId, year)
+    if (!portfolio) {
+      return NextResponse.json({ error: 'Client not found' }, { status: 404 })
+    }
+
+    const body = format === 'xlsx' ? buildClientReportWorkbook(portfolio) : buildClientReportPdf(portfolio)
+    return new NextResponse(new Uint8Array(body), {
+      headers: {
+        'Content-Type': format === 'xlsx'
+          ? 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+          : 'application/pdf',
+        'Content-Disposition': `attachment; filename="${portfolioFilename(portfolio, format as 'pdf' | 'xlsx')}"`,
+        'Cache-Control': 'private, no-store',
+      },
+    })
+  } catch (err) {
+    return safeErrorResponse(err, 'GET /api/report/client')
+  }
+}
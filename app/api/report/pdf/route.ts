@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import { requireAuth, safeErrorResponse } from '@/lib/api-utils'
+import { generateTrialReport } from '@/lib/trial-report'
+import { REPORT_SECTIONS, BUILTIN_TEMPLATE, templateFromRow, type ReportSection, type ReportTemplate } from '@/lib/report-templates'
+
+const VALID_SECTIONS = new Set<string>(REPORT_SECTIONS)
+
+/**
+ * GET /api/report/pdf
+ * Query params:
+ *   - trialId: trial to report on (required)
+ *   - template: report_templates id, or 'builtin' for the standard layout
+ *     (default: the template for the trial's client or trial type)
+ *   - sections: comma-separated REPORT_SECTIONS in print order
+ *     (default: the template's)
+ *   - photos: comma-separated trial_photos ids (default: the most recent four)
+ *   - metrics: comma-separated soil/assay/tissue metrics to chart
+ *     (default: the template's, else the most significant)
+ *
+ * Returns the report as a PDF attachment, rendered server-side.
+ */
+export async function GET(request: NextRequest) {
+  const auth = await requireAuth()
+  if (!auth.authenticated) return auth.response
+
+  const params = request.nextUrl.searchParams
+  const trialId = params.get('trialId')
+  if (!trialId) {
+    return NextResponse.json({ error: 'Missing trialId' }, { status: 400 })
+  }
+
+  const list = (key: string) => params.get(key)?.split(',').map(s => s.trim()).filter(Boolean)
+  const sections = list('sections')
+  if (sections && sections.some(s => !VALID_SECTIONS.has(s))) {
+    return NextResponse.json({ error: 'Invalid section' }, { status: 400 })
+  }
+
+  try {
+    const supabase = createServerSupabaseClient()
+
+    let template: ReportTemplate | undefined
+    const templateId = params.get('template')
+    if (templateId === 'builtin') {
+      template = BUILTIN_TEMPLATE
+    } else if (templateId) {
+      const { data } = await supabase.from('report_templates').select('*').eq('id', templateId).single()
+      if (!data) {
+        return NextResponse.json({ error: 'Template not found' }, { status: 404 })
+      }
+      template = templateFromRow(data)
+    }
+
+    const report = await generateTrialReport(supabase, trialId, {
+      template,
+      sections: sections as ReportSection[] | undefined,
+      photoIds: list('photos'),
+      metrics: list('metrics'),
+    })
+    if (!report) {
+      return NextResponse.json({ error: 'Trial not found' }, { status: 404 })
+    }
+
+    return new NextResponse(new Uint8Array(report.pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${report.filename}"`,
+        'Cache-Control': 'private, no-store',
+      },
+    })
+  } catch (err) {
+    return safeErrorResponse(err, 'GET /api/report/pdf')
+  }
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createServerSupabaseClient } from '@/lib/supabase/server'
 import { requireAuth } from '@/lib/api-utils'
+import { controlResponse, type SiteObservation } from '@/lib/stats'
+import { resolveReportTemplate } from '@/lib/report-templates'
 
 export async function GET(request: NextRequest) {
   const auth = await requireAuth()
@@ -13,11 +15,12 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({ error: 'Missing trialId' }, { status: 400 })
   }
 
-  const [trialRes, treatmentsRes, samplesRes, plotsRes] = await Promise.all([
+  const [trialRes, treatmentsRes, samplesRes, plotsRes, photosRes] = await Promise.all([
     supabase.from('trials').select('*').eq('id', trialId).single(),
     supabase.from('treatments').select('*').eq('trial_id', trialId).order('sort_order'),
     supabase.from('soil_health_samples').select('*').eq('trial_id', trialId).order('sample_no'),
     supabase.from('plot_data').select('*').eq('trial_id', trialId),
+    supabase.from('trial_photos').select('id, filename, caption, taken_at, storage_path').eq('trial_id', trialId).order('taken_at', { ascending: false }),
   ])
 
   if (trialRes.error || !trialRes.data) {
@@ -29,7 +32,11 @@ export async function GET(request: NextRequest) {
   const plots = plotsRes.data || []
   const treatmentMap = new Map(treatments.map(t => [t.trt_number, t]))
 
+  const controlTrt = treatments.find(t => t.is_control)
+  const controlProduct = controlTrt ? controlTrt.product || `Trt ${controlTrt.trt_number}` : null
+
   const yieldByProduct: Record<string, { total: number; count: number }> = {}
+  const yieldObs: SiteObservation[] = []
   for (const p of plots) {
     if (p.yield_t_ha === null) continue
     const trt = treatmentMap.get(p.trt_number)
@@ -37,18 +44,55 @@ export async function GET(request: NextRequest) {
     if (!yieldByProduct[product]) yieldByProduct[product] = { total: 0, count: 0 }
     yieldByProduct[product].total += p.yield_t_ha
     yieldByProduct[product].count += 1
+    yieldObs.push({ group: product, site: trialId, block: p.rep != null ? String(p.rep) : null, value: p.yield_t_ha })
+  }
+
+  // Response vs the trial's control, paired by rep
+  const response = controlProduct
+    ? controlResponse(yieldObs, new Map([[trialId, controlProduct]]))
+    : null
+  const responseByProduct = new Map((response?.groups || []).map(g => [g.label, g]))
+
+  const yieldSummary = Object.entries(yieldByProduct).map(([product, data]) => {
+    const r = responseByProduct.get(product)
+    return {
+      product,
+      avgYield: data.count > 0 ? data.total / data.count : 0,
+      isControl: product === controlProduct,
+      differenceVsControl: r?.difference ?? null,
+      percentResponse: r?.percentResponse ?? null,
+    }
+  }).sort((a, b) => a.avgYield - b.avgYield)
+
+  // Signed thumbnails so photos can be picked for the PDF report
+  const photoRows = photosRes.data || []
+  const urlByPath = new Map<string, string>()
+  if (photoRows.length > 0) {
+    const { data: signed } = await supabase.storage
+      .from('trial-photos')
+      .createSignedUrls(photoRows.map(p => p.storage_path), 3600)
+    for (const item of signed || []) {
+      if (item.signedUrl && item.path) urlByPath.set(item.path, item.signedUrl)
+    }
   }
+  const photos = photoRows.map(p => ({
+    id: p.id,
+    filename: p.filename,
+    caption: p.caption,
+    taken_at: p.taken_at,
+    url: urlByPath.get(p.storage_path) ?? null,
+  }))
 
-  const yieldSummary = Object.entries(yieldByProduct).map(([product, data]) => ({
-    product,
-    avgYield: data.count > 0 ? data.total / data.count : 0,
-  })).sort((a, b) => a.avgYield - b.avgYield)
+  // The template the PDF report uses unless the user picks another
+  const { template, matchedBy } = await resolveReportTemplate(supabase, trialRes.data)
 
   return NextResponse.json({
     trial: trialRes.data,
     treatments,
     samples: samplesRes.data || [],
     yieldSummary,
+    photos,
+    template: { id: template.id, matchedBy },
   }, {
     headers: { 'Cache-Control': 'private, max-age=30, stale-while-revalidate=60' },
   })
@@ -0,0 +1,94 @@
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+import { requireAuth, safeErrorResponse } from '@/lib/api-utils'
+import { canModify, canUpload } from '@/lib/auth'
+import { sampleFromRow, sanitiseSample } from '@/lib/sample-registry'
+
+/**
+ * GET /api/samples/[id]
+ * The sample and its chain-of-custody events, oldest first.
+ */
+export async function GET(
+  _request: Request,
+  { params }: { params: { id: string } }
+) {
+  const auth = await requireAuth()
+  if (!auth.authenticated) return auth.response
+
+  const supabase = createServerSupabaseClient()
+  const [sampleRes, eventsRes] = await Promise.all([
+    supabase.from('samples').select('*').eq('id', params.id).maybeSingle(),
+    supabase
+      .from('sample_custody_events')
+      .select('status, note, recorded_by, recorded_at')
+      .eq('sample_id', params.id)
+      .order('recorded_at'),
+  ])
+  if (sampleRes.error || eventsRes.error) {
+    return safeErrorResponse(sampleRes.error || eventsRes.error, 'GET /api/samples/[id]')
+  }
+  if (!sampleRes.data) {
+    return NextResponse.json({ error: 'Sample not found' }, { status: 404 })
+  }
+  return NextResponse.json({ sample: sampleFromRow(sampleRes.data), events: eventsRes.data || [] })
+}
+
+/**
+ * PUT /api/samples/[id]
+ *
+ * Body: the same fields as a sample in POST /api/samples. The barcode and
+ * trial can't change; custody status goes through /api/samples/custody.
+ */
+export async function PUT(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const auth = await requireAuth()
+  if (!auth.authenticated) return auth.response
+  if (!canUpload(auth.role)) {
+    return NextResponse.json({ error: 'Upload permission required' }, { status: 403 })
+  }
+
+  const { barcode: _barcode, ...fields } = sanitiseSample(await request.json())
+
+  try {
+    const supabase = createServerSupabaseClient()
+    const { data, error } = await supabase
+      .from('samples')
+      .update({ ...fields, updated_at: new Date().toISOString() })
+      .eq('id', params.id)
+      .select()
+      .maybeSingle()
+    if (error) throw error
+    if (!data) {
+      return NextResponse.json({ error: 'Sample not found' }, { status: 404 })
+    }
+    return NextResponse.json(sampleFromRow(data))
+  } catch (err) {
+    return safeErrorResponse(err, 'PUT /api/samples/[id]')
+  }
+}
+
+/**
+ * DELETE /api/samples/[id]
+ * Removes the sample and its custody history; loaded results keep their barcode.
+ */
+export async function DELETE(
+  _request: Request,
+  { params }: { params: { id: string } }
+) {
+  const auth = await requireAuth()
+  if (!auth.authenticated) return auth.response
+  if (!canModify(auth.role)) {
+    return NextResponse.json({ error: 'Only admins can delete registered samples' }, { status: 403 })
+  }
+
+  const supabase = createServerSupabaseClient()
+  const { error } = await supabase
+    .from('samples')
+    .delete()
+    .eq('id', params.id)
+
+  if (error) return safeErrorResponse(error, 'DELETE /api/samples/[id]')
+  return NextResponse.json({ ok: true })
+}
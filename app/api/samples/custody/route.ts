@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import { requireAuth, safeErrorResponse } from '@/lib/api-utils'
+import { canUpload } from '@/lib/auth'
+import { isSampleStatus } from '@/lib/sample-registry'
+
+/**
+ * POST /api/samples/custody
+ * Move a batch of scanned barcodes to a custody status, logging an event
+ * per sample (record_sample_custody RPC, migration 030).
+ *
+ * Body: { barcodes: string[], status, note? }
+ * Returns { updated, unknown }: unknown lists barcodes that aren't registered.
+ */
+export async function POST(request: NextRequest) {
+  const auth = await requireAuth()
+  if (!auth.authenticated) return auth.response
+  if (!canUpload(auth.role)) {
+    return NextResponse.json({ error: 'Upload permission required' }, { status: 403 })
+  }
+
+  const { barcodes, status, note } = await request.json()
+  const list = Array.isArray(barcodes)
+    ? Array.from(new Set(barcodes.filter((b): b is string => typeof b === 'string').map(b => b.trim()).filter(Boolean)))
+    : []
+  if (list.length === 0) {
+    return NextResponse.json({ error: 'Missing barcodes' }, { status: 400 })
+  }
+  if (!isSampleStatus(status)) {
+    return NextResponse.json({ error: 'Invalid status' }, { status: 400 })
+  }
+
+  const supabase = createServerSupabaseClient()
+  const { data, error } = await supabase.rpc('record_sample_custody', {
+    p_barcodes: list,
+    p_status: status,
+    p_note: typeof note === 'string' && note.trim() ? note.trim() : null,
+  })
+
+  if (error) return safeErrorResponse(error, 'POST /api/samples/custody')
+  return NextResponse.json(data)
+}
@@ -0,0 +1,92 @@
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth, safeErrorResponse } from '@/lib/api-utils'
+import { canUpload } from '@/lib/auth'
+import { isSampleStatus, sampleFromRow, sanitiseSample } from '@/lib/sample-registry'
+
+/**
+ * GET /api/samples
+ * Query params:
+ *   - trialId: the trial's registered samples (required)
+ *   - status: only samples at this custody status (optional)
+ */
+export async function GET(request: NextRequest) {
+  const auth = await requireAuth()
+  if (!auth.authenticated) return auth.response
+
+  const trialId = request.nextUrl.searchParams.get('trialId')
+  if (!trialId) {
+    return NextResponse.json({ error: 'Missing trialId' }, { status: 400 })
+  }
+
+  const supabase = createServerSupabaseClient()
+  let query = supabase.from('samples').select('*').eq('trial_id', trialId).order('barcode')
+  const status = request.nextUrl.searchParams.get('status')
+  if (isSampleStatus(status)) query = query.eq('status', status)
+
+  const { data, error } = await query
+  if (error) return safeErrorResponse(error, 'GET /api/samples')
+  return NextResponse.json((data || []).map(sampleFromRow))
+}
+
+/**
+ * POST /api/samples
+ * Register samples to a trial.
+ *
+ * Body: { trialId, samples: [{ barcode, sampleNo?, sampleType?, plot?,
+ *         trtNumber?, rep?, latitude?, longitude?, depthUpperCm?,
+ *         depthLowerCm?, collectedOn?, notes? }] }
+ * Refused (409, with the barcodes) if any barcode is already registered.
+ */
+export async function POST(request: NextRequest) {
+  const auth = await requireAuth()
+  if (!auth.authenticated) return auth.response
+  if (!canUpload(auth.role)) {
+    return NextResponse.json({ error: 'Upload permission required' }, { status: 403 })
+  }
+
+  const { trialId, samples } = await request.json()
+  if (!trialId || !Array.isArray(samples) || samples.length === 0) {
+    return NextResponse.json({ error: 'Missing trialId or samples' }, { status: 400 })
+  }
+  const rows = samples.map(sanitiseSample)
+  if (rows.some(r => !r.barcode)) {
+    return NextResponse.json({ error: 'Every sample needs a barcode' }, { status: 400 })
+  }
+  const barcodes = rows.map(r => r.barcode)
+  const repeated = barcodes.filter((b, i) => barcodes.indexOf(b) !== i)
+  if (repeated.length > 0) {
+    return NextResponse.json(
+      { error: `Barcodes listed twice: ${Array.from(new Set(repeated)).join(', ')}` },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const supabase = createServerSupabaseClient()
+    const { data: existing, error: existingError } = await supabase
+      .from('samples')
+      .select('barcode')
+      .in('barcode', barcodes)
+    if (existingError) throw existingError
+    if (existing && existing.length > 0) {
+      const duplicates = existing.map(e => e.barcode)
+      return NextResponse.json(
+        { error: `${duplicates.length} barcode(s) already registered`, duplicates },
+        { status: 409 }
+      )
+    }
+
+    const { data, error } = await supabase
+      .from('samples')
+      .insert(rows.map(r => ({ ...r, trial_id: trialId })))
+      .select()
+    if (error?.code === '23505') {
+      return NextResponse.json({ error: 'A barcode was registered at the same time — try again' }, { status: 409 })
+    }
+    if (error) throw error
+    return NextResponse.json((data || []).map(sampleFromRow), { status: 201 })
+  } catch (err) {
+    return safeErrorResponse(err, 'POST /api/samples')
+  }
+}
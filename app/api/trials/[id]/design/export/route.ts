@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import { requireAuth, safeErrorResponse } from '@/lib/api-utils'
+import { buildDesignWorkbook } from '@/lib/trial-design-export'
+
+/**
+ * GET /api/trials/[id]/design/export
+ * Query params:
+ *   - format: 'xlsx' (default) — field map, plot list, labels and design
+ *     sheets (lib/trial-design-export); 'geojson' — the plot polygons, for
+ *     GIS and guidance systems
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const auth = await requireAuth()
+  if (!auth.authenticated) return auth.response
+
+  const format = request.nextUrl.searchParams.get('format') || 'xlsx'
+  if (format !== 'xlsx' && format !== 'geojson') {
+    return NextResponse.json({ error: 'format must be xlsx or geojson' }, { status: 400 })
+  }
+
+  try {
+    const supabase = createServerSupabaseClient()
+    const [designRes, treatmentsRes] = await Promise.all([
+      supabase.from('trial_designs').select('*').eq('trial_id', params.id).maybeSingle(),
+      supabase.from('treatments').select('trt_number, application, product, rate').eq('trial_id', params.id),
+    ])
+    if (designRes.error) throw designRes.error
+    if (treatmentsRes.error) throw treatmentsRes.error
+    const design = designRes.data
+    if (!design) {
+      return NextResponse.json({ error: 'Trial has no design' }, { status: 404 })
+    }
+
+    const base = `${params.id}_plot_layout`.replace(/[^\w.-]/g, '_')
+
+    if (format === 'geojson') {
+      if (!design.geojson) {
+        return NextResponse.json({ error: 'The design was not laid out in a field' }, { status: 404 })
+      }
+      return new NextResponse(JSON.stringify(design.geojson), {
+        headers: {
+          'Content-Type': 'application/geo+json',
+          'Content-Disposition': `attachment; filename="${base}.geojson"`,
+          'Cache-Control': 'private, no-store',
+        },
+      })
+    }
+
+    const buffer = buildDesignWorkbook(params.id, design, treatmentsRes.data || [])
+    return new NextResponse(new Uint8Array(buffer), {
+      headers: {
+        'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        'Content-Disposition': `attachment; filename="${base}.xlsx"`,
+        'Cache-Control': 'private, no-store',
+      },
+    })
+  } catch (err) {
+    return safeErrorResponse(err, 'GET /api/trials/[id]/design/export')
+  }
+}
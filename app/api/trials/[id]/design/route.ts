@@ -0,0 +1,252 @@
+import { NextResponse } from 'next/server'
+import type { FeatureCollection } from 'geojson'
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import { requireAuth, safeErrorResponse } from '@/lib/api-utils'
+import { canModify, canUpload } from '@/lib/auth'
+import {
+  DEFAULT_GEOMETRY, generateDesign, isDesignType, plotPolygons, randomSeed,
+  type PlotGeometry,
+} from '@/lib/trial-design'
+
+/**
+ * GET /api/trials/[id]/design
+ * The trial's design, or null if it has none.
+ */
+export async function GET(
+  _request: Request,
+  { params }: { params: { id: string } }
+) {
+  const auth = await requireAuth()
+  if (!auth.authenticated) return auth.response
+
+  const supabase = createServerSupabaseClient()
+  const { data, error } = await supabase
+    .from('trial_designs')
+    .select('*')
+    .eq('trial_id', params.id)
+    .maybeSingle()
+
+  if (error) return safeErrorResponse(error, 'GET /api/trials/[id]/design')
+  return NextResponse.json(data)
+}
+
+/** Geometry from the request, defaults filling the gaps; null if a value is out of range */
+function sanitiseGeometry(input: any): PlotGeometry | null {
+  const g = { ...DEFAULT_GEOMETRY }
+  for (const key of Object.keys(g) as (keyof PlotGeometry)[]) {
+    const v = input?.[key]
+    if (v == null || v === '') continue
+    const n = Number(v)
+    if (!isFinite(n)) return null
+    g[key] = n
+  }
+  if (g.plotWidthM <= 0 || g.plotLengthM <= 0 || g.gapM < 0 || g.alleyM < 0) return null
+  if (g.plotWidthM > 500 || g.plotLengthM > 500 || g.gapM > 100 || g.alleyM > 100) return null
+  g.rotationDeg = ((g.rotationDeg % 360) + 360) % 360
+  return g
+}
+
+/**
+ * POST /api/trials/[id]/design
+ * Generate a randomised layout (lib/trial-design) and, unless previewing,
+ * save it with the plot_data skeleton (apply_trial_design RPC, migration 032).
+ *
+ * Body: { type, reps, seed?, mainPlotLevels?, fieldId?, geometry?, preview? }
+ * Treatments are the trial's, or 1…num_treatments if none are entered.
+ * With fieldId (a field linked to the trial) the plots are drawn as
+ * polygons centred in its boundary and added to the trial's GIS layers.
+ * Refused (409) if the trial already has a design or plot data.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const auth = await requireAuth()
+  if (!auth.authenticated) return auth.response
+  if (!canUpload(auth.role)) {
+    return NextResponse.json({ error: 'Upload permission required' }, { status: 403 })
+  }
+
+  const body = await request.json()
+  if (!isDesignType(body.type)) {
+    return NextResponse.json({ error: 'Invalid design type' }, { status: 400 })
+  }
+  const geometry = sanitiseGeometry(body.geometry)
+  if (!geometry) {
+    return NextResponse.json({ error: 'Invalid plot dimensions' }, { status: 400 })
+  }
+  const seed = body.seed == null || body.seed === '' ? randomSeed() : Number(body.seed)
+
+  try {
+    const supabase = createServerSupabaseClient()
+    const [trialRes, treatmentsRes] = await Promise.all([
+      supabase.from('trials').select('id, num_treatments').eq('id', params.id).maybeSingle(),
+      supabase.from('treatments').select('trt_number').eq('trial_id', params.id).order('sort_order'),
+    ])
+    if (trialRes.error) throw trialRes.error
+    if (treatmentsRes.error) throw treatmentsRes.error
+    if (!trialRes.data) {
+      return NextResponse.json({ error: 'Trial not found' }, { status: 404 })
+    }
+    const treatments = (treatmentsRes.data || []).length > 0
+      ? treatmentsRes.data!.map(t => t.trt_number as number)
+      : Array.from({ length: trialRes.data.num_treatments || 0 }, (_, i) => i + 1)
+
+    const design = generateDesign({
+      type: body.type,
+      treatments,
+      reps: Number(body.reps),
+      seed,
+      mainPlotLevels: body.mainPlotLevels == null ? null : Number(body.mainPlotLevels),
+    })
+    if ('error' in design) {
+      return NextResponse.json({ error: design.error }, { status: 400 })
+    }
+
+    let geojson: FeatureCollection | null = null
+    let fieldName: string | null = null
+    if (body.fieldId) {
+      const { data: link, error: linkError } = await supabase
+        .from('field_trials')
+        .select('fields(id, name, boundary)')
+        .eq('trial_id', params.id)
+        .eq('field_id', body.fieldId)
+        .maybeSingle()
+      if (linkError) throw linkError
+      const field = link?.fields as unknown as { name: string; boundary: FeatureCollection | null } | null
+      if (!field) {
+        return NextResponse.json({ error: 'Field is not linked to this trial' }, { status: 400 })
+      }
+      if (!field.boundary) {
+        return NextResponse.json({ error: 'The field has no boundary' }, { status: 400 })
+      }
+      const drawn = plotPolygons(design, geometry, field.boundary)
+      if ('error' in drawn) {
+        return NextResponse.json({ error: drawn.error }, { status: 400 })
+      }
+      if (drawn.outside.length > 0) {
+        return NextResponse.json(
+          {
+            error: `${drawn.outside.length} plot(s) fall outside the field boundary — use smaller plots or rotate the grid`,
+            outside: drawn.outside,
+          },
+          { status: 400 }
+        )
+      }
+      geojson = drawn.geojson
+      fieldName = field.name
+    }
+
+    if (body.preview) {
+      return NextResponse.json({ design, geojson })
+    }
+
+    const { data: designId, error: applyError } = await supabase.rpc('apply_trial_design', {
+      p_trial_id: params.id,
+      p_design: {
+        design_type: design.spec.type,
+        seed: design.spec.seed,
+        treatments: design.spec.treatments,
+        reps: design.spec.reps,
+        main_plot_levels: design.spec.mainPlotLevels ?? null,
+        num_rows: design.rows,
+        num_cols: design.cols,
+        plots: design.plots,
+        field_id: geojson ? body.fieldId : null,
+        geometry: geojson ? geometry : null,
+        geojson,
+      },
+    })
+    // P0001: refused by the RPC; 23505: a concurrent apply saved one first
+    if (applyError?.code === 'P0001') {
+      return NextResponse.json({ error: applyError.message }, { status: 409 })
+    }
+    if (applyError?.code === '23505') {
+      return NextResponse.json({ error: `Trial ${params.id} already has a design` }, { status: 409 })
+    }
+    if (applyError) throw applyError
+
+    // The plot grid as a map layer; the design keeps the polygons for export
+    // either way, so a failure here doesn't undo it
+    if (geojson) {
+      try {
+        const { data: layer, error: layerError } = await supabase
+          .from('trial_gis_layers')
+          .insert({
+            trial_id: params.id,
+            name: `Plot layout — ${fieldName}`,
+            file_type: 'geojson',
+            storage_path: null,  // generated here, not uploaded (migration 035)
+            geojson,
+            feature_count: geojson.features.length,
+            style: { color: '#004C97', weight: 1, fillOpacity: 0.1 },
+          })
+          .select('id')
+          .single()
+        if (layerError) throw layerError
+        await supabase.from('trial_designs').update({ gis_layer_id: layer.id }).eq('id', designId)
+        await supabase.from('trial_data_files').upsert({
+          trial_id: params.id,
+          file_type: 'gis',
+          has_data: true,
+          last_updated: new Date().toISOString(),
+        })
+      } catch (err) {
+        console.error('Plot layout layer failed:', err)
+      }
+    }
+
+    const { data: saved, error: savedError } = await supabase
+      .from('trial_designs')
+      .select('*')
+      .eq('id', designId)
+      .single()
+    if (savedError) throw savedError
+    return NextResponse.json(saved, { status: 201 })
+  } catch (err) {
+    return safeErrorResponse(err, 'POST /api/trials/[id]/design')
+  }
+}
+
+/**
+ * DELETE /api/trials/[id]/design
+ * Removes the design, its map layer and the skeleton plots that have no
+ * results yet; plots with results are kept.
+ */
+export async function DELETE(
+  _request: Request,
+  { params }: { params: { id: string } }
+) {
+  const auth = await requireAuth()
+  if (!auth.authenticated) return auth.response
+  if (!canModify(auth.role)) {
+    return NextResponse.json({ error: 'Admin access required' }, { status: 403 })
+  }
+
+  try {
+    const supabase = createServerSupabaseClient()
+    const { data: layerId, error } = await supabase.rpc('remove_trial_design', { p_trial_id: params.id })
+    if (error) throw error
+    if (layerId) {
+      const { error: layerError } = await supabase.from('trial_gis_layers').delete().eq('id', layerId)
+      if (layerError) console.error('Plot layout layer cleanup failed:', layerError)
+
+      const { data: remaining } = await supabase
+        .from('trial_gis_layers')
+        .select('id')
+        .eq('trial_id', params.id)
+        .limit(1)
+      if (!remaining || remaining.length === 0) {
+        await supabase.from('trial_data_files').upsert({
+          trial_id: params.id,
+          file_type: 'gis',
+          has_data: false,
+          last_updated: new Date().toISOString(),
+        })
+      }
+    }
+    return NextResponse.json({ ok: true })
+  } catch (err) {
+    return safeErrorResponse(err, 'DELETE /api/trials/[id]/design')
+  }
+}
@@ -0,0 +1,85 @@
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+import { createAdminSupabaseClient } from '@/lib/supabase/admin'
+import { requireAuth, safeErrorResponse } from '@/lib/api-utils'
+import { canUpload } from '@/lib/auth'
+import { enqueueReportJob, runReportJob, REPORT_BUCKET } from '@/lib/report-jobs'
+
+/**
+ * GET /api/trials/[id]/reports
+ *
+ * The trial's report jobs, newest first. Finished reports carry a signed
+ * download URL valid for an hour.
+ */
+export async function GET(
+  _request: Request,
+  { params }: { params: { id: string } }
+) {
+  const auth = await requireAuth()
+  if (!auth.authenticated) return auth.response
+
+  const supabase = createServerSupabaseClient()
+  const { data, error } = await supabase
+    .from('report_jobs')
+    .select('*')
+    .eq('trial_id', params.id)
+    .order('created_at', { ascending: false })
+
+  if (error) return safeErrorResponse(error, 'GET /api/trials/[id]/reports')
+
+  const jobs = data || []
+  const paths = jobs.map(j => j.storage_path).filter((p): p is string => !!p)
+  const urlByPath = new Map<string, string>()
+  if (paths.length > 0) {
+    const { data: signed } = await supabase.storage.from(REPORT_BUCKET).createSignedUrls(paths, 3600)
+    for (const item of signed || []) {
+      if (item.signedUrl && item.path) urlByPath.set(item.path, item.signedUrl)
+    }
+  }
+
+  return NextResponse.json(jobs.map(j => ({
+    ...j,
+    url: j.storage_path ? urlByPath.get(j.storage_path) ?? null : null,
+  })))
+}
+
+/**
+ * POST /api/trials/[id]/reports
+ *
+ * Queues a manual report job and renders it straight away. Completion
+ * reports are queued by the database when the trial is marked completed
+ * (migration 036). The job and its emails are written with the service role
+ * (migration 033).
+ */
+export async function POST(
+  _request: Request,
+  { params }: { params: { id: string } }
+) {
+  const auth = await requireAuth()
+  if (!auth.authenticated) return auth.response
+  if (!canUpload(auth.role)) {
+    return NextResponse.json({ error: 'Upload permission required' }, { status: 403 })
+  }
+
+  try {
+    const supabase = createServerSupabaseClient()
+    const { data: trial } = await supabase
+      .from('trials')
+      .select('id')
+      .eq('id', params.id)
+      .single()
+    if (!trial) {
+      return NextResponse.json({ error: 'Trial not found' }, { status: 404 })
+    }
+
+    const admin = createAdminSupabaseClient()
+    if (!admin) {
+      return NextResponse.json({ error: 'SUPABASE_SERVICE_ROLE_KEY is not configured' }, { status: 503 })
+    }
+    const job = await enqueueReportJob(admin, params.id, 'manual', auth.userId)
+    const result = await runReportJob(admin, job)
+    return NextResponse.json(result, { status: 201 })
+  } catch (err) {
+    return safeErrorResponse(err, 'POST /api/trials/[id]/reports')
+  }
+}
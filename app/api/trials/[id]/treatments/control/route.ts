@@ -0,0 +1,67 @@
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+import { requireAuth, safeErrorResponse } from '@/lib/api-utils'
+import { canUpload } from '@/lib/auth'
+
+/**
+ * PUT /api/trials/[id]/treatments/control
+ * Body: { trt_number: number | null }
+ *
+ * Designates the trial's control treatment (or clears it when null).
+ * A trial has at most one control, so any existing flag is cleared first.
+ * An unknown trt_number is refused (404) without changing the control.
+ */
+export async function PUT(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const auth = await requireAuth()
+  if (!auth.authenticated) return auth.response
+  if (!canUpload(auth.role)) {
+    return NextResponse.json({ error: 'Upload permission required' }, { status: 403 })
+  }
+
+  const body = await request.json().catch(() => null)
+  const trtNumber = body?.trt_number
+  if (trtNumber !== null && !Number.isInteger(trtNumber)) {
+    return NextResponse.json({ error: 'trt_number must be an integer or null' }, { status: 400 })
+  }
+
+  const supabase = createServerSupabaseClient()
+
+  // Check the treatment exists before touching the current control
+  if (trtNumber !== null) {
+    const { data: treatment, error: lookupError } = await supabase
+      .from('treatments')
+      .select('id')
+      .eq('trial_id', params.id)
+      .eq('trt_number', trtNumber)
+      .maybeSingle()
+
+    if (lookupError) return safeErrorResponse(lookupError, 'PUT /api/trials/[id]/treatments/control')
+    if (!treatment) return NextResponse.json({ error: 'Treatment not found' }, { status: 404 })
+  }
+
+  const { error: clearError } = await supabase
+    .from('treatments')
+    .update({ is_control: false })
+    .eq('trial_id', params.id)
+    .eq('is_control', true)
+
+  if (clearError) return safeErrorResponse(clearError, 'PUT /api/trials/[id]/treatments/control')
+
+  if (trtNumber === null) {
+    return NextResponse.json({ status: 'cleared' })
+  }
+
+  const { data, error } = await supabase
+    .from('treatments')
+    .update({ is_control: true })
+    .eq('trial_id', params.id)
+    .eq('trt_number', trtNumber)
+    .select()
+    .single()
+
+  if (error) return safeErrorResponse(error, 'PUT /api/trials/[id]/treatments/control')
+  return NextResponse.json(data)
+}
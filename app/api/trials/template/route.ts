@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import { requireAuth, safeErrorResponse } from '@/lib/api-utils'
+import {
+  buildTrialTemplate, templateFilename,
+  type TemplatePlot, type TemplateTrial,
+} from '@/lib/trial-template'
+
+/** Largest design the template will lay out */
+const MAX_TREATMENTS = 200
+const MAX_REPS = 50
+
+function designSize(value: string | null): number | null {
+  const n = parseInt(value ?? '', 10)
+  return Number.isFinite(n) && n > 0 ? n : null
+}
+
+/**
+ * GET /api/trials/template
+ * The pre-filled "START HERE" workbook (lib/trial-template).
+ *
+ * Query params:
+ *   - trialId: an existing trial fills in its metadata, treatments and plot
+ *     layout; a new ID just goes in the Trial row (optional)
+ *   - treatments, reps: design size for a trial that has none stored
+ */
+export async function GET(request: NextRequest) {
+  const auth = await requireAuth()
+  if (!auth.authenticated) return auth.response
+
+  const params = request.nextUrl.searchParams
+  const trialId = params.get('trialId')?.trim() || ''
+
+  try {
+    const supabase = createServerSupabaseClient()
+    let trial: TemplateTrial = { id: trialId }
+    let treatments: any[] = []
+    let plots: TemplatePlot[] = []
+
+    if (trialId) {
+      const [trialRes, treatmentsRes, plotsRes] = await Promise.all([
+        supabase.from('trials').select('*').eq('id', trialId).maybeSingle(),
+        supabase.from('treatments').select('*').eq('trial_id', trialId).order('sort_order'),
+        supabase.from('plot_data').select('plot, trt_number, rep').eq('trial_id', trialId),
+      ])
+      if (trialRes.error) throw trialRes.error
+      if (treatmentsRes.error) throw treatmentsRes.error
+      if (plotsRes.error) throw plotsRes.error
+      if (trialRes.data) trial = trialRes.data
+      treatments = treatmentsRes.data || []
+
+      // One row per plot, in plot order
+      const byPlot = new Map<string, TemplatePlot>()
+      for (const p of plotsRes.data || []) {
+        if (p.plot != null && !byPlot.has(String(p.plot))) {
+          byPlot.set(String(p.plot), { plot: String(p.plot), trt_number: p.trt_number, rep: p.rep })
+        }
+      }
+      plots = Array.from(byPlot.values())
+        .sort((a, b) => a.plot.localeCompare(b.plot, undefined, { numeric: true }))
+    }
+
+    trial = {
+      ...trial,
+      num_treatments: trial.num_treatments || designSize(params.get('treatments')),
+      reps: trial.reps || designSize(params.get('reps')),
+    }
+    if ((trial.num_treatments ?? 0) > MAX_TREATMENTS || (trial.reps ?? 0) > MAX_REPS) {
+      return NextResponse.json(
+        { error: `Templates are limited to ${MAX_TREATMENTS} treatments and ${MAX_REPS} reps` },
+        { status: 400 }
+      )
+    }
+
+    const buffer = buildTrialTemplate(trial, treatments, plots)
+    return new NextResponse(new Uint8Array(buffer), {
+      headers: {
+        'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        'Content-Disposition': `attachment; filename="${templateFilename(trial.id)}"`,
+        'Cache-Control': 'private, no-store',
+      },
+    })
+  } catch (err) {
+    return safeErrorResponse(err, 'GET /api/trials/template')
+  }
+}
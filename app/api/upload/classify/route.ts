@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { classifyContent, classifyFile, type ContentClassification } from '@/lib/parsers/classify'
+import { parseRawContent, readWorkbookSheets } from '@/lib/upload-pipeline'
+import { getUserRole, canUpload } from '@/lib/auth'
+import { safeErrorResponse } from '@/lib/api-utils'
+
+export const maxDuration = 60
+
+interface ClassifyResult extends ContentClassification {
+  filename: string
+  /** Workbooks with several data sheets, each loaded as its own type */
+  sheets?: { sheetName: string; fileType: string }[]
+}
+
+/**
+ * Guess each file's type from its headers (falling back to its name)
+ * before upload, so the folder flow can ask about low-confidence guesses.
+ */
+export async function POST(request: NextRequest) {
+  const { role } = await getUserRole()
+  if (!canUpload(role)) {
+    return NextResponse.json({ error: 'Upload permission required' }, { status: 403 })
+  }
+
+  try {
+    const formData = await request.formData()
+    const files = formData.getAll('files') as File[]
+    const results: ClassifyResult[] = []
+
+    for (const file of files) {
+      const filename = file.name || 'unnamed'
+      const byName = classifyFile(filename)
+      if (byName === 'trialSummary' || !/\.(csv|xlsx?)$/i.test(filename)) {
+        results.push({ filename, ...classifyContent(filename, []) })
+        continue
+      }
+
+      try {
+        const isExcel = /\.xlsx?$/i.test(filename)
+        const content = isExcel ? await file.arrayBuffer() : await file.text()
+        if (isExcel) {
+          const sheets = readWorkbookSheets(content as ArrayBuffer)
+          if (sheets.length > 1) {
+            results.push({
+              filename,
+              classification: 'unknown',
+              confidence: 1,
+              source: 'headers',
+              candidates: [],
+              sheets: sheets.map(s => ({ sheetName: s.sheetName, fileType: s.fileType })),
+            })
+            continue
+          }
+        }
+        const { headers } = parseRawContent(content, isExcel)
+        results.push({ filename, ...classifyContent(filename, headers) })
+      } catch {
+        // Unreadable content: the name is all there is to go on
+        results.push({ filename, ...classifyContent(filename, []) })
+      }
+    }
+
+    return NextResponse.json({ results })
+  } catch (err) {
+    return safeErrorResponse(err, 'POST /api/upload/classify')
+  }
+}
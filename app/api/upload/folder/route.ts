@@ -1,11 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createServerSupabaseClient } from '@/lib/supabase/server'
-import { classifyFile, type FileClassification } from '@/lib/parsers/classify'
+import {
+  classifyContent, classifyFile, isDataClassification, type FileClassification,
+} from '@/lib/parsers/classify'
 import { parseTrialSummary } from '@/lib/parsers/parseTrialSummary'
-import { runPipeline, parseRawContent } from '@/lib/upload-pipeline'
+import {
+  runPipeline, parseRawContent, readWorkbookSheets, runWorkbookSheets, summariseSheets,
+  type SheetResult,
+} from '@/lib/upload-pipeline'
 import { COLUMN_MAPS, extractTrialId } from '@/lib/parsers/column-maps'
+import { templateRows } from '@/lib/trial-template'
 import { getUserRole, canUpload } from '@/lib/auth'
 import { validatePhotoFile } from '@/lib/api-utils'
+import type { ImportDiff } from '@/lib/import-diff'
+import type { ValidationReport } from '@/lib/parsers/validation'
 
 export const maxDuration = 60
 
@@ -24,11 +32,15 @@ const TYPE_LABELS: Record<FileClassification, string> = {
 interface FileResult {
   filename: string
   type: string
-  status: 'success' | 'error' | 'needs_review'
+  status: 'success' | 'error' | 'needs_review' | 'preview'
   detail?: string
   records?: number
   rawUploadId?: string
   unmappedColumns?: string[]
+  diff?: ImportDiff
+  validation?: ValidationReport
+  /** Workbooks loaded sheet by sheet: one result per data sheet */
+  sheets?: SheetResult[]
 }
 
 export async function POST(request: NextRequest) {
@@ -61,6 +73,10 @@ export async function POST(request: NextRequest) {
     const results: FileResult[] = []
     // Accept an optional trialId from the client (used when uploading photos separately)
     let trialId: string | null = (formData.get('trialId') as string) || null
+    // Preview only: report what each file would change without writing anything
+    const dryRun = formData.get('dryRun') === 'true'
+    // The data type the user confirmed for a file sent on its own
+    const fileTypeOverride = formData.get('fileType') as FileClassification | null
 
     // Sort files so trial summary comes first
     const sorted = [...files].sort((a, b) => {
@@ -74,7 +90,14 @@ export async function POST(request: NextRequest) {
     for (const file of sorted) {
       try {
         const filename = file.name || 'unnamed'
-        const classification = classifyFile(filename)
+        let classification = classifyFile(filename)
+        if (fileTypeOverride && isDataClassification(fileTypeOverride)) {
+          classification = fileTypeOverride
+        } else if (classification === 'unknown' && /\.csv$/i.test(filename)) {
+          // Unrecognised name: go by the header signature instead
+          const { headers } = parseRawContent(await file.text(), false)
+          classification = classifyContent(filename, headers).classification
+        }
         const typeLabel = TYPE_LABELS[classification]
 
         if (classification === 'trialSummary') {
@@ -94,6 +117,38 @@ export async function POST(request: NextRequest) {
 
           trialId = parsed.metadata.id
 
+          // Data sheets alongside the summary (as in the generated template);
+          // template rows with nothing entered are left out
+          const dataSheets = readWorkbookSheets(buffer)
+            .filter(s => s.sheetName !== parsed.sheetName)
+            .map(s => ({ ...s, rows: templateRows(s.rows) }))
+            .filter(s => s.rows.length > 0)
+
+          if (dryRun) {
+            const sheetResults = dataSheets.length > 0
+              ? await runWorkbookSheets(supabase, dataSheets, filename, buffer, {
+                  trialId,
+                  dryRun,
+                  fromTemplate: true,
+                  // Checked against the summary being imported, not the stored trial
+                  trialDetails: {
+                    treatments: parsed.treatments.map(t => t.trt_number),
+                    plantingDate: parsed.metadata.planting_date,
+                    harvestDate: parsed.metadata.harvest_date,
+                  },
+                })
+              : undefined
+            results.push({
+              filename,
+              type: typeLabel,
+              status: 'preview',
+              detail: `Will create/update trial ${parsed.metadata.id} with ${parsed.treatments.length} treatments`
+                + (sheetResults ? ` and load ${sheetResults.length} data sheet(s)` : ''),
+              sheets: sheetResults,
+            })
+            continue
+          }
+
           const { error: trialError } = await supabase
             .from('trials')
             .upsert({
@@ -145,12 +200,18 @@ export async function POST(request: NextRequest) {
             }
           }
 
+          const sheetResults = dataSheets.length > 0
+            ? await runWorkbookSheets(supabase, dataSheets, filename, buffer, { trialId, fromTemplate: true })
+            : undefined
+
           results.push({
             filename,
             type: typeLabel,
-            status: 'success',
-            detail: `Trial ${parsed.metadata.id} created/updated`,
+            status: sheetResults?.some(r => r.status === 'needs_review') ? 'needs_review' : 'success',
+            detail: `Trial ${parsed.metadata.id} created/updated`
+              + (sheetResults ? `; ${summariseSheets(sheetResults).detail}` : ''),
             records: parsed.treatments.length,
+            sheets: sheetResults,
           })
 
           try {
@@ -164,6 +225,20 @@ export async function POST(request: NextRequest) {
             })
           } catch { /* logging is best-effort */ }
 
+          for (const r of sheetResults ?? []) {
+            try {
+              await supabase.from('upload_log').insert({
+                trial_id: parsed.metadata.id,
+                filename: `${filename} [${r.sheetName}]`,
+                file_type: r.fileType,
+                status: r.status === 'success' ? 'success' : 'error',
+                detail: r.detail,
+                records_imported: r.records,
+                raw_upload_id: r.rawUploadId ?? null,
+              })
+            } catch { /* logging is best-effort */ }
+          }
+
         } else if (classification === 'photo') {
           const targetTrialId = trialId
           if (!targetTrialId) {
@@ -178,6 +253,11 @@ export async function POST(request: NextRequest) {
             continue
           }
 
+          if (dryRun) {
+            results.push({ filename, type: typeLabel, status: 'preview', detail: 'Photo will be added' })
+            continue
+          }
+
           const ext = filename.split('.').pop()?.toLowerCase() || 'jpg'
           const storagePath = `${targetTrialId}/${crypto.randomUUID()}.${ext}`
 
@@ -208,7 +288,7 @@ export async function POST(request: NextRequest) {
 
           results.push({ filename, type: typeLabel, status: 'success', detail: 'Photo uploaded', records: 1 })
 
-        } else if (classification === 'unknown') {
+        } else if (classification === 'unknown' && !/\.xlsx?$/i.test(filename)) {
           results.push({ filename, type: typeLabel, status: 'success', detail: 'Skipped — not a recognised data file' })
 
         } else {
@@ -217,6 +297,41 @@ export async function POST(request: NextRequest) {
           const isExcel = /\.xlsx?$/i.test(filename)
           const content = isExcel ? await file.arrayBuffer() : await file.text()
 
+          // Workbooks with several data tabs (or an unrecognised name but a
+          // data tab) load each sheet as its own type
+          if (isExcel) {
+            const sheets = readWorkbookSheets(content as ArrayBuffer)
+            if (sheets.length > 1 || (sheets.length === 1 && classification === 'unknown')) {
+              const sheetResults = await runWorkbookSheets(supabase, sheets, filename, content as ArrayBuffer, {
+                trialId,
+                dryRun,
+              })
+              results.push({ filename, type: 'Workbook', ...summariseSheets(sheetResults), sheets: sheetResults })
+
+              if (!dryRun) {
+                for (const r of sheetResults) {
+                  try {
+                    await supabase.from('upload_log').insert({
+                      trial_id: r.trialId ?? null,
+                      filename: `${filename} [${r.sheetName}]`,
+                      file_type: r.fileType,
+                      status: r.status === 'success' ? 'success' : 'error',
+                      detail: r.detail,
+                      records_imported: r.records,
+                      raw_upload_id: r.rawUploadId ?? null,
+                    })
+                  } catch { /* logging is best-effort */ }
+                }
+              }
+              continue
+            }
+          }
+
+          if (classification === 'unknown') {
+            results.push({ filename, type: typeLabel, status: 'success', detail: 'Skipped — no recognised data sheets' })
+            continue
+          }
+
           // Auto-detect trial ID from file content if no trial summary was uploaded
           let targetTrialId = trialId
           if (!targetTrialId) {
@@ -233,7 +348,7 @@ export async function POST(request: NextRequest) {
           }
 
           // Ensure the trial exists (create a minimal record if auto-detected)
-          if (!trialId && targetTrialId) {
+          if (!trialId && targetTrialId && !dryRun) {
             await supabase.from('trials').upsert(
               { id: targetTrialId, name: targetTrialId },
               { onConflict: 'id', ignoreDuplicates: true }
@@ -248,6 +363,7 @@ export async function POST(request: NextRequest) {
             filename,
             content,
             isExcel,
+            { dryRun },
           )
 
           results.push({
@@ -258,7 +374,23 @@ export async function POST(request: NextRequest) {
             records: pipelineResult.records,
             rawUploadId: pipelineResult.rawUploadId,
             unmappedColumns: pipelineResult.unmappedColumns,
+            diff: pipelineResult.diff,
+            validation: pipelineResult.validation,
           })
+
+          if (!dryRun) {
+            try {
+              await supabase.from('upload_log').insert({
+                trial_id: targetTrialId,
+                filename,
+                file_type: classification,
+                status: pipelineResult.status === 'success' ? 'success' : 'error',
+                detail: pipelineResult.detail,
+                records_imported: pipelineResult.records,
+                raw_upload_id: pipelineResult.rawUploadId ?? null,
+              })
+            } catch { /* logging is best-effort */ }
+          }
         }
       } catch (err: any) {
         const filename = file.name || 'unnamed'
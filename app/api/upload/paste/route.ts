@@ -72,6 +72,7 @@ export async function POST(request: NextRequest) {
         status: result.status === 'success' ? 'success' : 'error',
         detail: result.detail || 'Pasted CSV data',
         records_imported: result.records,
+        raw_upload_id: result.rawUploadId ?? null,
       })
     } catch { /* logging is best-effort */ }
 
@@ -62,6 +62,26 @@ export async function POST(request: NextRequest) {
 
   const result = await reprocessRawUpload(supabase, rawUploadId, columnOverrides)
 
+  // Log the load so it can be undone from the upload log
+  if (result.status === 'success') {
+    try {
+      const { data: rawUpload } = await supabase
+        .from('raw_uploads')
+        .select('trial_id, filename, file_type')
+        .eq('id', rawUploadId)
+        .single()
+      await supabase.from('upload_log').insert({
+        trial_id: rawUpload?.trial_id,
+        filename: rawUpload?.filename,
+        file_type: rawUpload?.file_type,
+        status: 'success',
+        detail: result.detail,
+        records_imported: result.records,
+        raw_upload_id: rawUploadId,
+      })
+    } catch { /* logging is best-effort */ }
+  }
+
   return NextResponse.json({
     status: result.status,
     detail: result.detail,
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import { requireAuth, safeErrorResponse } from '@/lib/api-utils'
+import { canUpload } from '@/lib/auth'
+
+/**
+ * POST /api/upload/rollback
+ * Undo a loaded upload: rows it inserted are deleted and rows it updated
+ * get their previous values back (rollback_upload RPC, migrations 028/034).
+ *
+ * Body: { rawUploadId: string }
+ * Returns { deleted, restored }. Refused (409) if the upload isn't loaded
+ * or its rows have since been written by a later upload or edited
+ * (exclusions, metric renames, corrections).
+ */
+export async function POST(request: NextRequest) {
+  const auth = await requireAuth()
+  if (!auth.authenticated) return auth.response
+  if (!canUpload(auth.role)) {
+    return NextResponse.json({ error: 'Upload permission required' }, { status: 403 })
+  }
+
+  const { rawUploadId } = await request.json()
+  if (!rawUploadId) {
+    return NextResponse.json({ error: 'Missing rawUploadId' }, { status: 400 })
+  }
+
+  const supabase = createServerSupabaseClient()
+  const { data, error } = await supabase.rpc('rollback_upload', { p_raw_upload_id: rawUploadId })
+
+  // RAISE EXCEPTION in the RPC: the reason the upload can't be undone
+  if (error?.code === 'P0001') {
+    return NextResponse.json({ error: error.message }, { status: 409 })
+  }
+  if (error) return safeErrorResponse(error, 'POST /api/upload/rollback')
+  return NextResponse.json(data)
+}
@@ -1,8 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createServerSupabaseClient } from '@/lib/supabase/server'
-import { classifyFile } from '@/lib/parsers/classify'
+import { classifyContent } from '@/lib/parsers/classify'
 import { parseTrialSummary } from '@/lib/parsers/parseTrialSummary'
-import { runPipeline, parseRawContent } from '@/lib/upload-pipeline'
+import {
+  runPipeline, parseRawContent, readWorkbookSheets, runWorkbookSheets, summariseSheets,
+} from '@/lib/upload-pipeline'
 import { COLUMN_MAPS, extractTrialId } from '@/lib/parsers/column-maps'
 import { getUserRole, canUpload } from '@/lib/auth'
 
@@ -27,18 +29,63 @@ export async function POST(request: NextRequest) {
   const file = formData.get('file') as File | null
   let trialId = formData.get('trialId') as string
   const fileType = formData.get('fileType') as string
+  // Preview only: return a diff against stored rows without writing anything
+  const dryRun = formData.get('dryRun') === 'true'
 
   if (!file) {
     return NextResponse.json({ status: 'error', detail: 'Missing file' }, { status: 400 })
   }
 
   const filename = file.name || 'unnamed'
-  const classification = fileType === 'auto' ? classifyFile(filename) : fileType
 
   // Read file content once upfront so it can be reused for both auto-detection and processing
   const isExcel = /\.xlsx?$/i.test(filename)
   const fileContent = isExcel ? await file.arrayBuffer() : await file.text()
 
+  // Auto-detect goes by the header signature, falling back to the filename
+  let classification = fileType
+  if (fileType === 'auto') {
+    let headers: string[] = []
+    try { headers = parseRawContent(fileContent, isExcel).headers } catch { /* classify by name */ }
+    classification = classifyContent(filename, headers).classification
+  }
+
+  // A workbook with several data tabs (or an unrecognised name but a data
+  // tab) loads each sheet as its own type
+  if (isExcel && fileType === 'auto' && classification !== 'trialSummary') {
+    try {
+      const sheets = readWorkbookSheets(fileContent as ArrayBuffer)
+      if (sheets.length > 1 || (sheets.length === 1 && classification === 'unknown')) {
+        const results = await runWorkbookSheets(supabase, sheets, filename, fileContent as ArrayBuffer, {
+          trialId,
+          dryRun,
+          assayType: (formData.get('assayType') as string) || 'general',
+        })
+
+        if (!dryRun) {
+          for (const r of results) {
+            try {
+              await supabase.from('upload_log').insert({
+                trial_id: r.trialId ?? null,
+                filename: `${filename} [${r.sheetName}]`,
+                file_type: r.fileType,
+                status: r.status === 'success' ? 'success' : 'error',
+                detail: r.detail,
+                records_imported: r.records,
+                raw_upload_id: r.rawUploadId ?? null,
+              })
+            } catch { /* logging is best-effort */ }
+          }
+        }
+
+        return NextResponse.json({ ...summariseSheets(results), fileType: 'workbook', sheets: results })
+      }
+    } catch (err: any) {
+      console.error(`Workbook upload error for ${filename}:`, err)
+      return NextResponse.json({ status: 'error', detail: 'Processing failed. Please check the file format and try again.' })
+    }
+  }
+
   // Auto-detect trial ID from file content when not provided
   if (!trialId && classification !== 'trialSummary') {
     const config = COLUMN_MAPS[classification]
@@ -48,7 +95,7 @@ export async function POST(request: NextRequest) {
       if (detected) {
         trialId = detected
         // Ensure the trial exists (create a minimal record if auto-detected)
-        await supabase.from('trials').upsert(
+        if (!dryRun) await supabase.from('trials').upsert(
           { id: detected, name: detected },
           { onConflict: 'id', ignoreDuplicates: true }
         )
@@ -66,6 +113,14 @@ export async function POST(request: NextRequest) {
       const buffer = isExcel ? fileContent as ArrayBuffer : await file.arrayBuffer()
       const parsed = parseTrialSummary(buffer)
 
+      if (dryRun) {
+        return NextResponse.json({
+          status: 'preview',
+          detail: `Will update trial ${parsed.metadata.id || trialId} and replace its treatments (${parsed.treatments.length})`,
+          fileType: classification,
+        })
+      }
+
       // Bug #4: Warn if the summary's internal ID doesn't match the selected trial
       if (parsed.metadata.id && parsed.metadata.id !== trialId) {
         console.warn(`Trial summary ID "${parsed.metadata.id}" does not match selected trial "${trialId}" — updating selected trial`)
@@ -148,8 +203,9 @@ export async function POST(request: NextRequest) {
       file.name || 'unnamed',
       fileContent,
       isExcel,
-      { extraDefaults },
+      { extraDefaults, dryRun },
     )
+    if (dryRun) return NextResponse.json({ ...result, fileType: classification })
 
     try {
       await supabase.from('upload_log').insert({
@@ -159,6 +215,7 @@ export async function POST(request: NextRequest) {
         status: result.status === 'success' ? 'success' : 'error',
         detail: result.detail,
         records_imported: result.records,
+        raw_upload_id: result.rawUploadId ?? null,
       })
     } catch { /* logging is best-effort */ }
 
@@ -1,8 +1,7 @@
 import { NextResponse } from 'next/server'
 import { requireAuth, safeErrorResponse } from '@/lib/api-utils'
-import { DAILY_VARIABLES, HOURLY_VARIABLES, type WeatherDataRow } from '@/lib/weather'
+import { DAILY_VARIABLES, HOURLY_VARIABLES, fetchOpenMeteo } from '@/lib/weather'
 
-const OPEN_METEO_BASE = 'https://archive-api.open-meteo.com/v1/archive'
 const CACHE_TTL_MS = 15 * 60 * 1000 // 15 minutes
 const MAX_RANGE_DAYS = 730 // ~2 years
 
@@ -104,44 +103,14 @@ export async function GET(request: Request) {
       return NextResponse.json(cached.data)
     }
 
-    // Build Open-Meteo URL
-    const params = new URLSearchParams({
-      latitude: latNum.toString(),
-      longitude: lonNum.toString(),
-      start_date: startDate,
-      end_date: endDate,
-      timezone: 'auto',
-    })
-    params.set(frequency, requestedKeys.join(','))
-
-    const url = `${OPEN_METEO_BASE}?${params.toString()}`
-
-    const resp = await fetch(url, {
-      signal: AbortSignal.timeout(15_000),
-    })
-
-    if (!resp.ok) {
-      const text = await resp.text().catch(() => '')
-      console.error('[weather] Open-Meteo error:', resp.status, text)
+    const data = await fetchOpenMeteo(latNum, lonNum, startDate, endDate, frequency, requestedKeys)
+    if (!data) {
       return NextResponse.json(
         { error: 'Failed to fetch weather data from Open-Meteo' },
         { status: 502 }
       )
     }
 
-    const raw = await resp.json()
-
-    // Normalize to flat row format
-    const timeKey = frequency === 'daily' ? 'daily' : 'hourly'
-    const timeArray: string[] = raw[timeKey]?.time ?? []
-    const data: WeatherDataRow[] = timeArray.map((time: string, i: number) => {
-      const row: WeatherDataRow = { time }
-      for (const key of requestedKeys) {
-        row[key] = raw[timeKey]?.[key]?.[i] ?? null
-      }
-      return row
-    })
-
     const variables = allVars.filter((v) => requestedKeys.includes(v.key))
 
     const result = { frequency, variables, data }
@@ -10,6 +10,7 @@ import {
   ResponsiveContainer,
   ErrorBar,
   Cell,
+  LabelList,
 } from 'recharts'
 
 const CHART_COLORS = [
@@ -29,6 +30,7 @@ interface GroupStats {
   max: number
   n: number
   values: number[]
+  letter?: string
 }
 
 interface MetricStats {
@@ -37,12 +39,33 @@ interface MetricStats {
   groups: GroupStats[]
 }
 
+// Tukey letter drawn just above the top of the SE whisker
+function renderLetter(props: any) {
+  const { x, y, width, height, value, index, data } = props
+  if (!value || x == null || y == null) return null
+  const d = data[index]
+  const errPx = d && d.mean !== 0 ? Math.abs((d.errorBar / d.mean) * height) : 0
+  return (
+    <text
+      x={x + width / 2}
+      y={y - errPx - 6}
+      textAnchor="middle"
+      fontSize={12}
+      fontWeight={600}
+      fill="#161F28"
+    >
+      {value}
+    </text>
+  )
+}
+
 export default function BarChartWithSE({ metric }: { metric: MetricStats }) {
   const data = metric.groups.map(g => ({
     name: g.label,
     mean: parseFloat(g.mean.toFixed(3)),
     errorBar: parseFloat(g.stdError.toFixed(3)),
     n: g.n,
+    letter: g.letter || '',
   }))
 
   return (
@@ -90,6 +113,10 @@ export default function BarChartWithSE({ metric }: { metric: MetricStats }) {
               strokeWidth={1.5}
               stroke="#161F28"
             />
+            <LabelList
+              dataKey="letter"
+              content={(props: any) => renderLetter({ ...props, data })}
+            />
           </Bar>
         </BarChart>
       </ResponsiveContainer>
@@ -2,7 +2,8 @@
 
 /**
  * Box plot chart built using Recharts composable shapes.
- * Shows median, Q1-Q3 box, and min-max whiskers for each group.
+ * Shows median, Q1-Q3 box, and min-max whiskers for each group, with
+ * flagged outliers (orange) and excluded records (hollow grey) overlaid.
  */
 
 import {
@@ -33,12 +34,23 @@ interface GroupStats {
   max: number
   n: number
   values: number[]
+  letter?: string
+}
+
+interface FlaggedPoint {
+  id: string
+  group: string
+  value: number
+  ref: string
+  outlier: boolean
+  excluded: boolean
 }
 
 interface MetricStats {
   metric: string
   unit: string
   groups: GroupStats[]
+  flagged?: FlaggedPoint[]
 }
 
 // Custom box plot shape for Recharts Scatter
@@ -94,6 +106,31 @@ function BoxPlotShape(props: any) {
         stroke={color}
         strokeWidth={2.5}
       />
+
+      {/* Tukey letter above the max whisker */}
+      {payload.letter && (
+        <text x={cx} y={yMax - 8} textAnchor="middle" fontSize={12} fontWeight={600} fill="#161F28">
+          {payload.letter}
+        </text>
+      )}
+
+      {/* Flagged outliers and excluded records */}
+      {(payload.flagged as FlaggedPoint[]).map((f, i) => {
+        // Spread coincident points horizontally so they stay distinguishable
+        const x = cx + ((i % 3) - 1) * 6
+        const y = scale(f.value)
+        return f.excluded ? (
+          <g key={f.id}>
+            <circle cx={x} cy={y} r={4} fill="white" stroke="#B9BCBF" strokeWidth={1.5} />
+            <line x1={x - 3} x2={x + 3} y1={y - 3} y2={y + 3} stroke="#B9BCBF" strokeWidth={1.2} />
+            <title>{`${f.ref || 'Record'}: ${f.value} (excluded)`}</title>
+          </g>
+        ) : (
+          <circle key={f.id} cx={x} cy={y} r={4} fill="#e67e22" stroke="#161F28" strokeWidth={1}>
+            <title>{`${f.ref || 'Record'}: ${f.value} (outlier)`}</title>
+          </circle>
+        )
+      })}
     </g>
   )
 }
@@ -110,12 +147,17 @@ export default function BoxPlotChart({ metric }: { metric: MetricStats }) {
     max: g.max,
     mean: g.mean,
     n: g.n,
+    letter: g.letter || '',
+    flagged: (metric.flagged || []).filter(f => f.group === g.label),
     index: i,
     // x position (index-based, 1-indexed)
     x: i + 1,
   }))
 
-  const allValues = metric.groups.flatMap(g => g.values)
+  const allValues = [
+    ...metric.groups.flatMap(g => g.values),
+    ...(metric.flagged || []).map(f => f.value),
+  ]
   const yMin = allValues.length > 0 ? Math.min(...allValues) : 0
   const yMax = allValues.length > 0 ? Math.max(...allValues) : 1
   const padding = (yMax - yMin) * 0.1 || 1
@@ -159,7 +201,7 @@ export default function BoxPlotChart({ metric }: { metric: MetricStats }) {
             formatter={(_: any, _name: any, props: any) => {
               const d = props.payload
               return [
-                `n=${d.n} | Min: ${d.min.toFixed(2)} | Q1: ${d.q1.toFixed(2)} | Med: ${d.median.toFixed(2)} | Q3: ${d.q3.toFixed(2)} | Max: ${d.max.toFixed(2)}`,
+                `n=${d.n}${d.letter ? ` | Group: ${d.letter}` : ''} | Min: ${d.min.toFixed(2)} | Q1: ${d.q1.toFixed(2)} | Med: ${d.median.toFixed(2)} | Q3: ${d.q3.toFixed(2)} | Max: ${d.max.toFixed(2)}`,
                 d.name,
               ]
             }}
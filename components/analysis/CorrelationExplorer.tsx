@@ -0,0 +1,212 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import dynamic from 'next/dynamic'
+import { Loader2, Grid3x3 } from 'lucide-react'
+import Button from '@/components/ui/Button'
+import { cn } from '@/lib/utils'
+
+const CorrelationHeatmap = dynamic(() => import('@/components/analysis/CorrelationHeatmap'))
+const ScatterRegression = dynamic(() => import('@/components/analysis/ScatterRegression'), {
+  loading: () => <div className="h-64 flex items-center justify-center text-sm text-brand-grey-1">Loading chart…</div>,
+})
+const PcaBiplot = dynamic(() => import('@/components/analysis/PcaBiplot'), {
+  loading: () => <div className="h-64 flex items-center justify-center text-sm text-brand-grey-1">Loading chart…</div>,
+})
+
+const SOURCES = [
+  { value: 'soilChemistry', label: 'Soil Chemistry' },
+  { value: 'tissueChemistry', label: 'Tissue Chemistry' },
+  { value: 'sampleMetadata', label: 'Assay Results' },
+  { value: 'plotData', label: 'Plot Data' },
+]
+
+interface Variable {
+  key: string
+  source: string
+  metric: string
+  unit: string
+  n: number
+}
+
+interface SampleUnit {
+  key: string
+  trialId: string
+  ref: string
+  treatment: string | null
+  values: Record<string, number>
+}
+
+interface CorrelationResponse {
+  method: string
+  variables: Variable[]
+  units: SampleUnit[]
+  matrix: { r: (number | null)[][]; p: (number | null)[][]; n: number[][] }
+  pca: {
+    variables: string[]
+    explained: number[]
+    scores: { unit: string; ref: string; trialId: string; treatment: string | null; pc1: number; pc2: number }[]
+    loadings: { variable: string; pc1: number; pc2: number }[]
+  } | null
+}
+
+interface CorrelationExplorerProps {
+  selectedTrials: string[]
+  method: 'pearson' | 'spearman'
+  sources: string[]
+  onMethodChange: (method: 'pearson' | 'spearman') => void
+  onSourcesChange: (sources: string[]) => void
+  /** Compute immediately on mount (restored from a saved analysis or URL) */
+  autoRun?: boolean
+}
+
+export default function CorrelationExplorer({
+  selectedTrials,
+  method,
+  sources,
+  onMethodChange,
+  onSourcesChange,
+  autoRun = false,
+}: CorrelationExplorerProps) {
+  const [loading, setLoading] = useState(false)
+  const [result, setResult] = useState<CorrelationResponse | null>(null)
+  const [hasRun, setHasRun] = useState(false)
+  const [selected, setSelected] = useState<[number, number] | null>(null)
+
+  function toggleSource(value: string) {
+    onSourcesChange(sources.includes(value) ? sources.filter(s => s !== value) : [...sources, value])
+  }
+
+  async function runCorrelation() {
+    setLoading(true)
+    setResult(null)
+    setSelected(null)
+    setHasRun(true)
+
+    const params = new URLSearchParams()
+    params.set('method', method)
+    params.set('sources', sources.join(','))
+    if (selectedTrials.length > 0) {
+      params.set('trialIds', selectedTrials.join(','))
+    }
+
+    try {
+      const res = await fetch(`/api/analysis/correlation?${params}`)
+      if (res.ok) setResult(await res.json())
+    } catch {
+      // Silently handle
+    }
+    setLoading(false)
+  }
+
+  useEffect(() => {
+    if (autoRun) runCorrelation()
+  }, []) // eslint-disable-line react-hooks/exhaustive-deps
+
+  return (
+    <div>
+      <div className="card mb-6">
+        <div className="grid grid-cols-2 gap-4 mb-4">
+          <div>
+            <label className="signpost-label block mb-1">METHOD</label>
+            <select
+              value={method}
+              onChange={e => onMethodChange(e.target.value as 'pearson' | 'spearman')}
+              className="w-full px-3 py-2 rounded-lg border border-brand-grey-2 bg-brand-grey-3 text-sm text-brand-black focus:outline-none focus:border-brand-black/30"
+            >
+              <option value="pearson">Pearson (linear)</option>
+              <option value="spearman">Spearman (rank)</option>
+            </select>
+          </div>
+          <div>
+            <label className="signpost-label block mb-1">SOURCES</label>
+            <div className="flex flex-wrap gap-2">
+              {SOURCES.map(s => (
+                <button
+                  key={s.value}
+                  onClick={() => toggleSource(s.value)}
+                  className={cn(
+                    'px-3 py-1.5 rounded-full text-xs font-medium transition-colors',
+                    sources.includes(s.value)
+                      ? 'bg-brand-black text-white'
+                      : 'bg-brand-grey-3 text-brand-black/70 hover:bg-brand-grey-2'
+                  )}
+                >
+                  {s.label}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+        <p className="text-xs text-brand-grey-1 mb-4">
+          Sources are joined on trial + sample number (plot number for plot data); repeated measurements are averaged.
+        </p>
+        <Button onClick={runCorrelation} disabled={loading || sources.length === 0}>
+          {loading ? (
+            <>
+              <Loader2 size={14} className="animate-spin" />
+              Computing...
+            </>
+          ) : (
+            <>
+              <Grid3x3 size={14} />
+              Compute Correlations
+            </>
+          )}
+        </Button>
+      </div>
+
+      {hasRun && !loading && (!result || result.variables.length < 2) && (
+        <div className="card text-center py-8">
+          <p className="text-brand-grey-1 text-sm">Not enough joined data to correlate.</p>
+          <p className="text-brand-grey-1 text-xs mt-1">At least two metrics measured on three or more common samples are needed.</p>
+        </div>
+      )}
+
+      {result && result.variables.length >= 2 && (
+        <div className="space-y-6">
+          <div className="card">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-sm font-bold text-brand-black">
+                {result.method === 'spearman' ? 'Spearman' : 'Pearson'} correlation matrix
+              </h3>
+              <span className="text-xs text-brand-grey-1">
+                {result.variables.length} metrics · {result.units.length} samples · * p &lt; 0.05 · click a cell for the scatter
+              </span>
+            </div>
+            <CorrelationHeatmap
+              variables={result.variables}
+              r={result.matrix.r}
+              p={result.matrix.p}
+              n={result.matrix.n}
+              selected={selected}
+              onSelect={(i, j) => setSelected([i, j])}
+            />
+          </div>
+
+          {selected && (
+            <div className="card">
+              <ScatterRegression
+                units={result.units}
+                xVar={result.variables[selected[1]]}
+                yVar={result.variables[selected[0]]}
+              />
+            </div>
+          )}
+
+          {result.pca && (
+            <div className="card">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-sm font-bold text-brand-black">PCA biplot</h3>
+                <span className="text-xs text-brand-grey-1">
+                  {result.pca.variables.length} metrics · {result.pca.scores.length} complete samples · coloured by treatment
+                </span>
+              </div>
+              <PcaBiplot pca={result.pca} />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,112 @@
+'use client'
+
+/**
+ * Correlation matrix heatmap. Blue = positive, orange = negative;
+ * * marks p < 0.05. Clicking a cell selects that variable pair.
+ */
+
+interface CorrelationHeatmapProps {
+  variables: { key: string }[]
+  r: (number | null)[][]
+  p: (number | null)[][]
+  n: number[][]
+  selected: [number, number] | null
+  onSelect: (i: number, j: number) => void
+}
+
+const POSITIVE = [0, 139, 206]   // #008BCE
+const NEGATIVE = [230, 126, 34]  // #e67e22
+
+function cellColor(r: number | null): string {
+  if (r == null) return '#F2F2F3'
+  const [cr, cg, cb] = r >= 0 ? POSITIVE : NEGATIVE
+  const t = Math.min(1, Math.abs(r))
+  const mix = (c: number) => Math.round(255 + (c - 255) * t)
+  return `rgb(${mix(cr)}, ${mix(cg)}, ${mix(cb)})`
+}
+
+export default function CorrelationHeatmap({ variables, r, p, n, selected, onSelect }: CorrelationHeatmapProps) {
+  const size = variables.length
+  const cell = size > 20 ? 18 : size > 12 ? 26 : 38
+  const labelWidth = 170
+  const showValues = size <= 15
+
+  return (
+    <div className="overflow-x-auto">
+      <svg
+        width={labelWidth + size * cell + 10}
+        height={labelWidth + size * cell + 10}
+        className="font-sans"
+      >
+        {/* Column labels (rotated) */}
+        {variables.map((v, j) => (
+          <text
+            key={`col-${v.key}`}
+            transform={`translate(${labelWidth + j * cell + cell / 2}, ${labelWidth - 6}) rotate(-60)`}
+            fontSize={10}
+            fill="#161F28"
+          >
+            {v.key.length > 28 ? `${v.key.slice(0, 27)}…` : v.key}
+          </text>
+        ))}
+
+        {/* Row labels */}
+        {variables.map((v, i) => (
+          <text
+            key={`row-${v.key}`}
+            x={labelWidth - 6}
+            y={labelWidth + i * cell + cell / 2 + 3}
+            fontSize={10}
+            textAnchor="end"
+            fill="#161F28"
+          >
+            {v.key.length > 28 ? `${v.key.slice(0, 27)}…` : v.key}
+          </text>
+        ))}
+
+        {/* Cells */}
+        {variables.map((vi, i) =>
+          variables.map((vj, j) => {
+            const value = r[i][j]
+            const isSelected = selected != null && selected[0] === i && selected[1] === j
+            const significant = i !== j && p[i][j] != null && (p[i][j] as number) < 0.05
+            return (
+              <g
+                key={`${i}-${j}`}
+                onClick={() => i !== j && value != null && onSelect(i, j)}
+                style={{ cursor: i !== j && value != null ? 'pointer' : 'default' }}
+              >
+                <rect
+                  x={labelWidth + j * cell}
+                  y={labelWidth + i * cell}
+                  width={cell - 1}
+                  height={cell - 1}
+                  fill={cellColor(value)}
+                  stroke={isSelected ? '#161F28' : 'none'}
+                  strokeWidth={2}
+                />
+                {showValues && value != null && i !== j && (
+                  <text
+                    x={labelWidth + j * cell + cell / 2}
+                    y={labelWidth + i * cell + cell / 2 + 3}
+                    fontSize={9}
+                    textAnchor="middle"
+                    fill={Math.abs(value) > 0.6 ? 'white' : '#161F28'}
+                    pointerEvents="none"
+                  >
+                    {value.toFixed(2)}{significant ? '*' : ''}
+                  </text>
+                )}
+                <title>
+                  {`${vi.key} × ${vj.key}\nr = ${value != null ? value.toFixed(3) : '—'}` +
+                    `\np = ${p[i][j] != null ? ((p[i][j] as number) < 0.001 ? '<0.001' : (p[i][j] as number).toFixed(3)) : '—'}` +
+                    `\nn = ${n[i][j]}`}
+                </title>
+              </g>
+            )
+          })
+        )}
+      </svg>
+    </div>
+  )
+}
@@ -0,0 +1,168 @@
+'use client'
+
+import { useState } from 'react'
+import { AlertTriangle, Loader2, RotateCcw } from 'lucide-react'
+import Button from '@/components/ui/Button'
+import Modal from '@/components/ui/Modal'
+import { cn } from '@/lib/utils'
+
+export interface FlaggedRecord {
+  id: string
+  table: string
+  trialId: string
+  ref: string
+  group: string
+  value: number
+  outlier: boolean
+  excluded: boolean
+  exclusionReason: string | null
+}
+
+interface FlaggedRecordsPanelProps {
+  records: FlaggedRecord[]
+  /** Called after records are excluded or restored so the analysis can re-run */
+  onChanged: () => void
+}
+
+export default function FlaggedRecordsPanel({ records, onChanged }: FlaggedRecordsPanelProps) {
+  const [selected, setSelected] = useState<string[]>([])
+  const [modalOpen, setModalOpen] = useState(false)
+  const [reason, setReason] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  if (records.length === 0) return null
+
+  function toggle(id: string) {
+    setSelected(prev => (prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id]))
+  }
+
+  async function update(ids: string[], excluded: boolean, exclusionReason?: string) {
+    const table = records.find(r => ids.includes(r.id))?.table
+    if (!table) return
+    setSaving(true)
+    setError(null)
+    try {
+      const res = await fetch('/api/analysis/exclusions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ table, ids, excluded, reason: exclusionReason }),
+      })
+      if (!res.ok) {
+        const data = await res.json().catch(() => null)
+        throw new Error(data?.error || `Failed to update records (HTTP ${res.status}).`)
+      }
+      setSelected([])
+      setModalOpen(false)
+      setReason('')
+      onChanged()
+    } catch (err: any) {
+      setError(err.message || 'Failed to update records.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="mt-6">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="signpost-label flex items-center gap-1.5">
+          <AlertTriangle size={12} className="text-[#e67e22]" />
+          FLAGGED RECORDS
+        </h4>
+        <Button
+          size="sm"
+          variant="secondary"
+          disabled={selected.length === 0 || saving}
+          onClick={() => setModalOpen(true)}
+        >
+          Exclude selected ({selected.length})
+        </Button>
+      </div>
+
+      {error && (
+        <div className="mb-2 p-3 rounded-lg bg-red-50 border border-red-200 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="border-b border-brand-grey-2">
+              <th className="w-6 py-1.5 px-2" />
+              <th className="text-left py-1.5 px-2 text-brand-grey-1 font-medium">Trial</th>
+              <th className="text-left py-1.5 px-2 text-brand-grey-1 font-medium">Plot / Sample</th>
+              <th className="text-left py-1.5 px-2 text-brand-grey-1 font-medium">Group</th>
+              <th className="text-right py-1.5 px-2 text-brand-grey-1 font-medium">Value</th>
+              <th className="text-left py-1.5 px-2 text-brand-grey-1 font-medium">Status</th>
+              <th className="w-16 py-1.5 px-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {records.map(r => (
+              <tr key={r.id} className={cn('border-b border-brand-grey-3', r.excluded && 'text-brand-grey-1')}>
+                <td className="py-1.5 px-2">
+                  {!r.excluded && (
+                    <input
+                      type="checkbox"
+                      checked={selected.includes(r.id)}
+                      onChange={() => toggle(r.id)}
+                      className="accent-brand-black"
+                    />
+                  )}
+                </td>
+                <td className="py-1.5 px-2 font-mono">{r.trialId}</td>
+                <td className="py-1.5 px-2 font-mono">{r.ref || '—'}</td>
+                <td className="py-1.5 px-2">{r.group}</td>
+                <td className={cn('text-right py-1.5 px-2 font-mono', r.excluded && 'line-through')}>{r.value}</td>
+                <td className="py-1.5 px-2">
+                  {r.excluded ? `Excluded: ${r.exclusionReason || '—'}` : 'Outlier'}
+                </td>
+                <td className="py-1.5 px-2 text-right">
+                  {r.excluded && (
+                    <button
+                      onClick={() => update([r.id], false)}
+                      disabled={saving}
+                      className="inline-flex items-center gap-1 text-brand-black/70 hover:text-brand-black"
+                      title="Restore to analysis"
+                    >
+                      <RotateCcw size={12} />
+                      Restore
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <Modal open={modalOpen} onClose={() => setModalOpen(false)} title="Exclude records">
+        <div className="space-y-4">
+          <p className="text-sm text-brand-black/70">
+            {selected.length} record{selected.length === 1 ? '' : 's'} will be left out of analyses.
+            Nothing is deleted — use &ldquo;Include excluded&rdquo; to reproduce the original result.
+          </p>
+          <div>
+            <label className="signpost-label block mb-1">REASON</label>
+            <input
+              type="text"
+              value={reason}
+              onChange={e => setReason(e.target.value)}
+              placeholder="e.g. Mis-keyed yield, harvester fault"
+              className="w-full px-3 py-2 rounded-lg border border-brand-grey-2 bg-brand-grey-3 text-sm text-brand-black focus:outline-none focus:border-brand-black/30"
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" onClick={() => setModalOpen(false)}>Cancel</Button>
+            <Button onClick={() => update(selected, true, reason.trim())} disabled={!reason.trim() || saving}>
+              {saving && <Loader2 size={14} className="animate-spin" />}
+              Exclude
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  )
+}
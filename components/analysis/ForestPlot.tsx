@@ -0,0 +1,119 @@
+'use client'
+
+/**
+ * Forest plot of per-product effects relative to the control.
+ * Each row shows the pooled difference (point) and its 95% CI (whiskers);
+ * rows whose interval crosses zero are not significant.
+ */
+
+import {
+  ComposedChart,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Scatter,
+  ReferenceLine,
+} from 'recharts'
+import type { CrossSiteResult } from '@/lib/stats'
+
+// Custom row shape: CI line with caps and a point sized by site count
+function ForestRowShape(props: any) {
+  const { cx, cy, payload } = props
+  if (!payload || cx == null || cy == null) return null
+
+  const xScale = props.xAxis
+  if (!xScale || !xScale.scale) return null
+
+  const scale = xScale.scale
+  const xLow = scale(payload.ciLow)
+  const xHigh = scale(payload.ciHigh)
+  const significant = payload.ciLow > 0 || payload.ciHigh < 0
+  const color = significant ? (payload.estimate > 0 ? '#00BB7E' : '#e67e22') : '#B9BCBF'
+  const size = 4 + Math.min(payload.sites, 6)
+
+  return (
+    <g>
+      <line x1={xLow} x2={xHigh} y1={cy} y2={cy} stroke="#161F28" strokeWidth={1.5} />
+      <line x1={xLow} x2={xLow} y1={cy - 5} y2={cy + 5} stroke="#161F28" strokeWidth={1.5} />
+      <line x1={xHigh} x2={xHigh} y1={cy - 5} y2={cy + 5} stroke="#161F28" strokeWidth={1.5} />
+      <rect x={cx - size / 2} y={cy - size / 2} width={size} height={size} fill={color} stroke="#161F28" />
+    </g>
+  )
+}
+
+export default function ForestPlot({ result, unit }: { result: CrossSiteResult; unit: string }) {
+  const data = result.effects.map(e => ({
+    name: e.label,
+    estimate: e.estimate,
+    ciLow: e.ciLow,
+    ciHigh: e.ciHigh,
+    pValue: e.pValue,
+    i2: e.i2,
+    sites: e.sites.length,
+  }))
+
+  const lo = Math.min(0, ...data.map(d => d.ciLow))
+  const hi = Math.max(0, ...data.map(d => d.ciHigh))
+  const padding = (hi - lo) * 0.1 || 1
+
+  return (
+    <div style={{ width: '100%', height: Math.max(160, 48 + data.length * 36) }}>
+      <ResponsiveContainer>
+        <ComposedChart
+          data={data}
+          layout="vertical"
+          margin={{ top: 10, right: 20, bottom: 20, left: 20 }}
+        >
+          <CartesianGrid strokeDasharray="3 3" stroke="#DCDDDF" horizontal={false} />
+          <XAxis
+            type="number"
+            dataKey="estimate"
+            domain={[lo - padding, hi + padding]}
+            tick={{ fontSize: 11, fill: '#B9BCBF' }}
+            tickFormatter={(v: number) => v.toFixed(2)}
+            tickLine={false}
+            axisLine={{ stroke: '#DCDDDF' }}
+            label={{
+              value: `Difference from ${result.control}${unit ? ` (${unit})` : ''}`,
+              position: 'insideBottom',
+              offset: -10,
+              style: { fontSize: 11, fill: '#B9BCBF' },
+            }}
+          />
+          <YAxis
+            type="category"
+            dataKey="name"
+            width={120}
+            tick={{ fontSize: 11, fill: '#161F28' }}
+            tickLine={false}
+            axisLine={false}
+          />
+          <ReferenceLine x={0} stroke="#161F28" strokeDasharray="4 4" />
+          <Tooltip
+            contentStyle={{
+              fontSize: 12,
+              borderRadius: 8,
+              border: '1px solid #DCDDDF',
+              boxShadow: '0 2px 8px rgba(0,0,0,0.08)',
+            }}
+            formatter={(_: any, _name: any, props: any) => {
+              const d = props.payload
+              const p = d.pValue == null ? '—' : d.pValue < 0.001 ? '<0.001' : d.pValue.toFixed(3)
+              return [
+                `${d.estimate.toFixed(3)} [${d.ciLow.toFixed(3)}, ${d.ciHigh.toFixed(3)}] | p=${p} | ${d.sites} site${d.sites === 1 ? '' : 's'}${d.i2 != null ? ` | I²=${d.i2.toFixed(0)}%` : ''}`,
+                d.name,
+              ]
+            }}
+          />
+          <Scatter
+            dataKey="estimate"
+            shape={<ForestRowShape />}
+            isAnimationActive={false}
+          />
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  )
+}
@@ -0,0 +1,371 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Plus, Pencil, Trash2, Loader2, GitMerge } from 'lucide-react'
+import Button from '@/components/ui/Button'
+import Modal from '@/components/ui/Modal'
+import { cn } from '@/lib/utils'
+import type { ManagedMetric } from '@/lib/metric-catalogue'
+
+const SOURCES = [
+  { value: 'soilChemistry', label: 'Soil Chemistry' },
+  { value: 'tissueChemistry', label: 'Tissue Chemistry' },
+  { value: 'sampleMetadata', label: 'Assay Results' },
+]
+
+interface ObservedMetric {
+  metric: string
+  unit: string
+  rows: number
+  canonical: string | null
+}
+
+/** A stored metric name awaiting a merge, across the units it was stored in */
+interface Unmerged {
+  metric: string
+  units: string[]
+  rows: number
+  canonical: string | null
+}
+
+interface Draft {
+  id: string | null
+  name: string
+  category: string
+  unit: string
+  /** One per line */
+  aliases: string
+  equivalentWeight: string
+  optimalMin: string
+  optimalMax: string
+}
+
+const EMPTY_DRAFT: Draft = {
+  id: null,
+  name: '',
+  category: '',
+  unit: '',
+  aliases: '',
+  equivalentWeight: '',
+  optimalMin: '',
+  optimalMax: '',
+}
+
+const numText = (v: number | null | undefined) => (v == null ? '' : String(v))
+
+function draftFrom(m: ManagedMetric): Draft {
+  return {
+    id: m.id,
+    name: m.name,
+    category: m.category ?? '',
+    unit: m.unit,
+    aliases: m.aliases.join('\n'),
+    equivalentWeight: numText(m.equivalentWeight),
+    optimalMin: numText(m.optimalMin),
+    optimalMax: numText(m.optimalMax),
+  }
+}
+
+// Names stored other than as their entry's name (or resolving to no entry)
+function unmerged(observed: ObservedMetric[]): Unmerged[] {
+  const byMetric = new Map<string, Unmerged>()
+  for (const o of observed) {
+    if (o.metric === o.canonical) continue
+    if (!byMetric.has(o.metric)) byMetric.set(o.metric, { metric: o.metric, units: [], rows: 0, canonical: o.canonical })
+    const entry = byMetric.get(o.metric)!
+    entry.units.push(o.unit || 'no unit')
+    entry.rows += o.rows
+  }
+  return Array.from(byMetric.values())
+}
+
+const inputClass = 'w-full px-3 py-2 rounded-lg border border-brand-grey-2 bg-brand-grey-3 text-sm text-brand-black focus:outline-none focus:border-brand-black/30'
+
+export default function MetricCatalogueManager() {
+  const [source, setSource] = useState('soilChemistry')
+  const [metrics, setMetrics] = useState<ManagedMetric[]>([])
+  const [observed, setObserved] = useState<ObservedMetric[]>([])
+  const [loading, setLoading] = useState(false)
+  const [draft, setDraft] = useState<Draft | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [targets, setTargets] = useState<Record<string, string>>({})
+  const [merging, setMerging] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  useEffect(() => {
+    load(source)
+  }, [source])
+
+  async function load(s: string) {
+    setLoading(true)
+    try {
+      const res = await fetch(`/api/metric-catalogue?source=${s}`)
+      if (res.ok) {
+        const data = await res.json()
+        setMetrics(data.metrics || [])
+        setObserved(data.observed || [])
+      }
+    } catch (err) {
+      console.error('Failed to load metric catalogue:', err)
+    }
+    setLoading(false)
+  }
+
+  function update(patch: Partial<Draft>) {
+    setDraft(d => (d ? { ...d, ...patch } : d))
+  }
+
+  async function save() {
+    if (!draft) return
+    setSaving(true)
+    setError(null)
+    try {
+      const res = await fetch(draft.id ? `/api/metric-catalogue/${draft.id}` : '/api/metric-catalogue', {
+        method: draft.id ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          source,
+          name: draft.name,
+          category: draft.category,
+          unit: draft.unit,
+          aliases: draft.aliases.split('\n').map(a => a.trim()).filter(Boolean),
+          equivalentWeight: draft.equivalentWeight,
+          optimalMin: draft.optimalMin,
+          optimalMax: draft.optimalMax,
+        }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Save failed')
+      setDraft(null)
+      load(source)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Save failed')
+    }
+    setSaving(false)
+  }
+
+  async function remove(m: ManagedMetric) {
+    if (!m.id) return
+    if (!confirm(`Delete "${m.name}" from the catalogue? Built-in metrics revert to their defaults.`)) return
+    const res = await fetch(`/api/metric-catalogue/${m.id}`, { method: 'DELETE' })
+    if (res.ok) load(source)
+  }
+
+  async function merge(u: Unmerged) {
+    const target = targets[u.metric] ?? u.canonical
+    if (!target) return
+    if (!confirm(`Merge "${u.metric}" into "${target}"? ${u.rows} stored rows will be renamed and converted to its unit.`)) return
+    setMerging(u.metric)
+    setMessage(null)
+    try {
+      const res = await fetch('/api/metric-catalogue/merge', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ source, target, metrics: [u.metric] }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Merge failed')
+      setMessage(
+        `Merged "${u.metric}" into "${target}": ${data.updated} rows re-keyed` +
+        (data.skipped ? `, ${data.skipped} left because the sample already had a ${target} value` : '')
+      )
+      load(source)
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : 'Merge failed')
+    }
+    setMerging(null)
+  }
+
+  const pending = unmerged(observed)
+
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between mb-3">
+        <p className="signpost-label">METRIC CATALOGUE</p>
+        <Button size="sm" variant="ghost" onClick={() => { setError(null); setDraft(EMPTY_DRAFT) }}>
+          <Plus size={14} />
+        </Button>
+      </div>
+
+      <div className="flex gap-1 mb-3">
+        {SOURCES.map(s => (
+          <button
+            key={s.value}
+            onClick={() => { setSource(s.value); setMessage(null); setTargets({}) }}
+            className={cn(
+              'px-2.5 py-1 rounded-full text-xs font-medium transition-colors',
+              source === s.value
+                ? 'bg-brand-black text-white'
+                : 'bg-brand-grey-3 text-brand-black/70 hover:bg-brand-grey-2'
+            )}
+          >
+            {s.label}
+          </button>
+        ))}
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-brand-grey-1">Loading catalogue...</p>
+      ) : (
+        <>
+          {metrics.length === 0 ? (
+            <p className="text-xs text-brand-grey-1">No metrics catalogued for this source yet.</p>
+          ) : (
+            <div className="divide-y divide-brand-grey-2 max-h-80 overflow-y-auto">
+              {metrics.map(m => (
+                <div key={m.name} className="flex items-center gap-2 py-2">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-brand-black truncate">
+                      {m.name}
+                      {m.unit && <span className="font-normal text-brand-grey-1"> ({m.unit})</span>}
+                    </p>
+                    <p className="text-xs text-brand-grey-1 truncate">
+                      {[
+                        m.category,
+                        m.optimalMin != null || m.optimalMax != null
+                          ? `optimal ${m.optimalMin ?? '…'}–${m.optimalMax ?? '…'}`
+                          : null,
+                        `${m.aliases.length} aliases`,
+                        m.id ? null : 'built-in',
+                      ].filter(Boolean).join(' · ')}
+                    </p>
+                  </div>
+                  <Button size="sm" variant="ghost" onClick={() => { setError(null); setDraft(draftFrom(m)) }}>
+                    <Pencil size={14} />
+                  </Button>
+                  {m.id && (
+                    <Button size="sm" variant="ghost" onClick={() => remove(m)}>
+                      <Trash2 size={14} />
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {pending.length > 0 && (
+            <div className="mt-4 pt-4 border-t border-brand-grey-2">
+              <p className="signpost-label mb-1">STORED NAMES TO MERGE</p>
+              <p className="text-xs text-brand-grey-1 mb-2">
+                Merging adds the name as an alias and re-keys its stored rows to the entry&rsquo;s name and unit.
+              </p>
+              <div className="space-y-2">
+                {pending.map(u => (
+                  <div key={u.metric} className="flex items-center gap-2 py-2 px-3 rounded-lg bg-brand-grey-3 text-sm">
+                    <div className="min-w-0 flex-1">
+                      <p className="font-medium truncate">{u.metric}</p>
+                      <p className="text-xs text-brand-grey-1 truncate">{u.units.join(', ')} · {u.rows} rows</p>
+                    </div>
+                    <select
+                      value={targets[u.metric] ?? u.canonical ?? ''}
+                      onChange={e => setTargets(t => ({ ...t, [u.metric]: e.target.value }))}
+                      className="px-2 py-1 rounded-md border border-brand-grey-2 bg-white text-xs font-medium focus:outline-none focus:border-brand-black/30 max-w-[10rem]"
+                    >
+                      <option value="">Merge into…</option>
+                      {metrics.map(m => <option key={m.name} value={m.name}>{m.name}</option>)}
+                    </select>
+                    <Button
+                      size="sm"
+                      variant="secondary"
+                      onClick={() => merge(u)}
+                      disabled={merging != null || !(targets[u.metric] ?? u.canonical)}
+                    >
+                      {merging === u.metric ? <Loader2 size={12} className="animate-spin" /> : <GitMerge size={12} />}
+                      Merge
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {message && <p className="text-xs text-brand-grey-1 mt-3">{message}</p>}
+        </>
+      )}
+
+      <Modal open={draft != null} onClose={() => setDraft(null)} title={draft?.id || draft?.name ? 'Edit metric' : 'New metric'}>
+        {draft && (
+          <div className="space-y-4 max-h-[70vh] overflow-y-auto pr-1">
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="signpost-label block mb-1">NAME</label>
+                <input value={draft.name} onChange={e => update({ name: e.target.value })} className={inputClass} />
+              </div>
+              <div>
+                <label className="signpost-label block mb-1">CATEGORY</label>
+                <input value={draft.category} onChange={e => update({ category: e.target.value })} className={inputClass} />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="signpost-label block mb-1">DEFAULT UNIT</label>
+                <input
+                  value={draft.unit}
+                  onChange={e => update({ unit: e.target.value })}
+                  placeholder="e.g. mg/kg"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="signpost-label block mb-1">EQUIVALENT WEIGHT</label>
+                <input
+                  type="number"
+                  value={draft.equivalentWeight}
+                  onChange={e => update({ equivalentWeight: e.target.value })}
+                  placeholder="Cations only, mg/mmol(+)"
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="signpost-label block mb-1">OPTIMAL MIN</label>
+                <input
+                  type="number"
+                  value={draft.optimalMin}
+                  onChange={e => update({ optimalMin: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="signpost-label block mb-1">OPTIMAL MAX</label>
+                <input
+                  type="number"
+                  value={draft.optimalMax}
+                  onChange={e => update({ optimalMax: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="signpost-label block mb-1">ALIASES</label>
+              <textarea
+                value={draft.aliases}
+                onChange={e => update({ aliases: e.target.value })}
+                rows={4}
+                placeholder="One per line — header names labs use for this metric"
+                className={inputClass}
+              />
+            </div>
+
+            {error && (
+              <div className="p-3 rounded-lg bg-red-50 border border-red-200 text-sm text-red-700">{error}</div>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" onClick={() => setDraft(null)}>Cancel</Button>
+              <Button onClick={save} disabled={saving || !draft.name.trim()}>
+                {saving && <Loader2 size={14} className="animate-spin" />}
+                Save metric
+              </Button>
+            </div>
+          </div>
+        )}
+      </Modal>
+    </div>
+  )
+}
@@ -0,0 +1,121 @@
+'use client'
+
+/**
+ * PCA biplot: sample scores on PC1/PC2 coloured by treatment, with variable
+ * loadings drawn as arrows from the origin (scaled to the score range).
+ */
+
+import {
+  ComposedChart,
+  Scatter,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  ReferenceLine,
+} from 'recharts'
+
+const CHART_COLORS = [
+  '#008BCE', '#00BB7E', '#006AC6', '#009775', '#004C97',
+  '#e67e22', '#99F0FA', '#B9EFA3', '#161F28', '#B9BCBF',
+]
+
+interface PcaBiplotProps {
+  pca: {
+    explained: number[]
+    scores: { unit: string; ref: string; trialId: string; treatment: string | null; pc1: number; pc2: number }[]
+    loadings: { variable: string; pc1: number; pc2: number }[]
+  }
+}
+
+export default function PcaBiplot({ pca }: PcaBiplotProps) {
+  const groups = new Map<string, { x: number; y: number; ref: string; trialId: string }[]>()
+  for (const s of pca.scores) {
+    const label = s.treatment || 'Unassigned'
+    if (!groups.has(label)) groups.set(label, [])
+    groups.get(label)!.push({ x: s.pc1, y: s.pc2, ref: s.ref, trialId: s.trialId })
+  }
+  const byTreatment = Array.from(groups.entries()).sort((a, b) => a[0].localeCompare(b[0]))
+
+  // Scale loadings so the longest arrow reaches ~90% of the furthest score
+  const scoreExtent = Math.max(1e-9, ...pca.scores.map(s => Math.max(Math.abs(s.pc1), Math.abs(s.pc2))))
+  const loadingExtent = Math.max(1e-9, ...pca.loadings.map(l => Math.hypot(l.pc1, l.pc2)))
+  const k = (0.9 * scoreExtent) / loadingExtent
+  const extent = scoreExtent * 1.1
+
+  const pct = (i: number) => `${((pca.explained[i] ?? 0) * 100).toFixed(1)}%`
+
+  return (
+    <div style={{ width: '100%', height: 420 }}>
+      <ResponsiveContainer>
+        <ComposedChart margin={{ top: 15, right: 20, bottom: 20, left: 20 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#DCDDDF" />
+          <XAxis
+            dataKey="x"
+            type="number"
+            domain={[-extent, extent]}
+            tickFormatter={(v: number) => v.toFixed(1)}
+            tick={{ fontSize: 11, fill: '#161F28' }}
+            tickLine={false}
+            axisLine={{ stroke: '#DCDDDF' }}
+            label={{
+              value: `PC1 (${pct(0)})`,
+              position: 'insideBottom',
+              offset: -10,
+              style: { fontSize: 11, fill: '#B9BCBF' },
+            }}
+          />
+          <YAxis
+            dataKey="y"
+            type="number"
+            domain={[-extent, extent]}
+            tickFormatter={(v: number) => v.toFixed(1)}
+            tick={{ fontSize: 11, fill: '#B9BCBF' }}
+            tickLine={false}
+            axisLine={false}
+            label={{
+              value: `PC2 (${pct(1)})`,
+              angle: -90,
+              position: 'insideLeft',
+              style: { fontSize: 11, fill: '#B9BCBF' },
+            }}
+          />
+          <ReferenceLine x={0} stroke="#DCDDDF" />
+          <ReferenceLine y={0} stroke="#DCDDDF" />
+          {pca.loadings.map(l => (
+            <ReferenceLine
+              key={l.variable}
+              segment={[{ x: 0, y: 0 }, { x: l.pc1 * k, y: l.pc2 * k }]}
+              stroke="#161F28"
+              strokeWidth={1}
+              label={{ value: l.variable, position: 'end', fontSize: 9, fill: '#161F28' }}
+              ifOverflow="extendDomain"
+            />
+          ))}
+          <Tooltip
+            contentStyle={{
+              fontSize: 12,
+              borderRadius: 8,
+              border: '1px solid #DCDDDF',
+              boxShadow: '0 2px 8px rgba(0,0,0,0.08)',
+            }}
+            formatter={(value: any, name: any) => [Number(value).toFixed(3), name === 'x' ? 'PC1' : 'PC2']}
+            labelFormatter={() => ''}
+          />
+          <Legend wrapperStyle={{ fontSize: 11, paddingTop: 12 }} />
+          {byTreatment.map(([label, points], i) => (
+            <Scatter
+              key={label}
+              name={label}
+              data={points}
+              fill={CHART_COLORS[i % CHART_COLORS.length]}
+              isAnimationActive={false}
+            />
+          ))}
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  )
+}
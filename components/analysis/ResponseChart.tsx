@@ -0,0 +1,92 @@
+'use client'
+
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ErrorBar,
+  Cell,
+  ReferenceLine,
+} from 'recharts'
+import type { ControlResponseResult } from '@/lib/stats'
+
+export type ResponseMeasure = 'percentResponse' | 'difference' | 'responseRatio'
+
+const MEASURE_CONFIG: Record<ResponseMeasure, { label: string; baseline: number; se: 'percentResponseSe' | 'differenceSe' | 'responseRatioSe' }> = {
+  percentResponse: { label: '% response vs control', baseline: 0, se: 'percentResponseSe' },
+  difference: { label: 'Difference from control', baseline: 0, se: 'differenceSe' },
+  responseRatio: { label: 'Response ratio', baseline: 1, se: 'responseRatioSe' },
+}
+
+export default function ResponseChart({
+  response,
+  measure,
+  unit,
+}: {
+  response: ControlResponseResult
+  measure: ResponseMeasure
+  unit: string
+}) {
+  const config = MEASURE_CONFIG[measure]
+  const data = response.groups
+    .filter(g => g[measure] != null)
+    .map(g => ({
+      name: g.label,
+      value: parseFloat((g[measure] as number).toFixed(3)),
+      errorBar: parseFloat((g[config.se] ?? 0).toFixed(3)),
+      n: g.n,
+    }))
+
+  const axisLabel = measure === 'difference' && unit ? `${config.label} (${unit})` : config.label
+
+  return (
+    <div style={{ width: '100%', height: 280 }}>
+      <ResponsiveContainer>
+        <BarChart data={data} margin={{ top: 20, right: 20, bottom: 20, left: 20 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#DCDDDF" />
+          <XAxis
+            dataKey="name"
+            tick={{ fontSize: 11, fill: '#161F28' }}
+            tickLine={false}
+            axisLine={{ stroke: '#DCDDDF' }}
+          />
+          <YAxis
+            tick={{ fontSize: 11, fill: '#B9BCBF' }}
+            tickLine={false}
+            axisLine={false}
+            label={{
+              value: axisLabel,
+              angle: -90,
+              position: 'insideLeft',
+              style: { fontSize: 11, fill: '#B9BCBF' },
+            }}
+          />
+          <ReferenceLine y={config.baseline} stroke="#161F28" strokeDasharray="4 4" />
+          <Tooltip
+            contentStyle={{
+              fontSize: 12,
+              borderRadius: 8,
+              border: '1px solid #DCDDDF',
+              boxShadow: '0 2px 8px rgba(0,0,0,0.08)',
+            }}
+            formatter={(value: any, name: any, props: any) => {
+              if (name === 'value') return [`${Number(value).toFixed(3)} ± ${props.payload.errorBar} (n=${props.payload.n})`, config.label]
+              return [value, name]
+            }}
+            labelStyle={{ fontWeight: 600 }}
+          />
+          <Bar dataKey="value" radius={[4, 4, 0, 0]} maxBarSize={60}>
+            {data.map((d, i) => (
+              <Cell key={i} fill={d.value >= config.baseline ? '#00BB7E' : '#e67e22'} />
+            ))}
+            <ErrorBar dataKey="errorBar" width={8} strokeWidth={1.5} stroke="#161F28" />
+          </Bar>
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  )
+}
@@ -0,0 +1,190 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Loader2, Save, Link2, Trash2, Check } from 'lucide-react'
+import Button from '@/components/ui/Button'
+import Modal from '@/components/ui/Modal'
+import { configToSearchParams, sanitiseConfig, type AnalysisConfig } from '@/lib/analysis-config'
+
+export interface SavedAnalysisSummary {
+  id: string
+  name: string
+  description: string | null
+  config: unknown
+  created_by: string | null
+  updated_at: string
+}
+
+interface SavedAnalysesBarProps {
+  savedAnalyses: SavedAnalysisSummary[]
+  activeId: string | null
+  userId: string | null
+  config: AnalysisConfig
+}
+
+export default function SavedAnalysesBar({ savedAnalyses, activeId, userId, config }: SavedAnalysesBarProps) {
+  const router = useRouter()
+  const [modalOpen, setModalOpen] = useState(false)
+  const [name, setName] = useState('')
+  const [description, setDescription] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [copied, setCopied] = useState(false)
+
+  const active = savedAnalyses.find(a => a.id === activeId) ?? null
+  const isOwner = active != null && active.created_by === userId
+  const modified = active != null &&
+    configToSearchParams(sanitiseConfig(active.config)).toString() !== configToSearchParams(config).toString()
+
+  const mine = savedAnalyses.filter(a => a.created_by === userId)
+  const shared = savedAnalyses.filter(a => a.created_by !== userId)
+
+  async function saveNew() {
+    setSaving(true)
+    setError(null)
+    try {
+      const res = await fetch('/api/analyses', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: name.trim(), description: description.trim(), config }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Save failed')
+      setModalOpen(false)
+      setName('')
+      setDescription('')
+      router.push(`/analysis?saved=${data.id}`)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Save failed')
+    }
+    setSaving(false)
+  }
+
+  async function updateActive() {
+    if (!active) return
+    setSaving(true)
+    try {
+      const res = await fetch(`/api/analyses/${active.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ config }),
+      })
+      if (res.ok) router.refresh()
+    } catch {
+      // Silently handle
+    }
+    setSaving(false)
+  }
+
+  async function deleteActive() {
+    if (!active || !confirm(`Delete saved analysis "${active.name}"?`)) return
+    try {
+      const res = await fetch(`/api/analyses/${active.id}`, { method: 'DELETE' })
+      if (res.ok) router.push('/analysis')
+    } catch {
+      // Silently handle
+    }
+  }
+
+  async function copyLink() {
+    try {
+      await navigator.clipboard.writeText(window.location.href)
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    } catch {
+      // Clipboard unavailable
+    }
+  }
+
+  return (
+    <div className="card mb-4">
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="flex-1 min-w-[240px]">
+          <label className="signpost-label block mb-1">SAVED ANALYSIS</label>
+          <select
+            value={activeId ?? ''}
+            onChange={e => router.push(e.target.value ? `/analysis?saved=${e.target.value}` : '/analysis')}
+            className="w-full px-3 py-2 rounded-lg border border-brand-grey-2 bg-brand-grey-3 text-sm text-brand-black focus:outline-none focus:border-brand-black/30"
+          >
+            <option value="">Unsaved analysis</option>
+            {mine.length > 0 && (
+              <optgroup label="My analyses">
+                {mine.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+              </optgroup>
+            )}
+            {shared.length > 0 && (
+              <optgroup label="Shared">
+                {shared.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+              </optgroup>
+            )}
+          </select>
+        </div>
+        {isOwner && modified && (
+          <Button variant="secondary" size="sm" onClick={updateActive} disabled={saving}>
+            {saving ? <Loader2 size={14} className="animate-spin" /> : <Save size={14} />}
+            Update
+          </Button>
+        )}
+        <Button variant="secondary" size="sm" onClick={() => setModalOpen(true)}>
+          <Save size={14} />
+          Save as…
+        </Button>
+        <Button variant="ghost" size="sm" onClick={copyLink}>
+          {copied ? <Check size={14} /> : <Link2 size={14} />}
+          {copied ? 'Copied' : 'Copy link'}
+        </Button>
+        {isOwner && (
+          <Button variant="ghost" size="sm" onClick={deleteActive}>
+            <Trash2 size={14} />
+          </Button>
+        )}
+      </div>
+      {active && (
+        <p className="text-xs text-brand-grey-1 mt-2">
+          {active.description || 'No description'}
+          {modified && ' · settings changed since saved'}
+        </p>
+      )}
+
+      <Modal open={modalOpen} onClose={() => setModalOpen(false)} title="Save analysis">
+        <div className="space-y-4">
+          <div>
+            <label className="signpost-label block mb-1">NAME</label>
+            <input
+              type="text"
+              value={name}
+              onChange={e => setName(e.target.value)}
+              placeholder="e.g. 2025 wheat yield response"
+              className="w-full px-3 py-2 rounded-lg border border-brand-grey-2 bg-brand-grey-3 text-sm text-brand-black focus:outline-none focus:border-brand-black/30"
+            />
+          </div>
+          <div>
+            <label className="signpost-label block mb-1">DESCRIPTION</label>
+            <textarea
+              value={description}
+              onChange={e => setDescription(e.target.value)}
+              rows={3}
+              className="w-full px-3 py-2 rounded-lg border border-brand-grey-2 bg-brand-grey-3 text-sm text-brand-black focus:outline-none focus:border-brand-black/30"
+            />
+          </div>
+          {config.trialIds.length === 0 && (
+            <p className="text-xs text-brand-grey-1">
+              No trials are selected, so this analysis will not appear on any trial&apos;s Analyses tab.
+            </p>
+          )}
+          {error && (
+            <div className="p-3 rounded-lg bg-red-50 border border-red-200 text-sm text-red-700">{error}</div>
+          )}
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" onClick={() => setModalOpen(false)}>Cancel</Button>
+            <Button onClick={saveNew} disabled={!name.trim() || saving}>
+              {saving && <Loader2 size={14} className="animate-spin" />}
+              Save
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  )
+}
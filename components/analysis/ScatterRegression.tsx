@@ -0,0 +1,131 @@
+'use client'
+
+import { useMemo } from 'react'
+import {
+  ComposedChart,
+  Scatter,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts'
+import { linearRegression } from '@/lib/geo-utils'
+
+const CHART_COLORS = [
+  '#008BCE', '#00BB7E', '#006AC6', '#009775', '#004C97',
+  '#e67e22', '#99F0FA', '#B9EFA3', '#161F28', '#B9BCBF',
+]
+
+interface ScatterRegressionProps {
+  units: { key: string; ref: string; trialId: string; treatment: string | null; values: Record<string, number> }[]
+  xVar: { key: string; unit: string }
+  yVar: { key: string; unit: string }
+}
+
+export default function ScatterRegression({ units, xVar, yVar }: ScatterRegressionProps) {
+  const { byTreatment, regression, xMin, xMax } = useMemo(() => {
+    const groups = new Map<string, { x: number; y: number; ref: string; trialId: string }[]>()
+    const xs: number[] = []
+    const ys: number[] = []
+    for (const u of units) {
+      const x = u.values[xVar.key]
+      const y = u.values[yVar.key]
+      if (x == null || y == null) continue
+      const label = u.treatment || 'Unassigned'
+      if (!groups.has(label)) groups.set(label, [])
+      groups.get(label)!.push({ x, y, ref: u.ref, trialId: u.trialId })
+      xs.push(x)
+      ys.push(y)
+    }
+    return {
+      byTreatment: Array.from(groups.entries()).sort((a, b) => a[0].localeCompare(b[0])),
+      regression: xs.length >= 2 ? linearRegression(xs, ys) : null,
+      xMin: xs.length > 0 ? Math.min(...xs) : 0,
+      xMax: xs.length > 0 ? Math.max(...xs) : 0,
+    }
+  }, [units, xVar.key, yVar.key])
+
+  const lineData = regression ? [
+    { x: xMin, y: regression.intercept + regression.slope * xMin },
+    { x: xMax, y: regression.intercept + regression.slope * xMax },
+  ] : []
+
+  const xLabel = xVar.key + (xVar.unit ? ` (${xVar.unit})` : '')
+  const yLabel = yVar.key + (yVar.unit ? ` (${yVar.unit})` : '')
+
+  return (
+    <div>
+      <p className="text-sm font-semibold text-brand-black mb-1">{yVar.key} vs {xVar.key}</p>
+      {regression && (
+        <p className="text-xs text-brand-grey-1 mb-2">
+          y = {regression.slope.toFixed(4)}x + {regression.intercept.toFixed(4)} | R&sup2; = {regression.rSquared.toFixed(4)} | n = {regression.n}
+          {regression.pValue != null && (
+            <> | p = {regression.pValue < 0.001 ? '<0.001' : regression.pValue.toFixed(4)}</>
+          )}
+        </p>
+      )}
+      <div style={{ width: '100%', height: 320 }}>
+        <ResponsiveContainer>
+          <ComposedChart margin={{ top: 15, right: 20, bottom: 20, left: 20 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#DCDDDF" />
+            <XAxis
+              dataKey="x"
+              type="number"
+              domain={['dataMin', 'dataMax']}
+              tick={{ fontSize: 11, fill: '#161F28' }}
+              tickLine={false}
+              axisLine={{ stroke: '#DCDDDF' }}
+              label={{
+                value: xLabel,
+                position: 'insideBottom',
+                offset: -10,
+                style: { fontSize: 11, fill: '#B9BCBF' },
+              }}
+            />
+            <YAxis
+              dataKey="y"
+              type="number"
+              domain={['auto', 'auto']}
+              tick={{ fontSize: 11, fill: '#B9BCBF' }}
+              tickLine={false}
+              axisLine={false}
+              label={{
+                value: yLabel,
+                angle: -90,
+                position: 'insideLeft',
+                style: { fontSize: 11, fill: '#B9BCBF' },
+              }}
+            />
+            <Tooltip
+              contentStyle={{
+                fontSize: 12,
+                borderRadius: 8,
+                border: '1px solid #DCDDDF',
+                boxShadow: '0 2px 8px rgba(0,0,0,0.08)',
+              }}
+              formatter={(value: any, name: any) => [Number(value).toFixed(3), name === 'x' ? xVar.key : yVar.key]}
+              labelFormatter={() => ''}
+            />
+            <Legend wrapperStyle={{ fontSize: 11, paddingTop: 12 }} />
+            {/* Scatter points, coloured by treatment */}
+            {byTreatment.map(([label, points], i) => (
+              <Scatter
+                key={label}
+                name={label}
+                data={points}
+                fill={CHART_COLORS[i % CHART_COLORS.length]}
+                isAnimationActive={false}
+              />
+            ))}
+            {/* Regression line */}
+            {lineData.length === 2 && (
+              <Scatter data={lineData} line={{ stroke: '#161F28', strokeWidth: 2, strokeDasharray: '6 3' }} fill="none" isAnimationActive={false} legendType="none" />
+            )}
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  )
+}
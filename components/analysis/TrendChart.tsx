@@ -0,0 +1,127 @@
+'use client'
+
+/**
+ * Per-treatment trend lines across sampling dates with ±1 SE ribbons.
+ * Can plot either the raw means or the change from each treatment's
+ * baseline sample.
+ */
+
+import {
+  ComposedChart,
+  Line,
+  Area,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  ReferenceLine,
+} from 'recharts'
+import type { TimeSeries } from '@/lib/stats'
+import { formatDate } from '@/lib/utils'
+
+const CHART_COLORS = [
+  '#008BCE', '#00BB7E', '#006AC6', '#009775', '#004C97',
+  '#e67e22', '#99F0FA', '#B9EFA3', '#161F28', '#B9BCBF',
+]
+
+export default function TrendChart({
+  series,
+  unit,
+  mode,
+}: {
+  series: TimeSeries[]
+  unit: string
+  mode: 'mean' | 'delta'
+}) {
+  const dates = Array.from(new Set(series.flatMap(s => s.points.map(p => p.date)))).sort()
+
+  // One row per date; series are keyed by index so labels can contain any character
+  const data = dates.map(date => {
+    const row: Record<string, any> = { date }
+    series.forEach((s, i) => {
+      const p = s.points.find(pt => pt.date === date)
+      if (!p) return
+      const value = mode === 'delta' ? p.deltaFromBaseline : p.mean
+      const se = mode === 'delta' ? p.deltaFromBaselineSe : p.stdError
+      row[`s${i}`] = value
+      row[`s${i}_band`] = [value - se, value + se]
+      row[`s${i}_n`] = p.n
+    })
+    return row
+  })
+
+  const axisLabel = mode === 'delta'
+    ? `Change from baseline${unit ? ` (${unit})` : ''}`
+    : unit
+
+  return (
+    <div style={{ width: '100%', height: 340 }}>
+      <ResponsiveContainer>
+        <ComposedChart data={data} margin={{ top: 20, right: 20, bottom: 20, left: 20 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#DCDDDF" />
+          <XAxis
+            dataKey="date"
+            tickFormatter={(d: string) => formatDate(d)}
+            tick={{ fontSize: 11, fill: '#161F28' }}
+            tickLine={false}
+            axisLine={{ stroke: '#DCDDDF' }}
+          />
+          <YAxis
+            tick={{ fontSize: 11, fill: '#B9BCBF' }}
+            tickLine={false}
+            axisLine={false}
+            label={{
+              value: axisLabel,
+              angle: -90,
+              position: 'insideLeft',
+              style: { fontSize: 11, fill: '#B9BCBF' },
+            }}
+          />
+          {mode === 'delta' && <ReferenceLine y={0} stroke="#161F28" strokeDasharray="4 4" />}
+          <Tooltip
+            contentStyle={{
+              fontSize: 12,
+              borderRadius: 8,
+              border: '1px solid #DCDDDF',
+              boxShadow: '0 2px 8px rgba(0,0,0,0.08)',
+            }}
+            labelFormatter={(d: any) => formatDate(String(d))}
+            formatter={(value: any, name: any, props: any) => {
+              if (Array.isArray(value)) return [null, null]
+              const key = String(props.dataKey)
+              return [`${Number(value).toFixed(3)} (n=${props.payload[`${key}_n`]})`, name]
+            }}
+            labelStyle={{ fontWeight: 600 }}
+          />
+          <Legend wrapperStyle={{ fontSize: 11 }} />
+          {series.map((s, i) => (
+            <Area
+              key={`band-${s.label}`}
+              dataKey={`s${i}_band`}
+              stroke="none"
+              fill={CHART_COLORS[i % CHART_COLORS.length]}
+              fillOpacity={0.15}
+              legendType="none"
+              connectNulls
+              isAnimationActive={false}
+            />
+          ))}
+          {series.map((s, i) => (
+            <Line
+              key={s.label}
+              dataKey={`s${i}`}
+              name={s.label}
+              stroke={CHART_COLORS[i % CHART_COLORS.length]}
+              strokeWidth={2}
+              dot={{ r: 3 }}
+              connectNulls
+              isAnimationActive={false}
+            />
+          ))}
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  )
+}
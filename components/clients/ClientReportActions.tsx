@@ -0,0 +1,72 @@
+'use client'
+
+import { useState } from 'react'
+import { FileText, FileSpreadsheet, Loader2 } from 'lucide-react'
+import Button from '@/components/ui/Button'
+
+interface ClientReportActionsProps {
+  clientId: string
+  /** Planting years of the client's trials, newest first */
+  years: string[]
+}
+
+export default function ClientReportActions({ clientId, years }: ClientReportActionsProps) {
+  const [year, setYear] = useState('')
+  const [busy, setBusy] = useState<'pdf' | 'xlsx' | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  async function download(format: 'pdf' | 'xlsx') {
+    setBusy(format)
+    setError(null)
+
+    const params = new URLSearchParams({ clientId, format })
+    if (year) params.set('year', year)
+
+    try {
+      const res = await fetch(`/api/report/client?${params}`)
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}))
+        throw new Error(data.error || 'Report generation failed')
+      }
+      const blob = await res.blob()
+      const filename = res.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1] ?? `portfolio.${format}`
+      const url = URL.createObjectURL(blob)
+      const a = document.createElement('a')
+      a.href = url
+      a.download = filename
+      a.click()
+      setTimeout(() => URL.revokeObjectURL(url), 1000)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Report generation failed')
+    }
+    setBusy(null)
+  }
+
+  return (
+    <div className="flex flex-col items-end gap-2">
+      <div className="flex items-center gap-2">
+        <select
+          value={year}
+          onChange={(e) => setYear(e.target.value)}
+          className="px-3 py-2 rounded-lg border border-brand-grey-2 bg-brand-grey-3 text-sm text-brand-black focus:outline-none focus:border-brand-black/30"
+        >
+          <option value="">All seasons</option>
+          {years.map(y => (
+            <option key={y} value={y}>{y} season</option>
+          ))}
+        </select>
+        <Button size="sm" variant="secondary" onClick={() => download('xlsx')} disabled={busy != null}>
+          {busy === 'xlsx' ? <Loader2 size={14} className="animate-spin" /> : <FileSpreadsheet size={14} />}
+          Portfolio XLSX
+        </Button>
+        <Button size="sm" onClick={() => download('pdf')} disabled={busy != null}>
+          {busy === 'pdf' ? <Loader2 size={14} className="animate-spin" /> : <FileText size={14} />}
+          Portfolio PDF
+        </Button>
+      </div>
+      {error && (
+        <div className="p-3 rounded-lg bg-red-50 border border-red-200 text-sm text-red-700">{error}</div>
+      )}
+    </div>
+  )
+}
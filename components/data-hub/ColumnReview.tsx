@@ -18,6 +18,9 @@ const TARGET_FIELDS: Record<string, { label: string; fields: { value: string; la
       { value: 'barcode', label: 'Barcode' },
       { value: 'latitude', label: 'Latitude' },
       { value: 'longitude', label: 'Longitude' },
+      { value: 'depth', label: 'Depth range (e.g. 0-10)' },
+      { value: 'depth_upper_cm', label: 'Upper depth (cm)' },
+      { value: 'depth_lower_cm', label: 'Lower depth (cm)' },
     ],
   },
   plotData: {
@@ -38,6 +41,9 @@ const TARGET_FIELDS: Record<string, { label: string; fields: { value: string; la
       { value: 'sample_no', label: 'Sample No' },
       { value: 'date', label: 'Date' },
       { value: 'block', label: 'Block' },
+      { value: 'depth', label: 'Depth range (e.g. 0-10)' },
+      { value: 'depth_upper_cm', label: 'Upper depth (cm)' },
+      { value: 'depth_lower_cm', label: 'Lower depth (cm)' },
       { value: '__metric__', label: 'Treat as metric (pivot)' },
     ],
   },
@@ -82,6 +88,13 @@ interface ColumnReviewProps {
   onComplete: (results: { rawUploadId: string; status: string; records?: number; detail?: string }[]) => void
 }
 
+/** Per-file choice to keep the confirmed mapping as an import profile */
+interface ProfileDraft {
+  save: boolean
+  name: string
+  lab: string
+}
+
 export default function ColumnReview({
   open,
   onClose,
@@ -100,12 +113,20 @@ export default function ColumnReview({
     }
     return init
   })
+  const [profileDrafts, setProfileDrafts] = useState<Record<string, ProfileDraft>>(() => {
+    const init: Record<string, ProfileDraft> = {}
+    for (const item of items) {
+      init[item.rawUploadId] = { save: false, name: item.filename.replace(/\.[^.]+$/, ''), lab: '' }
+    }
+    return init
+  })
   const [submitting, setSubmitting] = useState(false)
   const [currentStep, setCurrentStep] = useState(initialStep)
 
   const currentItem = items[currentStep]
   const fieldOptions = currentItem ? (TARGET_FIELDS[currentItem.fileType]?.fields || []) : []
   const currentMappings = currentItem ? (allMappings[currentItem.rawUploadId] || {}) : {}
+  const currentProfile = currentItem ? profileDrafts[currentItem.rawUploadId] : undefined
   const isLastStep = currentStep === items.length - 1
 
   function updateMapping(col: string, value: string) {
@@ -119,6 +140,14 @@ export default function ColumnReview({
     }))
   }
 
+  function updateProfile(patch: Partial<ProfileDraft>) {
+    if (!currentItem) return
+    setProfileDrafts(prev => ({
+      ...prev,
+      [currentItem.rawUploadId]: { ...prev[currentItem.rawUploadId], ...patch },
+    }))
+  }
+
   async function handleSubmitAll() {
     setSubmitting(true)
     const results: { rawUploadId: string; status: string; records?: number; detail?: string }[] = []
@@ -134,6 +163,22 @@ export default function ColumnReview({
           }),
         })
         const data = await res.json()
+
+        const profile = profileDrafts[item.rawUploadId]
+        if (data.status === 'success' && profile?.save && profile.name.trim()) {
+          const saved = await fetch('/api/import-profiles', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+              rawUploadId: item.rawUploadId,
+              name: profile.name,
+              lab: profile.lab,
+              column_overrides: allMappings[item.rawUploadId] || {},
+            }),
+          })
+          if (!saved.ok) data.detail = `${data.detail} (import profile not saved)`
+        }
+
         results.push({ ...data, rawUploadId: item.rawUploadId })
       } catch {
         results.push({ rawUploadId: item.rawUploadId, status: 'error', detail: 'Failed to submit' })
@@ -212,6 +257,36 @@ export default function ColumnReview({
           ))}
         </div>
 
+        {/* Keep this mapping for the next file from the same lab */}
+        {currentProfile && (
+          <div className="space-y-2 p-3 rounded-lg border border-brand-grey-2">
+            <label className="flex items-center gap-2 text-sm text-brand-black">
+              <input
+                type="checkbox"
+                checked={currentProfile.save}
+                onChange={(e) => updateProfile({ save: e.target.checked })}
+              />
+              Save as an import profile — files with these headers will map automatically
+            </label>
+            {currentProfile.save && (
+              <div className="grid grid-cols-2 gap-2">
+                <input
+                  value={currentProfile.name}
+                  onChange={(e) => updateProfile({ name: e.target.value })}
+                  placeholder="Profile name"
+                  className="px-2 py-1.5 rounded-lg border border-brand-grey-2 bg-white text-sm text-brand-black focus:outline-none focus:border-brand-black/30"
+                />
+                <input
+                  value={currentProfile.lab}
+                  onChange={(e) => updateProfile({ lab: e.target.value })}
+                  placeholder="Lab (optional)"
+                  className="px-2 py-1.5 rounded-lg border border-brand-grey-2 bg-white text-sm text-brand-black focus:outline-none focus:border-brand-black/30"
+                />
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Navigation + submit */}
         <div className="flex items-center justify-between pt-2 border-t border-brand-grey-2">
           <div className="text-xs text-brand-grey-1">
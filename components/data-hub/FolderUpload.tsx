@@ -1,20 +1,41 @@
 'use client'
 
-import { useState, useCallback, useMemo } from 'react'
+import { useState, useCallback, useMemo, useRef } from 'react'
 import { FolderUp, FileText, CheckCircle, XCircle, Loader2, Clock, AlertTriangle, X, Info } from 'lucide-react'
 import Button from '@/components/ui/Button'
 import ColumnReview, { type ReviewItem } from './ColumnReview'
+import ImportDiffView from './ImportDiffView'
+import SheetResultList from './SheetResultList'
+import ValidationReportView from './ValidationReportView'
 import { cn } from '@/lib/utils'
-import { classifyFile, type FileClassification } from '@/lib/parsers/classify'
+import {
+  classifyFile, LOW_CONFIDENCE, type ContentClassification, type FileClassification,
+} from '@/lib/parsers/classify'
+import type { ImportDiff } from '@/lib/import-diff'
+import type { SheetResult } from '@/lib/upload-pipeline'
+import type { ValidationReport } from '@/lib/parsers/validation'
 
 interface FileResult {
   filename: string
   type: string
-  status: 'success' | 'error' | 'processing' | 'pending' | 'needs_review'
+  status: 'success' | 'error' | 'processing' | 'pending' | 'needs_review' | 'preview'
   detail?: string
   records?: number
   rawUploadId?: string
   unmappedColumns?: string[]
+  diff?: ImportDiff
+  /** Rows rejected or warned about by the type's validation rules */
+  validation?: ValidationReport
+  /** Workbooks loaded sheet by sheet */
+  sheets?: SheetResult[]
+  /** Data type guessed from the file's headers, or chosen by the user */
+  fileType?: FileClassification
+  /** How sure the guess is; below LOW_CONFIDENCE it needs confirming */
+  confidence?: number
+  guessSource?: ContentClassification['source']
+  confirmed?: boolean
+  /** Data sheets found in a workbook that will be split on upload */
+  sheetCount?: number
 }
 
 const TYPE_LABELS: Record<FileClassification, string> = {
@@ -29,6 +50,11 @@ const TYPE_LABELS: Record<FileClassification, string> = {
   unknown: 'Unknown',
 }
 
+/** Types a low-confidence guess can be changed to ('unknown' skips the file) */
+const DATA_TYPE_OPTIONS: FileClassification[] = [
+  'soilHealth', 'soilChemistry', 'plotData', 'tissueChemistry', 'sampleMetadata', 'unknown',
+]
+
 const IGNORED_FILES = new Set(['.ds_store', 'thumbs.db', 'desktop.ini', '.gitkeep'])
 
 function isHiddenOrSystem(name: string): boolean {
@@ -91,6 +117,82 @@ async function getFilesFromDataTransfer(dataTransfer: DataTransfer): Promise<Fil
   return files.filter(f => f.size > 0 && !isHiddenOrSystem(f.name))
 }
 
+/** Ask the server what type each data file looks like from its headers */
+async function classifyFiles(
+  files: File[]
+): Promise<(ContentClassification & { sheets?: { sheetName: string; fileType: string }[] })[]> {
+  const formData = new FormData()
+  for (const f of files) formData.append('files', f, f.name)
+  const res = await fetch('/api/upload/classify', { method: 'POST', body: formData })
+  if (!res.ok) throw new Error(`Server error (${res.status})`)
+  const data = await res.json()
+  return data.results || []
+}
+
+/** POST files to the folder route and return its JSON body */
+async function postFolderFiles(
+  files: File[],
+  trialId: string | null,
+  dryRun: boolean,
+  fileType?: FileClassification
+): Promise<{ results?: FileResult[]; trialId?: string }> {
+  // Eagerly read file content into in-memory Blobs so the fetch body
+  // doesn't depend on lazy file-handle reads (which can fail if the
+  // handle has gone stale between file selection and upload click).
+  const blobs: { blob: Blob; name: string }[] = []
+  for (const f of files) {
+    const buf = await f.arrayBuffer()
+    blobs.push({ blob: new Blob([buf], { type: f.type || 'application/octet-stream' }), name: f.name })
+  }
+
+  // Retry helper: serverless cold-starts or transient network errors
+  // can cause "Failed to fetch" — retry once after a short delay.
+  let res: Response | undefined
+  for (let attempt = 0; attempt < 2; attempt++) {
+    try {
+      // Build a fresh FormData each attempt — a prior failed fetch may
+      // have partially consumed the body stream, making it unusable.
+      const formData = new FormData()
+      for (const b of blobs) formData.append('files', b.blob, b.name)
+      if (trialId) formData.append('trialId', trialId)
+      if (dryRun) formData.append('dryRun', 'true')
+      if (fileType) formData.append('fileType', fileType)
+
+      const controller = new AbortController()
+      const timeout = setTimeout(() => controller.abort(), 120_000)
+
+      res = await fetch('/api/upload/folder', {
+        method: 'POST',
+        body: formData,
+        signal: controller.signal,
+      })
+
+      clearTimeout(timeout)
+      break // success — exit retry loop
+    } catch (fetchErr: any) {
+      if (attempt === 0 && fetchErr?.name !== 'AbortError') {
+        // First attempt failed with a network error — wait and retry
+        await new Promise(r => setTimeout(r, 2000))
+        continue
+      }
+      throw fetchErr // second attempt or abort — propagate
+    }
+  }
+
+  if (!res) throw new Error('Upload failed after retries')
+
+  if (!res.ok) {
+    let detail = `Server error (${res.status})`
+    try {
+      const body = await res.json()
+      if (body?.error) detail = body.error
+    } catch { /* body wasn't JSON */ }
+    throw new Error(detail)
+  }
+
+  return res.json()
+}
+
 export default function FolderUpload() {
   const [files, setFiles] = useState<File[]>([])
   const [results, setResults] = useState<FileResult[]>([])
@@ -99,6 +201,11 @@ export default function FolderUpload() {
   const [dragOver, setDragOver] = useState(false)
   const [reviewOpen, setReviewOpen] = useState(false)
   const [reviewStartIndex, setReviewStartIndex] = useState(0)
+  // Set once a dry run has shown what the files would change
+  const [previewed, setPreviewed] = useState(false)
+  const [classifying, setClassifying] = useState(false)
+  // Drops a classify response that arrives after a newer selection
+  const classifyRun = useRef(0)
 
   const handleFiles = useCallback((fileArr: File[]) => {
     // Sort so trial summary comes first (needed for processing order)
@@ -110,33 +217,82 @@ export default function FolderUpload() {
       return 0
     })
     setFiles(sorted)
+    setPreviewed(false)
     setResults(sorted.map(f => ({
       filename: f.name,
       type: TYPE_LABELS[classifyFile(f.name)],
       status: 'pending' as const,
     })))
+
+    // Filenames are only a first guess: data files are classified by
+    // their headers, and low-confidence guesses wait for the user
+    const dataIndices = sorted
+      .map((f, i) => (/\.(csv|xlsx?)$/i.test(f.name) ? i : -1))
+      .filter(i => i >= 0)
+    if (dataIndices.length === 0) return
+    const run = ++classifyRun.current
+    setClassifying(true)
+    classifyFiles(dataIndices.map(i => sorted[i]))
+      .then(guesses => {
+        if (run !== classifyRun.current) return
+        setResults(prev => prev.map((r, idx) => {
+          const guess = guesses[dataIndices.indexOf(idx)]
+          if (!guess) return r
+          if (guess.sheets && guess.sheets.length > 1) {
+            return { ...r, type: 'Workbook', sheetCount: guess.sheets.length }
+          }
+          return {
+            ...r,
+            type: TYPE_LABELS[guess.classification],
+            fileType: guess.classification,
+            confidence: guess.confidence,
+            guessSource: guess.source,
+          }
+        }))
+      })
+      .catch(() => { /* keep the filename guesses */ })
+      .finally(() => { if (run === classifyRun.current) setClassifying(false) })
   }, [])
 
+  /** Confirm a low-confidence guess, or change it to another type */
+  function confirmType(index: number, fileType: FileClassification) {
+    setPreviewed(false)
+    setResults(prev => prev.map((r, idx) =>
+      idx === index ? { ...r, fileType, type: TYPE_LABELS[fileType], confirmed: true } : r
+    ))
+  }
+
+  const unconfirmed = results.filter(r =>
+    r.confidence !== undefined && r.confidence < LOW_CONFIDENCE && !r.confirmed
+  ).length
+
   const removeFile = useCallback((index: number) => {
     setFiles(prev => prev.filter((_, i) => i !== index))
+    setPreviewed(false)
     setResults(prev => prev.filter((_, i) => i !== index))
   }, [])
 
-  async function handleUpload() {
+  /**
+   * Process the files in order: summary, data files, photos. A dry run
+   * walks the same steps without writing, so each data file reports the
+   * rows it would add or overwrite for the user to confirm.
+   */
+  async function handleUpload(dryRun: boolean) {
     if (files.length === 0) return
     setUploading(true)
     setTrialId(null)
-    setResults(prev => prev.map(r => ({ ...r, status: 'pending' as const, detail: undefined, records: undefined })))
+    setResults(prev => prev.map(r => ({ ...r, status: 'pending' as const, detail: undefined, records: undefined, diff: undefined, validation: undefined, sheets: undefined })))
 
-    // Classify files into four groups: unknown (skip), trial summary, data files, photos
+    // Classify files into four groups: unknown (skip), trial summary, data files, photos.
+    // Unrecognised workbooks go with the data files: the server classifies their sheets.
     const unknownIndices: number[] = []
     const summaryIndices: number[] = []
     const dataFileIndices: number[] = []
     const photoIndices: number[] = []
 
     for (let i = 0; i < files.length; i++) {
-      const classification = classifyFile(files[i].name)
-      if (classification === 'unknown') {
+      const classification = results[i]?.fileType ?? classifyFile(files[i].name)
+      if (classification === 'unknown' && (results[i]?.fileType === 'unknown' || !/\.xlsx?$/i.test(files[i].name))) {
         unknownIndices.push(i)
       } else if (classification === 'photo') {
         photoIndices.push(i)
@@ -164,62 +320,10 @@ export default function FolderUpload() {
       ))
 
       try {
-        // Eagerly read file content into in-memory Blobs so the fetch body
-        // doesn't depend on lazy file-handle reads (which can fail if the
-        // handle has gone stale between file selection and upload click).
-        const summaryBlobs: { blob: Blob; name: string }[] = []
-        for (const i of summaryIndices) {
-          const f = files[i]
-          const buf = await f.arrayBuffer()
-          summaryBlobs.push({ blob: new Blob([buf], { type: f.type || 'application/octet-stream' }), name: f.name })
-        }
-
-        // Retry helper: serverless cold-starts or transient network errors
-        // can cause "Failed to fetch" — retry once after a short delay.
-        let res: Response | undefined
-        for (let attempt = 0; attempt < 2; attempt++) {
-          try {
-            // Build a fresh FormData each attempt — a prior failed fetch may
-            // have partially consumed the body stream, making it unusable.
-            const formData = new FormData()
-            for (const sb of summaryBlobs) formData.append('files', sb.blob, sb.name)
-
-            const controller = new AbortController()
-            const timeout = setTimeout(() => controller.abort(), 120_000)
-
-            res = await fetch('/api/upload/folder', {
-              method: 'POST',
-              body: formData,
-              signal: controller.signal,
-            })
-
-            clearTimeout(timeout)
-            break // success — exit retry loop
-          } catch (fetchErr: any) {
-            if (attempt === 0 && fetchErr?.name !== 'AbortError') {
-              // First attempt failed with a network error — wait and retry
-              await new Promise(r => setTimeout(r, 2000))
-              continue
-            }
-            throw fetchErr // second attempt or abort — propagate
-          }
-        }
-
-        if (!res) throw new Error('Upload failed after retries')
-
-        if (!res.ok) {
-          let detail = `Server error (${res.status})`
-          try {
-            const body = await res.json()
-            if (body?.error) detail = body.error
-          } catch { /* body wasn't JSON */ }
-          throw new Error(detail)
-        }
-
-        const data = await res.json()
+        const data = await postFolderFiles(summaryIndices.map(i => files[i]), null, dryRun)
         if (data.trialId) {
           returnedTrialId = data.trialId
-          setTrialId(data.trialId)
+          if (!dryRun) setTrialId(data.trialId)
         }
 
         const serverResults: FileResult[] = data.results || []
@@ -235,6 +339,8 @@ export default function FolderUpload() {
               status: sr.status as FileResult['status'],
               detail: sr.detail,
               records: sr.records,
+              diff: undefined,
+              sheets: sr.sheets,
             }
           }
           // Fallback: positional match (server filename may differ from browser)
@@ -277,60 +383,22 @@ export default function FolderUpload() {
           ))
 
           try {
-            const f = files[i]
-            const buf = await f.arrayBuffer()
-            const blob = new Blob([buf], { type: f.type || 'application/octet-stream' })
-
-            let res: Response | undefined
-            for (let attempt = 0; attempt < 2; attempt++) {
-              try {
-                const dataForm = new FormData()
-                dataForm.append('files', blob, f.name)
-                dataForm.append('trialId', returnedTrialId)
-
-                const controller = new AbortController()
-                const timeout = setTimeout(() => controller.abort(), 120_000)
-
-                res = await fetch('/api/upload/folder', {
-                  method: 'POST',
-                  body: dataForm,
-                  signal: controller.signal,
-                })
-
-                clearTimeout(timeout)
-                break
-              } catch (fetchErr: any) {
-                if (attempt === 0 && fetchErr?.name !== 'AbortError') {
-                  await new Promise(r => setTimeout(r, 2000))
-                  continue
-                }
-                throw fetchErr
-              }
-            }
-
-            if (!res) throw new Error('Upload failed after retries')
-
-            if (!res.ok) {
-              let detail = `Server error (${res.status})`
-              try {
-                const body = await res.json()
-                if (body?.error) detail = body.error
-              } catch { /* body wasn't JSON */ }
-              throw new Error(detail)
-            }
-
-            const data = await res.json()
+            const data = await postFolderFiles([files[i]], returnedTrialId, dryRun, results[i]?.fileType)
             const sr = (data.results || [])[0]
 
             setResults(prev => prev.map((r, idx) =>
               idx === i
                 ? {
                     ...r,
+                    type: sr?.type || r.type,
                     status: (sr?.status || 'error') as FileResult['status'],
                     detail: sr?.detail,
                     records: sr?.records,
                     rawUploadId: sr?.rawUploadId,
                     unmappedColumns: sr?.unmappedColumns,
+                    diff: sr?.diff,
+                    validation: sr?.validation,
+                    sheets: sr?.sheets,
                   }
                 : r
             ))
@@ -363,49 +431,7 @@ export default function FolderUpload() {
           ))
 
           try {
-            const f = files[i]
-            const buf = await f.arrayBuffer()
-            const blob = new Blob([buf], { type: f.type || 'application/octet-stream' })
-
-            let res: Response | undefined
-            for (let attempt = 0; attempt < 2; attempt++) {
-              try {
-                const photoForm = new FormData()
-                photoForm.append('files', blob, f.name)
-                photoForm.append('trialId', returnedTrialId)
-
-                const controller = new AbortController()
-                const timeout = setTimeout(() => controller.abort(), 120_000)
-
-                res = await fetch('/api/upload/folder', {
-                  method: 'POST',
-                  body: photoForm,
-                  signal: controller.signal,
-                })
-
-                clearTimeout(timeout)
-                break
-              } catch (fetchErr: any) {
-                if (attempt === 0 && fetchErr?.name !== 'AbortError') {
-                  await new Promise(r => setTimeout(r, 2000))
-                  continue
-                }
-                throw fetchErr
-              }
-            }
-
-            if (!res) throw new Error('Upload failed after retries')
-
-            if (!res.ok) {
-              let detail = `Server error (${res.status})`
-              try {
-                const body = await res.json()
-                if (body?.error) detail = body.error
-              } catch { /* body wasn't JSON */ }
-              throw new Error(detail)
-            }
-
-            const data = await res.json()
+            const data = await postFolderFiles([files[i]], returnedTrialId, dryRun)
             const sr = (data.results || [])[0]
 
             setResults(prev => prev.map((r, idx) =>
@@ -431,15 +457,26 @@ export default function FolderUpload() {
       }
     }
 
+    setPreviewed(dryRun)
     setUploading(false)
   }
 
-  /** All needs_review results as ReviewItem[] for the batch modal */
+  /** All needs_review results (and workbook sheets) as ReviewItem[] for the batch modal */
   const reviewItems = useMemo<ReviewItem[]>(() =>
-    results
-      .filter(r => r.status === 'needs_review' && r.rawUploadId && r.unmappedColumns)
-      .map(r => ({
-        rawUploadId: r.rawUploadId!,
+    results.flatMap<ReviewItem>(r => {
+      if (r.sheets) {
+        return r.sheets
+          .filter(s => s.status === 'needs_review' && s.rawUploadId && s.unmappedColumns)
+          .map(s => ({
+            rawUploadId: s.rawUploadId!,
+            filename: `${r.filename} [${s.sheetName}]`,
+            fileType: s.fileType,
+            unmappedColumns: s.unmappedColumns!,
+          }))
+      }
+      if (r.status !== 'needs_review' || !r.rawUploadId || !r.unmappedColumns) return []
+      return [{
+        rawUploadId: r.rawUploadId,
         filename: r.filename,
         fileType: r.type === 'Plot Data' ? 'plotData' :
                   r.type === 'Soil Health' ? 'soilHealth' :
@@ -447,14 +484,25 @@ export default function FolderUpload() {
                   r.type === 'Tissue Chemistry' ? 'tissueChemistry' :
                   r.type === 'Assay Results' ? 'sampleMetadata' :
                   r.type,
-        unmappedColumns: r.unmappedColumns!,
-      })),
+        unmappedColumns: r.unmappedColumns,
+      }]
+    }),
     [results]
   )
 
   function handleReviewComplete(batchResults: { rawUploadId: string; status: string; records?: number; detail?: string }[]) {
     const resultMap = new Map(batchResults.map(r => [r.rawUploadId, r]))
     setResults(prev => prev.map(r => {
+      if (r.sheets) {
+        const sheets = r.sheets.map(s => {
+          const br = s.rawUploadId ? resultMap.get(s.rawUploadId) : undefined
+          return br ? { ...s, status: br.status as SheetResult['status'], detail: br.detail, records: br.records } : s
+        })
+        const status: FileResult['status'] = sheets.some(s => s.status === 'needs_review')
+          ? 'needs_review'
+          : sheets.every(s => s.status === 'error') ? 'error' : 'success'
+        return { ...r, sheets, status, records: sheets.reduce((n, s) => n + (s.records ?? 0), 0) }
+      }
       if (r.rawUploadId && resultMap.has(r.rawUploadId)) {
         const br = resultMap.get(r.rawUploadId)!
         return { ...r, status: br.status as FileResult['status'], detail: br.detail, records: br.records }
@@ -519,16 +567,30 @@ export default function FolderUpload() {
         <div className="mt-4">
           <div className="flex items-center justify-between mb-3">
             <p className="signpost-label">{files.length} FILES DETECTED</p>
-            <Button onClick={handleUpload} disabled={uploading} size="sm">
-              {uploading ? (
-                <>
-                  <Loader2 size={14} className="animate-spin" />
-                  Processing...
-                </>
-              ) : (
-                'Upload & Process'
+            <div className="flex gap-2">
+              {previewed && !uploading && (
+                <Button onClick={() => handleUpload(true)} variant="ghost" size="sm">
+                  Re-check
+                </Button>
               )}
-            </Button>
+              <Button onClick={() => handleUpload(!previewed)} disabled={uploading || classifying || unconfirmed > 0} size="sm">
+                {uploading ? (
+                  <>
+                    <Loader2 size={14} className="animate-spin" />
+                    Processing...
+                  </>
+                ) : classifying ? (
+                  <>
+                    <Loader2 size={14} className="animate-spin" />
+                    Checking files...
+                  </>
+                ) : previewed ? (
+                  'Confirm & Import'
+                ) : (
+                  'Preview Changes'
+                )}
+              </Button>
+            </div>
           </div>
 
           <div className="space-y-2">
@@ -539,20 +601,65 @@ export default function FolderUpload() {
                 {r.status === 'processing' && <Loader2 size={16} className="text-brand-black/50 animate-spin flex-shrink-0" />}
                 {r.status === 'pending' && <Clock size={16} className="text-brand-grey-1 flex-shrink-0" />}
                 {r.status === 'needs_review' && <AlertTriangle size={16} className="text-amber-600 flex-shrink-0" />}
+                {r.status === 'preview' && <Info size={16} className="text-blue-600 flex-shrink-0" />}
                 <FileText size={14} className="text-brand-grey-1 flex-shrink-0" />
                 <div className="flex-1 min-w-0">
                   <p className="text-sm text-brand-black truncate">{r.filename}</p>
                   <p className={cn('text-xs', r.status === 'error' ? 'text-red-500' : 'text-brand-grey-1')}>
                     {r.type}{r.records !== undefined ? ` — ${r.records} records imported` : ''}
-                    {r.detail ? ` — ${r.detail}` : ''}
+                    {r.detail && !r.diff ? ` — ${r.detail}` : ''}
                   </p>
+                  {r.sheetCount !== undefined && !r.sheets && (
+                    <p className="text-xs text-brand-grey-1">{r.sheetCount} data sheets — each is loaded as its own type</p>
+                  )}
+                  {r.confidence !== undefined && r.confidence < LOW_CONFIDENCE && !r.confirmed && (
+                    <div className="mt-1.5 flex flex-wrap items-center gap-2">
+                      <p className="text-xs text-amber-700">
+                        {r.fileType === 'unknown'
+                          ? 'Not recognised from the name or headers.'
+                          : r.guessSource === 'filename'
+                          ? "Guessed from the filename — the headers don't match it."
+                          : `Best guess from the headers (${Math.round(r.confidence * 100)}% sure).`}
+                      </p>
+                      <select
+                        value={r.fileType}
+                        onChange={(e) => confirmType(i, e.target.value as FileClassification)}
+                        disabled={uploading}
+                        className="px-2 py-1 rounded-lg border border-brand-grey-2 bg-white text-xs text-brand-black focus:outline-none focus:border-brand-black/30"
+                        aria-label={`File type for ${r.filename}`}
+                      >
+                        {DATA_TYPE_OPTIONS.map(t => (
+                          <option key={t} value={t}>{t === 'unknown' ? 'Skip this file' : TYPE_LABELS[t]}</option>
+                        ))}
+                      </select>
+                      {r.fileType && (
+                        <Button size="sm" variant="secondary" onClick={() => confirmType(i, r.fileType!)} disabled={uploading}>
+                          Confirm
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                  {r.sheets && <SheetResultList sheets={r.sheets} filename={r.filename} />}
+                  {r.validation && <ValidationReportView report={r.validation} filename={r.filename} />}
+                  {r.status === 'preview' && r.diff && (
+                    <div className="mt-1.5">
+                      <ImportDiffView diff={r.diff} />
+                      {r.unmappedColumns && r.unmappedColumns.length > 0 && (
+                        <p className="text-xs text-amber-700 mt-1.5">
+                          {r.unmappedColumns.length} column(s) will need review after importing
+                        </p>
+                      )}
+                    </div>
+                  )}
                 </div>
                 {r.status === 'needs_review' && (
                   <Button
                     size="sm"
                     variant="secondary"
                     onClick={() => {
-                      const idx = reviewItems.findIndex(item => item.rawUploadId === r.rawUploadId)
+                      const idx = reviewItems.findIndex(item =>
+                        r.sheets ? item.filename.startsWith(`${r.filename} [`) : item.rawUploadId === r.rawUploadId
+                      )
                       setReviewStartIndex(idx >= 0 ? idx : 0)
                       setReviewOpen(true)
                     }}
@@ -574,6 +681,15 @@ export default function FolderUpload() {
             ))}
           </div>
 
+          {unconfirmed > 0 && (
+            <div className="mt-3 flex items-center gap-2 p-3 rounded-lg bg-amber-50 border border-amber-200">
+              <AlertTriangle size={16} className="text-amber-600 flex-shrink-0" />
+              <p className="text-sm text-amber-800">
+                Confirm the type of {unconfirmed} file{unconfirmed > 1 ? 's' : ''} before importing
+              </p>
+            </div>
+          )}
+
           {/* Batch review banner */}
           {reviewItems.length > 0 && (
             <div className="mt-3 flex items-center gap-2 p-3 rounded-lg bg-amber-50 border border-amber-200">
@@ -0,0 +1,74 @@
+'use client'
+
+import { useState } from 'react'
+import { ChevronDown, ChevronRight } from 'lucide-react'
+import type { ImportDiff } from '@/lib/import-diff'
+
+const formatValue = (v: unknown) => (v == null || v === '' ? '—' : String(v))
+
+const formatKey = (key: Record<string, unknown>) =>
+  Object.values(key).filter(v => v != null && v !== '').map(String).join(' · ') || '(blank key)'
+
+/** Counts of new/updated/unchanged rows, with the field changes on demand */
+export default function ImportDiffView({ diff }: { diff: ImportDiff }) {
+  const [expanded, setExpanded] = useState(false)
+
+  return (
+    <div className="text-xs">
+      <div className="flex flex-wrap gap-1.5">
+        <span className="px-2 py-0.5 rounded-full bg-green-lush/10 text-green-lush font-medium">
+          {diff.inserted} new
+        </span>
+        <span className="px-2 py-0.5 rounded-full bg-amber-50 text-amber-700 font-medium">
+          {diff.updated} updated
+        </span>
+        <span className="px-2 py-0.5 rounded-full bg-brand-grey-3 text-brand-grey-1 font-medium">
+          {diff.unchanged} unchanged
+        </span>
+      </div>
+
+      {diff.changes.length > 0 && (
+        <>
+          <button
+            type="button"
+            onClick={() => setExpanded(e => !e)}
+            className="mt-2 flex items-center gap-1 text-brand-grey-1 hover:text-brand-black"
+          >
+            {expanded ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+            {expanded ? 'Hide' : 'Show'} overwritten values
+          </button>
+
+          {expanded && (
+            <div className="mt-2 max-h-64 overflow-y-auto rounded-lg border border-brand-grey-2">
+              <table className="w-full">
+                <thead className="bg-brand-grey-3 text-brand-grey-1 sticky top-0">
+                  <tr>
+                    <th className="text-left font-medium px-2 py-1">Row</th>
+                    <th className="text-left font-medium px-2 py-1">Field</th>
+                    <th className="text-left font-medium px-2 py-1">Before</th>
+                    <th className="text-left font-medium px-2 py-1">After</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-brand-grey-2">
+                  {diff.changes.flatMap((c, i) => c.fields.map((f, j) => (
+                    <tr key={`${i}-${f.field}`}>
+                      <td className="px-2 py-1 text-brand-black">{j === 0 ? formatKey(c.key) : ''}</td>
+                      <td className="px-2 py-1 font-mono text-brand-grey-1">{f.field}</td>
+                      <td className="px-2 py-1 text-red-600 line-through">{formatValue(f.before)}</td>
+                      <td className="px-2 py-1 text-brand-black">{formatValue(f.after)}</td>
+                    </tr>
+                  )))}
+                </tbody>
+              </table>
+              {diff.updated > diff.changes.length && (
+                <p className="px-2 py-1 text-brand-grey-1">
+                  Showing the first {diff.changes.length} of {diff.updated} updated rows.
+                </p>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,258 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Plus, Pencil, Trash2, Loader2 } from 'lucide-react'
+import Button from '@/components/ui/Button'
+import Modal from '@/components/ui/Modal'
+import { DATE_FORMATS, PROFILE_FILE_TYPES, type DateFormat, type ImportProfile } from '@/lib/import-profiles'
+
+interface ImportProfilesManagerProps {
+  profiles: ImportProfile[]
+}
+
+interface Draft {
+  id: string | null
+  name: string
+  lab: string
+  fileType: string
+  sheetName: string
+  headerRowOffset: string
+  dateFormat: DateFormat
+  /** One header per line */
+  headers: string
+  /** "header = field" per line */
+  overrides: string
+  /** "header = unit" per line */
+  units: string
+}
+
+const EMPTY_DRAFT: Draft = {
+  id: null,
+  name: '',
+  lab: '',
+  fileType: 'soilChemistry',
+  sheetName: '',
+  headerRowOffset: '0',
+  dateFormat: 'DD/MM/YYYY',
+  headers: '',
+  overrides: '',
+  units: '',
+}
+
+const formatPairs = (pairs: Record<string, string>) =>
+  Object.entries(pairs).map(([k, v]) => `${k} = ${v}`).join('\n')
+
+function parsePairs(text: string): Record<string, string> {
+  const out: Record<string, string> = {}
+  for (const line of text.split('\n')) {
+    const i = line.lastIndexOf('=')
+    if (i <= 0) continue
+    const key = line.slice(0, i).trim()
+    const value = line.slice(i + 1).trim()
+    if (key && value) out[key] = value
+  }
+  return out
+}
+
+function draftFrom(p: ImportProfile): Draft {
+  return {
+    id: p.id,
+    name: p.name,
+    lab: p.lab ?? '',
+    fileType: p.file_type,
+    sheetName: p.sheet_name ?? '',
+    headerRowOffset: String(p.header_row_offset),
+    dateFormat: p.date_format,
+    headers: p.headers.join('\n'),
+    overrides: formatPairs(p.column_overrides),
+    units: formatPairs(p.units),
+  }
+}
+
+const inputClass = 'w-full px-3 py-2 rounded-lg border border-brand-grey-2 bg-brand-grey-3 text-sm text-brand-black focus:outline-none focus:border-brand-black/30'
+
+export default function ImportProfilesManager({ profiles }: ImportProfilesManagerProps) {
+  const router = useRouter()
+  const [draft, setDraft] = useState<Draft | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  function update(patch: Partial<Draft>) {
+    setDraft(d => (d ? { ...d, ...patch } : d))
+  }
+
+  async function save() {
+    if (!draft) return
+    setSaving(true)
+    setError(null)
+    try {
+      const res = await fetch(draft.id ? `/api/import-profiles/${draft.id}` : '/api/import-profiles', {
+        method: draft.id ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: draft.name,
+          lab: draft.lab,
+          file_type: draft.fileType,
+          sheet_name: draft.sheetName,
+          header_row_offset: parseInt(draft.headerRowOffset, 10) || 0,
+          date_format: draft.dateFormat,
+          headers: draft.headers.split('\n').map(h => h.trim()).filter(Boolean),
+          column_overrides: parsePairs(draft.overrides),
+          units: parsePairs(draft.units),
+        }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Save failed')
+      setDraft(null)
+      router.refresh()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Save failed')
+    }
+    setSaving(false)
+  }
+
+  async function remove(p: ImportProfile) {
+    if (!confirm(`Delete the "${p.name}" import profile? Files with its headers will need column review again.`)) return
+    const res = await fetch(`/api/import-profiles/${p.id}`, { method: 'DELETE' })
+    if (res.ok) router.refresh()
+  }
+
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between mb-3">
+        <p className="signpost-label">IMPORT PROFILES</p>
+        <Button size="sm" variant="ghost" onClick={() => { setError(null); setDraft(EMPTY_DRAFT) }}>
+          <Plus size={14} />
+        </Button>
+      </div>
+
+      {profiles.length === 0 ? (
+        <p className="text-xs text-brand-grey-1">
+          None yet. Tick &ldquo;Save as an import profile&rdquo; when reviewing columns to add one.
+        </p>
+      ) : (
+        <div className="divide-y divide-brand-grey-2">
+          {profiles.map(p => (
+            <div key={p.id} className="flex items-center gap-2 py-2">
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-brand-black truncate">{p.name}</p>
+                <p className="text-xs text-brand-grey-1 truncate">
+                  {[p.lab, PROFILE_FILE_TYPES[p.file_type] ?? p.file_type, `${p.headers.length} columns`]
+                    .filter(Boolean).join(' · ')}
+                </p>
+              </div>
+              <Button size="sm" variant="ghost" onClick={() => { setError(null); setDraft(draftFrom(p)) }}>
+                <Pencil size={14} />
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => remove(p)}>
+                <Trash2 size={14} />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Modal open={draft != null} onClose={() => setDraft(null)} title={draft?.id ? 'Edit import profile' : 'New import profile'}>
+        {draft && (
+          <div className="space-y-4 max-h-[70vh] overflow-y-auto pr-1">
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="signpost-label block mb-1">NAME</label>
+                <input value={draft.name} onChange={e => update({ name: e.target.value })} className={inputClass} />
+              </div>
+              <div>
+                <label className="signpost-label block mb-1">LAB</label>
+                <input value={draft.lab} onChange={e => update({ lab: e.target.value })} className={inputClass} />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="signpost-label block mb-1">FILE TYPE</label>
+                <select value={draft.fileType} onChange={e => update({ fileType: e.target.value })} className={inputClass}>
+                  {Object.entries(PROFILE_FILE_TYPES).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="signpost-label block mb-1">DATE FORMAT</label>
+                <select value={draft.dateFormat} onChange={e => update({ dateFormat: e.target.value as DateFormat })} className={inputClass}>
+                  {DATE_FORMATS.map(f => <option key={f} value={f}>{f}</option>)}
+                </select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="signpost-label block mb-1">SHEET NAME</label>
+                <input
+                  value={draft.sheetName}
+                  onChange={e => update({ sheetName: e.target.value })}
+                  placeholder="First sheet"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="signpost-label block mb-1">ROWS ABOVE HEADER</label>
+                <input
+                  type="number"
+                  min={0}
+                  value={draft.headerRowOffset}
+                  onChange={e => update({ headerRowOffset: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="signpost-label block mb-1">HEADERS</label>
+              <textarea
+                value={draft.headers}
+                onChange={e => update({ headers: e.target.value })}
+                rows={4}
+                placeholder="One per line — files whose header row has exactly these columns use this profile"
+                className={inputClass}
+              />
+            </div>
+
+            <div>
+              <label className="signpost-label block mb-1">COLUMN OVERRIDES</label>
+              <textarea
+                value={draft.overrides}
+                onChange={e => update({ overrides: e.target.value })}
+                rows={3}
+                placeholder={'One per line, e.g.\nlab ref = sample_no\ncomments = __skip__'}
+                className={inputClass}
+              />
+            </div>
+
+            <div>
+              <label className="signpost-label block mb-1">UNITS</label>
+              <textarea
+                value={draft.units}
+                onChange={e => update({ units: e.target.value })}
+                rows={3}
+                placeholder={'For metric columns without a unit in the header, e.g.\nnitrate = mg/kg'}
+                className={inputClass}
+              />
+            </div>
+
+            {error && (
+              <div className="p-3 rounded-lg bg-red-50 border border-red-200 text-sm text-red-700">{error}</div>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" onClick={() => setDraft(null)}>Cancel</Button>
+              <Button onClick={save} disabled={saving || !draft.name.trim() || !draft.headers.trim()}>
+                {saving && <Loader2 size={14} className="animate-spin" />}
+                Save profile
+              </Button>
+            </div>
+          </div>
+        )}
+      </Modal>
+    </div>
+  )
+}
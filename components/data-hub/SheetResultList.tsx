@@ -0,0 +1,45 @@
+'use client'
+
+import { CheckCircle, XCircle, AlertTriangle, Info } from 'lucide-react'
+import ImportDiffView from './ImportDiffView'
+import ValidationReportView from './ValidationReportView'
+import { cn } from '@/lib/utils'
+import type { SheetResult } from '@/lib/upload-pipeline'
+
+const TYPE_LABELS: Record<string, string> = {
+  soilHealth: 'Soil Health',
+  soilChemistry: 'Soil Chemistry',
+  plotData: 'Plot Data',
+  tissueChemistry: 'Tissue Chemistry',
+  sampleMetadata: 'Assay Results',
+}
+
+/** Per-sheet outcome of a workbook loaded sheet by sheet */
+export default function SheetResultList({ sheets, filename }: { sheets: SheetResult[]; filename: string }) {
+  return (
+    <ul className="mt-1.5 space-y-1.5">
+      {sheets.map(s => (
+        <li key={s.sheetName} className="pl-2 border-l-2 border-brand-grey-2">
+          <div className="flex items-center gap-1.5">
+            {s.status === 'success' && <CheckCircle size={12} className="text-green-lush flex-shrink-0" />}
+            {s.status === 'error' && <XCircle size={12} className="text-red-500 flex-shrink-0" />}
+            {s.status === 'needs_review' && <AlertTriangle size={12} className="text-amber-600 flex-shrink-0" />}
+            {s.status === 'preview' && <Info size={12} className="text-blue-600 flex-shrink-0" />}
+            <p className={cn('text-xs min-w-0 truncate', s.status === 'error' ? 'text-red-500' : 'text-brand-grey-1')}>
+              <span className="text-brand-black">{s.sheetName}</span>
+              {' — '}{TYPE_LABELS[s.fileType] || s.fileType}
+              {s.records !== undefined ? ` — ${s.records} records imported` : ''}
+              {s.detail && !s.diff ? ` — ${s.detail}` : ''}
+            </p>
+          </div>
+          {s.diff && (
+            <div className="mt-1">
+              <ImportDiffView diff={s.diff} />
+            </div>
+          )}
+          {s.validation && <ValidationReportView report={s.validation} filename={`${filename.replace(/\.xlsx?$/i, '')} ${s.sheetName}`} />}
+        </li>
+      ))}
+    </ul>
+  )
+}
@@ -3,8 +3,14 @@
 import { useState, useEffect } from 'react'
 import { FileUp, CheckCircle, XCircle, Loader2, AlertTriangle, Info } from 'lucide-react'
 import Button from '@/components/ui/Button'
-import ColumnReview from './ColumnReview'
+import ColumnReview, { type ReviewItem } from './ColumnReview'
+import ImportDiffView from './ImportDiffView'
+import SheetResultList from './SheetResultList'
+import ValidationReportView from './ValidationReportView'
 import { cn } from '@/lib/utils'
+import type { ImportDiff } from '@/lib/import-diff'
+import type { SheetResult } from '@/lib/upload-pipeline'
+import type { ValidationReport } from '@/lib/parsers/validation'
 
 const FILE_TYPES = [
   { value: 'auto', label: 'Auto-detect' },
@@ -17,12 +23,16 @@ const FILE_TYPES = [
 ]
 
 interface UploadResult {
-  status: 'success' | 'error' | 'needs_review'
+  status: 'success' | 'error' | 'needs_review' | 'preview'
   detail: string
   records?: number
   rawUploadId?: string
   unmappedColumns?: string[]
   fileType?: string
+  diff?: ImportDiff
+  validation?: ValidationReport
+  /** Workbooks loaded sheet by sheet */
+  sheets?: SheetResult[]
 }
 
 export default function SingleFileUpload({ trials }: { trials: { id: string; name: string }[] }) {
@@ -49,10 +59,16 @@ export default function SingleFileUpload({ trials }: { trials: { id: string; nam
     return () => { cancelled = true }
   }, [selectedTrial])
 
+  // A preview is only good for the file, type and trial it was run with
+  useEffect(() => {
+    setResult(null)
+  }, [file, fileType, selectedTrial])
+
   const effectiveType = fileType === 'auto' ? null : fileType
   const hasExistingData = effectiveType && existingTypes.includes(effectiveType)
 
-  async function handleUpload() {
+  /** With dryRun, fetch a diff against stored rows for the user to confirm */
+  async function handleUpload(dryRun: boolean) {
     if (!file) return
     setUploading(true)
     setResult(null)
@@ -61,6 +77,7 @@ export default function SingleFileUpload({ trials }: { trials: { id: string; nam
     formData.append('file', file)
     if (selectedTrial) formData.append('trialId', selectedTrial)
     formData.append('fileType', fileType)
+    if (dryRun) formData.append('dryRun', 'true')
 
     try {
       const controller = new AbortController()
@@ -95,8 +112,41 @@ export default function SingleFileUpload({ trials }: { trials: { id: string; nam
     setUploading(false)
   }
 
+  // A workbook's sheets are reviewed together, each with its own type
+  const reviewItems: ReviewItem[] = result?.sheets
+    ? result.sheets
+        .filter(s => s.status === 'needs_review' && s.rawUploadId && s.unmappedColumns)
+        .map(s => ({
+          rawUploadId: s.rawUploadId!,
+          filename: `${file?.name || 'unknown'} [${s.sheetName}]`,
+          fileType: s.fileType,
+          unmappedColumns: s.unmappedColumns!,
+        }))
+    : result?.rawUploadId && result.unmappedColumns
+      ? [{
+          rawUploadId: result.rawUploadId,
+          filename: file?.name || 'unknown',
+          fileType: result.fileType || fileType,
+          unmappedColumns: result.unmappedColumns,
+        }]
+      : []
+
   function handleReviewComplete(batchResults: { rawUploadId: string; status: string; records?: number; detail?: string }[]) {
     setReviewOpen(false)
+    if (result?.sheets) {
+      const resultMap = new Map(batchResults.map(r => [r.rawUploadId, r]))
+      const sheets = result.sheets.map(s => {
+        const br = s.rawUploadId ? resultMap.get(s.rawUploadId) : undefined
+        return br ? { ...s, status: br.status as SheetResult['status'], detail: br.detail, records: br.records } : s
+      })
+      setResult({
+        ...result,
+        sheets,
+        status: sheets.some(s => s.status === 'needs_review') ? 'needs_review' : 'success',
+        records: sheets.reduce((n, s) => n + (s.records ?? 0), 0),
+      })
+      return
+    }
     const first = batchResults[0]
     if (first) {
       setResult({
@@ -182,18 +232,45 @@ export default function SingleFileUpload({ trials }: { trials: { id: string; nam
         </p>
       </div>
 
-      <Button onClick={handleUpload} disabled={uploading || !file} className="w-full">
-        {uploading ? (
-          <>
-            <Loader2 size={14} className="animate-spin" />
-            Processing...
-          </>
-        ) : (
-          'Upload File'
-        )}
-      </Button>
+      {result?.status === 'preview' ? (
+        <div className="p-3 rounded-lg border border-brand-grey-2 space-y-3">
+          <div>
+            <p className="signpost-label mb-1">PREVIEW</p>
+            {result.sheets ? (
+              <SheetResultList sheets={result.sheets} filename={file?.name || 'upload'} />
+            ) : result.diff ? (
+              <ImportDiffView diff={result.diff} />
+            ) : (
+              <p className="text-sm">{result.detail}</p>
+            )}
+            {result.unmappedColumns && result.unmappedColumns.length > 0 && (
+              <p className="text-xs text-amber-700 mt-2">
+                {result.unmappedColumns.length} column(s) couldn&rsquo;t be auto-matched and will need review after importing.
+              </p>
+            )}
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" size="sm" onClick={() => setResult(null)} disabled={uploading}>Cancel</Button>
+            <Button size="sm" onClick={() => handleUpload(false)} disabled={uploading}>
+              {uploading && <Loader2 size={14} className="animate-spin" />}
+              Confirm Import
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <Button onClick={() => handleUpload(true)} disabled={uploading || !file} className="w-full">
+          {uploading ? (
+            <>
+              <Loader2 size={14} className="animate-spin" />
+              Processing...
+            </>
+          ) : (
+            'Preview Import'
+          )}
+        </Button>
+      )}
 
-      {result && (
+      {result && result.status !== 'preview' && (
         <div className={cn(
           'flex items-center gap-2 p-3 rounded-lg',
           result.status === 'success' ? 'bg-green-lush/10' :
@@ -225,17 +302,20 @@ export default function SingleFileUpload({ trials }: { trials: { id: string; nam
         </div>
       )}
 
+      {result && result.status !== 'preview' && result.sheets && (
+        <SheetResultList sheets={result.sheets} filename={file?.name || 'upload'} />
+      )}
+
+      {result && result.validation && (
+        <ValidationReportView report={result.validation} filename={file?.name || 'upload'} />
+      )}
+
       {/* Column review modal */}
-      {result?.rawUploadId && result?.unmappedColumns && (
+      {reviewItems.length > 0 && (
         <ColumnReview
           open={reviewOpen}
           onClose={() => setReviewOpen(false)}
-          items={[{
-            rawUploadId: result.rawUploadId,
-            filename: file?.name || 'unknown',
-            fileType: result.fileType || fileType,
-            unmappedColumns: result.unmappedColumns,
-          }]}
+          items={reviewItems}
           onComplete={handleReviewComplete}
         />
       )}
@@ -0,0 +1,64 @@
+'use client'
+
+import { useState } from 'react'
+import Button from '@/components/ui/Button'
+import { Download } from 'lucide-react'
+
+const inputClass = 'w-full px-3 py-2 rounded-lg border border-brand-grey-2 bg-brand-grey-3 text-sm text-brand-black focus:outline-none focus:border-brand-black/30'
+
+/**
+ * Download a "START HERE" workbook for a new trial: the trial summary
+ * layout with plot data and soil health sheets laid out for the design.
+ * An existing trial ID fills in what's stored for it.
+ */
+export default function TrialTemplateCard() {
+  const [trialId, setTrialId] = useState('')
+  const [treatments, setTreatments] = useState('')
+  const [reps, setReps] = useState('')
+
+  const params = new URLSearchParams()
+  if (trialId.trim()) params.set('trialId', trialId.trim())
+  if (treatments) params.set('treatments', treatments)
+  if (reps) params.set('reps', reps)
+
+  return (
+    <div className="card">
+      <p className="signpost-label mb-3">TRIAL TEMPLATE</p>
+      <div className="space-y-2">
+        <input
+          value={trialId}
+          onChange={e => setTrialId(e.target.value)}
+          placeholder="Trial ID (optional)"
+          className={inputClass}
+        />
+        <div className="grid grid-cols-2 gap-2">
+          <input
+            type="number"
+            min={1}
+            value={treatments}
+            onChange={e => setTreatments(e.target.value)}
+            placeholder="Treatments"
+            className={inputClass}
+          />
+          <input
+            type="number"
+            min={1}
+            value={reps}
+            onChange={e => setReps(e.target.value)}
+            placeholder="Reps"
+            className={inputClass}
+          />
+        </div>
+        <a href={`/api/trials/template?${params}`} className="block">
+          <Button size="sm" variant="secondary" className="w-full">
+            <Download size={14} />
+            Download START HERE workbook
+          </Button>
+        </a>
+      </div>
+      <p className="text-xs text-brand-grey-1 mt-2">
+        Fill it in and upload it with the trial folder to create the trial and load its sheets.
+      </p>
+    </div>
+  )
+}
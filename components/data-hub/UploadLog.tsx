@@ -1,5 +1,9 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
 import { formatDate } from '@/lib/utils'
-import { CheckCircle, XCircle, FileText } from 'lucide-react'
+import { CheckCircle, XCircle, FileText, Undo2, Loader2 } from 'lucide-react'
 
 interface LogEntry {
   id: string
@@ -10,6 +14,9 @@ interface LogEntry {
   detail: string | null
   records_imported: number
   created_at: string
+  raw_upload_id?: string | null
+  /** Embedded from raw_uploads; only 'loaded' uploads can be undone */
+  raw_uploads?: { status: string } | null
 }
 
 interface UploadLogProps {
@@ -17,6 +24,30 @@ interface UploadLogProps {
 }
 
 export default function UploadLog({ entries }: UploadLogProps) {
+  const router = useRouter()
+  const [undoing, setUndoing] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  async function undo(e: LogEntry) {
+    if (!e.raw_upload_id) return
+    if (!confirm(`Undo the upload of "${e.filename}"? Rows it added will be deleted and rows it changed restored to their previous values.`)) return
+    setUndoing(e.id)
+    setError(null)
+    try {
+      const res = await fetch('/api/upload/rollback', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rawUploadId: e.raw_upload_id }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Undo failed')
+      router.refresh()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Undo failed')
+    }
+    setUndoing(null)
+  }
+
   if (entries.length === 0) {
     return (
       <p className="text-xs text-brand-grey-1 text-center py-4">No uploads yet.</p>
@@ -25,14 +56,19 @@ export default function UploadLog({ entries }: UploadLogProps) {
 
   return (
     <div className="space-y-2 max-h-[400px] overflow-y-auto">
+      {error && (
+        <div className="p-2 rounded-lg bg-red-50 border border-red-200 text-xs text-red-700">{error}</div>
+      )}
       {entries.map((e) => (
         <div key={e.id} className="flex items-start gap-2 px-2 py-1.5">
           {e.status === 'success' ? (
             <CheckCircle size={14} className="text-green-lush mt-0.5 flex-shrink-0" />
+          ) : e.status === 'rolled_back' ? (
+            <Undo2 size={14} className="text-brand-grey-1 mt-0.5 flex-shrink-0" />
           ) : (
             <XCircle size={14} className="text-red-500 mt-0.5 flex-shrink-0" />
           )}
-          <div className="min-w-0">
+          <div className="min-w-0 flex-1">
             <p className="text-xs text-brand-black truncate">{e.filename || 'Unknown file'}</p>
             <p className="text-[10px] text-brand-grey-1">
               {e.trial_id && <span className="font-mono">{e.trial_id}</span>}
@@ -40,7 +76,22 @@ export default function UploadLog({ entries }: UploadLogProps) {
               {e.records_imported > 0 && <span> · {e.records_imported} records</span>}
               <span> · {formatDate(e.created_at)}</span>
             </p>
+            {e.status === 'rolled_back' && e.detail && (
+              <p className="text-[10px] text-brand-grey-1">{e.detail}</p>
+            )}
           </div>
+          {e.status === 'success' && e.raw_upload_id && e.raw_uploads?.status === 'loaded' && (
+            <button
+              type="button"
+              onClick={() => undo(e)}
+              disabled={undoing != null}
+              className="p-1 rounded hover:bg-brand-grey-2 text-brand-grey-1 hover:text-brand-black transition-colors flex-shrink-0 disabled:opacity-50"
+              aria-label={`Undo upload of ${e.filename}`}
+              title="Undo upload"
+            >
+              {undoing === e.id ? <Loader2 size={12} className="animate-spin" /> : <Undo2 size={12} />}
+            </button>
+          )}
         </div>
       ))}
     </div>
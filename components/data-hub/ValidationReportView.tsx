@@ -0,0 +1,100 @@
+'use client'
+
+import { useState } from 'react'
+import { ChevronDown, ChevronRight, Download } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import type { ValidationReport } from '@/lib/parsers/validation'
+
+function toCsv(rows: Record<string, string>[]): string {
+  const headers = Array.from(new Set(rows.flatMap(r => Object.keys(r))))
+  const escape = (v: string | undefined) => {
+    const s = v ?? ''
+    return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s
+  }
+  return [headers.map(escape).join(','), ...rows.map(r => headers.map(h => escape(r[h])).join(','))].join('\n')
+}
+
+/** Rejected-row and warning counts, the issues on demand, and the rejected rows as CSV */
+export default function ValidationReportView({ report, filename }: { report: ValidationReport; filename: string }) {
+  const [expanded, setExpanded] = useState(false)
+  if (report.errors === 0 && report.warnings === 0) return null
+
+  function downloadRejected() {
+    const blob = new Blob([toCsv(report.rejectedRows)], { type: 'text/csv' })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = `${filename.replace(/\.(csv|xlsx?)$/i, '')}_rejected.csv`
+    a.click()
+    setTimeout(() => URL.revokeObjectURL(url), 1000)
+  }
+
+  const shownErrors = report.issues.filter(i => i.severity === 'error').length
+  const truncated = report.issues.length < report.errors + report.warnings
+
+  return (
+    <div className="text-xs mt-1.5">
+      <div className="flex flex-wrap items-center gap-1.5">
+        {report.rejected > 0 && (
+          <span className="px-2 py-0.5 rounded-full bg-red-50 text-red-600 font-medium">
+            {report.rejected} row{report.rejected > 1 ? 's' : ''} rejected
+          </span>
+        )}
+        {report.warnings > 0 && (
+          <span className="px-2 py-0.5 rounded-full bg-amber-50 text-amber-700 font-medium">
+            {report.warnings} warning{report.warnings > 1 ? 's' : ''}
+          </span>
+        )}
+        {report.rejectedRows.length > 0 && (
+          <button
+            type="button"
+            onClick={downloadRejected}
+            className="flex items-center gap-1 text-brand-grey-1 hover:text-brand-black"
+          >
+            <Download size={12} />
+            Rejected rows (CSV)
+          </button>
+        )}
+      </div>
+
+      <button
+        type="button"
+        onClick={() => setExpanded(e => !e)}
+        className="mt-2 flex items-center gap-1 text-brand-grey-1 hover:text-brand-black"
+      >
+        {expanded ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+        {expanded ? 'Hide' : 'Show'} row issues
+      </button>
+
+      {expanded && (
+        <div className="mt-2 max-h-64 overflow-y-auto rounded-lg border border-brand-grey-2">
+          <table className="w-full">
+            <thead className="bg-brand-grey-3 text-brand-grey-1 sticky top-0">
+              <tr>
+                <th className="text-left font-medium px-2 py-1">Row</th>
+                <th className="text-left font-medium px-2 py-1">Field</th>
+                <th className="text-left font-medium px-2 py-1">Issue</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-brand-grey-2">
+              {report.issues.map((issue, i) => (
+                <tr key={i}>
+                  <td className="px-2 py-1 text-brand-black">{issue.row}</td>
+                  <td className="px-2 py-1 font-mono text-brand-grey-1">{issue.field}</td>
+                  <td className={cn('px-2 py-1', issue.severity === 'error' ? 'text-red-600' : 'text-amber-700')}>
+                    {issue.message}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {truncated && (
+            <p className="px-2 py-1 text-brand-grey-1">
+              Showing the first {report.issues.length} issues ({shownErrors} errors).
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
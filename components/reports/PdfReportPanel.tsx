@@ -0,0 +1,208 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Download, Loader2, Check, Eye } from 'lucide-react'
+import Button from '@/components/ui/Button'
+import { cn, formatDate } from '@/lib/utils'
+import {
+  REPORT_SECTIONS, SECTION_LABELS, BUILTIN_TEMPLATE,
+  type ReportSection, type ReportTemplate, type TemplateMatch,
+} from '@/lib/report-templates'
+
+const DEFAULT_PHOTO_COUNT = 4
+
+export interface ReportPhoto {
+  id: string
+  filename: string
+  caption: string | null
+  taken_at: string | null
+  url: string | null
+}
+
+const MATCH_LABELS: Record<TemplateMatch, string> = {
+  client: "the client's template",
+  trial_type: 'the trial type template',
+  default: 'the default template',
+  builtin: 'the standard layout',
+}
+
+interface PdfReportPanelProps {
+  trialId: string
+  photos: ReportPhoto[]
+  templates: (ReportTemplate & { id: string })[]
+  /** Template the trial resolves to (null for the built-in one) */
+  resolvedTemplateId: string | null
+  matchedBy: TemplateMatch
+}
+
+export default function PdfReportPanel({ trialId, photos, templates, resolvedTemplateId, matchedBy }: PdfReportPanelProps) {
+  const [templateId, setTemplateId] = useState<string>(resolvedTemplateId ?? 'builtin')
+  const template = templates.find(t => t.id === templateId) ?? BUILTIN_TEMPLATE
+  const [sections, setSections] = useState<ReportSection[]>(template.sections)
+  const [selectedPhotos, setSelectedPhotos] = useState<string[]>(photos.slice(0, DEFAULT_PHOTO_COUNT).map(p => p.id))
+  const [busy, setBusy] = useState<'preview' | 'download' | null>(null)
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  // Template sections first, in the template's order, then the rest
+  const ordered = [...template.sections, ...REPORT_SECTIONS.filter(s => !template.sections.includes(s))]
+
+  useEffect(() => {
+    return () => { if (previewUrl) URL.revokeObjectURL(previewUrl) }
+  }, [previewUrl])
+
+  function toggle<T>(list: T[], value: T): T[] {
+    return list.includes(value) ? list.filter(v => v !== value) : [...list, value]
+  }
+
+  function changeTemplate(id: string) {
+    setTemplateId(id)
+    setSections((templates.find(t => t.id === id) ?? BUILTIN_TEMPLATE).sections)
+    setPreviewUrl(null)
+  }
+
+  async function renderPdf(): Promise<{ blob: Blob; filename: string }> {
+    const params = new URLSearchParams({ trialId, template: templateId })
+    const chosen = ordered.filter(s => sections.includes(s))
+    if (chosen.join(',') !== template.sections.join(',')) params.set('sections', chosen.join(','))
+    if (sections.includes('photos') && selectedPhotos.length > 0) params.set('photos', selectedPhotos.join(','))
+
+    const res = await fetch(`/api/report/pdf?${params}`)
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}))
+      throw new Error(data.error || 'Report generation failed')
+    }
+    const filename = res.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1] ?? `${trialId}_report.pdf`
+    return { blob: await res.blob(), filename }
+  }
+
+  async function previewPdf() {
+    setBusy('preview')
+    setError(null)
+    try {
+      const { blob } = await renderPdf()
+      setPreviewUrl(URL.createObjectURL(blob))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Report generation failed')
+    }
+    setBusy(null)
+  }
+
+  async function downloadPdf() {
+    setBusy('download')
+    setError(null)
+    try {
+      const { blob, filename } = await renderPdf()
+      const url = URL.createObjectURL(blob)
+      const a = document.createElement('a')
+      a.href = url
+      a.download = filename
+      a.click()
+      setTimeout(() => URL.revokeObjectURL(url), 1000)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Report generation failed')
+    }
+    setBusy(null)
+  }
+
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between mb-3">
+        <p className="signpost-label">PDF REPORT</p>
+        <div className="flex gap-2">
+          <Button size="sm" variant="secondary" onClick={previewPdf} disabled={busy != null || sections.length === 0}>
+            {busy === 'preview' ? <Loader2 size={14} className="animate-spin" /> : <Eye size={14} />}
+            Preview
+          </Button>
+          <Button size="sm" onClick={downloadPdf} disabled={busy != null || sections.length === 0}>
+            {busy === 'download' ? <Loader2 size={14} className="animate-spin" /> : <Download size={14} />}
+            {busy === 'download' ? 'Rendering...' : 'Download PDF'}
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex items-end gap-4 mb-4">
+        <div className="w-72">
+          <label className="signpost-label block mb-1">TEMPLATE</label>
+          <select
+            value={templateId}
+            onChange={(e) => changeTemplate(e.target.value)}
+            className="w-full px-3 py-2 rounded-lg border border-brand-grey-2 bg-brand-grey-3 text-sm text-brand-black focus:outline-none focus:border-brand-black/30"
+          >
+            <option value="builtin">{BUILTIN_TEMPLATE.name}</option>
+            {templates.map(t => (
+              <option key={t.id} value={t.id}>{t.name}</option>
+            ))}
+          </select>
+        </div>
+        <p className="text-xs text-brand-grey-1 pb-2">
+          This trial uses {MATCH_LABELS[matchedBy]}
+          {template.metrics.length > 0 && ` · charts ${template.metrics.join(', ')}`}
+        </p>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {ordered.map(s => (
+          <button
+            key={s}
+            onClick={() => setSections(prev => toggle(prev, s))}
+            className={cn(
+              'px-3 py-1.5 rounded-full text-xs font-medium transition-colors',
+              sections.includes(s)
+                ? 'bg-brand-black text-white'
+                : 'bg-brand-grey-3 text-brand-black/70 hover:bg-brand-grey-2'
+            )}
+          >
+            {SECTION_LABELS[s]}
+          </button>
+        ))}
+      </div>
+
+      {sections.includes('photos') && photos.length > 0 && (
+        <div>
+          <p className="text-xs text-brand-grey-1 mb-2">
+            Photos to include ({selectedPhotos.length} of {photos.length} selected)
+          </p>
+          <div className="grid grid-cols-6 gap-2">
+            {photos.map(p => {
+              const selected = selectedPhotos.includes(p.id)
+              return (
+                <button
+                  key={p.id}
+                  onClick={() => setSelectedPhotos(prev => toggle(prev, p.id))}
+                  title={[p.caption || p.filename, p.taken_at ? formatDate(p.taken_at) : null].filter(Boolean).join(' · ')}
+                  className={cn(
+                    'relative aspect-square rounded-lg overflow-hidden border-2 transition-colors bg-brand-grey-3',
+                    selected ? 'border-brand-black' : 'border-transparent opacity-60 hover:opacity-100'
+                  )}
+                >
+                  {p.url && (
+                    <img src={p.url} alt={p.caption || p.filename} className="w-full h-full object-cover" loading="lazy" />
+                  )}
+                  {selected && (
+                    <span className="absolute top-1 right-1 w-4 h-4 rounded-full bg-brand-black text-white flex items-center justify-center">
+                      <Check size={10} />
+                    </span>
+                  )}
+                </button>
+              )
+            })}
+          </div>
+          <p className="text-xs text-brand-grey-1 mt-2">JPEG and PNG photos are embedded; other formats are skipped.</p>
+        </div>
+      )}
+
+      {error && (
+        <div className="mt-3 p-3 rounded-lg bg-red-50 border border-red-200 text-sm text-red-700">{error}</div>
+      )}
+
+      {previewUrl && (
+        <iframe
+          src={previewUrl}
+          title="Report preview"
+          className="mt-4 w-full h-[800px] rounded-lg border border-brand-grey-2"
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,286 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Plus, Pencil, Trash2, Loader2, ArrowUp, ArrowDown } from 'lucide-react'
+import Button from '@/components/ui/Button'
+import Modal from '@/components/ui/Modal'
+import { cn } from '@/lib/utils'
+import {
+  REPORT_SECTIONS, SECTION_LABELS, BUILTIN_TEMPLATE,
+  type ReportSection, type ReportTemplate,
+} from '@/lib/report-templates'
+
+/** A stored template, with the clients assigned to it */
+export interface ManagedTemplate extends ReportTemplate {
+  id: string
+  client_ids: string[]
+}
+
+interface ReportTemplatesManagerProps {
+  templates: ManagedTemplate[]
+  clients: { id: string; name: string }[]
+}
+
+interface Draft {
+  id: string | null
+  name: string
+  description: string
+  /** Every section in print order, with the ticked ones included */
+  order: ReportSection[]
+  included: ReportSection[]
+  metrics: string
+  trialTypes: string
+  clientIds: string[]
+  isDefault: boolean
+  title: string
+  subtitle: string
+  footer: string
+  disclaimer: string
+}
+
+function draftFrom(t: ReportTemplate & { client_ids?: string[] }): Draft {
+  return {
+    id: t.id,
+    name: t.id ? t.name : '',
+    description: t.description ?? '',
+    order: [...t.sections, ...REPORT_SECTIONS.filter(s => !t.sections.includes(s))],
+    included: [...t.sections],
+    metrics: t.metrics.join(', '),
+    trialTypes: t.trial_types.join(', '),
+    clientIds: t.client_ids ?? [],
+    isDefault: t.is_default,
+    title: t.branding.title,
+    subtitle: t.branding.subtitle,
+    footer: t.branding.footer,
+    disclaimer: t.branding.disclaimer,
+  }
+}
+
+const splitList = (v: string) => v.split(',').map(s => s.trim()).filter(Boolean)
+
+const inputClass = 'w-full px-3 py-2 rounded-lg border border-brand-grey-2 bg-brand-grey-3 text-sm text-brand-black focus:outline-none focus:border-brand-black/30'
+
+export default function ReportTemplatesManager({ templates, clients }: ReportTemplatesManagerProps) {
+  const router = useRouter()
+  const [draft, setDraft] = useState<Draft | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const clientNames = new Map(clients.map(c => [c.id, c.name]))
+
+  function update(patch: Partial<Draft>) {
+    setDraft(d => (d ? { ...d, ...patch } : d))
+  }
+
+  function move(section: ReportSection, delta: number) {
+    if (!draft) return
+    const order = [...draft.order]
+    const i = order.indexOf(section)
+    const j = i + delta
+    if (j < 0 || j >= order.length) return
+    ;[order[i], order[j]] = [order[j], order[i]]
+    update({ order })
+  }
+
+  async function save() {
+    if (!draft) return
+    setSaving(true)
+    setError(null)
+    try {
+      const res = await fetch(draft.id ? `/api/report-templates/${draft.id}` : '/api/report-templates', {
+        method: draft.id ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: draft.name,
+          description: draft.description,
+          sections: draft.order.filter(s => draft.included.includes(s)),
+          metrics: splitList(draft.metrics),
+          trial_types: splitList(draft.trialTypes),
+          client_ids: draft.clientIds,
+          is_default: draft.isDefault,
+          branding: { title: draft.title, subtitle: draft.subtitle, footer: draft.footer, disclaimer: draft.disclaimer },
+        }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Save failed')
+      setDraft(null)
+      router.refresh()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Save failed')
+    }
+    setSaving(false)
+  }
+
+  async function remove(t: ManagedTemplate) {
+    if (!confirm(`Delete the "${t.name}" template? Clients using it fall back to the trial-type or default template.`)) return
+    const res = await fetch(`/api/report-templates/${t.id}`, { method: 'DELETE' })
+    if (res.ok) router.refresh()
+  }
+
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between mb-3">
+        <p className="signpost-label">REPORT TEMPLATES</p>
+        <Button size="sm" variant="secondary" onClick={() => { setError(null); setDraft(draftFrom(BUILTIN_TEMPLATE)) }}>
+          <Plus size={14} />
+          New template
+        </Button>
+      </div>
+
+      {templates.length === 0 ? (
+        <p className="text-sm text-brand-grey-1">
+          No templates yet — every trial uses the standard layout.
+        </p>
+      ) : (
+        <div className="divide-y divide-brand-grey-2">
+          {templates.map(t => {
+            const assigned = [
+              ...t.client_ids.map(id => clientNames.get(id)).filter(Boolean),
+              ...t.trial_types.map(tt => `type: ${tt}`),
+            ]
+            return (
+              <div key={t.id} className="flex items-center gap-3 py-2">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-brand-black">
+                    {t.name}
+                    {t.is_default && <span className="ml-2 text-xs text-brand-grey-1">(default)</span>}
+                  </p>
+                  <p className="text-xs text-brand-grey-1 truncate">
+                    {t.sections.map(s => SECTION_LABELS[s]).join(' · ')}
+                    {assigned.length > 0 && ` — ${assigned.join(', ')}`}
+                  </p>
+                </div>
+                <Button size="sm" variant="ghost" onClick={() => { setError(null); setDraft(draftFrom(t)) }}>
+                  <Pencil size={14} />
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => remove(t)}>
+                  <Trash2 size={14} />
+                </Button>
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      <Modal open={draft != null} onClose={() => setDraft(null)} title={draft?.id ? 'Edit report template' : 'New report template'}>
+        {draft && (
+          <div className="space-y-4 max-h-[70vh] overflow-y-auto pr-1">
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="signpost-label block mb-1">NAME</label>
+                <input value={draft.name} onChange={e => update({ name: e.target.value })} className={inputClass} />
+              </div>
+              <div>
+                <label className="signpost-label block mb-1">DESCRIPTION</label>
+                <input value={draft.description} onChange={e => update({ description: e.target.value })} className={inputClass} />
+              </div>
+            </div>
+
+            <div>
+              <label className="signpost-label block mb-1">SECTIONS</label>
+              <div className="space-y-1">
+                {draft.order.map((s, i) => (
+                  <div key={s} className="flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={draft.included.includes(s)}
+                      onChange={() => update({
+                        included: draft.included.includes(s) ? draft.included.filter(x => x !== s) : [...draft.included, s],
+                      })}
+                    />
+                    <span className={cn('flex-1', !draft.included.includes(s) && 'text-brand-grey-1')}>{SECTION_LABELS[s]}</span>
+                    <button onClick={() => move(s, -1)} disabled={i === 0} className="p-1 text-brand-grey-1 hover:text-brand-black disabled:opacity-30">
+                      <ArrowUp size={12} />
+                    </button>
+                    <button onClick={() => move(s, 1)} disabled={i === draft.order.length - 1} className="p-1 text-brand-grey-1 hover:text-brand-black disabled:opacity-30">
+                      <ArrowDown size={12} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <label className="signpost-label block mb-1">METRICS</label>
+              <input
+                value={draft.metrics}
+                onChange={e => update({ metrics: e.target.value })}
+                placeholder="Comma-separated, e.g. pH, Nitrate-N — blank charts the most significant"
+                className={inputClass}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="signpost-label block mb-1">TITLE</label>
+                <input value={draft.title} onChange={e => update({ title: e.target.value })} placeholder="Trial report" className={inputClass} />
+              </div>
+              <div>
+                <label className="signpost-label block mb-1">FOOTER</label>
+                <input value={draft.footer} onChange={e => update({ footer: e.target.value })} placeholder="SoilTrack" className={inputClass} />
+              </div>
+            </div>
+            <div>
+              <label className="signpost-label block mb-1">SUBTITLE</label>
+              <input value={draft.subtitle} onChange={e => update({ subtitle: e.target.value })} className={inputClass} />
+            </div>
+            <div>
+              <label className="signpost-label block mb-1">DISCLAIMER</label>
+              <textarea value={draft.disclaimer} onChange={e => update({ disclaimer: e.target.value })} rows={2} className={inputClass} />
+            </div>
+
+            <div>
+              <label className="signpost-label block mb-1">USE FOR TRIAL TYPES</label>
+              <input
+                value={draft.trialTypes}
+                onChange={e => update({ trialTypes: e.target.value })}
+                placeholder="Comma-separated, e.g. Pot Trial, Field Trial"
+                className={inputClass}
+              />
+            </div>
+
+            {clients.length > 0 && (
+              <div>
+                <label className="signpost-label block mb-1">USE FOR CLIENTS</label>
+                <div className="grid grid-cols-2 gap-1 max-h-32 overflow-y-auto">
+                  {clients.map(c => (
+                    <label key={c.id} className="flex items-center gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={draft.clientIds.includes(c.id)}
+                        onChange={() => update({
+                          clientIds: draft.clientIds.includes(c.id)
+                            ? draft.clientIds.filter(id => id !== c.id)
+                            : [...draft.clientIds, c.id],
+                        })}
+                      />
+                      {c.name}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={draft.isDefault} onChange={e => update({ isDefault: e.target.checked })} />
+              Default for trials with no client or trial-type template
+            </label>
+
+            {error && (
+              <div className="p-3 rounded-lg bg-red-50 border border-red-200 text-sm text-red-700">{error}</div>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" onClick={() => setDraft(null)}>Cancel</Button>
+              <Button onClick={save} disabled={saving || !draft.name.trim() || draft.included.length === 0}>
+                {saving && <Loader2 size={14} className="animate-spin" />}
+                Save template
+              </Button>
+            </div>
+          </div>
+        )}
+      </Modal>
+    </div>
+  )
+}
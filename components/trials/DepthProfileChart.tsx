@@ -0,0 +1,177 @@
+'use client'
+
+/**
+ * Soil chemistry down the profile: the mean of one metric at each sampled
+ * depth interval, one line per sampling date, with depth increasing
+ * downwards.
+ */
+
+import { useMemo, useState } from 'react'
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts'
+import { formatDate } from '@/lib/utils'
+
+const CHART_COLORS = [
+  '#008BCE', '#00BB7E', '#006AC6', '#009775', '#004C97',
+  '#e67e22', '#99F0FA', '#B9EFA3', '#161F28', '#B9BCBF',
+]
+
+interface ChemistryRow {
+  date: string | null
+  metric: string
+  value: number | null
+  unit: string | null
+  depth_upper_cm: number | null
+  depth_lower_cm: number | null
+}
+
+interface Interval {
+  upper: number
+  lower: number | null
+  label: string
+}
+
+function intervalOf(row: ChemistryRow): Interval | null {
+  if (row.depth_upper_cm == null) return null
+  const upper = Number(row.depth_upper_cm)
+  const lower = row.depth_lower_cm == null ? null : Number(row.depth_lower_cm)
+  return { upper, lower, label: lower == null ? `${upper}+ cm` : `${upper}–${lower} cm` }
+}
+
+/** Plotted at the interval's midpoint; open-ended intervals at their top */
+const depthOf = (i: Interval) => (i.lower == null ? i.upper : (i.upper + i.lower) / 2)
+
+export default function DepthProfileChart({ chemistry }: { chemistry: ChemistryRow[] }) {
+  const withDepth = useMemo(() => chemistry.filter(r => r.depth_upper_cm != null && r.value != null), [chemistry])
+
+  // Only metrics measured at more than one depth make a profile
+  const metrics = useMemo(() => {
+    const depths = new Map<string, Set<string>>()
+    for (const r of withDepth) {
+      const set = depths.get(r.metric) ?? new Set<string>()
+      set.add(intervalOf(r)!.label)
+      depths.set(r.metric, set)
+    }
+    return Array.from(depths.entries()).filter(([, d]) => d.size > 1).map(([m]) => m).sort()
+  }, [withDepth])
+
+  const [metric, setMetric] = useState('')
+  const selected = metrics.includes(metric) ? metric : metrics[0]
+
+  const { data, dates, unit } = useMemo(() => {
+    const rows = withDepth.filter(r => r.metric === selected)
+    const dates = Array.from(new Set(rows.map(r => r.date ?? ''))).sort()
+    const intervals = new Map<string, Interval>()
+    const sums = new Map<string, { sum: number; n: number }>()
+    for (const r of rows) {
+      const interval = intervalOf(r)!
+      intervals.set(interval.label, interval)
+      const key = `${interval.label}\0${r.date ?? ''}`
+      const acc = sums.get(key) ?? { sum: 0, n: 0 }
+      acc.sum += Number(r.value)
+      acc.n++
+      sums.set(key, acc)
+    }
+
+    // One row per depth interval, top first; dates are keyed by index
+    const data = Array.from(intervals.values())
+      .sort((a, b) => depthOf(a) - depthOf(b))
+      .map(interval => {
+        const row: Record<string, any> = { depth: depthOf(interval), label: interval.label }
+        dates.forEach((date, i) => {
+          const acc = sums.get(`${interval.label}\0${date}`)
+          if (!acc) return
+          row[`d${i}`] = acc.sum / acc.n
+          row[`d${i}_n`] = acc.n
+        })
+        return row
+      })
+    return { data, dates, unit: rows.find(r => r.unit)?.unit ?? '' }
+  }, [withDepth, selected])
+
+  if (metrics.length === 0) return null
+
+  const labelByDepth = new Map(data.map(d => [d.depth, d.label]))
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <p className="signpost-label">Depth Profile</p>
+        <select
+          value={selected}
+          onChange={(e) => setMetric(e.target.value)}
+          className="px-3 py-1.5 rounded-lg border border-brand-grey-2 bg-brand-grey-3 text-sm text-brand-black focus:outline-none focus:border-brand-black/30"
+        >
+          {metrics.map(m => <option key={m} value={m}>{m}</option>)}
+        </select>
+      </div>
+
+      <div style={{ width: '100%', height: 360 }}>
+        <ResponsiveContainer>
+          <LineChart data={data} layout="vertical" margin={{ top: 10, right: 20, bottom: 20, left: 20 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#DCDDDF" />
+            <XAxis
+              type="number"
+              tick={{ fontSize: 11, fill: '#B9BCBF' }}
+              tickLine={false}
+              axisLine={{ stroke: '#DCDDDF' }}
+              label={{
+                value: `${selected}${unit ? ` (${unit})` : ''}`,
+                position: 'insideBottom',
+                offset: -10,
+                style: { fontSize: 11, fill: '#B9BCBF' },
+              }}
+            />
+            <YAxis
+              type="number"
+              dataKey="depth"
+              reversed
+              domain={[0, 'dataMax']}
+              ticks={data.map(d => d.depth)}
+              tickFormatter={(d: number) => labelByDepth.get(d) ?? `${d} cm`}
+              tick={{ fontSize: 11, fill: '#161F28' }}
+              tickLine={false}
+              axisLine={false}
+              width={80}
+            />
+            <Tooltip
+              contentStyle={{
+                fontSize: 12,
+                borderRadius: 8,
+                border: '1px solid #DCDDDF',
+                boxShadow: '0 2px 8px rgba(0,0,0,0.08)',
+              }}
+              labelFormatter={(d: any) => labelByDepth.get(Number(d)) ?? `${d} cm`}
+              formatter={(value: any, name: any, props: any) => {
+                const key = String(props.dataKey)
+                return [`${Number(value).toFixed(2)} (n=${props.payload[`${key}_n`]})`, name]
+              }}
+              labelStyle={{ fontWeight: 600 }}
+            />
+            <Legend wrapperStyle={{ fontSize: 11, paddingTop: 10 }} />
+            {dates.map((date, i) => (
+              <Line
+                key={date || 'undated'}
+                dataKey={`d${i}`}
+                name={date ? formatDate(date) : 'Undated'}
+                stroke={CHART_COLORS[i % CHART_COLORS.length]}
+                strokeWidth={2}
+                dot={{ r: 3 }}
+                connectNulls
+                isAnimationActive={false}
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  )
+}
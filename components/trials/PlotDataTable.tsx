@@ -1,5 +1,7 @@
 import { useMemo } from 'react'
 import ProductTag from '@/components/ui/ProductTag'
+import { detectOutliers } from '@/lib/stats'
+import { cn } from '@/lib/utils'
 
 interface PlotDataRow {
   id: string
@@ -13,6 +15,8 @@ interface PlotDataRow {
   raw_data?: Record<string, any> | null
   treatment_product?: string | null
   treatment_application?: string | null
+  excluded?: boolean
+  exclusion_reason?: string | null
 }
 
 interface PlotDataTableProps {
@@ -105,7 +109,51 @@ function formatCellValue(val: any): string {
   return s
 }
 
+/** IDs of plots whose yield is an IQR outlier within its treatment (excluded plots ignored) */
+function findYieldOutliers(plots: PlotDataRow[]): Set<string> {
+  const candidates = plots.filter(p => p.yield_t_ha != null && !p.excluded && p.trt_number != null)
+  const flagged = detectOutliers(
+    candidates.map(p => ({ group: String(p.trt_number), value: p.yield_t_ha as number })),
+    'iqr'
+  )
+  return new Set(flagged.map(i => candidates[i].id))
+}
+
+function rowClassName(p: PlotDataRow, i: number, outliers: Set<string>): string {
+  return cn(
+    i % 2 === 1 ? 'bg-brand-grey-3' : '',
+    outliers.has(p.id) && 'bg-[#e67e22]/10',
+    p.excluded && 'text-brand-grey-1 line-through'
+  )
+}
+
+function rowTitle(p: PlotDataRow, outliers: Set<string>): string | undefined {
+  if (p.excluded) return `Excluded from analysis: ${p.exclusion_reason || 'no reason given'}`
+  if (outliers.has(p.id)) return 'Yield is an outlier for this treatment'
+  return undefined
+}
+
+function FlagLegend({ plots, outliers }: { plots: PlotDataRow[]; outliers: Set<string> }) {
+  const excludedCount = plots.filter(p => p.excluded).length
+  if (outliers.size === 0 && excludedCount === 0) return null
+  return (
+    <div className="flex gap-4 mb-3 text-xs text-brand-grey-1">
+      {outliers.size > 0 && (
+        <span className="flex items-center gap-1.5">
+          <span className="w-3 h-3 rounded-sm bg-[#e67e22]/30" />
+          {outliers.size} yield outlier{outliers.size === 1 ? '' : 's'} (IQR within treatment)
+        </span>
+      )}
+      {excludedCount > 0 && (
+        <span className="line-through">{excludedCount} excluded from analysis</span>
+      )}
+    </div>
+  )
+}
+
 export default function PlotDataTable({ plots }: PlotDataTableProps) {
+  const outliers = useMemo(() => findYieldOutliers(plots), [plots])
+
   if (plots.length === 0) {
     return <p className="text-sm text-brand-grey-1">No plot data recorded.</p>
   }
@@ -132,6 +180,7 @@ export default function PlotDataTable({ plots }: PlotDataTableProps) {
     // Fallback: render the old static columns from typed DB fields
     return (
       <div className="overflow-x-auto">
+        <FlagLegend plots={plots} outliers={outliers} />
         <table className="w-full text-sm">
           <thead>
             <tr className="border-b border-brand-grey-2">
@@ -142,7 +191,7 @@ export default function PlotDataTable({ plots }: PlotDataTableProps) {
           </thead>
           <tbody>
             {plots.map((p, i) => (
-              <tr key={p.id} className={i % 2 === 1 ? 'bg-brand-grey-3' : ''}>
+              <tr key={p.id} className={rowClassName(p, i, outliers)} title={rowTitle(p, outliers)}>
                 <td className="py-2.5 px-3 font-mono font-medium">{p.plot || '—'}</td>
                 <td className="py-2.5 px-3">
                   {p.treatment_product ? (
@@ -167,6 +216,7 @@ export default function PlotDataTable({ plots }: PlotDataTableProps) {
   // Dynamic mode: render all columns discovered from raw_data
   return (
     <div className="overflow-x-auto">
+      <FlagLegend plots={plots} outliers={outliers} />
       <table className="w-full text-sm">
         <thead>
           <tr className="border-b border-brand-grey-2">
@@ -181,7 +231,7 @@ export default function PlotDataTable({ plots }: PlotDataTableProps) {
           {plots.map((p, i) => {
             const raw = p.raw_data || {}
             return (
-              <tr key={p.id} className={i % 2 === 1 ? 'bg-brand-grey-3' : ''}>
+              <tr key={p.id} className={rowClassName(p, i, outliers)} title={rowTitle(p, outliers)}>
                 {dynamicColumns.map(col => {
                   // Find the value — try exact key first, then case-insensitive
                   let val = raw[col]
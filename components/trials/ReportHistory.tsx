@@ -0,0 +1,120 @@
+'use client'
+
+import { useState } from 'react'
+import { Download, FileText, Loader2 } from 'lucide-react'
+import Button from '@/components/ui/Button'
+import { useUserRole } from '@/components/providers/UserRoleProvider'
+import { cn, formatDate } from '@/lib/utils'
+import type { ReportJob } from '@/lib/report-jobs'
+
+export type ReportHistoryEntry = ReportJob & { url: string | null }
+
+const TRIGGER_LABELS: Record<string, string> = {
+  status_completed: 'Trial completed',
+  weekly: 'Weekly',
+  manual: 'Manual',
+}
+
+const STATUS_STYLES: Record<string, string> = {
+  pending: 'bg-brand-grey-3 text-brand-black/70',
+  running: 'bg-blue-50 text-blue-700',
+  succeeded: 'bg-green-50 text-green-700',
+  failed: 'bg-red-50 text-red-700',
+}
+
+function formatSize(bytes: number | null): string {
+  if (bytes == null) return '—'
+  return bytes < 1024 * 1024 ? `${Math.round(bytes / 1024)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`
+}
+
+export default function ReportHistory({ jobs: initialJobs, trialId }: { jobs: ReportHistoryEntry[]; trialId: string }) {
+  const { canUpload } = useUserRole()
+  const [jobs, setJobs] = useState(initialJobs)
+  const [generating, setGenerating] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  async function generate() {
+    setGenerating(true)
+    setError(null)
+    try {
+      const res = await fetch(`/api/trials/${encodeURIComponent(trialId)}/reports`, { method: 'POST' })
+      const job = await res.json()
+      if (!res.ok) throw new Error(job.error || 'Report generation failed')
+      if (job.status === 'failed') setError(job.error || 'Report generation failed')
+
+      const list = await fetch(`/api/trials/${encodeURIComponent(trialId)}/reports`)
+      if (list.ok) setJobs(await list.json())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Report generation failed')
+    }
+    setGenerating(false)
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <p className="text-xs text-brand-grey-1">
+          Reports are generated when the trial is marked completed and weekly while it is active.
+        </p>
+        {canUpload && (
+          <Button size="sm" variant="secondary" onClick={generate} disabled={generating}>
+            {generating ? <Loader2 size={14} className="animate-spin" /> : <FileText size={14} />}
+            {generating ? 'Generating...' : 'Generate now'}
+          </Button>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 rounded-lg bg-red-50 border border-red-200 text-sm text-red-700">{error}</div>
+      )}
+
+      {jobs.length === 0 ? (
+        <div className="text-center py-8 text-brand-grey-1">
+          <p className="text-sm">No reports have been generated for this trial yet.</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-brand-grey-2">
+                <th className="text-left py-2 px-3 text-brand-grey-1 font-medium text-xs">Generated</th>
+                <th className="text-left py-2 px-3 text-brand-grey-1 font-medium text-xs">Trigger</th>
+                <th className="text-left py-2 px-3 text-brand-grey-1 font-medium text-xs">Status</th>
+                <th className="text-right py-2 px-3 text-brand-grey-1 font-medium text-xs">Size</th>
+                <th className="py-2 px-3" />
+              </tr>
+            </thead>
+            <tbody>
+              {jobs.map(job => (
+                <tr key={job.id} className="border-b border-brand-grey-3 hover:bg-brand-grey-3/50">
+                  <td className="py-1.5 px-3 text-xs">{formatDate(job.finished_at ?? job.created_at)}</td>
+                  <td className="py-1.5 px-3 text-xs">{TRIGGER_LABELS[job.trigger] ?? job.trigger}</td>
+                  <td className="py-1.5 px-3 text-xs">
+                    <span
+                      className={cn('px-2 py-0.5 rounded-full text-xs font-medium', STATUS_STYLES[job.status])}
+                      title={job.error ?? undefined}
+                    >
+                      {job.status}
+                    </span>
+                  </td>
+                  <td className="py-1.5 px-3 text-right font-mono text-xs">{formatSize(job.file_size)}</td>
+                  <td className="py-1.5 px-3 text-right">
+                    {job.url && (
+                      <a
+                        href={job.url}
+                        className="inline-flex items-center gap-1.5 text-xs font-medium text-brand-black hover:underline"
+                      >
+                        <Download size={14} />
+                        PDF
+                      </a>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
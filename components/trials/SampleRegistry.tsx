@@ -0,0 +1,349 @@
+'use client'
+
+import { Fragment, useCallback, useEffect, useState } from 'react'
+import Papa from 'papaparse'
+import { ChevronDown, ChevronRight, Plus, ScanLine } from 'lucide-react'
+import Button from '@/components/ui/Button'
+import Modal from '@/components/ui/Modal'
+import { useUserRole } from '@/components/providers/UserRoleProvider'
+import { cn, formatDate } from '@/lib/utils'
+import {
+  SAMPLE_STATUSES, SAMPLE_STATUS_LABELS, sampleInputFromCsv,
+  type RegisteredSample, type SampleStatus,
+} from '@/lib/sample-registry'
+
+const STATUS_STYLES: Record<SampleStatus, string> = {
+  registered: 'bg-brand-grey-3 text-brand-grey-1',
+  collected: 'bg-blue-50 text-blue-700',
+  dispatched: 'bg-amber-50 text-amber-700',
+  received: 'bg-amber-50 text-amber-700',
+  analysed: 'bg-green-50 text-green-700',
+  archived: 'bg-brand-grey-3 text-brand-grey-1',
+  discarded: 'bg-red-50 text-red-600',
+}
+
+const inputClass = 'w-full px-3 py-2 rounded-lg border border-brand-grey-2 bg-brand-grey-3 text-sm text-brand-black focus:outline-none focus:border-brand-black/30'
+
+interface CustodyEvent {
+  status: SampleStatus
+  note: string | null
+  recorded_at: string
+}
+
+function depthLabel(s: RegisteredSample): string {
+  if (s.depthUpperCm == null && s.depthLowerCm == null) return '—'
+  return `${s.depthUpperCm ?? '?'}–${s.depthLowerCm ?? '?'} cm`
+}
+
+function CustodyHistory({ sampleId }: { sampleId: string }) {
+  const [events, setEvents] = useState<CustodyEvent[] | null>(null)
+  const [error, setError] = useState(false)
+
+  useEffect(() => {
+    fetch(`/api/samples/${sampleId}`)
+      .then(res => (res.ok ? res.json() : Promise.reject()))
+      .then(data => setEvents(data.events))
+      .catch(() => setError(true))
+  }, [sampleId])
+
+  if (error) return <p className="text-xs text-red-600">Failed to load custody history.</p>
+  if (!events) return <p className="text-xs text-brand-grey-1">Loading…</p>
+  return (
+    <ol className="space-y-1">
+      {events.map((e, i) => (
+        <li key={i} className="text-xs text-brand-grey-1">
+          <span className="text-brand-black font-medium">{SAMPLE_STATUS_LABELS[e.status] ?? e.status}</span>
+          {' — '}{formatDate(e.recorded_at)}
+          {e.note ? ` — ${e.note}` : ''}
+        </li>
+      ))}
+    </ol>
+  )
+}
+
+/**
+ * The trial's registered samples by barcode, with their chain of custody.
+ * Samples are registered from a CSV and moved along by scanning barcodes.
+ */
+export default function SampleRegistry({ trialId }: { trialId: string }) {
+  const [samples, setSamples] = useState<RegisteredSample[] | null>(null)
+  const [loadError, setLoadError] = useState(false)
+  const [expanded, setExpanded] = useState<string | null>(null)
+  const [statusFilter, setStatusFilter] = useState<SampleStatus | ''>('')
+  const [showRegister, setShowRegister] = useState(false)
+  const [showCustody, setShowCustody] = useState(false)
+  const [csvText, setCsvText] = useState('')
+  const [scanText, setScanText] = useState('')
+  const [custodyStatus, setCustodyStatus] = useState<SampleStatus>('dispatched')
+  const [custodyNote, setCustodyNote] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  const { canUpload } = useUserRole()
+
+  const load = useCallback(async () => {
+    setLoadError(false)
+    try {
+      const res = await fetch(`/api/samples?trialId=${encodeURIComponent(trialId)}`)
+      if (!res.ok) throw new Error()
+      setSamples(await res.json())
+    } catch {
+      setLoadError(true)
+    }
+  }, [trialId])
+
+  useEffect(() => { load() }, [load])
+
+  async function handleRegister(e: React.FormEvent) {
+    e.preventDefault()
+    setError(null)
+    const parsed = Papa.parse<Record<string, string>>(csvText.trim(), { header: true, skipEmptyLines: true })
+    const rows = parsed.data.map(sampleInputFromCsv).filter(r => r.barcode)
+    if (rows.length === 0) {
+      setError('No rows with a barcode column found.')
+      return
+    }
+
+    setSaving(true)
+    try {
+      const res = await fetch('/api/samples', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ trialId, samples: rows }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data.duplicates ? `${data.error}: ${data.duplicates.join(', ')}` : data.error)
+      }
+      setMessage(`Registered ${data.length} sample${data.length === 1 ? '' : 's'}.`)
+      setCsvText('')
+      setShowRegister(false)
+      await load()
+    } catch (err: any) {
+      setError(err.message || 'Failed to register samples.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  async function handleCustody(e: React.FormEvent) {
+    e.preventDefault()
+    setError(null)
+    const barcodes = scanText.split(/[\s,]+/).map(b => b.trim()).filter(Boolean)
+    if (barcodes.length === 0) return
+
+    setSaving(true)
+    try {
+      const res = await fetch('/api/samples/custody', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ barcodes, status: custodyStatus, note: custodyNote }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error)
+      const unknown: string[] = data.unknown || []
+      setMessage(
+        `${data.updated} sample${data.updated === 1 ? '' : 's'} marked ${SAMPLE_STATUS_LABELS[custodyStatus].toLowerCase()}` +
+        (unknown.length > 0 ? `. Not registered: ${unknown.join(', ')}` : '.')
+      )
+      setScanText('')
+      setCustodyNote('')
+      setShowCustody(false)
+      await load()
+    } catch (err: any) {
+      setError(err.message || 'Failed to record custody.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const shown = (samples || []).filter(s => !statusFilter || s.status === statusFilter)
+  const counts = SAMPLE_STATUSES.map(status => ({
+    status,
+    n: (samples || []).filter(s => s.status === status).length,
+  })).filter(c => c.n > 0)
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <p className="signpost-label">Sample Registry</p>
+        {canUpload && (
+          <div className="flex gap-2">
+            <Button size="sm" variant="secondary" onClick={() => { setError(null); setShowCustody(true) }}>
+              <ScanLine size={14} />
+              Scan Custody
+            </Button>
+            <Button size="sm" onClick={() => { setError(null); setShowRegister(true) }}>
+              <Plus size={14} />
+              Register Samples
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {message && (
+        <div className="mb-3 p-3 rounded-lg bg-green-50 border border-green-200 text-sm text-green-700">{message}</div>
+      )}
+      {error && !showRegister && !showCustody && (
+        <div className="mb-3 p-3 rounded-lg bg-red-50 border border-red-200 text-sm text-red-700">{error}</div>
+      )}
+
+      {loadError ? (
+        <p className="text-sm text-red-600 py-8 text-center">Failed to load samples. Please refresh the page.</p>
+      ) : !samples ? (
+        <p className="text-sm text-brand-grey-1 py-8 text-center">Loading samples…</p>
+      ) : samples.length === 0 ? (
+        <p className="text-sm text-brand-grey-1">
+          No samples registered. Lab results resolve against registered barcodes on import.
+        </p>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-center gap-1.5 mb-3 text-xs">
+            <button
+              type="button"
+              onClick={() => setStatusFilter('')}
+              className={cn('px-2 py-0.5 rounded-full font-medium', !statusFilter ? 'bg-brand-black text-white' : 'bg-brand-grey-3 text-brand-grey-1')}
+            >
+              All {samples.length}
+            </button>
+            {counts.map(c => (
+              <button
+                key={c.status}
+                type="button"
+                onClick={() => setStatusFilter(c.status)}
+                className={cn(
+                  'px-2 py-0.5 rounded-full font-medium',
+                  statusFilter === c.status ? 'bg-brand-black text-white' : STATUS_STYLES[c.status]
+                )}
+              >
+                {SAMPLE_STATUS_LABELS[c.status]} {c.n}
+              </button>
+            ))}
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-brand-grey-2">
+                  <th className="table-header text-left py-3 px-3">Barcode</th>
+                  <th className="table-header text-left py-3 px-3">Sample</th>
+                  <th className="table-header text-left py-3 px-3">Plot</th>
+                  <th className="table-header text-left py-3 px-3">Trt</th>
+                  <th className="table-header text-left py-3 px-3">Rep</th>
+                  <th className="table-header text-left py-3 px-3">Depth</th>
+                  <th className="table-header text-left py-3 px-3">Collected</th>
+                  <th className="table-header text-left py-3 px-3">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {shown.map((s, i) => (
+                  <Fragment key={s.id}>
+                    <tr
+                      onClick={() => setExpanded(expanded === s.id ? null : s.id)}
+                      className={cn('cursor-pointer', i % 2 === 1 && 'bg-brand-grey-3')}
+                    >
+                      <td className="py-2.5 px-3 font-mono font-medium">
+                        <span className="inline-flex items-center gap-1">
+                          {expanded === s.id ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+                          {s.barcode}
+                        </span>
+                      </td>
+                      <td className="py-2.5 px-3">{s.sampleNo || '—'}</td>
+                      <td className="py-2.5 px-3">{s.plot || '—'}</td>
+                      <td className="py-2.5 px-3 font-mono">{s.trtNumber ?? '—'}</td>
+                      <td className="py-2.5 px-3 font-mono">{s.rep ?? '—'}</td>
+                      <td className="py-2.5 px-3">{depthLabel(s)}</td>
+                      <td className="py-2.5 px-3">{s.collectedOn ? formatDate(s.collectedOn) : '—'}</td>
+                      <td className="py-2.5 px-3">
+                        <span className={cn('px-2 py-0.5 rounded-full text-xs font-medium', STATUS_STYLES[s.status])}>
+                          {SAMPLE_STATUS_LABELS[s.status]}
+                        </span>
+                      </td>
+                    </tr>
+                    {expanded === s.id && (
+                      <tr>
+                        <td colSpan={8} className="px-9 pb-3">
+                          <CustodyHistory sampleId={s.id} />
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+
+      <Modal open={showRegister} onClose={() => setShowRegister(false)} title="Register Samples">
+        <form onSubmit={handleRegister} className="space-y-3">
+          <div>
+            <label className="signpost-label block mb-1">Samples (CSV)</label>
+            <textarea
+              value={csvText}
+              onChange={(e) => setCsvText(e.target.value)}
+              required
+              rows={8}
+              className={cn(inputClass, 'font-mono text-xs resize-none')}
+              placeholder={'Barcode,Sample No,Plot,Trt,Rep,Depth,Date,Latitude,Longitude\nST00123,1,101,1,1,0-10,05/03/2025,-35.12,147.36'}
+            />
+            <p className="text-xs text-brand-grey-1 mt-1">
+              Barcode is required. Depth is a range in cm; dates are day first.
+            </p>
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div className="flex justify-end gap-2 pt-2">
+            <Button variant="secondary" type="button" onClick={() => setShowRegister(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving}>{saving ? 'Registering…' : 'Register'}</Button>
+          </div>
+        </form>
+      </Modal>
+
+      <Modal open={showCustody} onClose={() => setShowCustody(false)} title="Record Custody">
+        <form onSubmit={handleCustody} className="space-y-3">
+          <div>
+            <label className="signpost-label block mb-1">Barcodes</label>
+            <textarea
+              value={scanText}
+              onChange={(e) => setScanText(e.target.value)}
+              required
+              rows={6}
+              className={cn(inputClass, 'font-mono text-xs resize-none')}
+              placeholder="Scan or paste barcodes, one per line"
+            />
+          </div>
+          <div>
+            <label className="signpost-label block mb-1">New status</label>
+            <select
+              value={custodyStatus}
+              onChange={(e) => setCustodyStatus(e.target.value as SampleStatus)}
+              className={inputClass}
+            >
+              {SAMPLE_STATUSES.filter(s => s !== 'registered').map(s => (
+                <option key={s} value={s}>{SAMPLE_STATUS_LABELS[s]}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="signpost-label block mb-1">Note</label>
+            <input
+              value={custodyNote}
+              onChange={(e) => setCustodyNote(e.target.value)}
+              className={inputClass}
+              placeholder="e.g. Courier consignment number"
+            />
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div className="flex justify-end gap-2 pt-2">
+            <Button variant="secondary" type="button" onClick={() => setShowCustody(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving}>{saving ? 'Saving…' : 'Record'}</Button>
+          </div>
+        </form>
+      </Modal>
+    </div>
+  )
+}
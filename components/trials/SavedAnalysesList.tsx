@@ -0,0 +1,89 @@
+'use client'
+
+import Link from 'next/link'
+import { Plus } from 'lucide-react'
+import { formatDate } from '@/lib/utils'
+import { sanitiseConfig } from '@/lib/analysis-config'
+
+interface SavedAnalysis {
+  id: string
+  name: string
+  description: string | null
+  config: unknown
+  trial_ids: string[]
+  updated_at: string
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+  sampleMetadata: 'Assay Results',
+  soilChemistry: 'Soil Chemistry',
+  tissueChemistry: 'Tissue Chemistry',
+  plotData: 'Plot Data',
+}
+
+function describe(raw: unknown): string {
+  const config = sanitiseConfig(raw)
+  if (config.mode === 'correlation') {
+    return `Correlations (${config.correlationMethod}) · ${config.correlationSources.map(s => SOURCE_LABELS[s] ?? s).join(', ')}`
+  }
+  return [
+    SOURCE_LABELS[config.source] ?? config.source,
+    config.assayType,
+    `by ${config.groupBy}`,
+    config.control && `control: ${config.control}`,
+  ].filter(Boolean).join(' · ')
+}
+
+export default function SavedAnalysesList({ analyses, trialId }: { analyses: SavedAnalysis[]; trialId: string }) {
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <p className="text-xs text-brand-grey-1">
+          Saved analyses that include this trial. Opening one re-runs it with the stored settings.
+        </p>
+        <Link
+          href={`/analysis?trialIds=${encodeURIComponent(trialId)}`}
+          className="flex items-center gap-1.5 text-xs font-medium text-brand-black hover:underline"
+        >
+          <Plus size={14} />
+          New analysis
+        </Link>
+      </div>
+
+      {analyses.length === 0 ? (
+        <div className="text-center py-8 text-brand-grey-1">
+          <p className="text-sm">No saved analyses for this trial yet.</p>
+          <p className="text-xs mt-1">Run an analysis with this trial selected and use &ldquo;Save as…&rdquo;.</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-brand-grey-2">
+                <th className="text-left py-2 px-3 text-brand-grey-1 font-medium text-xs">Name</th>
+                <th className="text-left py-2 px-3 text-brand-grey-1 font-medium text-xs">Settings</th>
+                <th className="text-left py-2 px-3 text-brand-grey-1 font-medium text-xs">Trials</th>
+                <th className="text-left py-2 px-3 text-brand-grey-1 font-medium text-xs">Updated</th>
+              </tr>
+            </thead>
+            <tbody>
+              {analyses.map(a => (
+                <tr key={a.id} className="border-b border-brand-grey-3 hover:bg-brand-grey-3/50">
+                  <td className="py-1.5 px-3 text-xs">
+                    <Link href={`/analysis?saved=${a.id}`} className="font-medium text-brand-black hover:underline">
+                      {a.name}
+                    </Link>
+                    {a.description && <p className="text-brand-grey-1">{a.description}</p>}
+                  </td>
+                  <td className="py-1.5 px-3 text-xs">{describe(a.config)}</td>
+                  <td className="py-1.5 px-3 font-mono text-xs">{a.trial_ids.join(', ')}</td>
+                  <td className="py-1.5 px-3 text-xs text-brand-grey-1">{formatDate(a.updated_at)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
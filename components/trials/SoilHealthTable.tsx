@@ -6,16 +6,24 @@ interface SoilHealthSample {
   date: string | null
   property: string | null
   block: string | null
+  depth_upper_cm?: number | null
+  depth_lower_cm?: number | null
 }
 
 interface SoilHealthTableProps {
   samples: SoilHealthSample[]
 }
 
+function depthLabel(s: SoilHealthSample): string {
+  if (s.depth_upper_cm == null) return '—'
+  return s.depth_lower_cm == null ? `${s.depth_upper_cm}+ cm` : `${s.depth_upper_cm}–${s.depth_lower_cm} cm`
+}
+
 export default function SoilHealthTable({ samples }: SoilHealthTableProps) {
   if (samples.length === 0) {
     return <p className="text-sm text-brand-grey-1">No soil health samples recorded.</p>
   }
+  const hasDepth = samples.some(s => s.depth_upper_cm != null)
 
   return (
     <div className="overflow-x-auto">
@@ -24,6 +32,7 @@ export default function SoilHealthTable({ samples }: SoilHealthTableProps) {
           <tr className="border-b border-brand-grey-2">
             <th className="table-header text-left py-3 px-3">Sample No</th>
             <th className="table-header text-left py-3 px-3">Date</th>
+            {hasDepth && <th className="table-header text-left py-3 px-3">Depth</th>}
             <th className="table-header text-left py-3 px-3">Property</th>
             <th className="table-header text-left py-3 px-3">Block / Treatment</th>
           </tr>
@@ -36,6 +45,7 @@ export default function SoilHealthTable({ samples }: SoilHealthTableProps) {
             >
               <td className="py-2.5 px-3 font-mono font-medium">{s.sample_no || '—'}</td>
               <td className="py-2.5 px-3">{formatDate(s.date)}</td>
+              {hasDepth && <td className="py-2.5 px-3">{depthLabel(s)}</td>}
               <td className="py-2.5 px-3">{s.property || '—'}</td>
               <td className="py-2.5 px-3">{s.block || '—'}</td>
             </tr>
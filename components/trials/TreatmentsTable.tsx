@@ -1,4 +1,9 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
 import ProductTag from '@/components/ui/ProductTag'
+import { cn } from '@/lib/utils'
 
 interface Treatment {
   id: string
@@ -8,19 +13,58 @@ interface Treatment {
   product: string | null
   rate: string | null
   timing: string | null
+  is_control?: boolean
 }
 
 interface TreatmentsTableProps {
   treatments: Treatment[]
+  /** When set, the Control column becomes editable for this trial */
+  trialId?: string
 }
 
-export default function TreatmentsTable({ treatments }: TreatmentsTableProps) {
+export default function TreatmentsTable({ treatments, trialId }: TreatmentsTableProps) {
+  const [controlTrt, setControlTrt] = useState<number | null>(
+    treatments.find(t => t.is_control)?.trt_number ?? null
+  )
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const router = useRouter()
+
+  async function handleSetControl(trtNumber: number) {
+    if (!trialId) return
+    const next = controlTrt === trtNumber ? null : trtNumber
+    setSaving(true)
+    setError(null)
+    try {
+      const res = await fetch(`/api/trials/${encodeURIComponent(trialId)}/treatments/control`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ trt_number: next }),
+      })
+      if (!res.ok) {
+        const data = await res.json().catch(() => null)
+        throw new Error(data?.error || `Failed to set control (HTTP ${res.status}).`)
+      }
+      setControlTrt(next)
+      router.refresh()
+    } catch (err: any) {
+      setError(err.message || 'Failed to set control.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
   if (treatments.length === 0) {
     return <p className="text-sm text-brand-grey-1">No treatments recorded.</p>
   }
 
   return (
     <div className="overflow-x-auto">
+      {error && (
+        <div className="mb-3 p-3 rounded-lg bg-red-50 border border-red-200 text-sm text-red-700">
+          {error}
+        </div>
+      )}
       <table className="w-full text-sm">
         <thead>
           <tr className="border-b border-brand-grey-2">
@@ -30,6 +74,7 @@ export default function TreatmentsTable({ treatments }: TreatmentsTableProps) {
             <th className="table-header text-left py-3 px-3">Product</th>
             <th className="table-header text-left py-3 px-3">Rate</th>
             <th className="table-header text-left py-3 px-3">Timing</th>
+            <th className="table-header text-center py-3 px-3">Control</th>
           </tr>
         </thead>
         <tbody>
@@ -46,6 +91,22 @@ export default function TreatmentsTable({ treatments }: TreatmentsTableProps) {
               </td>
               <td className="py-2.5 px-3 font-mono">{t.rate || '—'}</td>
               <td className="py-2.5 px-3">{t.timing || '—'}</td>
+              <td className="py-2.5 px-3 text-center">
+                {trialId ? (
+                  <input
+                    type="radio"
+                    name="control-treatment"
+                    checked={controlTrt === t.trt_number}
+                    onChange={() => {}}
+                    onClick={() => handleSetControl(t.trt_number)}
+                    disabled={saving}
+                    title={controlTrt === t.trt_number ? 'Click to clear control' : 'Set as control'}
+                    className={cn('accent-brand-black cursor-pointer', saving && 'cursor-wait')}
+                  />
+                ) : (
+                  controlTrt === t.trt_number ? <span className="text-xs font-medium">Control</span> : ''
+                )}
+              </td>
             </tr>
           ))}
         </tbody>
@@ -0,0 +1,311 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Download, Shuffle, Trash2 } from 'lucide-react'
+import Button from '@/components/ui/Button'
+import { useUserRole } from '@/components/providers/UserRoleProvider'
+import { formatDate } from '@/lib/utils'
+import {
+  DEFAULT_GEOMETRY, DESIGN_TYPES, DESIGN_TYPE_LABELS, randomSeed,
+  type DesignPlot, type DesignType, type PlotGeometry,
+} from '@/lib/trial-design'
+
+const TREATMENT_COLORS = [
+  '#008BCE', '#00BB7E', '#006AC6', '#009775', '#004C97',
+  '#e67e22', '#99F0FA', '#B9EFA3', '#161F28', '#B9BCBF',
+]
+
+const inputClass = 'w-full px-3 py-2 rounded-lg border border-brand-grey-2 bg-brand-grey-3 text-sm text-brand-black focus:outline-none focus:border-brand-black/30'
+
+const GEOMETRY_FIELDS: { key: keyof PlotGeometry; label: string }[] = [
+  { key: 'plotWidthM', label: 'Plot width (m)' },
+  { key: 'plotLengthM', label: 'Plot length (m)' },
+  { key: 'gapM', label: 'Gap (m)' },
+  { key: 'alleyM', label: 'Alley (m)' },
+  { key: 'rotationDeg', label: 'Rotation (°)' },
+]
+
+interface Layout {
+  rows: number
+  cols: number
+  plots: DesignPlot[]
+}
+
+interface SavedDesign {
+  design_type: DesignType
+  seed: number
+  reps: number
+  main_plot_levels: number | null
+  num_rows: number
+  num_cols: number
+  plots: DesignPlot[]
+  geojson: unknown | null
+  created_at: string
+}
+
+/** The layout as it sits in the field, row 1 at the top, coloured by treatment */
+function FieldMapGrid({ layout, treatments }: { layout: Layout; treatments: number[] }) {
+  const color = (trt: number) => TREATMENT_COLORS[Math.max(0, treatments.indexOf(trt)) % TREATMENT_COLORS.length]
+  return (
+    <div className="overflow-x-auto">
+      <div
+        className="grid gap-1"
+        style={{ gridTemplateColumns: `repeat(${layout.cols}, minmax(44px, 1fr))`, width: 'max-content', minWidth: '100%' }}
+      >
+        {layout.plots.map(p => (
+          <div
+            key={p.plot}
+            className="rounded px-1 py-1.5 text-center text-white"
+            style={{ gridRow: p.row, gridColumn: p.col, backgroundColor: color(p.trt_number) }}
+            title={`Plot ${p.plot} — Trt ${p.trt_number}, Rep ${p.rep}`}
+          >
+            <p className="text-[10px] opacity-80">{p.plot}</p>
+            <p className="text-xs font-semibold">T{p.trt_number}</p>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+/**
+ * The trial's randomised plot layout. Upload+ users generate one from the
+ * design type, reps and a seed, preview it, and apply it to create the
+ * plot data skeleton (and the plot grid in a linked field); the layout
+ * exports as a field map workbook with plot labels, or GeoJSON.
+ */
+export default function TrialDesignPanel({
+  trialId,
+  treatments,
+  numTreatments,
+  defaultReps,
+  linkedFields,
+}: {
+  trialId: string
+  treatments: { trt_number: number }[]
+  numTreatments: number | null
+  defaultReps: number | null
+  linkedFields: any[]
+}) {
+  const router = useRouter()
+  const { canUpload, canModify } = useUserRole()
+  const [design, setDesign] = useState<SavedDesign | null | undefined>(undefined)
+  const [loadError, setLoadError] = useState(false)
+  const [type, setType] = useState<DesignType>('rcbd')
+  const [reps, setReps] = useState(String(defaultReps || 4))
+  const [mainPlotLevels, setMainPlotLevels] = useState('2')
+  const [seed, setSeed] = useState(() => String(randomSeed()))
+  const [fieldId, setFieldId] = useState('')
+  const [geometry, setGeometry] = useState<Record<keyof PlotGeometry, string>>(() => ({
+    plotWidthM: String(DEFAULT_GEOMETRY.plotWidthM),
+    plotLengthM: String(DEFAULT_GEOMETRY.plotLengthM),
+    gapM: String(DEFAULT_GEOMETRY.gapM),
+    alleyM: String(DEFAULT_GEOMETRY.alleyM),
+    rotationDeg: String(DEFAULT_GEOMETRY.rotationDeg),
+  }))
+  const [preview, setPreview] = useState<Layout | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const trtNumbers = treatments.length > 0
+    ? treatments.map(t => t.trt_number)
+    : Array.from({ length: numTreatments || 0 }, (_, i) => i + 1)
+  const fieldsWithBoundary = linkedFields.filter(lf => lf.fields?.boundary)
+
+  const load = useCallback(async () => {
+    setLoadError(false)
+    try {
+      const res = await fetch(`/api/trials/${encodeURIComponent(trialId)}/design`)
+      if (!res.ok) throw new Error()
+      setDesign(await res.json())
+    } catch {
+      setLoadError(true)
+    }
+  }, [trialId])
+
+  useEffect(() => { load() }, [load])
+
+  async function submit(previewOnly: boolean) {
+    setError(null)
+    setSaving(true)
+    try {
+      const res = await fetch(`/api/trials/${encodeURIComponent(trialId)}/design`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          type,
+          reps: type === 'latin_square' ? trtNumbers.length : Number(reps),
+          seed: Number(seed),
+          mainPlotLevels: type === 'split_plot' ? Number(mainPlotLevels) : null,
+          fieldId: fieldId || null,
+          geometry,
+          preview: previewOnly,
+        }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Failed to generate design')
+      if (previewOnly) {
+        setPreview(data.design)
+      } else {
+        setDesign(data)
+        setPreview(null)
+        router.refresh()
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to generate design')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  async function handleDelete() {
+    if (!confirm('Remove the design? Plots without results are removed with it.')) return
+    setError(null)
+    const res = await fetch(`/api/trials/${encodeURIComponent(trialId)}/design`, { method: 'DELETE' })
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}))
+      setError(data.error || 'Failed to remove design')
+      return
+    }
+    setDesign(null)
+    router.refresh()
+  }
+
+  if (loadError) return <p className="text-sm text-red-600 py-8 text-center">Failed to load the design. Please refresh the page.</p>
+  if (design === undefined) return <p className="text-sm text-brand-grey-1 py-8 text-center">Loading design…</p>
+
+  if (design) {
+    const exportUrl = `/api/trials/${encodeURIComponent(trialId)}/design/export`
+    return (
+      <div>
+        <div className="flex items-start justify-between mb-4">
+          <div>
+            <p className="signpost-label mb-1">PLOT LAYOUT</p>
+            <p className="text-sm text-brand-black">
+              {DESIGN_TYPE_LABELS[design.design_type]} — {design.reps} reps, {design.plots.length} plots
+              {design.main_plot_levels ? `, ${design.main_plot_levels} main plots` : ''}
+            </p>
+            <p className="text-xs text-brand-grey-1">Seed {design.seed} · created {formatDate(design.created_at)}</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <a href={exportUrl}>
+              <Button size="sm" variant="secondary">
+                <Download size={14} />
+                Field map &amp; labels
+              </Button>
+            </a>
+            {design.geojson != null && (
+              <a href={`${exportUrl}?format=geojson`}>
+                <Button size="sm" variant="secondary">
+                  <Download size={14} />
+                  GeoJSON
+                </Button>
+              </a>
+            )}
+            {canModify && (
+              <Button size="sm" variant="ghost" onClick={handleDelete}>
+                <Trash2 size={14} />
+              </Button>
+            )}
+          </div>
+        </div>
+        {error && <p className="text-sm text-red-600 mb-3">{error}</p>}
+        <FieldMapGrid
+          layout={{ rows: design.num_rows, cols: design.num_cols, plots: design.plots }}
+          treatments={trtNumbers}
+        />
+      </div>
+    )
+  }
+
+  if (!canUpload) {
+    return <p className="text-sm text-brand-grey-1 py-8 text-center">No plot layout has been generated for this trial.</p>
+  }
+
+  return (
+    <div>
+      <p className="signpost-label mb-1">GENERATE PLOT LAYOUT</p>
+      <p className="text-xs text-brand-grey-1 mb-4">
+        {trtNumbers.length} treatments. The same seed always gives the same layout; applying it creates the plot data rows.
+      </p>
+
+      <div className="grid grid-cols-4 gap-3 mb-3">
+        <label className="text-xs text-brand-grey-1">
+          Design
+          <select value={type} onChange={e => { setType(e.target.value as DesignType); setPreview(null) }} className={inputClass}>
+            {DESIGN_TYPES.map(t => <option key={t} value={t}>{DESIGN_TYPE_LABELS[t]}</option>)}
+          </select>
+        </label>
+        <label className="text-xs text-brand-grey-1">
+          Reps
+          <input
+            type="number"
+            min={1}
+            value={type === 'latin_square' ? trtNumbers.length : reps}
+            disabled={type === 'latin_square'}
+            onChange={e => { setReps(e.target.value); setPreview(null) }}
+            className={inputClass}
+          />
+        </label>
+        {type === 'split_plot' && (
+          <label className="text-xs text-brand-grey-1">
+            Main plots
+            <input
+              type="number"
+              min={2}
+              value={mainPlotLevels}
+              onChange={e => { setMainPlotLevels(e.target.value); setPreview(null) }}
+              className={inputClass}
+            />
+          </label>
+        )}
+        <label className="text-xs text-brand-grey-1">
+          Seed
+          <div className="flex gap-1">
+            <input value={seed} onChange={e => { setSeed(e.target.value); setPreview(null) }} className={inputClass} />
+            <Button type="button" size="sm" variant="ghost" onClick={() => { setSeed(String(randomSeed())); setPreview(null) }} title="New seed">
+              <Shuffle size={14} />
+            </Button>
+          </div>
+        </label>
+      </div>
+
+      <div className="grid grid-cols-6 gap-3 mb-4">
+        <label className="text-xs text-brand-grey-1 col-span-1">
+          Field
+          <select value={fieldId} onChange={e => { setFieldId(e.target.value); setPreview(null) }} className={inputClass}>
+            <option value="">None</option>
+            {fieldsWithBoundary.map(lf => <option key={lf.field_id} value={lf.field_id}>{lf.fields.name}</option>)}
+          </select>
+        </label>
+        {GEOMETRY_FIELDS.map(({ key, label }) => (
+          <label key={key} className="text-xs text-brand-grey-1">
+            {label}
+            <input
+              type="number"
+              step="any"
+              value={geometry[key]}
+              disabled={!fieldId}
+              onChange={e => { setGeometry(g => ({ ...g, [key]: e.target.value })); setPreview(null) }}
+              className={inputClass}
+            />
+          </label>
+        ))}
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-3">{error}</p>}
+
+      <div className="flex gap-2 mb-4">
+        <Button size="sm" variant="secondary" onClick={() => submit(true)} disabled={saving || trtNumbers.length === 0}>
+          Preview
+        </Button>
+        <Button size="sm" onClick={() => submit(false)} disabled={saving || !preview}>
+          {saving ? 'Saving…' : 'Apply layout'}
+        </Button>
+      </div>
+
+      {preview && <FieldMapGrid layout={preview} treatments={trtNumbers} />}
+    </div>
+  )
+}
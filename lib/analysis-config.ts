@@ -0,0 +1,120 @@
+/**
+ * Analysis page configuration.
+ *
+ * The same shape is kept in the /analysis URL (so any view can be shared
+ * by copying the address) and stored in saved_analyses.config (so a saved
+ * analysis regenerates with identical settings).
+ */
+
+export interface AnalysisConfig {
+  mode: 'groups' | 'correlation'
+  source: string
+  trialIds: string[]
+  groupBy: string
+  assayType: string
+  chartType: 'bar' | 'box'
+  control: string
+  outliers: string
+  includeExcluded: boolean
+  responseMeasure: 'percentResponse' | 'difference' | 'responseRatio'
+  trendMode: 'mean' | 'delta'
+  correlationMethod: 'pearson' | 'spearman'
+  correlationSources: string[]
+  /** "metric:unit" target units, e.g. "Calcium:mg/kg" */
+  units: string[]
+}
+
+export const DEFAULT_ANALYSIS_CONFIG: AnalysisConfig = {
+  mode: 'groups',
+  source: 'sampleMetadata',
+  trialIds: [],
+  groupBy: 'treatment',
+  assayType: '',
+  chartType: 'bar',
+  control: '',
+  outliers: 'iqr',
+  includeExcluded: false,
+  responseMeasure: 'percentResponse',
+  trendMode: 'mean',
+  correlationMethod: 'pearson',
+  correlationSources: ['soilChemistry', 'tissueChemistry', 'sampleMetadata', 'plotData'],
+  units: [],
+}
+
+const ALLOWED: Partial<Record<keyof AnalysisConfig, readonly string[]>> = {
+  mode: ['groups', 'correlation'],
+  source: ['sampleMetadata', 'soilChemistry', 'tissueChemistry', 'plotData'],
+  groupBy: ['treatment', 'trial', 'block', 'date'],
+  chartType: ['bar', 'box'],
+  outliers: ['iqr', 'grubbs', 'residual', 'none'],
+  responseMeasure: ['percentResponse', 'difference', 'responseRatio'],
+  trendMode: ['mean', 'delta'],
+  correlationMethod: ['pearson', 'spearman'],
+}
+
+/**
+ * Coerce untrusted input (JSON body, stored config) into a valid config,
+ * falling back to defaults for anything missing or out of range.
+ */
+export function sanitiseConfig(raw: unknown): AnalysisConfig {
+  const input = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>
+  const config: AnalysisConfig = { ...DEFAULT_ANALYSIS_CONFIG }
+
+  for (const [key, allowed] of Object.entries(ALLOWED) as [keyof AnalysisConfig, readonly string[]][]) {
+    const value = input[key]
+    if (typeof value === 'string' && allowed.includes(value)) {
+      (config as any)[key] = value
+    }
+  }
+
+  const strings = (v: unknown) => Array.isArray(v) ? v.filter((s): s is string => typeof s === 'string' && s.length > 0) : null
+  config.trialIds = strings(input.trialIds) ?? []
+  const corrSources = strings(input.correlationSources)?.filter(s => ALLOWED.source!.includes(s))
+  if (corrSources && corrSources.length > 0) config.correlationSources = corrSources
+  config.units = strings(input.units)?.filter(s => s.lastIndexOf(':') > 0) ?? []
+  if (typeof input.assayType === 'string') config.assayType = input.assayType
+  if (typeof input.control === 'string') config.control = input.control
+  if (typeof input.includeExcluded === 'boolean') config.includeExcluded = input.includeExcluded
+
+  return config
+}
+
+/** Encode only the non-default settings so shared URLs stay short. */
+export function configToSearchParams(config: AnalysisConfig): URLSearchParams {
+  const params = new URLSearchParams()
+  for (const key of Object.keys(DEFAULT_ANALYSIS_CONFIG) as (keyof AnalysisConfig)[]) {
+    const value = config[key]
+    const fallback = DEFAULT_ANALYSIS_CONFIG[key]
+    if (Array.isArray(value)) {
+      if (value.join(',') !== (fallback as string[]).join(',')) params.set(key, value.join(','))
+    } else if (value !== fallback) {
+      params.set(key, String(value))
+    }
+  }
+  return params
+}
+
+export function configFromSearchParams(params: Record<string, string | string[] | undefined>): AnalysisConfig {
+  const get = (key: string) => {
+    const v = params[key]
+    return Array.isArray(v) ? v[0] : v
+  }
+  const list = (key: string) => get(key)?.split(',').map(s => s.trim()).filter(Boolean)
+
+  return sanitiseConfig({
+    mode: get('mode'),
+    source: get('source'),
+    trialIds: list('trialIds'),
+    groupBy: get('groupBy'),
+    assayType: get('assayType'),
+    chartType: get('chartType'),
+    control: get('control'),
+    outliers: get('outliers'),
+    includeExcluded: get('includeExcluded') === 'true',
+    responseMeasure: get('responseMeasure'),
+    trendMode: get('trendMode'),
+    correlationMethod: get('correlationMethod'),
+    correlationSources: list('correlationSources'),
+    units: list('units'),
+  })
+}
@@ -0,0 +1,169 @@
+/**
+ * XLSX workbook for an analysis run: one summary sheet per metric (group
+ * stats, ANOVA, response vs control, cross-trial effects), a long-format
+ * "Raw Data" sheet with trial/plot/rep provenance, and a "Parameters"
+ * sheet recording the query so the numbers can be regenerated.
+ */
+
+import * as XLSX from 'xlsx'
+import type { AnalysisQuery, MetricStats, RawValue } from '@/lib/analysis'
+
+const SOURCE_LABELS: Record<string, string> = {
+  sampleMetadata: 'Assay Results',
+  soilChemistry: 'Soil Chemistry',
+  tissueChemistry: 'Tissue Chemistry',
+  plotData: 'Plot Data',
+}
+
+const OUTLIER_LABELS: Record<string, string> = {
+  none: 'None',
+  iqr: 'IQR fences (1.5 × IQR)',
+  grubbs: 'Grubbs test (5%)',
+  residual: 'Studentised residual (|t| > 3)',
+}
+
+type Cell = string | number | null
+
+function round(v: number | null | undefined, dp = 4): number | null {
+  if (v == null || !isFinite(v)) return null
+  const f = 10 ** dp
+  return Math.round(v * f) / f
+}
+
+/** Excel sheet names: max 31 chars, no []:*?/\, unique within the workbook */
+function sheetName(name: string, used: Set<string>): string {
+  const base = name.replace(/[[\]:*?/\\]/g, '-').slice(0, 31) || 'Sheet'
+  let candidate = base
+  for (let i = 2; used.has(candidate.toLowerCase()); i++) {
+    const suffix = ` (${i})`
+    candidate = base.slice(0, 31 - suffix.length) + suffix
+  }
+  used.add(candidate.toLowerCase())
+  return candidate
+}
+
+function summaryRows(m: MetricStats): Cell[][] {
+  const rows: Cell[][] = [
+    [m.metric + (m.unit ? ` (${m.unit})` : '')],
+    [],
+    ['Group', 'n', 'Mean', 'SD', 'SE', 'Min', 'Q1', 'Median', 'Q3', 'Max', 'Tukey group'],
+    ...m.groups.map(g => [
+      g.label, g.n, round(g.mean), round(g.stdDev), round(g.stdError),
+      round(g.min), round(g.q1), round(g.median), round(g.q3), round(g.max), g.letter ?? null,
+    ]),
+  ]
+  if (m.censored > 0) {
+    rows.push([`${m.censored} value(s) at a detection limit left out of the statistics`])
+  }
+
+  const sig = m.significance
+  if (sig) {
+    rows.push(
+      [],
+      [`Analysis of variance (${sig.design === 'rcbd' ? 'randomised complete block' : 'one-way'})`],
+      ['Source', 'df', 'SS', 'MS', 'F', 'p'],
+      ...sig.anova.map(r => [r.source, r.df, round(r.ss), round(r.ms), round(r.f), round(r.p)]),
+      [],
+      ['LSD (5%)', round(sig.lsd05)],
+      ['Tukey HSD (5%)', round(sig.hsd05)],
+      ['CV %', round(sig.cv, 2)],
+      ['Groups sharing a Tukey letter do not differ at p < 0.05'],
+    )
+  }
+
+  if (m.response && m.response.groups.length > 0) {
+    rows.push(
+      [],
+      [`Response vs control (${m.response.controls.join(', ')})`],
+      ['Treatment', 'n', 'Paired by rep %', 'Difference', 'Difference SE', '% Response', '% Response SE', 'Ratio', 'Ratio SE'],
+      ...m.response.groups.map(r => [
+        r.label, r.n, round(r.pairedFraction * 100, 1), round(r.difference), round(r.differenceSe),
+        round(r.percentResponse, 2), round(r.percentResponseSe, 2), round(r.responseRatio), round(r.responseRatioSe),
+      ]),
+    )
+  }
+
+  if (m.crossSite && m.crossSite.effects.length > 0) {
+    rows.push(
+      [],
+      [`Cross-trial effect vs ${m.crossSite.control} (${m.crossSite.siteCount} trials, random site effect)`],
+      ['Treatment', 'Trials', 'Effect', 'SE', '95% CI low', '95% CI high', 'p', 'tau²', 'I² %'],
+      ...m.crossSite.effects.map(e => [
+        e.label, e.sites.length, round(e.estimate), round(e.se), round(e.ciLow), round(e.ciHigh),
+        round(e.pValue), round(e.tau2), round(e.i2, 1),
+      ]),
+    )
+  }
+
+  if (m.timeSeries && m.timeSeries.length > 0) {
+    rows.push(
+      [],
+      ['Change over time'],
+      ['Treatment', 'Date', 'n', 'Mean', 'SE', 'Δ previous', 'Δ baseline', 'Δ baseline SE'],
+      ...m.timeSeries.flatMap(ts => ts.points.map(p => [
+        ts.label, p.date, p.n, round(p.mean), round(p.stdError),
+        round(p.deltaFromPrevious), round(p.deltaFromBaseline), round(p.deltaFromBaselineSe),
+      ])),
+    )
+  }
+
+  return rows
+}
+
+export function buildAnalysisWorkbook(
+  query: AnalysisQuery,
+  metrics: MetricStats[],
+  rawValues: RawValue[],
+  queryString: string
+): Buffer {
+  const wb = XLSX.utils.book_new()
+  const used = new Set<string>()
+
+  for (const m of metrics) {
+    const ws = XLSX.utils.aoa_to_sheet(summaryRows(m))
+    ws['!cols'] = [{ wch: 28 }, ...Array(10).fill({ wch: 12 })]
+    XLSX.utils.book_append_sheet(wb, ws, sheetName(m.metric, used))
+  }
+
+  const raw = XLSX.utils.json_to_sheet(rawValues.map(v => ({
+    'Trial': v.trialId,
+    'Plot': v.plot,
+    'Rep': v.rep,
+    'Sample No': v.sampleNo,
+    'Date': v.date,
+    'Trt': v.treatment,
+    'Group': v.group,
+    'Metric': v.metric,
+    'Value': v.value,
+    'Censored': v.censored,
+    'Unit': v.unit,
+    'Outlier': v.outlier ? 'Yes' : '',
+    'Excluded': v.excluded ? 'Yes' : '',
+    'Exclusion Reason': v.exclusionReason,
+  })))
+  raw['!cols'] = [12, 8, 8, 12, 12, 6, 24, 24, 12, 9, 10, 8, 9, 30].map(wch => ({ wch }))
+  XLSX.utils.book_append_sheet(wb, raw, sheetName('Raw Data', used))
+
+  const params: Cell[][] = [
+    ['Parameter', 'Value'],
+    ['Generated', new Date().toISOString()],
+    ['Data source', SOURCE_LABELS[query.source] ?? query.source],
+    ['Trials', query.trialIds.length > 0 ? query.trialIds.join(', ') : 'All trials'],
+    ['Group by', query.groupBy],
+    ['Assay type', query.assayType || 'All'],
+    ['Metrics', query.metrics ? query.metrics.join(', ') : 'All'],
+    ['Design', query.design],
+    ['Control', query.control || "Trial's flagged control (else Control / Untreated / Nil)"],
+    ['Outlier flagging', OUTLIER_LABELS[query.outliers] ?? query.outliers],
+    ['Excluded records', query.includeExcluded ? 'Included' : 'Left out'],
+    ['Units', Object.keys(query.units).length > 0
+      ? Object.entries(query.units).map(([metric, unit]) => `${metric}: ${unit}`).join(', ')
+      : 'Catalogue defaults'],
+    ['Query', queryString],
+  ]
+  const ws = XLSX.utils.aoa_to_sheet(params)
+  ws['!cols'] = [{ wch: 20 }, { wch: 60 }]
+  XLSX.utils.book_append_sheet(wb, ws, sheetName('Parameters', used))
+
+  return XLSX.write(wb, { type: 'buffer', bookType: 'xlsx' }) as Buffer
+}
@@ -0,0 +1,493 @@
+/**
+ * Grouped metric analysis shared by /api/analysis (JSON for the charts) and
+ * /api/analysis/export (XLSX workbook). Query parsing and computation live
+ * here so both return identical numbers for identical parameters.
+ */
+
+import {
+  analyseSignificance,
+  controlResponse,
+  crossSiteEffects,
+  buildTimeSeries,
+  detectOutliers,
+  type ControlResponseResult,
+  type OutlierMethod,
+  type CrossSiteResult,
+  type SiteObservation,
+  type SignificanceResult,
+  type TimeSeries,
+} from '@/lib/stats'
+import { canonicalMeasurement, convertValue, findCanonicalMetric, unitOptions } from '@/lib/units'
+import { loadMetricCatalogue } from '@/lib/metric-catalogue'
+import { withRegistry } from '@/lib/sample-registry'
+
+export interface MetricStats {
+  metric: string
+  unit: string
+  groups: GroupStats[]
+  significance: SignificanceResult | null
+  crossSite: CrossSiteResult | null
+  response: ControlResponseResult | null
+  flagged: FlaggedRecord[]
+  timeSeries: TimeSeries[] | null
+  /** Units the metric can be shown in (empty when it has no conversions) */
+  unitOptions: string[]
+  /** The catalogue's agronomic optimal range, in `unit` */
+  optimalRange: { min: number | null; max: number | null } | null
+  /** Values reported against a detection limit ("<0.5"), left out of the statistics */
+  censored: number
+}
+
+/** A record that was flagged as an outlier and/or excluded from analysis */
+export interface FlaggedRecord {
+  id: string
+  table: string
+  trialId: string
+  ref: string         // plot number or sample number, for display
+  group: string
+  value: number
+  outlier: boolean
+  excluded: boolean
+  exclusionReason: string | null
+}
+
+type AnalysedObservation = SiteObservation & { record: Omit<FlaggedRecord, 'outlier' | 'group' | 'value'> }
+
+export interface GroupStats {
+  label: string       // trial ID, treatment label, block, or sampling date
+  mean: number
+  stdError: number
+  stdDev: number
+  min: number
+  q1: number
+  median: number
+  q3: number
+  max: number
+  n: number
+  values: number[]
+  letter?: string     // Tukey HSD grouping letter(s)
+}
+
+function computeStats(values: number[]): Omit<GroupStats, 'label' | 'values'> {
+  const sorted = [...values].sort((a, b) => a - b)
+  const n = sorted.length
+
+  if (n === 0) {
+    return { mean: 0, stdError: 0, stdDev: 0, min: 0, q1: 0, median: 0, q3: 0, max: 0, n: 0 }
+  }
+
+  const mean = sorted.reduce((s, v) => s + v, 0) / n
+  const variance = n > 1 ? sorted.reduce((s, v) => s + (v - mean) ** 2, 0) / (n - 1) : 0
+  const stdDev = Math.sqrt(variance)
+  const stdError = n > 0 ? stdDev / Math.sqrt(n) : 0
+
+  const q = (p: number) => {
+    const pos = (n - 1) * p
+    const lo = Math.floor(pos)
+    const hi = Math.ceil(pos)
+    const frac = pos - lo
+    return sorted[lo] * (1 - frac) + sorted[hi] * frac
+  }
+
+  return {
+    mean,
+    stdError,
+    stdDev,
+    min: sorted[0],
+    q1: q(0.25),
+    median: q(0.5),
+    q3: q(0.75),
+    max: sorted[n - 1],
+    n,
+  }
+}
+
+const VALID_DESIGNS = new Set(['auto', 'oneWay', 'rcbd'])
+const VALID_OUTLIER_METHODS = new Set(['none', 'iqr', 'grubbs', 'residual'])
+
+const SOURCE_TABLES: Record<string, string> = {
+  sampleMetadata: 'sample_metadata',
+  soilChemistry: 'soil_chemistry',
+  tissueChemistry: 'tissue_chemistry',
+  plotData: 'plot_data',
+}
+
+const CONTROL_PATTERN = /\b(control|untreated|nil|ctrl|utc)\b/i
+
+/**
+ * Pick each trial's control label from the labels present in its data:
+ * the requested label, else the treatment flagged is_control, else the
+ * first label that looks like a control.
+ */
+function resolveControls(
+  observations: SiteObservation[],
+  requested: string | null,
+  flagged: Record<string, string>
+): Map<string, string> {
+  const labelsBySite = new Map<string, Set<string>>()
+  for (const o of observations) {
+    if (!labelsBySite.has(o.site)) labelsBySite.set(o.site, new Set())
+    labelsBySite.get(o.site)!.add(o.group)
+  }
+
+  const controls = new Map<string, string>()
+  for (const [site, labels] of labelsBySite) {
+    const candidates = Array.from(labels).sort()
+    const control = requested
+      ? (labels.has(requested) ? requested : undefined)
+      : (flagged[site] && labels.has(flagged[site]) ? flagged[site] : candidates.find(l => CONTROL_PATTERN.test(l)))
+    if (control) controls.set(site, control)
+  }
+  return controls
+}
+
+export interface AnalysisQuery {
+  source: string
+  trialIds: string[]
+  groupBy: string
+  assayType: string | null
+  metrics: string[] | null
+  design: string
+  control: string | null
+  outliers: string
+  includeExcluded: boolean
+  /** Target unit per metric, e.g. { Calcium: 'mg/kg' } */
+  units: Record<string, string>
+}
+
+/** One analysed value with its provenance, for the long-format export */
+export interface RawValue {
+  id: string
+  metric: string
+  unit: string
+  trialId: string
+  plot: string | null
+  rep: string | null
+  sampleNo: string | null
+  date: string | null
+  treatment: number | null
+  group: string
+  value: number
+  outlier: boolean
+  excluded: boolean
+  exclusionReason: string | null
+  /** '<' or '>' when the value is a detection limit rather than a measurement */
+  censored: string | null
+}
+
+/** A plot_data column's detection-limit flag, kept in raw_data by the parser */
+function censoredColumn(row: any, column: string): string | null {
+  return row.raw_data?.__censored?.[column] ?? null
+}
+
+/** "Calcium:mg/kg,EC:µS/cm" → { Calcium: 'mg/kg', EC: 'µS/cm' } */
+function parseUnitTargets(param: string | null): Record<string, string> {
+  const units: Record<string, string> = {}
+  for (const pair of (param || '').split(',')) {
+    const i = pair.lastIndexOf(':')
+    if (i <= 0) continue
+    const metric = pair.slice(0, i).trim()
+    const unit = pair.slice(i + 1).trim()
+    if (metric && unit) units[metric] = unit
+  }
+  return units
+}
+
+/**
+ * Read and validate the analysis query params.
+ * Returns an error message when a param is out of range.
+ */
+export function parseAnalysisQuery(params: URLSearchParams): AnalysisQuery | { error: string } {
+  const source = params.get('source') || 'sampleMetadata'
+  const trialId = params.get('trialId')
+  const trialIdsParam = params.get('trialIds')
+  const groupBy = params.get('groupBy') || 'treatment'
+  const metricsFilter = params.get('metrics')
+  const design = params.get('design') || 'auto'
+  const outliers = params.get('outliers') || 'iqr'
+
+  if (!SOURCE_TABLES[source]) return { error: 'Invalid source' }
+  if (!VALID_DESIGNS.has(design)) return { error: 'Invalid design' }
+  if (!VALID_OUTLIER_METHODS.has(outliers)) return { error: 'Invalid outlier method' }
+  if (groupBy === 'date' && source === 'plotData') return { error: 'Plot data has no sampling date' }
+
+  const trialIds = trialIdsParam
+    ? trialIdsParam.split(',').map(s => s.trim()).filter(Boolean)
+    : trialId
+      ? [trialId]
+      : []
+
+  return {
+    source,
+    trialIds,
+    groupBy,
+    assayType: params.get('assayType'),
+    metrics: metricsFilter ? metricsFilter.split(',').map(s => s.trim()) : null,
+    design,
+    control: params.get('control'),
+    outliers,
+    includeExcluded: params.get('includeExcluded') === 'true',
+    units: parseUnitTargets(params.get('units')),
+  }
+}
+
+/**
+ * Fetch the source rows and compute per-metric statistics.
+ * Throws the Supabase error if the source query fails.
+ */
+export async function runAnalysis(
+  supabase: any,
+  query: AnalysisQuery
+): Promise<{ metrics: MetricStats[]; rawValues: RawValue[] }> {
+  const {
+    source, trialIds, groupBy, assayType, design, includeExcluded,
+    control: controlParam, outliers: outlierMethod,
+  } = query
+
+  // Fetch raw data from the appropriate source table
+  let rawData: any[] = []
+
+  let sourceQuery = supabase.from(SOURCE_TABLES[source]).select('*')
+  if (trialIds.length > 0) sourceQuery = sourceQuery.in('trial_id', trialIds)
+  if (source === 'sampleMetadata' && assayType) sourceQuery = sourceQuery.eq('assay_type', assayType)
+  const { data, error } = await sourceQuery
+  if (error) throw error
+
+  if (source === 'plotData') {
+    // Pivot plot data into long format with synthetic metrics
+    for (const row of data || []) {
+      if (row.yield_t_ha != null) {
+        rawData.push({ ...row, metric: 'Yield', value: row.yield_t_ha, unit: 't/ha', treatment: row.trt_number, censored: censoredColumn(row, 'yield_t_ha') })
+      }
+      if (row.plant_count != null) {
+        rawData.push({ ...row, metric: 'Plant Count', value: row.plant_count, unit: 'count', treatment: row.trt_number, censored: censoredColumn(row, 'plant_count') })
+      }
+      if (row.vigour != null) {
+        rawData.push({ ...row, metric: 'Vigour', value: row.vigour, unit: 'score', treatment: row.trt_number, censored: censoredColumn(row, 'vigour') })
+      }
+      if (row.disease_score != null) {
+        rawData.push({ ...row, metric: 'Disease Score', value: row.disease_score, unit: 'score', treatment: row.trt_number, censored: censoredColumn(row, 'disease_score') })
+      }
+    }
+  } else {
+    // Lab rows get their plot, treatment and rep from the sample registry
+    rawData = await withRegistry(supabase, data || [])
+  }
+
+  // Put every metric on one unit: the requested one, else the catalogue's,
+  // else the first seen. Rows that can't be converted become their own
+  // "<metric> (<unit>)" series rather than being mixed in.
+  const catalogue = await loadMetricCatalogue(supabase, source)
+  const targetUnits = new Map<string, string>()
+  rawData = rawData.map(row => {
+    if (row.value == null || row.metric == null) return row
+    const value = typeof row.value === 'string' ? parseFloat(row.value) : row.value
+    if (isNaN(value)) return row
+
+    const m = canonicalMeasurement({ metric: row.metric, value, unit: row.unit || '' }, catalogue)
+    if (!targetUnits.has(m.metric)) targetUnits.set(m.metric, query.units[m.metric] ?? m.definition?.unit ?? m.unit)
+    const target = targetUnits.get(m.metric)!
+    const converted = convertValue(m.value, m.unit, target, m.definition?.equivalentWeight)
+    return converted != null
+      ? { ...row, metric: m.metric, value: converted, unit: target }
+      : { ...row, metric: `${m.metric} (${m.unit || 'no unit'})`, value: m.value, unit: m.unit }
+  })
+
+  // Filter by specific metrics if requested (by catalogue name, so aliases match)
+  if (query.metrics) {
+    const metricsList = new Set(query.metrics.map(name => findCanonicalMetric(catalogue, name)?.name ?? name))
+    rawData = rawData.filter(r => metricsList.has(r.metric))
+  }
+
+  // Fetch treatments for label enrichment when grouping by treatment (or treatment × date)
+  let treatmentLabels: Record<string, Record<number, string>> = {}
+  const controlLabels: Record<string, string> = {}
+  if (groupBy === 'treatment' || groupBy === 'date') {
+    const tQuery = trialIds.length > 0
+      ? supabase.from('treatments').select('trial_id, trt_number, product, application, is_control').in('trial_id', trialIds)
+      : supabase.from('treatments').select('trial_id, trt_number, product, application, is_control')
+    const { data: treatments } = await tQuery
+    for (const t of treatments || []) {
+      if (!treatmentLabels[t.trial_id]) treatmentLabels[t.trial_id] = {}
+      const label = t.product || t.application || `Trt ${t.trt_number}`
+      treatmentLabels[t.trial_id][t.trt_number] = label
+      if (t.is_control) controlLabels[t.trial_id] = label
+    }
+  }
+
+  // Group data by metric, then by groupBy dimension
+  const metricMap = new Map<string, {
+    unit: string
+    groups: Map<string, number[]>
+    observations: AnalysedObservation[]
+    excluded: FlaggedRecord[]
+    series: { series: string; date: string; value: number }[]
+    censored: number
+  }>()
+  const table = SOURCE_TABLES[source]
+  const rawValues: RawValue[] = []
+
+  const treatmentLabelFor = (row: any): string => {
+    const trtNum = row.treatment || row.trt_number
+    if (trtNum == null) return 'Unassigned'
+    const labels = treatmentLabels[row.trial_id] || {}
+    return labels[trtNum] || `Trt ${trtNum}`
+  }
+
+  for (const row of rawData) {
+    if (row.value == null || row.metric == null) continue
+    const val = typeof row.value === 'string' ? parseFloat(row.value) : row.value
+    if (isNaN(val)) continue
+
+    const key = row.metric
+    if (!metricMap.has(key)) {
+      metricMap.set(key, { unit: row.unit || '', groups: new Map(), observations: [], excluded: [], series: [], censored: 0 })
+    }
+
+    let groupLabel: string
+    if (groupBy === 'trial') {
+      groupLabel = row.trial_id || 'Unknown'
+    } else if (groupBy === 'treatment') {
+      groupLabel = treatmentLabelFor(row)
+    } else if (groupBy === 'block') {
+      groupLabel = row.block || 'Unknown'
+    } else if (groupBy === 'date') {
+      groupLabel = row.date || 'Undated'
+    } else {
+      groupLabel = 'All'
+    }
+
+    const entry = metricMap.get(key)!
+    const record = {
+      id: row.id,
+      table,
+      trialId: row.trial_id,
+      ref: String(row.plot || row.sample_no || row.barcode || ''),
+      excluded: row.excluded === true,
+      exclusionReason: row.exclusion_reason ?? null,
+    }
+
+    rawValues.push({
+      id: row.id,
+      metric: key,
+      unit: row.unit || '',
+      trialId: row.trial_id,
+      plot: row.plot != null ? String(row.plot) : null,
+      rep: row.rep != null ? String(row.rep) : row.block != null && row.block !== '' ? String(row.block) : null,
+      sampleNo: row.sample_no ?? null,
+      date: row.date ?? null,
+      treatment: row.treatment ?? row.trt_number ?? null,
+      group: groupLabel,
+      value: val,
+      outlier: false,
+      excluded: record.excluded,
+      exclusionReason: record.exclusionReason,
+      censored: row.censored ?? null,
+    })
+
+    // Excluded records stay out of every statistic unless explicitly requested
+    if (record.excluded && !includeExcluded) {
+      entry.excluded.push({ ...record, group: groupLabel, value: val, outlier: false })
+      continue
+    }
+
+    // A detection limit isn't a measurement: counted, but kept out of the statistics
+    if (row.censored) {
+      entry.censored++
+      continue
+    }
+
+    if (!entry.groups.has(groupLabel)) {
+      entry.groups.set(groupLabel, [])
+    }
+    entry.groups.get(groupLabel)!.push(val)
+
+    if (groupBy === 'date' && row.date) {
+      // Series fall back to a single pooled line when samples carry no treatment
+      const trt = treatmentLabelFor(row)
+      entry.series.push({ series: trt === 'Unassigned' ? 'All samples' : trt, date: row.date, value: val })
+    }
+
+    if (groupLabel !== 'Unassigned' && groupLabel !== 'Unknown' && groupLabel !== 'Undated') {
+      // Reps are only comparable within a trial, so blocks are keyed per trial
+      const rep = row.rep ?? row.block
+      const block = rep != null && rep !== '' ? `${row.trial_id}:${rep}` : null
+      entry.observations.push({ group: groupLabel, site: row.trial_id, block, value: val, record })
+    }
+  }
+
+  // Blocking on rep makes no sense when the groups themselves are blocks
+  const useBlocks = groupBy !== 'block' &&
+    (design === 'rcbd' || (design === 'auto' && groupBy === 'treatment'))
+
+  // Compute stats for each metric's groups
+  const metrics: MetricStats[] = []
+  for (const [metric, entry] of metricMap) {
+    const groups: GroupStats[] = []
+    for (const [label, values] of entry.groups) {
+      const stats = computeStats(values)
+      groups.push({ label, values, ...stats })
+    }
+    groups.sort((a, b) => a.label.localeCompare(b.label))
+
+    const significance = analyseSignificance(entry.observations, { useBlocks })
+    if (significance) {
+      for (const g of groups) g.letter = significance.letters[g.label]
+    }
+
+    let crossSite: CrossSiteResult | null = null
+    let response: ControlResponseResult | null = null
+    if (groupBy === 'treatment') {
+      const controls = resolveControls(entry.observations, controlParam, controlLabels)
+      response = controlResponse(entry.observations, controls)
+
+      if (controls.size > 1) {
+        // Sites may name their control differently; pool them under one label
+        const distinct = new Set(controls.values())
+        const canonical = distinct.size === 1 ? [...distinct][0] : 'Control'
+        const pooled = entry.observations.map(o =>
+          controls.get(o.site) === o.group ? { ...o, group: canonical } : o
+        )
+        crossSite = crossSiteEffects(pooled, canonical)
+      }
+    }
+
+    const outlierIdx = new Set(
+      outlierMethod === 'none' ? [] : detectOutliers(entry.observations, outlierMethod as OutlierMethod)
+    )
+    const flagged: FlaggedRecord[] = [
+      ...entry.observations.flatMap((o, i) =>
+        outlierIdx.has(i) || o.record.excluded
+          ? [{ ...o.record, group: o.group, value: o.value, outlier: outlierIdx.has(i) }]
+          : []
+      ),
+      ...entry.excluded,
+    ]
+
+    // Mark flagged outliers on the raw values (plot rows carry several metrics per id)
+    const outlierIds = new Set(flagged.filter(f => f.outlier).map(f => f.id))
+    for (const v of rawValues) {
+      if (v.metric === metric && outlierIds.has(v.id)) v.outlier = true
+    }
+
+    const timeSeries = groupBy === 'date' ? buildTimeSeries(entry.series) : null
+
+    const definition = findCanonicalMetric(catalogue, metric)
+    const toUnit = (v: number | null | undefined) =>
+      v == null || !definition ? null : convertValue(v, definition.unit, entry.unit, definition.equivalentWeight)
+    const optimalRange = definition && (definition.optimalMin != null || definition.optimalMax != null)
+      ? { min: toUnit(definition.optimalMin), max: toUnit(definition.optimalMax) }
+      : null
+
+    metrics.push({
+      metric, unit: entry.unit, groups, significance, crossSite, response, flagged, timeSeries,
+      unitOptions: unitOptions(entry.unit, definition?.equivalentWeight),
+      optimalRange,
+      censored: entry.censored,
+    })
+  }
+
+  metrics.sort((a, b) => a.metric.localeCompare(b.metric))
+
+  return { metrics, rawValues }
+}
@@ -0,0 +1,483 @@
+/**
+ * Client portfolio report: every trial and field linked to one client,
+ * summarised for a season review. Covers a trial status table, product
+ * performance pooled across sites (random site effect, as on /analysis),
+ * soil chemistry trends per field by sampling year, and a map of all
+ * trial locations. Exported as a PDF (lib/pdf) or an XLSX workbook.
+ */
+
+import * as XLSX from 'xlsx'
+import { COLORS } from '@/lib/constants/brand'
+import { runAnalysis, type MetricStats } from '@/lib/analysis'
+import { parseGPS } from '@/lib/weather'
+import { formatDate } from '@/lib/utils'
+import { canonicalMeasurement } from '@/lib/units'
+import { loadMetricCatalogue } from '@/lib/metric-catalogue'
+import { ReportLayout, MARGIN } from '@/lib/pdf/layout'
+import { barChart, vectorMap, CHART_COLORS, type MapLayer } from '@/lib/pdf/charts'
+
+const MAX_TREND_METRICS = 8
+const MAX_TREND_YEARS = 5
+/** PostgREST returns at most 1000 rows a request */
+const PAGE_SIZE = 1000
+
+export interface PortfolioTrial {
+  id: string
+  name: string
+  crop: string | null
+  location: string | null
+  trial_type: string | null
+  status: string | null
+  planting_date: string | null
+  harvest_date: string | null
+  gps: [number, number] | null
+  sampleCount: number
+  fields: string[]
+}
+
+export interface PortfolioField {
+  id: string
+  name: string
+  farm: string | null
+  area_ha: number | null
+  boundary: any
+}
+
+export interface SoilTrend {
+  field: string
+  metric: string
+  unit: string
+  points: { year: string; n: number; mean: number }[]
+}
+
+export interface ClientPortfolio {
+  client: { id: string; name: string; farm: string | null; region: string | null }
+  /** Planting year the report is limited to, or null for every season */
+  year: string | null
+  trials: PortfolioTrial[]
+  fields: PortfolioField[]
+  /** Plot data metrics across all trials, grouped by treatment */
+  performance: MetricStats[]
+  soilTrends: SoilTrend[]
+}
+
+// ---------- Data loading ----------
+
+/**
+ * Gather the portfolio for one client. Returns null if the client does not
+ * exist. Throws the Supabase error if a query fails.
+ */
+export async function loadClientPortfolio(
+  supabase: any,
+  clientId: string,
+  year: string | null = null
+): Promise<ClientPortfolio | null> {
+  const [clientRes, trialsRes, fieldsRes] = await Promise.all([
+    supabase.from('clients').select('id, name, farm, region').eq('id', clientId).single(),
+    supabase.from('trials').select('*').eq('client_id', clientId).order('planting_date', { ascending: false }),
+    supabase.from('fields').select('id, name, farm, area_ha, boundary').eq('client_id', clientId).order('name'),
+  ])
+  if (clientRes.error || !clientRes.data) return null
+  if (trialsRes.error) throw trialsRes.error
+  if (fieldsRes.error) throw fieldsRes.error
+
+  const fields: PortfolioField[] = fieldsRes.data || []
+  const fieldIds = fields.map(f => f.id)
+  const linksRes = fieldIds.length > 0
+    ? await supabase.from('field_trials').select('field_id, trial_id').in('field_id', fieldIds)
+    : { data: [], error: null }
+  if (linksRes.error) throw linksRes.error
+  const links: { field_id: string; trial_id: string }[] = linksRes.data || []
+
+  // Trials owned by the client plus any run on the client's fields
+  const owned = trialsRes.data || []
+  const ownedIds = new Set(owned.map((t: any) => t.id))
+  const extraIds = Array.from(new Set(links.map(l => l.trial_id).filter(id => !ownedIds.has(id))))
+  let extra: any[] = []
+  if (extraIds.length > 0) {
+    const { data, error } = await supabase.from('trials').select('*').in('id', extraIds)
+    if (error) throw error
+    extra = data || []
+  }
+
+  const inSeason = (t: any) => !year || (t.planting_date && String(t.planting_date).startsWith(year))
+  const trialRows = [...owned, ...extra].filter(inSeason)
+  const trialIds = trialRows.map((t: any) => t.id)
+
+  const fieldName = new Map(fields.map(f => [f.id, f.name]))
+  const fieldsByTrial = new Map<string, string[]>()
+  for (const l of links) {
+    if (!fieldsByTrial.has(l.trial_id)) fieldsByTrial.set(l.trial_id, [])
+    fieldsByTrial.get(l.trial_id)!.push(fieldName.get(l.field_id)!)
+  }
+
+  const sampleCounts = new Map<string, number>()
+  for (let from = 0; trialIds.length > 0; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('soil_health_samples')
+      .select('id, trial_id')
+      .in('trial_id', trialIds)
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1)
+    if (error) throw error
+    for (const s of data || []) sampleCounts.set(s.trial_id, (sampleCounts.get(s.trial_id) || 0) + 1)
+    if (!data || data.length < PAGE_SIZE) break
+  }
+
+  const trials: PortfolioTrial[] = trialRows.map((t: any) => ({
+    id: t.id,
+    name: t.name,
+    crop: t.crop,
+    location: t.location,
+    trial_type: t.trial_type,
+    status: t.status,
+    planting_date: t.planting_date,
+    harvest_date: t.harvest_date,
+    gps: parseGPS(t.gps),
+    sampleCount: sampleCounts.get(t.id) || 0,
+    fields: fieldsByTrial.get(t.id) || [],
+  }))
+
+  const performance = trialIds.length > 0
+    ? (await runAnalysis(supabase, {
+        source: 'plotData',
+        trialIds,
+        groupBy: 'treatment',
+        assayType: null,
+        metrics: null,
+        design: 'auto',
+        control: null,
+        outliers: 'iqr',
+        includeExcluded: false,
+        units: {},
+      })).metrics
+    : []
+
+  // Trends span seasons, so they use every trial on the client's fields
+  const soilTrends = await loadSoilTrends(supabase, links, fieldName)
+
+  return { client: clientRes.data, year, trials, fields, performance, soilTrends }
+}
+
+/** Mean soil chemistry per field, metric and sampling year */
+async function loadSoilTrends(
+  supabase: any,
+  links: { field_id: string; trial_id: string }[],
+  fieldName: Map<string, string>
+): Promise<SoilTrend[]> {
+  if (links.length === 0) return []
+  const trialIds = Array.from(new Set(links.map(l => l.trial_id)))
+  const data: any[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data: page, error } = await supabase
+      .from('soil_chemistry')
+      .select('id, trial_id, date, metric, value, unit')
+      .in('trial_id', trialIds)
+      .eq('excluded', false)
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1)
+    if (error) throw error
+    data.push(...(page || []))
+    if (!page || page.length < PAGE_SIZE) break
+  }
+  const catalogue = await loadMetricCatalogue(supabase, 'soilChemistry')
+
+  const fieldsByTrial = new Map<string, string[]>()
+  for (const l of links) {
+    if (!fieldsByTrial.has(l.trial_id)) fieldsByTrial.set(l.trial_id, [])
+    fieldsByTrial.get(l.trial_id)!.push(fieldName.get(l.field_id)!)
+  }
+
+  const acc = new Map<string, { field: string; metric: string; unit: string; years: Map<string, number[]> }>()
+  for (const row of data) {
+    if (row.value == null || !row.date || !row.metric) continue
+    const year = String(row.date).slice(0, 4)
+    // Seasons loaded from different labs share the catalogue's name and unit
+    const m = canonicalMeasurement({ metric: row.metric, value: Number(row.value), unit: row.unit || '' }, catalogue)
+    for (const field of fieldsByTrial.get(row.trial_id) || []) {
+      const key = `${field}\u0000${m.metric}\u0000${m.unit}`
+      if (!acc.has(key)) acc.set(key, { field, metric: m.metric, unit: m.unit, years: new Map() })
+      const years = acc.get(key)!.years
+      if (!years.has(year)) years.set(year, [])
+      years.get(year)!.push(m.value)
+    }
+  }
+
+  return Array.from(acc.values())
+    .map(({ field, metric, unit, years }) => ({
+      field,
+      metric,
+      unit,
+      points: Array.from(years.entries())
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([year, values]) => ({ year, n: values.length, mean: values.reduce((s, v) => s + v, 0) / values.length })),
+    }))
+    .sort((a, b) => a.field.localeCompare(b.field) || a.metric.localeCompare(b.metric))
+}
+
+// ---------- Shared helpers ----------
+
+function fmt(v: number | null | undefined, dp = 2): string {
+  return v == null || !isFinite(v) ? '—' : v.toFixed(dp)
+}
+
+function fmtP(p: number | null): string {
+  if (p == null) return '—'
+  return p < 0.001 ? '<0.001' : p.toFixed(3)
+}
+
+function signed(v: number | null | undefined, dp = 2, suffix = ''): string {
+  return v == null || !isFinite(v) ? '—' : `${v >= 0 ? '+' : ''}${v.toFixed(dp)}${suffix}`
+}
+
+/** Sites contributing to a treatment's pooled effect vs control */
+function siteCount(m: MetricStats, label: string): number | null {
+  const effect = m.crossSite?.effects.find(e => e.label === label)
+  return effect ? effect.sites.length : null
+}
+
+/** Fields with a trend over more than one year, most-sampled metrics first */
+function trendsByField(trends: SoilTrend[]): Map<string, SoilTrend[]> {
+  const out = new Map<string, SoilTrend[]>()
+  for (const t of trends) {
+    if (t.points.length < 2) continue
+    if (!out.has(t.field)) out.set(t.field, [])
+    out.get(t.field)!.push(t)
+  }
+  for (const [field, list] of Array.from(out.entries())) {
+    const total = (t: SoilTrend) => t.points.reduce((s, p) => s + p.n, 0)
+    out.set(field, list.sort((a, b) => total(b) - total(a)).slice(0, MAX_TREND_METRICS))
+  }
+  return out
+}
+
+export function portfolioFilename(p: ClientPortfolio, ext: 'pdf' | 'xlsx'): string {
+  const stamp = new Date().toISOString().slice(0, 10)
+  return `${p.client.name}_portfolio_${p.year ?? 'all'}_${stamp}.${ext}`.replace(/[^\w.-]/g, '_')
+}
+
+// ---------- PDF ----------
+
+function portfolioLayers(p: ClientPortfolio): MapLayer[] {
+  const layers: MapLayer[] = []
+  for (const f of p.fields) {
+    const polygons: [number, number][][] = []
+    for (const feature of f.boundary?.features || []) {
+      const g = feature.geometry
+      if (g?.type === 'Polygon') polygons.push(g.coordinates[0])
+      if (g?.type === 'MultiPolygon') for (const poly of g.coordinates) polygons.push(poly[0])
+    }
+    if (polygons.length > 0) layers.push({ label: `Field: ${f.name}`, stroke: COLORS.richBlue, polygons })
+  }
+  const located = p.trials.filter(t => t.gps)
+  if (located.length > 0) {
+    layers.push({
+      label: `Trials (${located.length})`,
+      fill: COLORS.lushGreen,
+      points: located.map(t => ({ lat: t.gps![0], lon: t.gps![1], label: t.id })),
+    })
+  }
+  return layers
+}
+
+export function buildClientReportPdf(p: ClientPortfolio): Buffer {
+  const layout = new ReportLayout(`${p.client.name} — portfolio`)
+
+  // Title block
+  layout.doc.text('CLIENT PORTFOLIO REPORT', MARGIN, layout.y + 8, { size: 8, font: 'bold', color: COLORS.metaBlue })
+  layout.doc.text(`Generated ${formatDate(new Date())}`, MARGIN + layout.contentWidth, layout.y + 8, {
+    size: 8, color: COLORS.grey1, align: 'right',
+  })
+  layout.space(14)
+  for (const line of layout.doc.wrap(p.client.name, layout.contentWidth, 18, 'bold')) {
+    layout.doc.text(line, MARGIN, layout.y + 18, { size: 18, font: 'bold' })
+    layout.space(22)
+  }
+  layout.paragraph(
+    [p.client.farm, p.client.region, p.year ? `${p.year} season` : 'All seasons'].filter(Boolean).join(' · '),
+    { size: 10, color: '#555B61' }
+  )
+  layout.keyValues([
+    ['Trials', String(p.trials.length)],
+    ['Active', String(p.trials.filter(t => t.status === 'active').length)],
+    ['Fields', String(p.fields.length)],
+    ['Soil samples', String(p.trials.reduce((s, t) => s + t.sampleCount, 0))],
+  ])
+
+  // Trial status
+  layout.sectionHeading('Trial status')
+  if (p.trials.length === 0) {
+    layout.paragraph('No trials are linked to this client for the selected season.', { color: '#555B61' })
+  } else {
+    layout.table(
+      [
+        { header: 'Trial', width: 1.1 },
+        { header: 'Name', width: 2.6 },
+        { header: 'Crop', width: 1 },
+        { header: 'Field', width: 1.4 },
+        { header: 'Status', width: 0.9 },
+        { header: 'Planted', width: 1.1 },
+        { header: 'Harvest', width: 1.1 },
+        { header: 'Samples', width: 0.8, align: 'right' },
+      ],
+      p.trials.map(t => [
+        t.id,
+        t.name,
+        t.crop || '—',
+        t.fields.join(', ') || t.location || '—',
+        t.status || '—',
+        formatDate(t.planting_date),
+        formatDate(t.harvest_date),
+        String(t.sampleCount),
+      ])
+    )
+  }
+
+  // Map
+  const layers = portfolioLayers(p)
+  if (layers.length > 0) {
+    layout.sectionHeading('Trial locations')
+    layout.block(320, (x, y, width) => {
+      vectorMap(layout.doc, x, y, width, 310, layers)
+    })
+  }
+
+  // Product performance
+  layout.sectionHeading('Product performance across sites')
+  if (p.performance.length === 0) {
+    layout.paragraph('No plot data has been uploaded for these trials yet.', { color: '#555B61' })
+  } else {
+    layout.paragraph(
+      'Treatment means pooled over every trial, and each treatment\'s difference from the ' +
+      'trial control pooled across sites with a random site effect. Records excluded during review are left out.',
+      { size: 8, color: '#555B61' }
+    )
+    for (const m of p.performance) drawPerformance(layout, m)
+  }
+
+  // Soil trends
+  layout.sectionHeading('Soil health trends by field')
+  const byField = trendsByField(p.soilTrends)
+  if (byField.size === 0) {
+    layout.paragraph('Soil chemistry needs samples from more than one year on the same field to show a trend.', { color: '#555B61' })
+  }
+  for (const [field, trends] of Array.from(byField.entries())) {
+    const years = Array.from(new Set(trends.flatMap(t => t.points.map(pt => pt.year)))).sort().slice(-MAX_TREND_YEARS)
+    layout.heading(field, 10)
+    layout.table(
+      [
+        { header: 'Metric', width: 2.4 },
+        ...years.map(y => ({ header: y, width: 1, align: 'right' as const })),
+        { header: 'Change', width: 1.1, align: 'right' },
+      ],
+      trends.map(t => {
+        const byYear = new Map(t.points.map(pt => [pt.year, pt]))
+        const shown = t.points.filter(pt => years.includes(pt.year))
+        const change = shown.length > 1 ? shown[shown.length - 1].mean - shown[0].mean : null
+        return [
+          t.metric + (t.unit ? ` (${t.unit})` : ''),
+          ...years.map(y => fmt(byYear.get(y)?.mean)),
+          signed(change),
+        ]
+      })
+    )
+  }
+
+  layout.footers(`SoilTrack · ${p.client.name} portfolio`)
+  return layout.toBuffer()
+}
+
+function drawPerformance(layout: ReportLayout, m: MetricStats) {
+  const response = new Map((m.response?.groups || []).map(r => [r.label, r]))
+  const effects = new Map((m.crossSite?.effects || []).map(e => [e.label, e]))
+
+  layout.ensure(200)
+  layout.heading(m.metric + (m.unit ? ` (${m.unit})` : ''), 10)
+  layout.block(150, (x, y, width) => {
+    barChart(layout.doc, x, y, width, 145, m.groups.map((g, i) => ({
+      label: g.label,
+      value: g.mean,
+      error: g.stdError,
+      color: CHART_COLORS[i % CHART_COLORS.length],
+    })), { yLabel: m.unit })
+  })
+
+  layout.table(
+    [
+      { header: 'Treatment', width: 2.6 },
+      { header: 'Sites', width: 0.7, align: 'right' },
+      { header: 'Mean', width: 1, align: 'right' },
+      { header: '% vs control', width: 1.1, align: 'right' },
+      { header: 'Pooled diff', width: 1.1, align: 'right' },
+      { header: '95% CI', width: 1.6, align: 'right' },
+      { header: 'p', width: 0.8, align: 'right' },
+    ],
+    m.groups.map(g => {
+      const r = response.get(g.label)
+      const e = effects.get(g.label)
+      return [
+        g.label,
+        String(siteCount(m, g.label) ?? '—'),
+        fmt(g.mean),
+        signed(r?.percentResponse, 1, '%'),
+        signed(e?.estimate),
+        e ? `${fmt(e.ciLow)} to ${fmt(e.ciHigh)}` : '—',
+        fmtP(e?.pValue ?? null),
+      ]
+    })
+  )
+}
+
+// ---------- XLSX ----------
+
+export function buildClientReportWorkbook(p: ClientPortfolio): Buffer {
+  const wb = XLSX.utils.book_new()
+
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet([
+    ['Trial', 'Name', 'Crop', 'Trial type', 'Fields', 'Location', 'Status', 'Planting date', 'Harvest date', 'Latitude', 'Longitude', 'Soil samples'],
+    ...p.trials.map(t => [
+      t.id, t.name, t.crop, t.trial_type, t.fields.join(', '), t.location, t.status,
+      t.planting_date, t.harvest_date, t.gps?.[0] ?? null, t.gps?.[1] ?? null, t.sampleCount,
+    ]),
+  ]), 'Trials')
+
+  const performance: (string | number | null)[][] = [
+    ['Metric', 'Unit', 'Treatment', 'Sites', 'n', 'Mean', 'SE', '% vs control', 'Pooled diff vs control', 'CI low', 'CI high', 'p', 'I² (%)'],
+  ]
+  for (const m of p.performance) {
+    const response = new Map((m.response?.groups || []).map(r => [r.label, r]))
+    const effects = new Map((m.crossSite?.effects || []).map(e => [e.label, e]))
+    for (const g of m.groups) {
+      const r = response.get(g.label)
+      const e = effects.get(g.label)
+      performance.push([
+        m.metric, m.unit, g.label, siteCount(m, g.label), g.n, g.mean, g.stdError,
+        r?.percentResponse ?? null, e?.estimate ?? null, e?.ciLow ?? null, e?.ciHigh ?? null,
+        e?.pValue ?? null, e?.i2 ?? null,
+      ])
+    }
+  }
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(performance), 'Product Performance')
+
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet([
+    ['Field', 'Metric', 'Unit', 'Year', 'n', 'Mean'],
+    ...p.soilTrends.flatMap(t => t.points.map(pt => [t.field, t.metric, t.unit, pt.year, pt.n, pt.mean])),
+  ]), 'Soil Trends')
+
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet([
+    ['Field', 'Farm', 'Area (ha)', 'Trials'],
+    ...p.fields.map(f => [
+      f.name, f.farm, f.area_ha, p.trials.filter(t => t.fields.includes(f.name)).map(t => t.id).join(', '),
+    ]),
+  ]), 'Fields')
+
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet([
+    ['Client', p.client.name],
+    ['Farm', p.client.farm],
+    ['Region', p.client.region],
+    ['Season', p.year ?? 'All'],
+    ['Generated', new Date().toISOString()],
+  ]), 'Parameters')
+
+  return XLSX.write(wb, { type: 'buffer', bookType: 'xlsx' }) as Buffer
+}
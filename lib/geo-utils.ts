@@ -6,6 +6,7 @@
  */
 
 import type { FeatureCollection, Geometry } from 'geojson'
+import { tDistPValue } from './stats'
 
 // ---------- Convex Hull (Andrew's monotone chain) ----------
 
@@ -270,81 +271,3 @@ export function linearRegression(xs: number[], ys: number[]): RegressionResult {
 
   return { slope, intercept, rSquared, n, pValue }
 }
-
-/**
- * Approximate two-tailed p-value for t-distribution.
- * Uses the regularized incomplete beta function approximation.
- */
-function tDistPValue(t: number, df: number): number {
-  // Use the relationship between t-distribution CDF and incomplete beta function
-  const x = df / (df + t * t)
-  const p = 0.5 * incompleteBeta(x, df / 2, 0.5)
-  return Math.min(1, 2 * p) // two-tailed
-}
-
-/**
- * Regularized incomplete beta function I_x(a, b) via continued fraction (Lentz).
- */
-function incompleteBeta(x: number, a: number, b: number): number {
-  if (x <= 0) return 0
-  if (x >= 1) return 1
-
-  // Use the log-beta for the prefactor
-  const lnBeta = lnGamma(a) + lnGamma(b) - lnGamma(a + b)
-  const prefactor = Math.exp(a * Math.log(x) + b * Math.log(1 - x) - lnBeta)
-
-  // Lentz's continued fraction
-  const maxIter = 200
-  const eps = 1e-14
-  let f = 1, c = 1, d = 0
-
-  for (let m = 0; m <= maxIter; m++) {
-    let numerator: number
-    if (m === 0) {
-      numerator = 1
-    } else {
-      const k = m
-      const isEven = k % 2 === 0
-      const m2 = Math.floor(k / 2)
-      if (isEven) {
-        numerator = (m2 * (b - m2) * x) / ((a + k - 1) * (a + k))
-      } else {
-        numerator = -((a + m2) * (a + b + m2) * x) / ((a + k - 1) * (a + k))
-      }
-    }
-
-    d = 1 + numerator * d
-    if (Math.abs(d) < eps) d = eps
-    d = 1 / d
-
-    c = 1 + numerator / c
-    if (Math.abs(c) < eps) c = eps
-
-    f *= c * d
-    if (Math.abs(c * d - 1) < eps && m > 0) break
-  }
-
-  return (prefactor / a) * f
-}
-
-/** Lanczos approximation for ln(Gamma(x)) */
-function lnGamma(x: number): number {
-  if (x <= 0) return 0
-  // Lanczos approximation
-  const g = 7
-  const coef = [
-    0.99999999999980993, 676.5203681218851, -1259.1392167224028,
-    771.32342877765313, -176.61502916214059, 12.507343278686905,
-    -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7,
-  ]
-  if (x < 0.5) {
-    return Math.log(Math.PI / Math.sin(Math.PI * x)) - lnGamma(1 - x)
-  }
-  x -= 1
-  let a = coef[0]
-  for (let i = 1; i < g + 2; i++) {
-    a += coef[i] / (x + i)
-  }
-  const t = x + g + 0.5
-  return 0.5 * Math.log(2 * Math.PI) + (x + 0.5) * Math.log(t) - t + Math.log(a)
-}
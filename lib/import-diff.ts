@@ -0,0 +1,128 @@
+/**
+ * Dry-run diff for the upload pipeline: what load_and_track would do with a
+ * batch of transformed rows, without writing anything.
+ *
+ * Rows are matched on the table's ON CONFLICT key and compared on the
+ * columns its DO UPDATE sets (both mirrored from load_and_track, migrations
+ * 015, 029 and 031). raw_data is left out of the comparison: it is the source
+ * row as read, so a re-export with reordered or renamed extra columns
+ * would otherwise show every row as updated.
+ */
+
+import { type SupabaseClient } from '@supabase/supabase-js'
+
+export interface FieldChange {
+  field: string
+  before: unknown
+  after: unknown
+}
+
+export interface RowChange {
+  /** The row's conflict-key values, for display */
+  key: Record<string, unknown>
+  fields: FieldChange[]
+}
+
+export interface ImportDiff {
+  inserted: number
+  updated: number
+  unchanged: number
+  /** Field-level before/after for updated rows, capped at MAX_CHANGES */
+  changes: RowChange[]
+}
+
+const MAX_CHANGES = 200
+const PAGE_SIZE = 1000
+
+/** Conflict key and updated columns per table, as in load_and_track */
+const UPSERT_COLUMNS: Record<string, { key: string[]; update: string[] }> = {
+  soil_health_samples: {
+    key: ['sample_no', 'date', 'depth_upper_cm', 'depth_lower_cm'],
+    update: ['property', 'block', 'barcode', 'latitude', 'longitude'],
+  },
+  soil_chemistry: {
+    key: ['sample_no', 'date', 'depth_upper_cm', 'depth_lower_cm', 'metric'],
+    update: ['block', 'barcode', 'value', 'unit', 'censored'],
+  },
+  plot_data: {
+    key: ['plot', 'trt_number', 'rep'],
+    update: ['block', 'yield_t_ha', 'plant_count', 'vigour', 'disease_score'],
+  },
+  tissue_chemistry: {
+    key: ['sample_no', 'date', 'tissue_type', 'metric'],
+    update: ['block', 'barcode', 'value', 'unit', 'censored'],
+  },
+  sample_metadata: {
+    key: ['assay_type', 'sample_no', 'metric'],
+    update: ['date', 'block', 'treatment', 'value', 'unit', 'censored'],
+  },
+}
+
+/**
+ * Bring a parsed value and its stored counterpart to one form: blanks are
+ * null (the RPC COALESCEs text to '' and casts '' to NULL), numeric text is
+ * a number (decimals come back from PostgREST as numbers).
+ */
+function normalise(v: unknown): string | number | null {
+  if (v == null) return null
+  const s = String(v).trim()
+  if (s === '') return null
+  const n = Number(s)
+  return Number.isFinite(n) ? n : s
+}
+
+const keyOf = (row: Record<string, any>, key: string[]) =>
+  key.map(f => String(normalise(row[f]) ?? '')).join('\0')
+
+/**
+ * Compare rows about to be loaded for a trial against what's stored.
+ * Rows sharing a key within the batch each count against the stored row.
+ */
+export async function computeImportDiff(
+  supabase: SupabaseClient,
+  tableName: string,
+  trialId: string,
+  rows: Record<string, any>[]
+): Promise<ImportDiff> {
+  const spec = UPSERT_COLUMNS[tableName]
+  if (!spec) throw new Error(`No upsert spec for table: ${tableName}`)
+
+  const existing = new Map<string, Record<string, any>>()
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from(tableName)
+      .select(['id', ...spec.key, ...spec.update].join(', '))
+      .eq('trial_id', trialId)
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1)
+    if (error) throw error
+    for (const row of (data || []) as unknown as Record<string, any>[]) existing.set(keyOf(row, spec.key), row)
+    if (!data || data.length < PAGE_SIZE) break
+  }
+
+  const diff: ImportDiff = { inserted: 0, updated: 0, unchanged: 0, changes: [] }
+  for (const row of rows) {
+    const before = existing.get(keyOf(row, spec.key))
+    if (!before) {
+      diff.inserted++
+      continue
+    }
+    const fields = spec.update
+      .filter(f => normalise(before[f]) !== normalise(row[f]))
+      .map(f => ({ field: f, before: before[f] ?? null, after: row[f] ?? null }))
+    if (fields.length === 0) {
+      diff.unchanged++
+      continue
+    }
+    diff.updated++
+    if (diff.changes.length < MAX_CHANGES) {
+      diff.changes.push({ key: Object.fromEntries(spec.key.map(f => [f, row[f] ?? null])), fields })
+    }
+  }
+  return diff
+}
+
+/** One-line summary, e.g. "12 new, 3 updated, 40 unchanged" */
+export function describeDiff(diff: ImportDiff): string {
+  return `${diff.inserted} new, ${diff.updated} updated, ${diff.unchanged} unchanged`
+}
@@ -0,0 +1,111 @@
+/**
+ * Import profiles: saved lab/format settings for the upload pipeline.
+ *
+ * A profile records how one lab's export is laid out — which sheet holds
+ * the data, how many rows sit above the header row, how dates are written,
+ * overrides for headers COLUMN_MAPS doesn't know, and units for metric
+ * columns whose header carries none. runPipeline applies a profile
+ * automatically when a file's headers match its fingerprint.
+ */
+
+export const DATE_FORMATS = ['DD/MM/YYYY', 'MM/DD/YYYY', 'YYYY-MM-DD'] as const
+
+export type DateFormat = typeof DATE_FORMATS[number]
+
+/** File types a profile can describe (the COLUMN_MAPS keys) */
+export const PROFILE_FILE_TYPES: Record<string, string> = {
+  soilHealth: 'Soil Health',
+  soilChemistry: 'Soil Chemistry',
+  plotData: 'Plot Data',
+  tissueChemistry: 'Tissue Chemistry',
+  sampleMetadata: 'Assay Results',
+}
+
+export interface ImportProfile {
+  id: string
+  name: string
+  lab: string | null
+  file_type: string
+  header_fingerprint: string
+  /** Headers in file order, as read with this profile's sheet and offset */
+  headers: string[]
+  /** { lowercased header: db field | '__skip__' | '__metric__' } */
+  column_overrides: Record<string, string>
+  /** { lowercased header: unit } for metric columns */
+  units: Record<string, string>
+  header_row_offset: number
+  /** null reads the first sheet */
+  sheet_name: string | null
+  date_format: DateFormat
+}
+
+/** How a file is read before its headers are matched */
+export interface ImportLayout {
+  sheetName?: string | null
+  headerRowOffset?: number
+}
+
+const VALID_DATE_FORMATS = new Set<string>(DATE_FORMATS)
+
+const normaliseHeader = (h: string) => h.toLowerCase().trim().replace(/\s+/g, ' ')
+
+/**
+ * Order-independent identity of a header row: the normalised, de-duplicated
+ * headers, sorted. Blank headers (trailing empty columns) are ignored.
+ */
+export function headerFingerprint(headers: string[]): string {
+  return Array.from(new Set(headers.map(normaliseHeader).filter(Boolean))).sort().join('|')
+}
+
+/**
+ * Coerce untrusted input (JSON body, stored row) into profile fields.
+ * Override and unit keys are lowercased to match the parser's lookups.
+ */
+export function sanitiseProfile(raw: unknown): Omit<ImportProfile, 'id'> {
+  const input = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>
+  const text = (v: unknown) => (typeof v === 'string' ? v.trim() : '')
+  const dict = (v: unknown) => {
+    const out: Record<string, string> = {}
+    if (v && typeof v === 'object' && !Array.isArray(v)) {
+      for (const [k, val] of Object.entries(v)) {
+        const key = k.toLowerCase().trim()
+        if (key && typeof val === 'string' && val.trim()) out[key] = val.trim()
+      }
+    }
+    return out
+  }
+  const headers = Array.isArray(input.headers)
+    ? input.headers.filter((h): h is string => typeof h === 'string').map(h => h.trim()).filter(Boolean)
+    : []
+  const offset = Number(input.header_row_offset)
+
+  return {
+    name: text(input.name),
+    lab: text(input.lab) || null,
+    file_type: text(input.file_type),
+    header_fingerprint: headerFingerprint(headers),
+    headers,
+    column_overrides: dict(input.column_overrides),
+    units: dict(input.units),
+    header_row_offset: Number.isInteger(offset) && offset > 0 ? offset : 0,
+    sheet_name: text(input.sheet_name) || null,
+    date_format: VALID_DATE_FORMATS.has(text(input.date_format)) ? text(input.date_format) as DateFormat : 'DD/MM/YYYY',
+  }
+}
+
+export function profileFromRow(row: any): ImportProfile {
+  return { id: row.id, ...sanitiseProfile(row) }
+}
+
+/** Profiles sharing a sheet and offset, so the file is read once per layout */
+export function groupByLayout(profiles: ImportProfile[]): { layout: ImportLayout; profiles: ImportProfile[] }[] {
+  const groups = new Map<string, { layout: ImportLayout; profiles: ImportProfile[] }>()
+  for (const p of profiles) {
+    const key = `${p.sheet_name ?? ''}\0${p.header_row_offset}`
+    if (!groups.has(key)) {
+      groups.set(key, { layout: { sheetName: p.sheet_name, headerRowOffset: p.header_row_offset }, profiles: [] })
+    }
+    groups.get(key)!.profiles.push(p)
+  }
+  return Array.from(groups.values())
+}
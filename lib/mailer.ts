@@ -0,0 +1,210 @@
+/**
+ * Pluggable mail delivery for the email_outbox table.
+ *
+ * MAILER selects the transport:
+ *   - 'console' (default): log the message, for development
+ *   - 'smtp': plain SMTP to SMTP_HOST:SMTP_PORT (default localhost:1025),
+ *     intended for a local catcher such as MailHog or smtp4dev. There is no
+ *     TLS or AUTH; put a relay in front of it for real delivery.
+ * MAIL_FROM sets the sender address.
+ */
+
+import { createConnection, type Socket } from 'net'
+
+export interface MailMessage {
+  to: string
+  subject: string
+  text: string
+}
+
+export interface Mailer {
+  readonly name: string
+  send(message: MailMessage): Promise<void>
+}
+
+const DEFAULT_FROM = 'soiltrack@localhost'
+const MAX_ATTEMPTS = 5
+const SMTP_TIMEOUT_MS = 15_000
+
+export class ConsoleMailer implements Mailer {
+  readonly name = 'console'
+
+  async send(message: MailMessage): Promise<void> {
+    console.log(`[mailer] To: ${message.to}\n[mailer] Subject: ${message.subject}\n${message.text}`)
+  }
+}
+
+export class SmtpMailer implements Mailer {
+  readonly name = 'smtp'
+
+  constructor(
+    private readonly host: string,
+    private readonly port: number,
+    private readonly from: string
+  ) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const socket = createConnection({ host: this.host, port: this.port })
+    socket.setEncoding('utf8')
+    socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error('SMTP timeout')))
+    const reply = replyReader(socket)
+
+    try {
+      await expect(reply, 220)
+      await command(socket, reply, `EHLO ${hostname()}`, 250)
+      await command(socket, reply, `MAIL FROM:<${this.from}>`, 250)
+      await command(socket, reply, `RCPT TO:<${message.to}>`, 250)
+      await command(socket, reply, 'DATA', 354)
+      await command(socket, reply, formatMessage(this.from, message) + '\r\n.', 250)
+      await command(socket, reply, 'QUIT', 221)
+    } finally {
+      socket.end()
+    }
+  }
+}
+
+export function getMailer(): Mailer {
+  const from = process.env.MAIL_FROM || DEFAULT_FROM
+  if (process.env.MAILER === 'smtp') {
+    return new SmtpMailer(process.env.SMTP_HOST || 'localhost', Number(process.env.SMTP_PORT) || 1025, from)
+  }
+  return new ConsoleMailer()
+}
+
+// ---------- Outbox ----------
+
+/** Queue messages for dispatch; needs a service-role client (migration 033) */
+export function queueEmail(
+  supabase: any,
+  messages: (MailMessage & { jobId?: string })[]
+): Promise<{ error: any }> {
+  return supabase.from('email_outbox').insert(messages.map(m => ({
+    to_address: m.to,
+    subject: m.subject,
+    body: m.text,
+    job_id: m.jobId ?? null,
+  })))
+}
+
+/**
+ * Send pending outbox rows, oldest first. A failed send stays pending until
+ * it has been tried MAX_ATTEMPTS times, then is marked failed.
+ */
+export async function dispatchOutbox(
+  supabase: any,
+  mailer: Mailer,
+  limit = 50
+): Promise<{ sent: number; failed: number }> {
+  const { data: rows, error } = await supabase
+    .from('email_outbox')
+    .select('*')
+    .eq('status', 'pending')
+    .order('created_at')
+    .limit(limit)
+  if (error) throw error
+
+  let sent = 0
+  let failed = 0
+  for (const row of rows || []) {
+    try {
+      await mailer.send({ to: row.to_address, subject: row.subject, text: row.body })
+      await supabase
+        .from('email_outbox')
+        .update({ status: 'sent', attempts: row.attempts + 1, sent_at: new Date().toISOString(), last_error: null })
+        .eq('id', row.id)
+      sent++
+    } catch (err) {
+      const attempts = row.attempts + 1
+      await supabase
+        .from('email_outbox')
+        .update({
+          status: attempts >= MAX_ATTEMPTS ? 'failed' : 'pending',
+          attempts,
+          last_error: err instanceof Error ? err.message : String(err),
+        })
+        .eq('id', row.id)
+      failed++
+    }
+  }
+  return { sent, failed }
+}
+
+// ---------- SMTP helpers ----------
+
+function hostname(): string {
+  try {
+    return new URL(process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost').hostname
+  } catch {
+    return 'localhost'
+  }
+}
+
+/** Queue of complete (possibly multi-line) SMTP replies */
+function replyReader(socket: Socket): () => Promise<{ code: number; text: string }> {
+  let buffer = ''
+  const replies: { code: number; text: string }[] = []
+  const waiting: { resolve: (r: { code: number; text: string }) => void; reject: (e: Error) => void }[] = []
+  let failure: Error | null = null
+
+  socket.on('data', (chunk: string) => {
+    buffer += chunk
+    // A reply ends with a line whose 4th character is a space: "250 OK"
+    let match: RegExpMatchArray | null
+    while ((match = buffer.match(/^((?:\d{3}-[^\r\n]*\r?\n)*)(\d{3}) ([^\r\n]*)\r?\n/))) {
+      buffer = buffer.slice(match[0].length)
+      const reply = { code: Number(match[2]), text: match[0].trim() }
+      const next = waiting.shift()
+      if (next) next.resolve(reply)
+      else replies.push(reply)
+    }
+  })
+  const fail = (err: Error) => {
+    failure = err
+    for (const w of waiting.splice(0)) w.reject(err)
+  }
+  socket.on('error', fail)
+  socket.on('close', () => fail(new Error('SMTP connection closed')))
+
+  return () => {
+    const queued = replies.shift()
+    if (queued) return Promise.resolve(queued)
+    if (failure) return Promise.reject(failure)
+    return new Promise((resolve, reject) => waiting.push({ resolve, reject }))
+  }
+}
+
+async function expect(reply: () => Promise<{ code: number; text: string }>, code: number): Promise<void> {
+  const r = await reply()
+  if (r.code !== code) throw new Error(`SMTP: expected ${code}, got ${r.text}`)
+}
+
+async function command(
+  socket: Socket,
+  reply: () => Promise<{ code: number; text: string }>,
+  line: string,
+  code: number
+): Promise<void> {
+  socket.write(line + '\r\n')
+  await expect(reply, code)
+}
+
+/** RFC 2047 encoded-word for headers that are not plain ASCII */
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`
+}
+
+function formatMessage(from: string, message: MailMessage): string {
+  // Dot-stuff lines that begin with '.' so they are not read as end-of-data
+  const body = message.text.replace(/\r?\n/g, '\r\n').replace(/^\./gm, '..')
+  return [
+    `From: SoilTrack <${from}>`,
+    `To: <${message.to}>`,
+    `Subject: ${encodeHeader(message.subject.replace(/[\r\n]+/g, ' '))}`,
+    `Date: ${new Date().toUTCString()}`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: 8bit',
+    '',
+    body,
+  ].join('\r\n')
+}
@@ -0,0 +1,157 @@
+/**
+ * The admin-managed metric catalogue (metric_catalogue table), merged
+ * over the built-in entries in lib/units.
+ *
+ * Merging an observed metric name into an entry records it as an alias,
+ * so future uploads resolve it, and re-keys the rows already loaded under
+ * it (rekey_metric RPC), converting their values to the entry's unit.
+ */
+
+import {
+  BUILTIN_METRICS, catalogueFor, convertValue, metricKey,
+  type CanonicalMetric,
+} from '@/lib/units'
+
+/** Pivoted sources that carry a metric column, and their tables */
+export const CATALOGUE_TABLES: Record<string, string> = {
+  soilChemistry: 'soil_chemistry',
+  tissueChemistry: 'tissue_chemistry',
+  sampleMetadata: 'sample_metadata',
+}
+
+export interface ManagedMetric extends CanonicalMetric {
+  /** null for a built-in entry that hasn't been edited */
+  id: string | null
+  source: string
+}
+
+export function metricFromRow(row: any): ManagedMetric {
+  const num = (v: unknown) => (v == null || v === '' ? null : Number(v))
+  return {
+    id: row.id,
+    source: row.source,
+    name: row.name,
+    category: row.category ?? null,
+    unit: row.unit ?? '',
+    aliases: row.aliases ?? [],
+    equivalentWeight: num(row.equivalent_weight),
+    optimalMin: num(row.optimal_min),
+    optimalMax: num(row.optimal_max),
+  }
+}
+
+/**
+ * Coerce untrusted input (JSON body) into metric_catalogue columns.
+ * Aliases are lowercased and stripped of full stops to match lookups.
+ */
+export function sanitiseMetric(raw: unknown): {
+  name: string
+  category: string | null
+  unit: string
+  aliases: string[]
+  equivalent_weight: number | null
+  optimal_min: number | null
+  optimal_max: number | null
+} {
+  const input = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>
+  const text = (v: unknown) => (typeof v === 'string' ? v.trim() : '')
+  const num = (v: unknown) => {
+    if (v == null || v === '') return null
+    const n = Number(v)
+    return Number.isFinite(n) ? n : null
+  }
+  const name = text(input.name)
+  const aliases = Array.isArray(input.aliases)
+    ? input.aliases.filter((a): a is string => typeof a === 'string').map(metricKey).filter(Boolean)
+    : []
+
+  return {
+    name,
+    category: text(input.category) || null,
+    unit: text(input.unit),
+    aliases: Array.from(new Set(aliases.filter(a => a !== metricKey(name)))),
+    equivalent_weight: num(input.equivalentWeight ?? input.equivalent_weight),
+    optimal_min: num(input.optimalMin ?? input.optimal_min),
+    optimal_max: num(input.optimalMax ?? input.optimal_max),
+  }
+}
+
+async function loadManaged(supabase: any, source: string): Promise<ManagedMetric[]> {
+  const { data, error } = await supabase.from('metric_catalogue').select('*').eq('source', source).order('name')
+  if (error) throw error
+  return (data || []).map(metricFromRow)
+}
+
+/** The catalogue parsers and analysis resolve against for a source */
+export async function loadMetricCatalogue(supabase: any, source: string): Promise<CanonicalMetric[]> {
+  if (!CATALOGUE_TABLES[source]) return []
+  return catalogueFor(source, await loadManaged(supabase, source))
+}
+
+/** Every entry for a source, built-in ones marked with id null, by name */
+export async function listMetricCatalogue(supabase: any, source: string): Promise<ManagedMetric[]> {
+  const managed = await loadManaged(supabase, source)
+  const names = new Set(managed.map(m => metricKey(m.name)))
+  const builtins = (BUILTIN_METRICS[source] || [])
+    .filter(b => !names.has(metricKey(b.name)))
+    .map(b => ({ ...b, id: null, source }))
+  return [...builtins, ...managed].sort((a, b) => a.name.localeCompare(b.name))
+}
+
+/**
+ * Add `metrics` as aliases of the entry named `target` (saving a built-in
+ * entry to the table first) and re-key their historical rows. Returns how
+ * many rows were renamed, and how many were left because the sample
+ * already had a value under the target name.
+ */
+export async function mergeMetrics(
+  supabase: any,
+  source: string,
+  target: string,
+  metrics: string[]
+): Promise<{ updated: number; skipped: number }> {
+  const table = CATALOGUE_TABLES[source]
+  const entries = await listMetricCatalogue(supabase, source)
+  const entry = entries.find(e => metricKey(e.name) === metricKey(target))
+  if (!table || !entry) throw new Error(`No catalogue entry "${target}"`)
+
+  const aliases = Array.from(new Set([...entry.aliases, ...metrics.map(metricKey)]))
+    .filter(a => a !== metricKey(entry.name))
+  const columns = {
+    category: entry.category ?? null,
+    unit: entry.unit,
+    aliases,
+    equivalent_weight: entry.equivalentWeight ?? null,
+    optimal_min: entry.optimalMin ?? null,
+    optimal_max: entry.optimalMax ?? null,
+    updated_at: new Date().toISOString(),
+  }
+  const { error } = entry.id
+    ? await supabase.from('metric_catalogue').update(columns).eq('id', entry.id)
+    : await supabase.from('metric_catalogue').insert({ ...columns, source, name: entry.name })
+  if (error) throw error
+
+  // Each unit a merged name was stored in converts with its own factor
+  const { data: observed, error: observedError } = await supabase.rpc('distinct_metrics', { p_table_name: table })
+  if (observedError) throw observedError
+  const wanted = new Set(metrics)
+
+  let updated = 0
+  let skipped = 0
+  for (const row of (observed || []) as { metric: string; unit: string }[]) {
+    if (!wanted.has(row.metric) || (row.metric === entry.name && row.unit === entry.unit)) continue
+    const factor = convertValue(1, row.unit, entry.unit, entry.equivalentWeight)
+    const { data, error: rekeyError } = await supabase.rpc('rekey_metric', {
+      p_table_name: table,
+      p_from_metric: row.metric,
+      p_from_unit: row.unit,
+      p_to_metric: entry.name,
+      p_to_unit: entry.unit,
+      p_factor: factor,
+    })
+    if (rekeyError) throw rekeyError
+    updated += data?.updated ?? 0
+    skipped += data?.skipped ?? 0
+  }
+  return { updated, skipped }
+}
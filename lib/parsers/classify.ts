@@ -1,3 +1,6 @@
+import { COLUMN_MAPS, getKnownAliases, type ColumnMapConfig } from './column-maps'
+import { BUILTIN_METRICS, findCanonicalMetric, isKnownUnit } from '../units'
+
 export type FileClassification =
   | 'trialSummary'
   | 'soilHealth'
@@ -38,3 +41,140 @@ export function classifyFile(filename: string): FileClassification {
   }
   return 'unknown'
 }
+
+/** Sheet-name keywords tried after the header signature, most specific first */
+const SHEET_NAME_HINTS: [RegExp, FileClassification][] = [
+  [/tissue|leaf|petiole/, 'tissueChemistry'],
+  [/plot|yield|harvest/, 'plotData'],
+  [/assay|microb/, 'sampleMetadata'],
+  [/chem|nutrient/, 'soilChemistry'],
+]
+
+export interface ClassificationScore {
+  classification: FileClassification
+  /** Share of the headers this type's column map recognises, 0–1 */
+  score: number
+}
+
+export interface ContentClassification {
+  classification: FileClassification
+  /** 0–1; below LOW_CONFIDENCE the user should confirm the type */
+  confidence: number
+  source: 'headers' | 'filename'
+  /** Data types ranked by header score, best first */
+  candidates: ClassificationScore[]
+}
+
+/** Guesses below this are shown to the user to confirm or override */
+export const LOW_CONFIDENCE = 0.7
+/** Scores under this don't count as a match at all */
+const MIN_SCORE = 0.3
+/** Lead over the runner-up needed for the best score to count in full */
+const SCORE_MARGIN = 0.2
+/** A filename keyword that the headers don't back up */
+const FILENAME_ONLY_CONFIDENCE = 0.5
+/** A filename keyword and the headers agreeing */
+const AGREED_CONFIDENCE = 0.9
+
+const knownAliases = new Map<string, Set<string>>()
+
+function recognises(config: ColumnMapConfig, header: string): boolean {
+  let known = knownAliases.get(config.fileType)
+  if (!known) {
+    known = getKnownAliases(config)
+    for (const alias of config.trialIdAliases || []) known.add(alias.toLowerCase())
+    knownAliases.set(config.fileType, known)
+  }
+  if (known.has(header)) return true
+  if (config.pivotMode !== 'wide-to-long') return false
+
+  // Pivoted types read every other column as a metric: count those that
+  // name a catalogue metric or carry a recognised unit
+  const catalogue = BUILTIN_METRICS[config.fileType]
+  if (findCanonicalMetric(catalogue, header)) return true
+  const unit = config.unitPattern && header.match(config.unitPattern)
+  if (!unit) return false
+  return isKnownUnit(unit[1]) || !!findCanonicalMetric(catalogue, header.slice(0, unit.index))
+}
+
+/**
+ * Score a header row against each COLUMN_MAPS config by the share of its
+ * headers the config's aliases (and, for pivoted types, the built-in
+ * metric catalogue) recognise. A type is only scored when the row
+ * identifier — its first identity column, or a barcode — is present, so
+ * a lookup tab of treatments isn't read as plot data.
+ */
+export function scoreHeaders(headers: string[]): ClassificationScore[] {
+  const present = Array.from(new Set(headers.map(h => h.toLowerCase().trim()).filter(Boolean)))
+  if (present.length === 0) return []
+
+  const scores: ClassificationScore[] = []
+  for (const config of Object.values(COLUMN_MAPS)) {
+    const anchored = config.identityColumns.some((c, i) =>
+      (i === 0 || c.dbField === 'barcode') && c.aliases.some(a => present.includes(a.toLowerCase()))
+    )
+    if (!anchored) continue
+    const matched = present.filter(h => recognises(config, h)).length
+    scores.push({ classification: config.fileType as FileClassification, score: matched / present.length })
+  }
+  return scores.sort((a, b) => b.score - a.score)
+}
+
+/** The best-scoring data type for a header row, or unknown */
+export function classifyHeaders(headers: string[]): FileClassification {
+  const [best] = scoreHeaders(headers)
+  return best && best.score >= MIN_SCORE ? best.classification : 'unknown'
+}
+
+/**
+ * Classify a data file by its headers, falling back to the filename.
+ * Confidence is the best header score, discounted when the runner-up is
+ * close behind. A filename keyword that agrees raises it; one the headers
+ * don't support still wins, at low confidence, so the user gets to choose.
+ * Summaries, photos and GIS files are recognised by name alone.
+ */
+export function classifyContent(filename: string, headers: string[]): ContentClassification {
+  const byName = classifyFile(filename)
+  if (byName !== 'unknown' && !isDataClassification(byName)) {
+    return { classification: byName, confidence: 1, source: 'filename', candidates: [] }
+  }
+
+  const candidates = scoreHeaders(headers)
+  const [best, runnerUp] = candidates
+  const guess = best && best.score >= MIN_SCORE ? best : null
+  const headerConfidence = guess
+    ? guess.score * Math.min(1, (guess.score - (runnerUp?.score ?? 0)) / SCORE_MARGIN)
+    : 0
+
+  if (guess && guess.classification === byName) {
+    return { classification: byName, confidence: Math.max(headerConfidence, AGREED_CONFIDENCE), source: 'headers', candidates }
+  }
+  if (guess && byName === 'unknown') {
+    return { classification: guess.classification, confidence: headerConfidence, source: 'headers', candidates }
+  }
+  if (byName !== 'unknown') {
+    return { classification: byName, confidence: FILENAME_ONLY_CONFIDENCE, source: 'filename', candidates }
+  }
+  return { classification: 'unknown', confidence: 0, source: 'headers', candidates }
+}
+
+/**
+ * Classify one worksheet of a workbook: an exact data-file name wins
+ * ("Soil Chemistry"), then the header signature, then looser keywords in
+ * the sheet name ("Leaf tests", "Chem").
+ */
+export function classifySheet(sheetName: string, headers: string[]): FileClassification {
+  const byName = classifyFile(sheetName)
+  if (byName !== 'unknown' && byName !== 'photo' && byName !== 'gis') return byName
+
+  const bySignature = classifyHeaders(headers)
+  if (bySignature !== 'unknown') return bySignature
+
+  const lower = sheetName.toLowerCase()
+  return SHEET_NAME_HINTS.find(([pattern]) => pattern.test(lower))?.[1] ?? 'unknown'
+}
+
+/** Types that load through the upload pipeline (COLUMN_MAPS keys) */
+export function isDataClassification(c: FileClassification): boolean {
+  return c in COLUMN_MAPS
+}
@@ -9,6 +9,8 @@
  * - metadataExclusions (pivotMode='wide-to-long' only): column names to skip during pivot
  * - tableName: target Supabase table
  * - fileType: value for trial_data_files tracking
+ * - validation: row checks run before loading (lib/parsers/validation)
+ * - sampleRegistry: barcode lookup against the sample registry (lib/sample-registry)
  *
  * To support a new column name from a different lab or format,
  * add the alias to the relevant array — no parser code changes needed.
@@ -17,7 +19,39 @@
 export interface ColumnAlias {
   dbField: string
   aliases: string[]
-  type: 'string' | 'number' | 'date'
+  /**
+   * 'depthRange' reads a sampling depth written as one cell ("0-10",
+   * "10–30 cm") into depth_upper_cm and depth_lower_cm, filling whichever
+   * the file doesn't give in columns of their own
+   */
+  type: 'string' | 'number' | 'date' | 'depthRange'
+}
+
+/**
+ * A plausible range for a field. For pivoted types the field is 'value',
+ * narrowed to one metric (canonical name) and/or unit.
+ */
+export interface RangeRule {
+  field: string
+  metric?: string
+  unit?: string
+  min?: number
+  max?: number
+  /** 'error' rejects the row (default); 'warning' loads it and reports it */
+  severity?: 'error' | 'warning'
+}
+
+export interface ValidationRules {
+  /** Fields every row needs; a nested list means any one of them will do */
+  required?: (string | string[])[]
+  ranges?: RangeRule[]
+  /** Field holding a treatment number that must be one of the trial's treatments */
+  treatmentField?: string
+  /**
+   * Field holding a date expected between the trial's planting and harvest
+   * dates, give or take marginDays (baseline and post-harvest sampling)
+   */
+  season?: { field: string; marginDays: number }
 }
 
 export interface ColumnMapConfig {
@@ -27,7 +61,10 @@ export interface ColumnMapConfig {
   identityColumns: ColumnAlias[]
   /** For pivotMode='none': fixed value columns that map 1:1 to DB columns */
   valueColumns?: ColumnAlias[]
-  /** For pivotMode='wide-to-long': extra identity-like columns to exclude from pivoting */
+  /**
+   * Extra identity-like columns: excluded from pivoting in wide-to-long
+   * mode; recognised (kept in raw_data, not flagged for review) otherwise
+   */
   extraIdentityAliases?: string[]
   /** Unit extraction regex for pivot columns — matches e.g. "pH (1:5)" */
   unitPattern?: RegExp
@@ -50,8 +87,38 @@ export interface ColumnMapConfig {
    * varying yield units, hyperspectral layers, etc.).
    */
   allowExtraColumns?: boolean
+  validation?: ValidationRules
+  /**
+   * Resolve rows against the sample registry by the barcode in barcodeField.
+   * marksAnalysed: the rows are lab results, so loading them moves their
+   * samples to 'analysed'.
+   */
+  sampleRegistry?: { barcodeField: string; marksAnalysed: boolean }
 }
 
+/** Lab concentrations can't be negative, and percentages stop at 100 */
+const CONCENTRATION_RANGES: RangeRule[] = [
+  { field: 'value', min: 0 },
+  { field: 'value', unit: '%', max: 100 },
+]
+
+/** Sampling depth in cm: a range column, or separate upper and lower columns */
+const DEPTH_COLUMNS: ColumnAlias[] = [
+  { dbField: 'depth', aliases: ['depth', 'depth (cm)', 'depth cm', 'depth_cm', 'depth range', 'sample depth', 'sampling depth', 'soil depth'], type: 'depthRange' },
+  { dbField: 'depth_upper_cm', aliases: ['depth_upper_cm', 'upper depth', 'upper depth (cm)', 'depth upper', 'depth_upper', 'depth from', 'depth from (cm)', 'depth_from', 'from depth', 'top depth', 'depth top'], type: 'number' },
+  { dbField: 'depth_lower_cm', aliases: ['depth_lower_cm', 'lower depth', 'lower depth (cm)', 'depth lower', 'depth_lower', 'depth to', 'depth to (cm)', 'depth_to', 'to depth', 'bottom depth', 'depth bottom'], type: 'number' },
+]
+
+/** Depths can't be negative; below 3 m is more likely a mistyped unit */
+const DEPTH_RANGES: RangeRule[] = [
+  { field: 'depth_upper_cm', min: 0 },
+  { field: 'depth_lower_cm', min: 0 },
+  { field: 'depth_lower_cm', max: 300, severity: 'warning' },
+]
+
+/** Trailing parenthesised unit, allowing one level of nesting: "CEC (cmol(+)/kg)" */
+const UNIT_PATTERN = /\(((?:[^()]|\([^()]*\))+)\)\s*$/
+
 export const COLUMN_MAPS: Record<string, ColumnMapConfig> = {
   soilHealth: {
     tableName: 'soil_health_samples',
@@ -65,10 +132,23 @@ export const COLUMN_MAPS: Record<string, ColumnMapConfig> = {
       { dbField: 'barcode', aliases: ['barcode', 'bar_code', 'bar code', 'sample barcode', 'sample_barcode', 'samplebarcode'], type: 'string' },
       { dbField: 'latitude', aliases: ['latitude', 'lat'], type: 'number' },
       { dbField: 'longitude', aliases: ['longitude', 'lng', 'lon', 'long'], type: 'number' },
+      ...DEPTH_COLUMNS,
     ],
     valueColumns: [],
+    // Samples taken by plot (as in the trial template) keep the design in raw_data
+    extraIdentityAliases: ['plot', 'plot no', 'plot_no', 'trt', 'trt_number', 'rep', 'replicate'],
     trialIdAliases: ['property', 'farm', 'site'],
-    naturalKeyFields: ['sample_no', 'date', 'property', 'block'],
+    naturalKeyFields: ['sample_no', 'date', 'depth_upper_cm', 'depth_lower_cm'],
+    validation: {
+      required: [['sample_no', 'barcode']],
+      ranges: [
+        { field: 'latitude', min: -90, max: 90 },
+        { field: 'longitude', min: -180, max: 180 },
+        ...DEPTH_RANGES,
+      ],
+      season: { field: 'date', marginDays: 120 },
+    },
+    sampleRegistry: { barcodeField: 'barcode', marksAnalysed: false },
   },
 
   soilChemistry: {
@@ -80,11 +160,25 @@ export const COLUMN_MAPS: Record<string, ColumnMapConfig> = {
       { dbField: 'date', aliases: ['date', 'sample_date', 'collection_date', 'sampling_date'], type: 'date' },
       { dbField: 'block', aliases: ['block', 'paddock', 'zone'], type: 'string' },
       { dbField: 'barcode', aliases: ['barcode', 'bar_code', 'bar code', 'sample barcode', 'sample_barcode', 'samplebarcode'], type: 'string' },
+      ...DEPTH_COLUMNS,
     ],
     extraIdentityAliases: ['property', 'farm', 'site'],
-    unitPattern: /\(([^)]+)\)/,
+    unitPattern: UNIT_PATTERN,
     trialIdAliases: ['grower', 'grower name', 'grower_name'],
-    naturalKeyFields: ['barcode', 'sample_no', 'date', 'metric'],
+    naturalKeyFields: ['sample_no', 'date', 'depth_upper_cm', 'depth_lower_cm', 'metric'],
+    validation: {
+      required: [['sample_no', 'barcode']],
+      ranges: [
+        ...CONCENTRATION_RANGES,
+        ...DEPTH_RANGES,
+        { field: 'value', metric: 'pH (CaCl2)', min: 2, max: 12 },
+        { field: 'value', metric: 'pH (water)', min: 2, max: 12 },
+        { field: 'value', metric: 'EC', unit: 'dS/m', max: 50, severity: 'warning' },
+        { field: 'value', metric: 'Organic Carbon', unit: '%', max: 60, severity: 'warning' },
+      ],
+      season: { field: 'date', marginDays: 120 },
+    },
+    sampleRegistry: { barcodeField: 'barcode', marksAnalysed: true },
   },
 
   plotData: {
@@ -109,6 +203,16 @@ export const COLUMN_MAPS: Record<string, ColumnMapConfig> = {
     ],
     trialIdAliases: ['trial', 'trial id', 'trial_id', 'trial no', 'trial no.', 'trial number', 'trial code'],
     naturalKeyFields: ['plot', 'trt_number', 'rep'],
+    validation: {
+      required: ['plot'],
+      ranges: [
+        { field: 'yield_t_ha', min: 0 },
+        { field: 'yield_t_ha', max: 200, severity: 'warning' },
+        { field: 'plant_count', min: 0 },
+        { field: 'disease_score', min: 0 },
+      ],
+      treatmentField: 'trt_number',
+    },
   },
 
   tissueChemistry: {
@@ -122,9 +226,15 @@ export const COLUMN_MAPS: Record<string, ColumnMapConfig> = {
       { dbField: 'barcode', aliases: ['barcode', 'bar_code', 'bar code', 'sample barcode', 'sample_barcode', 'samplebarcode'], type: 'string' },
     ],
     extraIdentityAliases: [],
-    unitPattern: /\(([^)]+)\)/,
+    unitPattern: UNIT_PATTERN,
     trialIdAliases: ['grower', 'grower name', 'grower_name'],
-    naturalKeyFields: ['barcode', 'sample_no', 'date', 'tissue_type', 'metric'],
+    naturalKeyFields: ['sample_no', 'date', 'tissue_type', 'metric'],
+    validation: {
+      required: [['sample_no', 'barcode']],
+      ranges: CONCENTRATION_RANGES,
+      season: { field: 'date', marginDays: 30 },
+    },
+    sampleRegistry: { barcodeField: 'barcode', marksAnalysed: true },
   },
 
   sampleMetadata: {
@@ -140,8 +250,14 @@ export const COLUMN_MAPS: Record<string, ColumnMapConfig> = {
       { dbField: 'barcode', aliases: ['barcode', 'bar_code', 'bar code', 'sample barcode', 'sample_barcode', 'samplebarcode'], type: 'string' },
     ],
     extraIdentityAliases: ['rep', 'replicate', 'property', 'farm', 'site'],
-    unitPattern: /\(([^)]+)\)/,
-    naturalKeyFields: ['assay_type', 'barcode', 'sample_no', 'date', 'metric'],
+    unitPattern: UNIT_PATTERN,
+    naturalKeyFields: ['assay_type', 'sample_no', 'metric'],
+    validation: {
+      required: [['sample_no', 'barcode']],
+      treatmentField: 'treatment',
+      season: { field: 'date', marginDays: 120 },
+    },
+    sampleRegistry: { barcodeField: 'barcode', marksAnalysed: true },
   },
 }
 
@@ -7,9 +7,18 @@
  * - 'wide-to-long': pivot (1 source row → N DB rows, one per numeric metric column)
  *
  * Also detects unmapped columns so the UI can prompt users to review them.
+ *
+ * Values reported against a detection limit ("<0.5", ">2000") are censored:
+ * the limit is kept as the value and flagged — on the row for pivoted
+ * metrics, in raw_data.__censored for direct-mode columns.
+ *
+ * A sampling depth written as a range ("0-10", "10–30 cm") is split into
+ * depth_upper_cm and depth_lower_cm.
  */
 
 import { type ColumnMapConfig, type ColumnAlias, getKnownAliases } from './column-maps'
+import type { DateFormat } from '../import-profiles'
+import { canonicalMeasurement, catalogueFor, type CanonicalMetric } from '../units'
 
 export interface ParseResult {
   /** Rows ready for database insertion (without trial_id — caller adds that) */
@@ -20,6 +29,23 @@ export interface ParseResult {
   unmappedColumns: string[]
   /** The column mapping that was applied (for storing in raw_uploads) */
   appliedMap: Record<string, string>
+  /** Index into the raw rows of each output row */
+  sourceRows: number[]
+  /** Pivoted cells that weren't numbers ("ND", "n/a"), so produced no row */
+  skippedValues: { row: number; column: string; value: string }[]
+}
+
+/** Direction of a censored value: below or above the detection limit */
+export type Censored = '<' | '>'
+
+/** Format details from an import profile */
+export interface ParseHints {
+  /** { lowercasedHeader: unit } — used for pivoted metrics whose header has no unit */
+  units?: Record<string, string>
+  /** How ambiguous numeric dates are written (default DD/MM/YYYY) */
+  dateFormat?: DateFormat
+  /** Metric catalogue to resolve pivoted metrics against (default: the built-in one) */
+  catalogue?: CanonicalMetric[]
 }
 
 /**
@@ -31,15 +57,20 @@ export interface ParseResult {
  * @param overrides - Optional column mapping overrides from user review
  *                    (e.g. { "my weird col": "sample_no" })
  * @param extraDefaults - Extra default values (e.g. { assay_type: 'soilHealthChemistry' })
+ * @param hints - Units and date format from the file's import profile
  */
 export function genericParse(
   rawRows: Record<string, any>[],
   config: ColumnMapConfig,
   overrides?: Record<string, string>,
-  extraDefaults?: Record<string, any>
+  extraDefaults?: Record<string, any>,
+  hints?: ParseHints
 ): ParseResult {
   if (rawRows.length === 0) {
-    return { rows: [], headers: [], unmappedColumns: [], appliedMap: {} }
+    return {
+      rows: [], headers: [], unmappedColumns: [], appliedMap: {},
+      sourceRows: [], skippedValues: [],
+    }
   }
 
   const headers = Object.keys(rawRows[0])
@@ -62,15 +93,22 @@ export function genericParse(
   }
 
   const rows: Record<string, any>[] = []
+  const sourceRows: number[] = []
+  const skippedValues: ParseResult['skippedValues'] = []
 
   if (config.pivotMode === 'none') {
-    for (const raw of rawRows) {
-      rows.push(mapDirectRow(raw, headers, headerMap, config, extraDefaults))
-    }
+    rawRows.forEach((raw, i) => {
+      rows.push(mapDirectRow(raw, headers, headerMap, config, extraDefaults, hints))
+      sourceRows.push(i)
+    })
   } else {
-    for (const raw of rawRows) {
-      rows.push(...mapPivotRow(raw, headers, headerMap, config, extraDefaults))
-    }
+    rawRows.forEach((raw, i) => {
+      const pivoted = mapPivotRow(raw, headers, headerMap, config, extraDefaults, hints, skipped => {
+        skippedValues.push({ row: i, ...skipped })
+      })
+      rows.push(...pivoted)
+      for (let n = 0; n < pivoted.length; n++) sourceRows.push(i)
+    })
   }
 
   return {
@@ -78,9 +116,24 @@ export function genericParse(
     headers,
     unmappedColumns,
     appliedMap: headerMap,
+    sourceRows,
+    skippedValues,
   }
 }
 
+/**
+ * How many censored ("<0.5") values the rows carry: a pivoted row's
+ * censored flag, and the flagged columns of a direct-mode row
+ */
+export function countCensored(rows: Record<string, any>[]): number {
+  let n = 0
+  for (const row of rows) {
+    if (row.censored) n++
+    n += Object.keys(row.raw_data?.__censored ?? {}).length
+  }
+  return n
+}
+
 /**
  * Resolve file headers to DB field names using the column map + optional overrides.
  * Returns { lowercasedHeader: dbFieldName }
@@ -144,13 +197,39 @@ function resolveHeaders(
   return map
 }
 
+/**
+ * Identity fields of a row. A depth range column ("0-10") fills the depth
+ * fields the file doesn't give in upper/lower columns of their own.
+ */
+function mapIdentity(
+  raw: Record<string, any>,
+  headers: string[],
+  headerMap: Record<string, string>,
+  config: ColumnMapConfig,
+  hints?: ParseHints
+): Record<string, any> {
+  const out: Record<string, any> = {}
+  for (const col of config.identityColumns) {
+    if (col.type !== 'depthRange') out[col.dbField] = resolveValue(raw, headers, headerMap, col, hints?.dateFormat)
+  }
+  for (const col of config.identityColumns) {
+    if (col.type !== 'depthRange') continue
+    const range = parseDepthRange(resolveValue(raw, headers, headerMap, col))
+    if (!range) continue
+    if (out.depth_upper_cm == null) out.depth_upper_cm = range.upper
+    if (out.depth_lower_cm == null) out.depth_lower_cm = range.lower
+  }
+  return out
+}
+
 /** Direct row mapping: 1 source row → 1 DB row */
 function mapDirectRow(
   raw: Record<string, any>,
   headers: string[],
   headerMap: Record<string, string>,
   config: ColumnMapConfig,
-  extraDefaults?: Record<string, any>
+  extraDefaults?: Record<string, any>,
+  hints?: ParseHints
 ): Record<string, any> {
   const out: Record<string, any> = { raw_data: raw }
 
@@ -160,15 +239,16 @@ function mapDirectRow(
   }
 
   // Map identity columns
-  for (const col of config.identityColumns) {
-    out[col.dbField] = resolveValue(raw, headers, headerMap, col)
-  }
+  Object.assign(out, mapIdentity(raw, headers, headerMap, config, hints))
 
-  // Map value columns
+  // Map value columns. A value reported against a detection limit is
+  // stored as the limit, its direction kept in raw_data.__censored by column
   if (config.valueColumns) {
+    const censored: Record<string, Censored> = {}
     for (const col of config.valueColumns) {
-      out[col.dbField] = resolveValue(raw, headers, headerMap, col)
+      out[col.dbField] = resolveValue(raw, headers, headerMap, col, hints?.dateFormat, dir => { censored[col.dbField] = dir })
     }
+    if (Object.keys(censored).length > 0) out.raw_data = { ...raw, __censored: censored }
   }
 
   return out
@@ -180,7 +260,9 @@ function mapPivotRow(
   headers: string[],
   headerMap: Record<string, string>,
   config: ColumnMapConfig,
-  extraDefaults?: Record<string, any>
+  extraDefaults?: Record<string, any>,
+  hints?: ParseHints,
+  onSkipped?: (cell: { column: string; value: string }) => void
 ): Record<string, any>[] {
   // Extract identity values
   const identity: Record<string, any> = {}
@@ -188,9 +270,7 @@ function mapPivotRow(
     Object.assign(identity, extraDefaults)
   }
 
-  for (const col of config.identityColumns) {
-    identity[col.dbField] = resolveValue(raw, headers, headerMap, col)
-  }
+  Object.assign(identity, mapIdentity(raw, headers, headerMap, config, hints))
 
   // Build the set of all identity/excluded header keys (lowercased)
   const excludedKeys = new Set<string>()
@@ -208,6 +288,7 @@ function mapPivotRow(
   // Pivot: every remaining column with a numeric value becomes a metric row
   const rows: Record<string, any>[] = []
   const unitPattern = config.unitPattern || /\(([^)]+)\)/
+  const catalogue = hints?.catalogue ?? catalogueFor(config.fileType)
 
   for (const h of headers) {
     const lh = h.toLowerCase().trim()
@@ -219,20 +300,28 @@ function mapPivotRow(
     const val = raw[h]
     if (val === undefined || val === null || val === '') continue
 
-    const numVal = parseFloat(String(val))
-    if (isNaN(numVal)) continue
+    const { value: numVal, censored } = parseNumber(val)
+    if (numVal === null) {
+      onSkipped?.({ column: h, value: String(val) })
+      continue
+    }
 
-    // Extract unit from header name if present
+    // Extract unit from header name if present, else take the profile's
     const unitMatch = h.match(unitPattern)
-    const unit = unitMatch ? unitMatch[1] : ''
-    const metric = h.replace(/\s*\([^)]+\)\s*/, '').trim()
+    const unit = unitMatch ? unitMatch[1] : (hints?.units?.[lh] ?? '')
+    const metric = unitMatch ? h.replace(unitMatch[0], '').trim() : h.trim()
+
+    // Canonical metric name and unit; the value as read is kept in raw_data
+    const measurement = canonicalMeasurement({ metric, value: numVal, unit }, catalogue)
+    const changed = measurement.metric !== metric || measurement.value !== numVal || measurement.unit !== unit
 
     rows.push({
       ...identity,
-      metric,
-      value: numVal,
-      unit,
-      raw_data: raw,
+      metric: measurement.metric,
+      value: measurement.value,
+      unit: measurement.unit,
+      censored,
+      raw_data: changed ? { ...raw, __original: { metric, value: numVal, unit } } : raw,
     })
   }
 
@@ -244,14 +333,16 @@ function resolveValue(
   raw: Record<string, any>,
   headers: string[],
   headerMap: Record<string, string>,
-  col: ColumnAlias
+  col: ColumnAlias,
+  dateFormat?: DateFormat,
+  onCensored?: (censored: Censored) => void
 ): any {
   // Find which header maps to this db field
   for (const h of headers) {
     const lh = h.toLowerCase().trim()
     if (headerMap[lh] === col.dbField) {
       const val = raw[h]
-      return coerceValue(val, col.type)
+      return coerceValue(val, col.type, dateFormat, onCensored)
     }
   }
 
@@ -260,7 +351,7 @@ function resolveValue(
     for (const h of headers) {
       if (h.toLowerCase().trim() === alias) {
         const val = raw[h]
-        return coerceValue(val, col.type)
+        return coerceValue(val, col.type, dateFormat, onCensored)
       }
     }
   }
@@ -269,28 +360,75 @@ function resolveValue(
   return col.type === 'number' ? null : col.type === 'date' ? null : ''
 }
 
-/** Try DD/MM/YYYY or D/M/YYYY format (common in AU/NZ agriculture data) */
-function parseDDMMYYYY(s: string): Date | null {
-  const m = s.match(/^(\d{1,2})[/\-.](\d{1,2})[/\-.](\d{4})$/)
-  if (!m) return null
-  const day = parseInt(m[1], 10)
-  const month = parseInt(m[2], 10)
-  const year = parseInt(m[3], 10)
-  // Validate ranges — prefer DD/MM (AU convention) for ambiguous dates
+/**
+ * Parse a numeric date written in the given field order with /, - or .
+ * separators. DD/MM/YYYY (the AU/NZ convention) is the default.
+ */
+function parseNumericDate(s: string, format: DateFormat = 'DD/MM/YYYY'): Date | null {
+  let year: number, month: number, day: number
+  if (format === 'YYYY-MM-DD') {
+    const m = s.match(/^(\d{4})[/\-.](\d{1,2})[/\-.](\d{1,2})$/)
+    if (!m) return null
+    ;[year, month, day] = [parseInt(m[1], 10), parseInt(m[2], 10), parseInt(m[3], 10)]
+  } else {
+    const m = s.match(/^(\d{1,2})[/\-.](\d{1,2})[/\-.](\d{4})$/)
+    if (!m) return null
+    const [a, b] = [parseInt(m[1], 10), parseInt(m[2], 10)]
+    ;[day, month] = format === 'MM/DD/YYYY' ? [b, a] : [a, b]
+    year = parseInt(m[3], 10)
+  }
   if (month < 1 || month > 12 || day < 1 || day > 31) return null
-  const d = new Date(year, month - 1, day)
-  if (d.getFullYear() !== year || d.getMonth() !== month - 1 || d.getDate() !== day) return null
+  const d = new Date(Date.UTC(year, month - 1, day))
+  if (d.getUTCFullYear() !== year || d.getUTCMonth() !== month - 1 || d.getUTCDate() !== day) return null
   return d
 }
 
-function coerceValue(val: any, type: 'string' | 'number' | 'date'): any {
+/**
+ * Read a numeric cell, recognising a detection-limit prefix: "<0.5",
+ * "< 0.5", "<=0.5" and "≤0.5" are below 0.5; ">", ">=" and "≥" above.
+ * Anything else that doesn't start with a number is null.
+ */
+export function parseNumber(val: unknown): { value: number | null; censored: Censored | null } {
+  const s = String(val ?? '').trim()
+  const limit = s.match(/^([<>≤≥])\s*=?\s*([-+]?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?)/i)
+  if (limit) {
+    return { value: parseFloat(limit[2]), censored: limit[1] === '<' || limit[1] === '≤' ? '<' : '>' }
+  }
+  const n = parseFloat(s)
+  return { value: isNaN(n) ? null : n, censored: null }
+}
+
+/**
+ * A sampling depth range, in cm: "0-10", "10 – 30cm", "0 to 100 mm"
+ * (converted), or "60+" with no lower bound. A single depth ("10",
+ * "10 cm") is read as the upper bound only. null for anything else.
+ */
+export function parseDepthRange(val: unknown): { upper: number; lower: number | null } | null {
+  const s = String(val ?? '').trim().toLowerCase()
+  const m = s.match(/^(\d+(?:\.\d+)?)\s*(?:(?:-|–|—|to)\s*(\d+(?:\.\d+)?)|(\+))?\s*(cm|mm|m)?$/)
+  if (!m) return null
+  const toCm = (n: string) => m[4] === 'mm' ? parseFloat(n) / 10 : m[4] === 'm' ? parseFloat(n) * 100 : parseFloat(n)
+  return { upper: toCm(m[1]), lower: m[2] ? toCm(m[2]) : null }
+}
+
+function coerceValue(
+  val: any,
+  type: ColumnAlias['type'],
+  dateFormat?: DateFormat,
+  onCensored?: (censored: Censored) => void
+): any {
   if (val === undefined || val === null || val === '') {
     return type === 'string' ? '' : null
   }
 
   if (type === 'number') {
-    const n = parseFloat(String(val))
-    return isNaN(n) ? null : n
+    // A value reported against a limit is kept only where the caller
+    // records the flag; otherwise it's left blank rather than read as measured
+    const { value, censored } = parseNumber(val)
+    if (!censored) return value
+    if (!onCensored) return null
+    onCensored(censored)
+    return value
   }
 
   if (type === 'date') {
@@ -301,9 +439,9 @@ function coerceValue(val: any, type: 'string' | 'number' | 'date'): any {
       const d = new Date(s)
       if (!isNaN(d.getTime())) return d.toISOString().split('T')[0]
     }
-    // Try DD/MM/YYYY (AU locale convention)
-    const auDate = parseDDMMYYYY(s)
-    if (auDate) return auDate.toISOString().split('T')[0]
+    // Try the profile's numeric format (DD/MM/YYYY, the AU convention, by default)
+    const numeric = parseNumericDate(s, dateFormat)
+    if (numeric) return numeric.toISOString().split('T')[0]
     // Fallback: JS Date constructor for other formats
     const d = new Date(s)
     if (!isNaN(d.getTime())) return d.toISOString().split('T')[0]
@@ -27,6 +27,8 @@ interface TreatmentRow {
 export interface TrialSummaryResult {
   metadata: TrialMetadata
   treatments: TreatmentRow[]
+  /** The sheet the summary was read from */
+  sheetName: string
 }
 
 export function parseTrialSummary(buffer: ArrayBuffer): TrialSummaryResult {
@@ -144,5 +146,6 @@ export function parseTrialSummary(buffer: ArrayBuffer): TrialSummaryResult {
       reps: parseInt(metadata.reps || '0') || 1,
     },
     treatments,
+    sheetName,
   }
 }
@@ -0,0 +1,116 @@
+/**
+ * Turns a raw cell grid (CSV lines or a worksheet) into headers and row
+ * objects, for lab exports that aren't tidy tables:
+ *
+ * - a logo, report title or client block above the header row
+ * - the unit on its own row under the metric name ("Nitrate-N" / "mg/kg"),
+ *   merged into "Nitrate-N (mg/kg)" so the pivot reads the unit as usual
+ * - summary rows (Mean, LSD, CV%) and trailing notes below the data
+ */
+
+import { isKnownUnit } from '../units'
+
+/** How far down to look for the header row */
+const SCAN_ROWS = 25
+
+/** A unit written on its own: "(mg/kg)", "[%]" or a recognised unit */
+const BRACKETED = /^[([](.+)[)\]]$/
+
+/** Statistics rows labs append under the samples */
+const SUMMARY_LABEL = /^(total|sum|mean|average|avg|median|min|max|minimum|maximum|range|sd|se|sem|std dev|std\. dev\.|standard deviation|standard error|cv|lsd|l\.s\.d\.|p value|p-value)\s*(\(.*\)|%|:)?$/i
+
+const cellText = (v: unknown) => String(v ?? '').trim()
+
+/** Text that names something, as opposed to a number, date or "<0.5" */
+const isLabel = (s: string) => /[a-z]/i.test(s) && !/^[<>≤≥]/.test(s)
+
+function unitOf(cell: string): string | null {
+  const bracketed = cell.match(BRACKETED)
+  if (bracketed) return bracketed[1].trim()
+  return isKnownUnit(cell) ? cell : null
+}
+
+/**
+ * The header row: the first row at least half as wide as the table whose
+ * cells are mostly labels. Title and client-detail rows are narrower; data
+ * rows are mostly numbers.
+ */
+export function detectHeaderRow(grid: unknown[][]): number {
+  const scan = grid.slice(0, SCAN_ROWS).map(row => row.map(cellText).filter(Boolean))
+  const width = Math.max(0, ...scan.map(cells => cells.length))
+  const minCells = Math.max(2, Math.ceil(width / 2))
+
+  for (let r = 0; r < scan.length; r++) {
+    const cells = scan[r]
+    if (cells.length < minCells) continue
+    if (cells.filter(isLabel).length / cells.length >= 0.7) return r
+  }
+  return 0
+}
+
+/** A row directly under the header holding only units */
+function isUnitRow(cells: string[]): boolean {
+  const filled = cells.filter(Boolean)
+  return filled.length > 0 && filled.every(c => unitOf(c) !== null)
+}
+
+function isFooterRow(cells: string[]): boolean {
+  const first = cells.find(Boolean)
+  return !!first && SUMMARY_LABEL.test(first)
+}
+
+function isNoteRow(cells: string[]): boolean {
+  const filled = cells.filter(Boolean)
+  return filled.length === 1 && (/^(\*|note)/i.test(filled[0]) || /\S+\s+\S+\s+\S+/.test(filled[0]))
+}
+
+/**
+ * Read a grid into headers and rows. headerRowOffset pins the header row
+ * (from an import profile); without it the row is detected. Blank header
+ * cells over data become "Column N"; repeated headers get "_1", "_2".
+ */
+export function tabulate(
+  grid: unknown[][],
+  headerRowOffset = 0
+): { rows: Record<string, string>[]; headers: string[] } {
+  const headerRow = headerRowOffset > 0 ? headerRowOffset : detectHeaderRow(grid)
+  const names = (grid[headerRow] || []).map(cellText)
+  let body = grid.slice(headerRow + 1).map(row => row.map(cellText))
+
+  // Stacked header: metric name above its unit
+  if (body.length > 0 && isUnitRow(body[0])) {
+    body[0].forEach((cell, c) => {
+      const unit = cell ? unitOf(cell) : null
+      if (unit && names[c]) names[c] = `${names[c]} (${unit})`
+    })
+    body = body.slice(1)
+  }
+
+  body = body.filter(cells => cells.some(Boolean) && !isFooterRow(cells))
+  // Trailing notes ("Results relate to samples as received") are a single
+  // cell of prose, unlike a sample row with its values missing
+  while (body.length > 0 && isNoteRow(body[body.length - 1])) body.pop()
+
+  const width = body.reduce((w, cells) => Math.max(w, cells.length), names.length)
+  const headers: string[] = []
+  const columns: number[] = []
+  const seen = new Map<string, number>()
+  for (let c = 0; c < width; c++) {
+    let name = names[c] || ''
+    if (!name) {
+      if (!body.some(cells => cells[c])) continue
+      name = `Column ${c + 1}`
+    }
+    const count = seen.get(name) ?? 0
+    seen.set(name, count + 1)
+    headers.push(count > 0 ? `${name}_${count}` : name)
+    columns.push(c)
+  }
+
+  const rows = body.map(cells => {
+    const out: Record<string, string> = {}
+    headers.forEach((h, i) => { out[h] = cells[columns[i]] ?? '' })
+    return out
+  })
+  return { rows, headers }
+}
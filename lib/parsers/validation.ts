@@ -0,0 +1,230 @@
+/**
+ * Row-level validation for the upload pipeline, driven by each data type's
+ * `validation` rules in COLUMN_MAPS: required fields, plausible ranges,
+ * treatment numbers the trial actually has, and dates inside the trial
+ * season. Values the parser couldn't read are reported here too, rather
+ * than quietly left blank or skipped. Types resolved against the sample
+ * registry also have their barcodes checked: one registered to another
+ * trial is an error, and one missing from a trial that uses the registry
+ * is a warning.
+ *
+ * Errors keep a row out of the load (for pivoted types, the one metric
+ * value, or all of them when the row's identifier is missing); warnings
+ * load it. Issues are reported against the source row, and source rows
+ * with an error are returned as read for a rejected-rows CSV.
+ */
+
+import type { ColumnMapConfig, RangeRule } from './column-maps'
+import type { ParseResult } from './generic-parser'
+import { metricKey } from '../units'
+import type { RegisteredSample } from '../sample-registry'
+
+export interface RowIssue {
+  /** 1-based data row, counting from the first row under the header */
+  row: number
+  field: string
+  value: string
+  message: string
+  severity: 'error' | 'warning'
+}
+
+export interface ValidationReport {
+  errors: number
+  warnings: number
+  /** Source rows with at least one error */
+  rejected: number
+  /** In row order, capped at MAX_ISSUES */
+  issues: RowIssue[]
+  /** Rejected source rows as read, plus an "Issues" column; capped at MAX_REJECTED */
+  rejectedRows: Record<string, string>[]
+}
+
+export interface ValidationContext {
+  trialId: string
+  /** The trial's treatment numbers; empty skips the treatment check */
+  treatments: number[]
+  plantingDate: string | null
+  harvestDate: string | null
+  /** Registered samples for the file's barcodes, by barcode */
+  registry: Map<string, RegisteredSample>
+  /** Whether the trial has registered samples; if not, unknown barcodes aren't flagged */
+  registryInUse: boolean
+}
+
+const MAX_ISSUES = 500
+const MAX_REJECTED = 5000
+const DAY_MS = 86_400_000
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/
+
+type Issue = Omit<RowIssue, 'row'>
+
+const isBlank = (v: unknown) => v == null || v === ''
+
+function describeRange(rule: RangeRule): string {
+  if (rule.min != null && rule.max != null) return `between ${rule.min} and ${rule.max}`
+  return rule.min != null ? `at least ${rule.min}` : `at most ${rule.max}`
+}
+
+function shiftDate(iso: string, days: number): string {
+  return new Date(new Date(iso).getTime() + days * DAY_MS).toISOString().split('T')[0]
+}
+
+/** Checks on one output row against the config's rules */
+function checkRow(row: Record<string, any>, config: ColumnMapConfig, context: ValidationContext): Issue[] {
+  const rules = config.validation
+  const issues: Issue[] = []
+
+  for (const col of config.identityColumns) {
+    const v = row[col.dbField]
+    if (col.type === 'date' && !isBlank(v) && !ISO_DATE.test(String(v))) {
+      issues.push({ field: col.dbField, value: String(v), message: `"${v}" isn't a date`, severity: 'error' })
+    }
+  }
+
+  if (config.sampleRegistry) {
+    const field = config.sampleRegistry.barcodeField
+    const v = row[field]
+    const sample = isBlank(v) ? undefined : context.registry.get(String(v))
+    if (sample && sample.trialId !== context.trialId) {
+      issues.push({ field, value: String(v), message: `Barcode ${v} is registered to trial ${sample.trialId}`, severity: 'error' })
+    } else if (sample?.status === 'discarded') {
+      issues.push({ field, value: String(v), message: `Sample ${v} was discarded`, severity: 'warning' })
+    } else if (!sample && !isBlank(v) && context.registryInUse) {
+      issues.push({ field, value: String(v), message: `Barcode ${v} isn't in the sample registry`, severity: 'warning' })
+    }
+  }
+
+  if (!rules) return issues
+
+  for (const required of rules.required || []) {
+    const fields = Array.isArray(required) ? required : [required]
+    if (fields.every(f => isBlank(row[f]))) {
+      issues.push({ field: fields[0], value: '', message: `Missing ${fields.join(' or ')}`, severity: 'error' })
+    }
+  }
+
+  for (const rule of rules.ranges || []) {
+    if (rule.metric && metricKey(String(row.metric ?? '')) !== metricKey(rule.metric)) continue
+    if (rule.unit && row.unit !== rule.unit) continue
+    const v = row[rule.field]
+    if (typeof v !== 'number') continue
+    if ((rule.min != null && v < rule.min) || (rule.max != null && v > rule.max)) {
+      const label = config.pivotMode === 'wide-to-long' && rule.field === 'value' ? row.metric : rule.field
+      issues.push({
+        field: label,
+        value: String(v),
+        message: `${label} ${v}${row.unit && rule.field === 'value' ? ` ${row.unit}` : ''} should be ${describeRange(rule)}`,
+        severity: rule.severity ?? 'error',
+      })
+    }
+  }
+
+  if (rules.treatmentField && context.treatments.length > 0) {
+    const v = row[rules.treatmentField]
+    if (!isBlank(v) && !context.treatments.includes(Number(v))) {
+      issues.push({
+        field: rules.treatmentField,
+        value: String(v),
+        message: `Treatment ${v} isn't one of this trial's treatments`,
+        severity: 'error',
+      })
+    }
+  }
+
+  if (rules.season && (context.plantingDate || context.harvestDate)) {
+    const v = row[rules.season.field]
+    if (!isBlank(v) && ISO_DATE.test(String(v))) {
+      const start = context.plantingDate && shiftDate(context.plantingDate, -rules.season.marginDays)
+      const end = context.harvestDate && shiftDate(context.harvestDate, rules.season.marginDays)
+      if ((start && v < start) || (end && v > end)) {
+        issues.push({
+          field: rules.season.field,
+          value: String(v),
+          message: `${v} is outside the trial season (${context.plantingDate ?? '…'} to ${context.harvestDate ?? '…'})`,
+          severity: 'warning',
+        })
+      }
+    }
+  }
+
+  return issues
+}
+
+/** Direct-mode numeric cells that were present but couldn't be read */
+function unreadableCells(
+  raw: Record<string, any>,
+  row: Record<string, any>,
+  config: ColumnMapConfig,
+  appliedMap: Record<string, string>
+): Issue[] {
+  const issues: Issue[] = []
+  const columns = [...config.identityColumns, ...(config.valueColumns || [])].filter(c => c.type === 'number')
+  for (const col of columns) {
+    const header = Object.keys(raw).find(h => appliedMap[h.toLowerCase().trim()] === col.dbField)
+    if (!header || isBlank(raw[header]) || row[col.dbField] != null) continue
+    issues.push({
+      field: col.dbField,
+      value: String(raw[header]),
+      message: `"${raw[header]}" isn't a number — left blank`,
+      severity: 'warning',
+    })
+  }
+  return issues
+}
+
+/**
+ * Check parsed rows against the config's rules. Returns the rows that pass
+ * (warnings included) and the report.
+ */
+export function validateRows(
+  parsed: ParseResult,
+  rawRows: Record<string, any>[],
+  config: ColumnMapConfig,
+  context: ValidationContext
+): { rows: Record<string, any>[]; report: ValidationReport } {
+  const bySource = new Map<number, Issue[]>()
+  const add = (source: number, issues: Issue[]) => {
+    if (issues.length === 0) return
+    const list = bySource.get(source) ?? []
+    // Pivoted rows repeat identity problems once per metric; report them once
+    for (const issue of issues) {
+      if (!list.some(i => i.field === issue.field && i.message === issue.message)) list.push(issue)
+    }
+    bySource.set(source, list)
+  }
+
+  const rows: Record<string, any>[] = []
+  parsed.rows.forEach((row, i) => {
+    const source = parsed.sourceRows[i]
+    const issues = checkRow(row, config, context)
+    if (config.pivotMode === 'none') issues.push(...unreadableCells(rawRows[source], row, config, parsed.appliedMap))
+    add(source, issues)
+    if (!issues.some(issue => issue.severity === 'error')) rows.push(row)
+  })
+  for (const cell of parsed.skippedValues) {
+    add(cell.row, [{
+      field: cell.column,
+      value: cell.value,
+      message: `${cell.column}: "${cell.value}" isn't a number — skipped`,
+      severity: 'warning',
+    }])
+  }
+
+  const report: ValidationReport = { errors: 0, warnings: 0, rejected: 0, issues: [], rejectedRows: [] }
+  for (const source of Array.from(bySource.keys()).sort((a, b) => a - b)) {
+    const issues = bySource.get(source)!
+    const errors = issues.filter(i => i.severity === 'error')
+    report.errors += errors.length
+    report.warnings += issues.length - errors.length
+    for (const issue of issues) {
+      if (report.issues.length < MAX_ISSUES) report.issues.push({ row: source + 1, ...issue })
+    }
+    if (errors.length > 0) {
+      report.rejected++
+      if (report.rejectedRows.length < MAX_REJECTED) {
+        report.rejectedRows.push({ ...rawRows[source], Issues: errors.map(e => e.message).join('; ') })
+      }
+    }
+  }
+  return { rows, report }
+}
@@ -0,0 +1,282 @@
+/**
+ * Vector charts for PDF reports, drawn straight onto a PdfDocument.
+ * Each function draws inside the box (x, y, width, height), top-left origin.
+ */
+
+import type { PdfDocument } from './document'
+
+export const CHART_COLORS = [
+  '#008BCE', '#00BB7E', '#006AC6', '#009775', '#004C97',
+  '#e67e22', '#99F0FA', '#B9EFA3', '#161F28', '#B9BCBF',
+]
+
+const AXIS = '#B9BCBF'
+const GRID = '#DCDDDF'
+const INK = '#161F28'
+
+/** Round-number axis ticks covering [min, max] */
+export function niceTicks(min: number, max: number, count = 5): number[] {
+  if (!isFinite(min) || !isFinite(max)) return [0, 1]
+  if (min === max) {
+    const pad = Math.abs(min) * 0.1 || 1
+    min -= pad
+    max += pad
+  }
+  const raw = (max - min) / count
+  const mag = 10 ** Math.floor(Math.log10(raw))
+  const step = [1, 2, 2.5, 5, 10].map(m => m * mag).find(s => s >= raw) ?? 10 * mag
+  const ticks: number[] = []
+  for (let v = Math.floor(min / step) * step; v <= max + step * 1e-9; v += step) {
+    ticks.push(Math.round(v / step) * step)
+  }
+  if (ticks[ticks.length - 1] < max) ticks.push(ticks[ticks.length - 1] + step)
+  return ticks
+}
+
+function formatTick(v: number): string {
+  if (v === 0) return '0'
+  const abs = Math.abs(v)
+  if (abs >= 1000) return v.toFixed(0)
+  if (abs >= 10) return v.toFixed(abs % 1 === 0 ? 0 : 1)
+  return String(Number(v.toPrecision(3)))
+}
+
+function yAxis(doc: PdfDocument, x: number, top: number, height: number, ticks: number[], width: number, label?: string) {
+  const lo = ticks[0]
+  const hi = ticks[ticks.length - 1]
+  for (const t of ticks) {
+    const ty = top + height - ((t - lo) / (hi - lo)) * height
+    doc.line(x, ty, x + width, ty, { stroke: GRID, lineWidth: 0.5 })
+    doc.text(formatTick(t), x - 4, ty + 2.5, { size: 7, color: INK, align: 'right' })
+  }
+  if (label) doc.text(label, x - 30, top + height / 2, { size: 7, color: AXIS, rotate: 90, align: 'center' })
+}
+
+export interface BarDatum {
+  label: string
+  value: number
+  error?: number | null
+  /** Annotation above the bar, e.g. a Tukey letter */
+  note?: string | null
+  color?: string
+}
+
+/** Vertical bar chart with optional ± error bars and annotations */
+export function barChart(
+  doc: PdfDocument,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  bars: BarDatum[],
+  opts: { yLabel?: string } = {}
+): void {
+  if (bars.length === 0) return
+  const plotX = x + 40
+  const plotW = width - 45
+  const labelH = 26
+  const plotTop = y + 12
+  const plotH = height - labelH - 12
+
+  const tops = bars.map(b => b.value + (b.error ?? 0))
+  const bottoms = bars.map(b => b.value - (b.error ?? 0))
+  const ticks = niceTicks(Math.min(0, ...bottoms), Math.max(0, ...tops))
+  const lo = ticks[0]
+  const hi = ticks[ticks.length - 1]
+  const toY = (v: number) => plotTop + plotH - ((v - lo) / (hi - lo)) * plotH
+
+  yAxis(doc, plotX, plotTop, plotH, ticks, plotW, opts.yLabel)
+  doc.line(plotX, toY(0), plotX + plotW, toY(0), { stroke: AXIS, lineWidth: 0.75 })
+
+  const slot = plotW / bars.length
+  const barW = Math.min(40, slot * 0.6)
+  bars.forEach((b, i) => {
+    const cx = plotX + slot * (i + 0.5)
+    const y0 = toY(0)
+    const y1 = toY(b.value)
+    doc.rect(cx - barW / 2, Math.min(y0, y1), barW, Math.abs(y1 - y0), { fill: b.color ?? CHART_COLORS[i % CHART_COLORS.length] })
+
+    if (b.error) {
+      const eTop = toY(b.value + b.error)
+      const eBottom = toY(b.value - b.error)
+      doc.line(cx, eTop, cx, eBottom, { stroke: INK, lineWidth: 0.75 })
+      doc.line(cx - 4, eTop, cx + 4, eTop, { stroke: INK, lineWidth: 0.75 })
+      doc.line(cx - 4, eBottom, cx + 4, eBottom, { stroke: INK, lineWidth: 0.75 })
+    }
+    if (b.note) {
+      const noteY = toY(Math.max(b.value + (b.error ?? 0), 0)) - 4
+      doc.text(b.note, cx, noteY, { size: 8, font: 'bold', align: 'center' })
+    }
+
+    const lines = doc.wrap(b.label, slot - 4, 7).slice(0, 2)
+    lines.forEach((line, li) => {
+      doc.text(doc.truncate(line, slot - 4, 7), cx, plotTop + plotH + 10 + li * 8, { size: 7, align: 'center' })
+    })
+  })
+}
+
+export interface LineSeries {
+  label: string
+  values: (number | null)[]
+  color: string
+  dash?: number[]
+}
+
+/**
+ * Category chart with bars on the left axis and lines on the right axis
+ * (e.g. monthly rainfall bars with temperature lines).
+ */
+export function comboChart(
+  doc: PdfDocument,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  categories: string[],
+  bars: { label: string; values: number[]; color: string },
+  lines: LineSeries[],
+  opts: { barLabel?: string; lineLabel?: string } = {}
+): void {
+  if (categories.length === 0) return
+  const plotX = x + 40
+  const plotW = width - 80
+  const plotTop = y + 12
+  const plotH = height - 40
+
+  const barTicks = niceTicks(0, Math.max(1, ...bars.values))
+  const lineValues = lines.flatMap(l => l.values).filter((v): v is number => v != null)
+  const lineTicks = niceTicks(Math.min(0, ...lineValues), Math.max(...lineValues, 1))
+  const bHi = barTicks[barTicks.length - 1]
+  const lLo = lineTicks[0]
+  const lHi = lineTicks[lineTicks.length - 1]
+
+  yAxis(doc, plotX, plotTop, plotH, barTicks, plotW, opts.barLabel)
+  for (const t of lineTicks) {
+    const ty = plotTop + plotH - ((t - lLo) / (lHi - lLo)) * plotH
+    doc.text(formatTick(t), plotX + plotW + 4, ty + 2.5, { size: 7 })
+  }
+  if (opts.lineLabel) {
+    doc.text(opts.lineLabel, plotX + plotW + 34, plotTop + plotH / 2, { size: 7, color: AXIS, rotate: -90, align: 'center' })
+  }
+
+  const slot = plotW / categories.length
+  const barW = Math.min(28, slot * 0.6)
+  categories.forEach((c, i) => {
+    const cx = plotX + slot * (i + 0.5)
+    const h = (bars.values[i] / bHi) * plotH
+    if (h > 0) doc.rect(cx - barW / 2, plotTop + plotH - h, barW, h, { fill: bars.color })
+    doc.text(c, cx, plotTop + plotH + 10, { size: 7, align: 'center' })
+  })
+
+  for (const series of lines) {
+    const pts: [number, number][] = []
+    series.values.forEach((v, i) => {
+      if (v == null) return
+      pts.push([plotX + slot * (i + 0.5), plotTop + plotH - ((v - lLo) / (lHi - lLo)) * plotH])
+    })
+    doc.polygon(pts, { stroke: series.color, lineWidth: 1.25, dash: series.dash }, false)
+    for (const [px, py] of pts) doc.circle(px, py, 1.5, { fill: series.color })
+  }
+
+  // Legend
+  let lx = plotX
+  const ly = y + height - 6
+  const entries = [{ label: bars.label, color: bars.color, bar: true }, ...lines.map(l => ({ label: l.label, color: l.color, bar: false }))]
+  for (const e of entries) {
+    if (e.bar) doc.rect(lx, ly - 6, 8, 6, { fill: e.color })
+    else doc.line(lx, ly - 3, lx + 8, ly - 3, { stroke: e.color, lineWidth: 1.5 })
+    doc.text(e.label, lx + 11, ly, { size: 7 })
+    lx += 20 + doc.widthOf(e.label, 7)
+  }
+}
+
+export interface MapLayer {
+  /** Rings/lines as [lon, lat] pairs */
+  polygons?: [number, number][][]
+  lines?: [number, number][][]
+  points?: { lon: number; lat: number; label?: string }[]
+  stroke?: string
+  fill?: string
+  label: string
+}
+
+/**
+ * Plan view of vector layers in an equirectangular projection scaled for
+ * latitude, with a scale bar and north arrow. No basemap tiles.
+ */
+export function vectorMap(doc: PdfDocument, x: number, y: number, width: number, height: number, layers: MapLayer[]): boolean {
+  const coords: [number, number][] = []
+  for (const l of layers) {
+    for (const ring of [...(l.polygons ?? []), ...(l.lines ?? [])]) coords.push(...ring)
+    for (const p of l.points ?? []) coords.push([p.lon, p.lat])
+  }
+  if (coords.length === 0) return false
+
+  let minLon = Math.min(...coords.map(c => c[0]))
+  let maxLon = Math.max(...coords.map(c => c[0]))
+  let minLat = Math.min(...coords.map(c => c[1]))
+  let maxLat = Math.max(...coords.map(c => c[1]))
+  // A lone point still needs a visible extent (~100 m)
+  const minSpan = 0.001
+  if (maxLon - minLon < minSpan) { minLon -= minSpan / 2; maxLon += minSpan / 2 }
+  if (maxLat - minLat < minSpan) { minLat -= minSpan / 2; maxLat += minSpan / 2 }
+
+  const kx = Math.cos((((minLat + maxLat) / 2) * Math.PI) / 180)
+  const spanX = (maxLon - minLon) * kx
+  const spanY = maxLat - minLat
+  const pad = 12
+  const scale = Math.min((width - 2 * pad) / spanX, (height - 2 * pad - 14) / spanY)
+  const offX = x + (width - spanX * scale) / 2
+  const offY = y + (height - 14 - spanY * scale) / 2
+  const project = ([lon, lat]: [number, number]): [number, number] => [
+    offX + (lon - minLon) * kx * scale,
+    offY + (maxLat - lat) * scale,
+  ]
+
+  doc.rect(x, y, width, height - 14, { stroke: GRID, lineWidth: 0.5, fill: '#F3F4F4' })
+
+  for (const l of layers) {
+    for (const ring of l.polygons ?? []) {
+      doc.polygon(ring.map(project), { fill: l.fill, stroke: l.stroke ?? INK, lineWidth: 0.75, opacity: l.fill ? 0.85 : undefined })
+    }
+    for (const line of l.lines ?? []) {
+      doc.polygon(line.map(project), { stroke: l.stroke ?? INK, lineWidth: 1 }, false)
+    }
+    for (const p of l.points ?? []) {
+      const [px, py] = project([p.lon, p.lat])
+      doc.circle(px, py, 2.5, { fill: l.fill ?? l.stroke ?? INK, stroke: '#FFFFFF', lineWidth: 0.5 })
+      if (p.label) doc.text(p.label, px + 4, py + 2, { size: 6 })
+    }
+  }
+
+  // Scale bar: a round distance about a quarter of the map width
+  const metresPerPoint = (111_320 * (maxLat - minLat)) / (spanY * scale)
+  const target = metresPerPoint * width * 0.25
+  const step = [1, 2, 5].flatMap(m => [1, 10, 100, 1000, 10000].map(p => m * p)).filter(v => v <= target).pop() ?? 1
+  const barLen = step / metresPerPoint
+  const sx = x + 10
+  const sy = y + height - 24
+  doc.line(sx, sy, sx + barLen, sy, { stroke: INK, lineWidth: 1.5 })
+  doc.line(sx, sy - 3, sx, sy + 1, { stroke: INK })
+  doc.line(sx + barLen, sy - 3, sx + barLen, sy + 1, { stroke: INK })
+  doc.text(step >= 1000 ? `${step / 1000} km` : `${step} m`, sx + barLen + 4, sy + 2.5, { size: 7 })
+
+  // North arrow
+  const nx = x + width - 16
+  const ny = y + 14
+  doc.polygon([[nx, ny - 8], [nx + 4, ny + 4], [nx, ny + 1], [nx - 4, ny + 4]], { fill: INK })
+  doc.text('N', nx, ny + 13, { size: 7, font: 'bold', align: 'center' })
+
+  // Legend below the frame
+  let lx = x
+  const ly = y + height - 2
+  for (const l of layers) {
+    if (!l.polygons?.length && !l.lines?.length && !l.points?.length) continue
+    const color = l.fill ?? l.stroke ?? INK
+    if (l.points?.length) doc.circle(lx + 3, ly - 3, 2.5, { fill: color })
+    else doc.rect(lx, ly - 6, 8, 6, { fill: l.fill, stroke: l.stroke ?? INK, lineWidth: 0.5 })
+    doc.text(l.label, lx + 11, ly, { size: 7 })
+    lx += 22 + doc.widthOf(l.label, 7)
+  }
+  return true
+}
@@ -0,0 +1,297 @@
+/**
+ * Minimal PDF 1.4 writer for server-side reports.
+ *
+ * Supports the two standard Helvetica weights, filled/stroked paths, and
+ * JPEG/PNG images — enough for tables, charts, a vector map and photos
+ * without a headless browser or external rendering service. Coordinates
+ * are in points with the origin at the top-left of an A4 page.
+ */
+
+import { deflateSync } from 'zlib'
+import { encodeWinAnsi, textWidth, type FontName } from './fonts'
+import { decodeImage, type PdfImageData } from './images'
+
+export const A4 = { width: 595.28, height: 841.89 }
+
+export interface TextOptions {
+  size?: number
+  font?: FontName
+  color?: string
+  align?: 'left' | 'center' | 'right'
+  /** Rotation in degrees, counter-clockwise about (x, y) */
+  rotate?: number
+}
+
+export interface ShapeOptions {
+  fill?: string
+  stroke?: string
+  lineWidth?: number
+  dash?: number[]
+  /** 0–1, applied to fill and stroke */
+  opacity?: number
+}
+
+export interface PdfImage {
+  name: string
+  width: number
+  height: number
+}
+
+/** '#RRGGBB' → 'r g b' with components in 0–1 */
+function rgb(hex: string): string {
+  const h = hex.replace('#', '')
+  const full = h.length === 3 ? h.split('').map(c => c + c).join('') : h
+  const n = parseInt(full, 16)
+  if (isNaN(n)) return '0 0 0'
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255].map(v => (v / 255).toFixed(3)).join(' ')
+}
+
+function num(v: number): string {
+  return Number.isInteger(v) ? String(v) : v.toFixed(2)
+}
+
+export class PdfDocument {
+  readonly width = A4.width
+  readonly height = A4.height
+  private pages: string[][] = []
+  private images: (PdfImageData & { name: string })[] = []
+  private opacities = new Set<number>()
+  private current = -1
+
+  constructor(private title = '') {}
+
+  get pageCount(): number {
+    return this.pages.length
+  }
+
+  addPage(): void {
+    this.pages.push([])
+    this.current = this.pages.length - 1
+  }
+
+  /** Switch to an earlier page, e.g. to add "page x of n" footers at the end */
+  goToPage(index: number): void {
+    this.current = index
+  }
+
+  private write(op: string): void {
+    if (this.pages.length === 0) this.addPage()
+    this.pages[this.current].push(op)
+  }
+
+  private y(v: number): number {
+    return this.height - v
+  }
+
+  widthOf(text: string, size = 10, font: FontName = 'regular'): number {
+    return textWidth(text, font, size)
+  }
+
+  /** Draw a single line of text; y is the baseline */
+  text(str: string, x: number, y: number, opts: TextOptions = {}): void {
+    if (!str) return
+    const size = opts.size ?? 10
+    const font = opts.font ?? 'regular'
+    const width = textWidth(str, font, size)
+    const dx = opts.align === 'center' ? -width / 2 : opts.align === 'right' ? -width : 0
+    const hex = Buffer.from(encodeWinAnsi(str)).toString('hex')
+    const fontRef = font === 'bold' ? '/F2' : '/F1'
+
+    let matrix: string
+    if (opts.rotate) {
+      const rad = (opts.rotate * Math.PI) / 180
+      const cos = Math.cos(rad)
+      const sin = Math.sin(rad)
+      const tx = x + dx * cos
+      const ty = this.y(y) + dx * sin
+      matrix = `${cos.toFixed(4)} ${sin.toFixed(4)} ${(-sin).toFixed(4)} ${cos.toFixed(4)} ${num(tx)} ${num(ty)} Tm`
+    } else {
+      matrix = `1 0 0 1 ${num(x + dx)} ${num(this.y(y))} Tm`
+    }
+    this.write(`BT ${fontRef} ${num(size)} Tf ${rgb(opts.color ?? '#161F28')} rg ${matrix} <${hex}> Tj ET`)
+  }
+
+  /** Break text into lines no wider than maxWidth (words longer than a line are cut) */
+  wrap(str: string, maxWidth: number, size = 10, font: FontName = 'regular'): string[] {
+    const lines: string[] = []
+    for (const paragraph of str.split(/\r?\n/)) {
+      let line = ''
+      for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+        const candidate = line ? `${line} ${word}` : word
+        if (textWidth(candidate, font, size) <= maxWidth) {
+          line = candidate
+          continue
+        }
+        if (line) lines.push(line)
+        let rest = word
+        while (textWidth(rest, font, size) > maxWidth && rest.length > 1) {
+          let cut = rest.length - 1
+          while (cut > 1 && textWidth(rest.slice(0, cut), font, size) > maxWidth) cut--
+          lines.push(rest.slice(0, cut))
+          rest = rest.slice(cut)
+        }
+        line = rest
+      }
+      lines.push(line)
+    }
+    return lines
+  }
+
+  /** Shorten text with an ellipsis to fit maxWidth */
+  truncate(str: string, maxWidth: number, size = 10, font: FontName = 'regular'): string {
+    if (textWidth(str, font, size) <= maxWidth) return str
+    let s = str
+    while (s.length > 1 && textWidth(`${s}…`, font, size) > maxWidth) s = s.slice(0, -1)
+    return `${s}…`
+  }
+
+  private paint(path: string, opts: ShapeOptions): void {
+    const ops: string[] = ['q']
+    if (opts.opacity != null && opts.opacity < 1) {
+      const key = Math.round(opts.opacity * 100)
+      this.opacities.add(key)
+      ops.push(`/GS${key} gs`)
+    }
+    if (opts.fill) ops.push(`${rgb(opts.fill)} rg`)
+    if (opts.stroke) ops.push(`${rgb(opts.stroke)} RG ${num(opts.lineWidth ?? 1)} w`)
+    if (opts.dash) ops.push(`[${opts.dash.map(num).join(' ')}] 0 d`)
+    ops.push(path)
+    ops.push(opts.fill && opts.stroke ? 'B' : opts.fill ? 'f' : 'S')
+    ops.push('Q')
+    this.write(ops.join(' '))
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, opts: ShapeOptions = {}): void {
+    this.paint(`${num(x1)} ${num(this.y(y1))} m ${num(x2)} ${num(this.y(y2))} l`, { stroke: '#161F28', ...opts, fill: undefined })
+  }
+
+  rect(x: number, y: number, w: number, h: number, opts: ShapeOptions = {}): void {
+    this.paint(`${num(x)} ${num(this.y(y + h))} ${num(w)} ${num(h)} re`, opts)
+  }
+
+  /** Closed polygon (fill and/or stroke) or, with closed=false, a polyline */
+  polygon(points: [number, number][], opts: ShapeOptions = {}, closed = true): void {
+    if (points.length < 2) return
+    const path = points
+      .map(([px, py], i) => `${num(px)} ${num(this.y(py))} ${i === 0 ? 'm' : 'l'}`)
+      .join(' ')
+    this.paint(closed ? `${path} h` : path, closed ? opts : { ...opts, fill: undefined })
+  }
+
+  circle(cx: number, cy: number, r: number, opts: ShapeOptions = {}): void {
+    // Four cubic Béziers approximate a circle
+    const k = 0.5523 * r
+    const y = this.y(cy)
+    const path = [
+      `${num(cx + r)} ${num(y)} m`,
+      `${num(cx + r)} ${num(y + k)} ${num(cx + k)} ${num(y + r)} ${num(cx)} ${num(y + r)} c`,
+      `${num(cx - k)} ${num(y + r)} ${num(cx - r)} ${num(y + k)} ${num(cx - r)} ${num(y)} c`,
+      `${num(cx - r)} ${num(y - k)} ${num(cx - k)} ${num(y - r)} ${num(cx)} ${num(y - r)} c`,
+      `${num(cx + k)} ${num(y - r)} ${num(cx + r)} ${num(y - k)} ${num(cx + r)} ${num(y)} c h`,
+    ].join(' ')
+    this.paint(path, opts)
+  }
+
+  /** Register a JPEG/PNG; returns null for unsupported formats */
+  embedImage(bytes: Buffer): PdfImage | null {
+    const decoded = decodeImage(bytes)
+    if (!decoded) return null
+    const name = `Im${this.images.length + 1}`
+    this.images.push({ ...decoded, name })
+    return { name, width: decoded.width, height: decoded.height }
+  }
+
+  image(img: PdfImage, x: number, y: number, w: number, h: number): void {
+    this.write(`q ${num(w)} 0 0 ${num(h)} ${num(x)} ${num(this.y(y + h))} cm /${img.name} Do Q`)
+  }
+
+  toBuffer(): Buffer {
+    if (this.pages.length === 0) this.addPage()
+
+    const objects: Buffer[] = []
+    const add = (body: string | Buffer): number => {
+      objects.push(typeof body === 'string' ? Buffer.from(body, 'latin1') : body)
+      return objects.length
+    }
+    const stream = (dict: string, data: Buffer): Buffer =>
+      Buffer.concat([
+        Buffer.from(`<< ${dict} /Length ${data.length} >>\nstream\n`, 'latin1'),
+        data,
+        Buffer.from('\nendstream', 'latin1'),
+      ])
+
+    const catalogId = add('') // placeholders, filled once ids are known
+    const pagesId = add('')
+    const regularId = add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>')
+    const boldId = add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>')
+
+    const imageRefs: string[] = []
+    for (const img of this.images) {
+      let smaskRef = ''
+      if (img.smask) {
+        const smaskId = add(stream(img.smask.dict, img.smask.data))
+        smaskRef = ` /SMask ${smaskId} 0 R`
+      }
+      const id = add(stream(
+        `/Type /XObject /Subtype /Image /Width ${img.width} /Height ${img.height} ${img.dict}${smaskRef}`,
+        img.data
+      ))
+      imageRefs.push(`/${img.name} ${id} 0 R`)
+    }
+
+    const gstates = Array.from(this.opacities)
+      .map(k => `/GS${k} << /Type /ExtGState /ca ${k / 100} /CA ${k / 100} >>`)
+      .join(' ')
+    const resourcesId = add(
+      `<< /Font << /F1 ${regularId} 0 R /F2 ${boldId} 0 R >>` +
+      (imageRefs.length > 0 ? ` /XObject << ${imageRefs.join(' ')} >>` : '') +
+      (gstates ? ` /ExtGState << ${gstates} >>` : '') +
+      ' >>'
+    )
+
+    const pageIds: number[] = []
+    for (const ops of this.pages) {
+      const contentId = add(stream('/Filter /FlateDecode', deflateSync(Buffer.from(ops.join('\n'), 'latin1'))))
+      pageIds.push(add(
+        `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${this.width} ${this.height}] ` +
+        `/Resources ${resourcesId} 0 R /Contents ${contentId} 0 R >>`
+      ))
+    }
+
+    objects[catalogId - 1] = Buffer.from(`<< /Type /Catalog /Pages ${pagesId} 0 R >>`, 'latin1')
+    objects[pagesId - 1] = Buffer.from(
+      `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`,
+      'latin1'
+    )
+    const infoTitle = Buffer.from(encodeWinAnsi(this.title)).toString('hex')
+    const stamp = new Date().toISOString().replace(/[-:T]/g, '').slice(0, 14)
+    const infoId = add(`<< /Title <${infoTitle}> /Producer (SoilTrack) /CreationDate (D:${stamp}Z) >>`)
+
+    // Assemble the file and the cross-reference table
+    const chunks: Buffer[] = [Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1')]
+    let offset = chunks[0].length
+    const offsets: number[] = []
+    objects.forEach((body, i) => {
+      const head = Buffer.from(`${i + 1} 0 obj\n`, 'latin1')
+      const tail = Buffer.from('\nendobj\n', 'latin1')
+      offsets.push(offset)
+      chunks.push(head, body, tail)
+      offset += head.length + body.length + tail.length
+    })
+
+    const xref = [
+      'xref',
+      `0 ${objects.length + 1}`,
+      '0000000000 65535 f ',
+      ...offsets.map(o => `${String(o).padStart(10, '0')} 00000 n `),
+      'trailer',
+      `<< /Size ${objects.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>`,
+      'startxref',
+      String(offset),
+      '%%EOF',
+    ].join('\n')
+    chunks.push(Buffer.from(xref, 'latin1'))
+
+    return Buffer.concat(chunks)
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * Metrics for the PDF standard Helvetica fonts (no embedding needed) and
+ * WinAnsi encoding of JS strings. Widths are in 1/1000 em, from the Adobe
+ * AFM files for code points 32–126.
+ */
+
+export type FontName = 'regular' | 'bold'
+
+const HELVETICA = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+]
+
+const HELVETICA_BOLD = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+]
+
+/** WinAnsi bytes 128–255 that are not worth a full table, with their widths */
+const EXTRA_WIDTHS: Record<number, number> = {
+  0x85: 1000, // …
+  0x91: 222, 0x92: 222, 0x93: 333, 0x94: 333, // ‘ ’ “ ”
+  0x95: 350, // •
+  0x96: 556, 0x97: 1000, // – —
+  0xb0: 400, // °
+  0xb1: 584, // ±
+  0xb2: 333, 0xb3: 333, // ² ³
+  0xb5: 556, // µ
+  0xb7: 278, // ·
+  0xd7: 584, // ×
+}
+
+/** Unicode characters outside Latin-1 that WinAnsi can still represent */
+const WIN_ANSI: Record<string, number> = {
+  '€': 0x80, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94,
+  '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99,
+}
+
+/** Characters with no WinAnsi code point, replaced by a readable fallback */
+const FALLBACKS: Record<string, string> = {
+  'Δ': 'D', '≥': '>=', '≤': '<=', '≠': '!=', '₀': '0', '−': '-', '→': '->',
+}
+
+export function encodeWinAnsi(text: string): number[] {
+  const bytes: number[] = []
+  for (const ch of text) {
+    const code = ch.codePointAt(0)!
+    if (code >= 32 && code <= 126) bytes.push(code)
+    else if (WIN_ANSI[ch] != null) bytes.push(WIN_ANSI[ch])
+    else if (code >= 160 && code <= 255) bytes.push(code)
+    else if (FALLBACKS[ch] != null) bytes.push(...encodeWinAnsi(FALLBACKS[ch]))
+    else if (ch === '\n' || ch === '\t') bytes.push(32)
+    else bytes.push(63) // ?
+  }
+  return bytes
+}
+
+export function textWidth(text: string, font: FontName, size: number): number {
+  const table = font === 'bold' ? HELVETICA_BOLD : HELVETICA
+  let units = 0
+  for (const b of encodeWinAnsi(text)) {
+    units += b >= 32 && b <= 126 ? table[b - 32] : EXTRA_WIDTHS[b] ?? 556
+  }
+  return (units / 1000) * size
+}
@@ -0,0 +1,158 @@
+/**
+ * Decode just enough of JPEG and PNG files to embed them in a PDF.
+ *
+ * JPEGs pass through untouched (DCTDecode). PNGs without transparency keep
+ * their zlib stream and let the PDF reader undo the PNG row filters; PNGs
+ * with an alpha channel are unfiltered here and split into colour + SMask.
+ */
+
+import { deflateSync, inflateSync } from 'zlib'
+
+export interface PdfImageData {
+  width: number
+  height: number
+  /** PDF dictionary entries other than Width/Height/Length */
+  dict: string
+  data: Buffer
+  /** Soft mask (alpha), already Flate-encoded */
+  smask?: { dict: string; data: Buffer }
+}
+
+export function decodeImage(bytes: Buffer): PdfImageData | null {
+  if (bytes.length > 3 && bytes[0] === 0xff && bytes[1] === 0xd8) return decodeJpeg(bytes)
+  if (bytes.length > 8 && bytes.readUInt32BE(0) === 0x89504e47) return decodePng(bytes)
+  return null
+}
+
+function decodeJpeg(bytes: Buffer): PdfImageData | null {
+  let i = 2
+  while (i + 9 < bytes.length) {
+    if (bytes[i] !== 0xff) return null
+    const marker = bytes[i + 1]
+    const length = bytes.readUInt16BE(i + 2)
+    // SOF0–SOF15, excluding DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      const height = bytes.readUInt16BE(i + 5)
+      const width = bytes.readUInt16BE(i + 7)
+      const components = bytes[i + 9]
+      const colorSpace = components === 1 ? '/DeviceGray' : components === 4 ? '/DeviceCMYK' : '/DeviceRGB'
+      // Adobe CMYK JPEGs are stored inverted
+      const decode = components === 4 ? ' /Decode [1 0 1 0 1 0 1 0]' : ''
+      return {
+        width,
+        height,
+        dict: `/ColorSpace ${colorSpace} /BitsPerComponent 8 /Filter /DCTDecode${decode}`,
+        data: bytes,
+      }
+    }
+    i += 2 + length
+  }
+  return null
+}
+
+function decodePng(bytes: Buffer): PdfImageData | null {
+  let width = 0
+  let height = 0
+  let bitDepth = 0
+  let colorType = 0
+  let interlace = 0
+  let palette: Buffer | null = null
+  const idat: Buffer[] = []
+
+  let i = 8
+  while (i + 8 <= bytes.length) {
+    const length = bytes.readUInt32BE(i)
+    const type = bytes.toString('ascii', i + 4, i + 8)
+    const chunk = bytes.subarray(i + 8, i + 8 + length)
+    if (type === 'IHDR') {
+      width = chunk.readUInt32BE(0)
+      height = chunk.readUInt32BE(4)
+      bitDepth = chunk[8]
+      colorType = chunk[9]
+      interlace = chunk[12]
+    } else if (type === 'PLTE') {
+      palette = chunk
+    } else if (type === 'IDAT') {
+      idat.push(chunk)
+    } else if (type === 'IEND') {
+      break
+    }
+    i += 12 + length
+  }
+
+  if (!width || !height || interlace !== 0 || idat.length === 0) return null
+  const compressed = Buffer.concat(idat)
+
+  // Greyscale, RGB and palette images embed directly with the PNG predictor
+  if (colorType === 0 || colorType === 2 || colorType === 3) {
+    const colors = colorType === 2 ? 3 : 1
+    let colorSpace = colorType === 2 ? '/DeviceRGB' : '/DeviceGray'
+    if (colorType === 3) {
+      if (!palette) return null
+      colorSpace = `[/Indexed /DeviceRGB ${palette.length / 3 - 1} <${palette.toString('hex')}>]`
+    }
+    return {
+      width,
+      height,
+      dict: `/ColorSpace ${colorSpace} /BitsPerComponent ${bitDepth} /Filter /FlateDecode ` +
+        `/DecodeParms << /Predictor 15 /Colors ${colors} /BitsPerComponent ${bitDepth} /Columns ${width} >>`,
+      data: compressed,
+    }
+  }
+
+  // Grey + alpha or RGBA: split the channels (8-bit only)
+  if ((colorType !== 4 && colorType !== 6) || bitDepth !== 8) return null
+  const channels = colorType === 6 ? 4 : 2
+  const pixels = unfilter(inflateSync(compressed), width, height, channels)
+  const colorChannels = channels - 1
+  const color = Buffer.alloc(width * height * colorChannels)
+  const alpha = Buffer.alloc(width * height)
+  for (let p = 0; p < width * height; p++) {
+    for (let c = 0; c < colorChannels; c++) color[p * colorChannels + c] = pixels[p * channels + c]
+    alpha[p] = pixels[p * channels + colorChannels]
+  }
+
+  return {
+    width,
+    height,
+    dict: `/ColorSpace ${colorChannels === 3 ? '/DeviceRGB' : '/DeviceGray'} /BitsPerComponent 8 /Filter /FlateDecode`,
+    data: deflateSync(color),
+    smask: {
+      dict: `/Type /XObject /Subtype /Image /Width ${width} /Height ${height} /ColorSpace /DeviceGray /BitsPerComponent 8 /Filter /FlateDecode`,
+      data: deflateSync(alpha),
+    },
+  }
+}
+
+/** Reverse the per-row PNG filters (None, Sub, Up, Average, Paeth) */
+function unfilter(data: Buffer, width: number, height: number, bpp: number): Buffer {
+  const stride = width * bpp
+  const out = Buffer.alloc(stride * height)
+  for (let y = 0; y < height; y++) {
+    const filter = data[y * (stride + 1)]
+    const row = y * (stride + 1) + 1
+    for (let x = 0; x < stride; x++) {
+      const raw = data[row + x]
+      const a = x >= bpp ? out[y * stride + x - bpp] : 0
+      const b = y > 0 ? out[(y - 1) * stride + x] : 0
+      const c = x >= bpp && y > 0 ? out[(y - 1) * stride + x - bpp] : 0
+      let value: number
+      switch (filter) {
+        case 1: value = raw + a; break
+        case 2: value = raw + b; break
+        case 3: value = raw + ((a + b) >> 1); break
+        case 4: {
+          const p = a + b - c
+          const pa = Math.abs(p - a)
+          const pb = Math.abs(p - b)
+          const pc = Math.abs(p - c)
+          value = raw + (pa <= pb && pa <= pc ? a : pb <= pc ? b : c)
+          break
+        }
+        default: value = raw
+      }
+      out[y * stride + x] = value & 0xff
+    }
+  }
+  return out
+}
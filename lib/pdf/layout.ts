@@ -0,0 +1,166 @@
+/**
+ * Flowing report layout on top of PdfDocument: a vertical cursor that
+ * starts a new page when a block does not fit, plus headings, key/value
+ * grids and tables whose header row repeats across page breaks.
+ */
+
+import { PdfDocument } from './document'
+import type { FontName } from './fonts'
+
+export const MARGIN = 40
+
+const INK = '#161F28'
+const MUTED = '#B9BCBF'
+const RULE = '#DCDDDF'
+const STRIPE = '#F3F4F4'
+
+export interface TableColumn {
+  header: string
+  /** Share of the available width; columns are scaled to fit */
+  width: number
+  align?: 'left' | 'right' | 'center'
+}
+
+export class ReportLayout {
+  readonly doc: PdfDocument
+  y = MARGIN
+
+  constructor(title: string) {
+    this.doc = new PdfDocument(title)
+    this.doc.addPage()
+  }
+
+  get contentWidth(): number {
+    return this.doc.width - 2 * MARGIN
+  }
+
+  get bottom(): number {
+    return this.doc.height - MARGIN - 14 // leave room for the footer
+  }
+
+  newPage(): void {
+    this.doc.addPage()
+    this.y = MARGIN
+  }
+
+  /** Start a new page unless `height` points still fit below the cursor */
+  ensure(height: number): void {
+    if (this.y + height > this.bottom) this.newPage()
+  }
+
+  space(height: number): void {
+    this.y += height
+  }
+
+  /** Small upper-case label, as used for section headings in the app */
+  sectionHeading(label: string): void {
+    this.ensure(40)
+    this.y += 8
+    this.doc.text(label.toUpperCase(), MARGIN, this.y + 9, { size: 8, font: 'bold', color: '#008BCE' })
+    this.doc.line(MARGIN, this.y + 14, MARGIN + this.contentWidth, this.y + 14, { stroke: RULE, lineWidth: 0.5 })
+    this.y += 24
+  }
+
+  heading(text: string, size = 11): void {
+    this.ensure(size + 24)
+    this.doc.text(text, MARGIN, this.y + size, { size, font: 'bold' })
+    this.y += size + 6
+  }
+
+  paragraph(text: string, opts: { size?: number; font?: FontName; color?: string } = {}): void {
+    const size = opts.size ?? 9
+    const lineHeight = size * 1.35
+    for (const line of this.doc.wrap(text, this.contentWidth, size, opts.font)) {
+      this.ensure(lineHeight)
+      this.doc.text(line, MARGIN, this.y + size, { size, font: opts.font, color: opts.color ?? INK })
+      this.y += lineHeight
+    }
+    this.y += 4
+  }
+
+  /** Label/value pairs laid out in `columns` columns */
+  keyValues(pairs: [string, string][], columns = 4): void {
+    const colW = this.contentWidth / columns
+    for (let i = 0; i < pairs.length; i += columns) {
+      const row = pairs.slice(i, i + columns)
+      const wrapped = row.map(([, value]) => this.doc.wrap(value || '—', colW - 8, 9))
+      const height = 12 + Math.max(...wrapped.map(w => w.length)) * 11 + 6
+      this.ensure(height)
+      row.forEach(([label], j) => {
+        const x = MARGIN + j * colW
+        this.doc.text(label, x, this.y + 7, { size: 7, color: MUTED })
+        wrapped[j].forEach((line, k) => {
+          this.doc.text(line, x, this.y + 19 + k * 11, { size: 9, font: 'bold' })
+        })
+      })
+      this.y += height
+    }
+  }
+
+  /** Reserve a block of fixed height and hand its box to `draw` */
+  block(height: number, draw: (x: number, y: number, width: number) => void): void {
+    this.ensure(height)
+    draw(MARGIN, this.y, this.contentWidth)
+    this.y += height
+  }
+
+  table(columns: TableColumn[], rows: string[][], opts: { size?: number } = {}): void {
+    const size = opts.size ?? 8
+    const lineHeight = size * 1.3
+    const total = columns.reduce((s, c) => s + c.width, 0)
+    const widths = columns.map(c => (c.width / total) * this.contentWidth)
+    const pad = 4
+
+    const drawHeader = () => {
+      this.doc.rect(MARGIN, this.y, this.contentWidth, lineHeight + 6, { fill: STRIPE })
+      let x = MARGIN
+      columns.forEach((c, i) => {
+        const tx = c.align === 'right' ? x + widths[i] - pad : c.align === 'center' ? x + widths[i] / 2 : x + pad
+        this.doc.text(this.doc.truncate(c.header, widths[i] - 2 * pad, size, 'bold'), tx, this.y + size + 2, {
+          size, font: 'bold', align: c.align ?? 'left',
+        })
+        x += widths[i]
+      })
+      this.y += lineHeight + 6
+    }
+
+    this.ensure(2 * (lineHeight + 6))
+    drawHeader()
+
+    for (const row of rows) {
+      const cells = row.map((v, i) => this.doc.wrap(v ?? '', widths[i] - 2 * pad, size))
+      const height = Math.max(...cells.map(c => c.length)) * lineHeight + 5
+      if (this.y + height > this.bottom) {
+        this.newPage()
+        drawHeader()
+      }
+      let x = MARGIN
+      cells.forEach((lines, i) => {
+        const c = columns[i]
+        const tx = c.align === 'right' ? x + widths[i] - pad : c.align === 'center' ? x + widths[i] / 2 : x + pad
+        lines.forEach((line, k) => {
+          this.doc.text(line, tx, this.y + size + 2 + k * lineHeight, { size, align: c.align ?? 'left' })
+        })
+        x += widths[i]
+      })
+      this.y += height
+      this.doc.line(MARGIN, this.y, MARGIN + this.contentWidth, this.y, { stroke: RULE, lineWidth: 0.5 })
+    }
+    this.y += 8
+  }
+
+  /** Stamp a footer on every page once the content is complete */
+  footers(left: string): void {
+    const n = this.doc.pageCount
+    for (let i = 0; i < n; i++) {
+      this.doc.goToPage(i)
+      const fy = this.doc.height - MARGIN + 10
+      this.doc.text(this.doc.truncate(left, this.contentWidth - 80, 7), MARGIN, fy, { size: 7, color: MUTED })
+      this.doc.text(`Page ${i + 1} of ${n}`, MARGIN + this.contentWidth, fy, { size: 7, color: MUTED, align: 'right' })
+    }
+  }
+
+  toBuffer(): Buffer {
+    return this.doc.toBuffer()
+  }
+}
@@ -0,0 +1,197 @@
+/**
+ * Background trial report jobs.
+ *
+ * A job renders the trial's PDF report (lib/trial-report, using the trial's
+ * resolved template), stores it in the private trial-reports bucket and
+ * queues a notification email per recipient in email_outbox. Jobs are
+ * created when a trial is marked completed (by a trigger on trials.status,
+ * migration 036), weekly for active trials, or on request from the trial's
+ * Reports tab.
+ *
+ * Jobs and emails are written with the service-role client only; signed-in
+ * users can read report_jobs but not write it (migration 033).
+ *
+ * Recipients are the trial client's email plus REPORT_NOTIFY_EMAILS
+ * (comma-separated).
+ */
+
+import { generateTrialReport } from '@/lib/trial-report'
+import { queueEmail } from '@/lib/mailer'
+
+export const REPORT_BUCKET = 'trial-reports'
+
+export type ReportJobTrigger = 'status_completed' | 'weekly' | 'manual'
+
+export interface ReportJob {
+  id: string
+  trial_id: string
+  trigger: ReportJobTrigger
+  status: 'pending' | 'running' | 'succeeded' | 'failed'
+  storage_path: string | null
+  file_size: number | null
+  error: string | null
+  requested_by: string | null
+  created_at: string
+  started_at: string | null
+  finished_at: string | null
+}
+
+const WEEK_MS = 7 * 86_400_000
+
+const TRIGGER_LABELS: Record<ReportJobTrigger, string> = {
+  status_completed: 'the trial was marked completed',
+  weekly: 'the weekly report schedule',
+  manual: 'a manual request',
+}
+
+/**
+ * Queue a job, unless one is already pending for the same trial and trigger.
+ * Returns the pending job either way.
+ */
+export async function enqueueReportJob(
+  supabase: any,
+  trialId: string,
+  trigger: ReportJobTrigger,
+  requestedBy: string | null = null
+): Promise<ReportJob> {
+  const { data: existing } = await supabase
+    .from('report_jobs')
+    .select('*')
+    .eq('trial_id', trialId)
+    .eq('trigger', trigger)
+    .eq('status', 'pending')
+    .limit(1)
+  if (existing && existing.length > 0) return existing[0]
+
+  const { data, error } = await supabase
+    .from('report_jobs')
+    .insert({ trial_id: trialId, trigger, requested_by: requestedBy })
+    .select()
+    .single()
+  if (error) throw error
+  return data
+}
+
+/**
+ * Render, store and announce one report. Failures are recorded on the job
+ * rather than thrown, so one bad trial does not stop a batch.
+ */
+export async function runReportJob(supabase: any, job: ReportJob): Promise<ReportJob> {
+  // Claim the job; another worker may have taken it already
+  const { data: claimed } = await supabase
+    .from('report_jobs')
+    .update({ status: 'running', started_at: new Date().toISOString() })
+    .eq('id', job.id)
+    .eq('status', 'pending')
+    .select()
+    .single()
+  if (!claimed) return job
+
+  try {
+    const report = await generateTrialReport(supabase, job.trial_id)
+    if (!report) throw new Error('Trial not found')
+
+    const path = `${job.trial_id}/${job.id}.pdf`
+    const { error: uploadError } = await supabase.storage
+      .from(REPORT_BUCKET)
+      .upload(path, report.pdf, { contentType: 'application/pdf', upsert: true })
+    if (uploadError) throw uploadError
+
+    const { data: done, error } = await supabase
+      .from('report_jobs')
+      .update({
+        status: 'succeeded',
+        storage_path: path,
+        file_size: report.pdf.length,
+        error: null,
+        finished_at: new Date().toISOString(),
+      })
+      .eq('id', job.id)
+      .select()
+      .single()
+    if (error) throw error
+
+    await notify(supabase, done)
+    return done
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String((err as any)?.message ?? err)
+    console.error(`[report-jobs] job ${job.id} for ${job.trial_id} failed:`, err)
+    const { data: failed } = await supabase
+      .from('report_jobs')
+      .update({ status: 'failed', error: message, finished_at: new Date().toISOString() })
+      .eq('id', job.id)
+      .select()
+      .single()
+    return failed ?? { ...job, status: 'failed', error: message }
+  }
+}
+
+async function notify(supabase: any, job: ReportJob): Promise<void> {
+  const { data: trial } = await supabase
+    .from('trials')
+    .select('id, name, client_id, clients(name, email)')
+    .eq('id', job.trial_id)
+    .single()
+  if (!trial) return
+
+  const recipients = new Set(
+    (process.env.REPORT_NOTIFY_EMAILS || '').split(',').map(s => s.trim()).filter(Boolean)
+  )
+  if (trial.clients?.email) recipients.add(trial.clients.email)
+  if (recipients.size === 0) return
+
+  const site = process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000'
+  const text = [
+    `A new report for ${trial.id} — ${trial.name} is ready.`,
+    '',
+    `It was generated on ${new Date(job.finished_at ?? Date.now()).toUTCString()} because of ${TRIGGER_LABELS[job.trigger]}.`,
+    '',
+    `Download it from the trial's Reports tab: ${site}/trials/${encodeURIComponent(trial.id)}`,
+  ].join('\n')
+
+  const { error } = await queueEmail(supabase, Array.from(recipients).map(to => ({
+    to,
+    subject: `SoilTrack report ready: ${trial.id} — ${trial.name}`,
+    text,
+    jobId: job.id,
+  })))
+  if (error) console.error(`[report-jobs] failed to queue email for job ${job.id}:`, error)
+}
+
+/** Run pending jobs, oldest first */
+export async function processPendingJobs(supabase: any, limit = 10): Promise<ReportJob[]> {
+  const { data, error } = await supabase
+    .from('report_jobs')
+    .select('*')
+    .eq('status', 'pending')
+    .order('created_at')
+    .limit(limit)
+  if (error) throw error
+
+  const results: ReportJob[] = []
+  for (const job of data || []) results.push(await runReportJob(supabase, job))
+  return results
+}
+
+/**
+ * Queue a weekly job for every active trial whose last weekly report is
+ * more than a week old (or that has never had one).
+ */
+export async function scheduleWeeklyJobs(supabase: any): Promise<number> {
+  const [trialsRes, jobsRes] = await Promise.all([
+    supabase.from('trials').select('id').eq('status', 'active'),
+    supabase
+      .from('report_jobs')
+      .select('trial_id, created_at')
+      .eq('trigger', 'weekly')
+      .neq('status', 'failed')
+      .gte('created_at', new Date(Date.now() - WEEK_MS).toISOString()),
+  ])
+  if (trialsRes.error) throw trialsRes.error
+  if (jobsRes.error) throw jobsRes.error
+
+  const recent = new Set((jobsRes.data || []).map((j: any) => j.trial_id))
+  const due = (trialsRes.data || []).filter((t: any) => !recent.has(t.id))
+  for (const t of due) await enqueueReportJob(supabase, t.id, 'weekly')
+  return due.length
+}
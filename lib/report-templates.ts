@@ -0,0 +1,147 @@
+/**
+ * Report templates: the sections a trial PDF report contains (in order),
+ * the metrics it charts and the branding text printed on it.
+ *
+ * Templates live in report_templates. A trial uses its client's template
+ * (clients.report_template_id), else the first template listing its
+ * trial_type, else the one flagged is_default, else BUILTIN_TEMPLATE.
+ */
+
+export const REPORT_SECTIONS = [
+  'summary', 'treatments', 'map', 'yield', 'soil_chemistry', 'tissue',
+  'weather', 'applications', 'zone_analysis', 'management', 'photos',
+] as const
+
+export type ReportSection = typeof REPORT_SECTIONS[number]
+
+export const SECTION_LABELS: Record<ReportSection, string> = {
+  summary: 'Trial summary',
+  treatments: 'Treatments',
+  map: 'Site map',
+  yield: 'Yield & plot data',
+  soil_chemistry: 'Soil chemistry',
+  tissue: 'Tissue',
+  weather: 'Season weather',
+  applications: 'Applications',
+  zone_analysis: 'Zone analysis',
+  management: 'Management log',
+  photos: 'Photos',
+}
+
+export interface ReportBranding {
+  /** Replaces the "TRIAL REPORT" kicker above the trial name */
+  title: string
+  subtitle: string
+  /** Prefix for the page footer */
+  footer: string
+  /** Printed at the end of the report */
+  disclaimer: string
+}
+
+export interface ReportTemplate {
+  /** null for the built-in template */
+  id: string | null
+  name: string
+  description: string | null
+  sections: ReportSection[]
+  /** Soil, assay and tissue metrics to chart; empty means the most significant */
+  metrics: string[]
+  branding: ReportBranding
+  trial_types: string[]
+  is_default: boolean
+}
+
+export type TemplateMatch = 'client' | 'trial_type' | 'default' | 'builtin'
+
+export const EMPTY_BRANDING: ReportBranding = { title: '', subtitle: '', footer: '', disclaimer: '' }
+
+export const BUILTIN_TEMPLATE: ReportTemplate = {
+  id: null,
+  name: 'Standard',
+  description: 'Every section, most significant metrics',
+  sections: [...REPORT_SECTIONS],
+  metrics: [],
+  branding: EMPTY_BRANDING,
+  trial_types: [],
+  is_default: false,
+}
+
+const VALID_SECTIONS = new Set<string>(REPORT_SECTIONS)
+
+/**
+ * Coerce untrusted input (JSON body, stored row) into template fields.
+ * Unknown sections are dropped and duplicates keep their first position.
+ */
+export function sanitiseTemplate(raw: unknown): Omit<ReportTemplate, 'id'> {
+  const input = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>
+  const strings = (v: unknown) =>
+    Array.isArray(v) ? v.filter((s): s is string => typeof s === 'string').map(s => s.trim()).filter(Boolean) : []
+  const text = (v: unknown) => (typeof v === 'string' ? v.trim() : '')
+  const branding = (input.branding && typeof input.branding === 'object' ? input.branding : {}) as Record<string, unknown>
+
+  return {
+    name: text(input.name),
+    description: text(input.description) || null,
+    sections: Array.from(new Set(strings(input.sections).filter(s => VALID_SECTIONS.has(s)))) as ReportSection[],
+    metrics: Array.from(new Set(strings(input.metrics))),
+    branding: {
+      title: text(branding.title),
+      subtitle: text(branding.subtitle),
+      footer: text(branding.footer),
+      disclaimer: text(branding.disclaimer),
+    },
+    trial_types: Array.from(new Set(strings(input.trial_types))),
+    is_default: input.is_default === true,
+  }
+}
+
+export function templateFromRow(row: any): ReportTemplate {
+  return { id: row.id, ...sanitiseTemplate(row) }
+}
+
+/**
+ * Pick the template for a trial. Trial types match case-insensitively.
+ */
+export async function resolveReportTemplate(
+  supabase: any,
+  trial: { client_id: string | null; trial_type: string | null }
+): Promise<{ template: ReportTemplate; matchedBy: TemplateMatch }> {
+  if (trial.client_id) {
+    const { data: client } = await supabase
+      .from('clients')
+      .select('report_template:report_templates(*)')
+      .eq('id', trial.client_id)
+      .single()
+    if (client?.report_template) {
+      return { template: templateFromRow(client.report_template), matchedBy: 'client' }
+    }
+  }
+
+  const { data: rows } = await supabase.from('report_templates').select('*').order('name')
+  const templates = (rows || []).map(templateFromRow)
+
+  const type = trial.trial_type?.trim().toLowerCase()
+  const byType = type && templates.find((t: ReportTemplate) => t.trial_types.some(tt => tt.toLowerCase() === type))
+  if (byType) return { template: byType, matchedBy: 'trial_type' }
+
+  const fallback = templates.find((t: ReportTemplate) => t.is_default)
+  if (fallback) return { template: fallback, matchedBy: 'default' }
+
+  return { template: BUILTIN_TEMPLATE, matchedBy: 'builtin' }
+}
+
+/**
+ * Point exactly `clientIds` at the template, releasing any other clients
+ * that used it. Clients can only use one template, so listing a client
+ * here moves it off its previous one.
+ */
+export async function assignTemplateClients(supabase: any, templateId: string, clientIds: string[]): Promise<void> {
+  let release = supabase.from('clients').update({ report_template_id: null }).eq('report_template_id', templateId)
+  if (clientIds.length > 0) release = release.not('id', 'in', `(${clientIds.join(',')})`)
+  const { error: releaseError } = await release
+  if (releaseError) throw releaseError
+
+  if (clientIds.length === 0) return
+  const { error } = await supabase.from('clients').update({ report_template_id: templateId }).in('id', clientIds)
+  if (error) throw error
+}
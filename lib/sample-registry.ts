@@ -0,0 +1,296 @@
+/**
+ * The sample registry (samples table): one row per physical sample, keyed
+ * by its barcode, with where and when it was taken and its chain-of-custody
+ * status. Every status change is logged to sample_custody_events.
+ *
+ * Uploads whose config sets sampleRegistry resolve their barcodes here:
+ * blank sample numbers, dates, treatments, coordinates and depths are
+ * filled from the registered sample, unknown barcodes are flagged by
+ * validation, and loading lab results moves their samples to 'analysed'.
+ * Analysis, the trial map and reports join lab rows to their samples by
+ * barcode (withRegistry) for plot, treatment and location.
+ */
+
+import { parseDepthRange } from './parsers/generic-parser'
+
+export const SAMPLE_STATUSES = [
+  'registered', 'collected', 'dispatched', 'received', 'analysed', 'archived', 'discarded',
+] as const
+
+export type SampleStatus = (typeof SAMPLE_STATUSES)[number]
+
+export const SAMPLE_STATUS_LABELS: Record<SampleStatus, string> = {
+  registered: 'Registered',
+  collected: 'Collected',
+  dispatched: 'Dispatched to lab',
+  received: 'Received by lab',
+  analysed: 'Analysed',
+  archived: 'Archived',
+  discarded: 'Discarded',
+}
+
+export const SAMPLE_TYPES = ['soil', 'tissue', 'other'] as const
+
+/** Statuses a loaded lab result moves on to 'analysed' */
+const AWAITING_RESULTS: SampleStatus[] = ['registered', 'collected', 'dispatched', 'received']
+
+/** Barcodes per query, to keep the IN (...) filter inside URL limits */
+const LOOKUP_CHUNK = 200
+
+export interface RegisteredSample {
+  id: string
+  barcode: string
+  trialId: string
+  sampleNo: string | null
+  sampleType: string
+  plot: string | null
+  trtNumber: number | null
+  rep: number | null
+  latitude: number | null
+  longitude: number | null
+  depthUpperCm: number | null
+  depthLowerCm: number | null
+  collectedOn: string | null
+  status: SampleStatus
+  notes: string | null
+}
+
+const num = (v: unknown) => {
+  if (v == null || v === '') return null
+  const n = Number(v)
+  return Number.isFinite(n) ? n : null
+}
+
+export function sampleFromRow(row: any): RegisteredSample {
+  return {
+    id: row.id,
+    barcode: row.barcode,
+    trialId: row.trial_id,
+    sampleNo: row.sample_no ?? null,
+    sampleType: row.sample_type,
+    plot: row.plot ?? null,
+    trtNumber: num(row.trt_number),
+    rep: num(row.rep),
+    latitude: num(row.latitude),
+    longitude: num(row.longitude),
+    depthUpperCm: num(row.depth_upper_cm),
+    depthLowerCm: num(row.depth_lower_cm),
+    collectedOn: row.collected_on ?? null,
+    status: row.status,
+    notes: row.notes ?? null,
+  }
+}
+
+/** "2024-03-05" as is, "5/3/2024" read day first; anything else null */
+function isoDate(s: string): string | null {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(s)) return s
+  const m = s.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/)
+  return m ? `${m[3]}-${m[2].padStart(2, '0')}-${m[1].padStart(2, '0')}` : null
+}
+
+export function isSampleStatus(v: unknown): v is SampleStatus {
+  return typeof v === 'string' && (SAMPLE_STATUSES as readonly string[]).includes(v)
+}
+
+/**
+ * Coerce untrusted input (JSON body or a registration CSV row) into
+ * samples columns. Accepts camelCase or column names.
+ */
+export function sanitiseSample(raw: unknown): {
+  barcode: string
+  sample_no: string | null
+  sample_type: string
+  plot: string | null
+  trt_number: number | null
+  rep: number | null
+  latitude: number | null
+  longitude: number | null
+  depth_upper_cm: number | null
+  depth_lower_cm: number | null
+  collected_on: string | null
+  notes: string | null
+} {
+  const input = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>
+  const text = (v: unknown) => (typeof v === 'string' ? v.trim() : typeof v === 'number' ? String(v) : '')
+  const sampleType = text(input.sampleType ?? input.sample_type).toLowerCase()
+  const collected = text(input.collectedOn ?? input.collected_on)
+
+  return {
+    barcode: text(input.barcode),
+    sample_no: text(input.sampleNo ?? input.sample_no) || null,
+    sample_type: (SAMPLE_TYPES as readonly string[]).includes(sampleType) ? sampleType : 'soil',
+    plot: text(input.plot) || null,
+    trt_number: num(input.trtNumber ?? input.trt_number),
+    rep: num(input.rep),
+    latitude: num(input.latitude),
+    longitude: num(input.longitude),
+    depth_upper_cm: num(input.depthUpperCm ?? input.depth_upper_cm),
+    depth_lower_cm: num(input.depthLowerCm ?? input.depth_lower_cm),
+    collected_on: isoDate(collected),
+    notes: text(input.notes) || null,
+  }
+}
+
+/** Registration CSV headers (lowercased) and the sample fields they hold */
+const CSV_HEADERS: Record<string, string> = {
+  'barcode': 'barcode',
+  'bar code': 'barcode',
+  'sample barcode': 'barcode',
+  'sample': 'sample_no',
+  'sample no': 'sample_no',
+  'sample_no': 'sample_no',
+  'sample id': 'sample_no',
+  'type': 'sample_type',
+  'sample type': 'sample_type',
+  'sample_type': 'sample_type',
+  'plot': 'plot',
+  'trt': 'trt_number',
+  'treatment': 'trt_number',
+  'trt_number': 'trt_number',
+  'rep': 'rep',
+  'replicate': 'rep',
+  'lat': 'latitude',
+  'latitude': 'latitude',
+  'lon': 'longitude',
+  'long': 'longitude',
+  'longitude': 'longitude',
+  'depth': 'depth',
+  'depth_upper_cm': 'depth_upper_cm',
+  'upper depth': 'depth_upper_cm',
+  'depth_lower_cm': 'depth_lower_cm',
+  'lower depth': 'depth_lower_cm',
+  'date': 'collected_on',
+  'collected': 'collected_on',
+  'collected_on': 'collected_on',
+  'collection date': 'collected_on',
+  'notes': 'notes',
+}
+
+/**
+ * A row of a registration CSV (header → cell) as sample input. A single
+ * "Depth" column reads as a range in cm: "0-10", "10–30", or "10" for the
+ * upper bound alone.
+ */
+export function sampleInputFromCsv(row: Record<string, string>): Record<string, string> {
+  const input: Record<string, string> = {}
+  for (const [header, value] of Object.entries(row)) {
+    const field = CSV_HEADERS[header.toLowerCase().trim()]
+    if (field) input[field] = value
+  }
+  const range = parseDepthRange(input.depth)
+  if (range) {
+    input.depth_upper_cm ??= String(range.upper)
+    if (range.lower != null) input.depth_lower_cm ??= String(range.lower)
+  }
+  delete input.depth
+  return input
+}
+
+/** Registered samples for the given barcodes, by barcode */
+export async function loadRegistry(supabase: any, barcodes: string[]): Promise<Map<string, RegisteredSample>> {
+  const registry = new Map<string, RegisteredSample>()
+  const unique = Array.from(new Set(barcodes.filter(Boolean)))
+  for (let i = 0; i < unique.length; i += LOOKUP_CHUNK) {
+    const { data, error } = await supabase
+      .from('samples')
+      .select('*')
+      .in('barcode', unique.slice(i, i + LOOKUP_CHUNK))
+    if (error) throw error
+    for (const row of data || []) registry.set(row.barcode, sampleFromRow(row))
+  }
+  return registry
+}
+
+/** Whether any samples are registered to the trial, i.e. it uses the registry */
+export async function trialHasSamples(supabase: any, trialId: string): Promise<boolean> {
+  const { count, error } = await supabase
+    .from('samples')
+    .select('id', { count: 'exact', head: true })
+    .eq('trial_id', trialId)
+  if (error) throw error
+  return (count ?? 0) > 0
+}
+
+/** Row fields filled from the registered sample when the file leaves them blank */
+const RESOLVED_FIELDS: [string, keyof RegisteredSample][] = [
+  ['sample_no', 'sampleNo'],
+  ['date', 'collectedOn'],
+  ['treatment', 'trtNumber'],
+  ['latitude', 'latitude'],
+  ['longitude', 'longitude'],
+  ['depth_upper_cm', 'depthUpperCm'],
+  ['depth_lower_cm', 'depthLowerCm'],
+]
+
+/**
+ * Fill blank fields of rows whose barcode is registered to this trial.
+ * Only fields the row's type has are filled. Returns how many rows matched.
+ */
+export function resolveFromRegistry(
+  rows: Record<string, any>[],
+  registry: Map<string, RegisteredSample>,
+  trialId: string,
+  barcodeField: string
+): number {
+  let matched = 0
+  for (const row of rows) {
+    const sample = registry.get(String(row[barcodeField] ?? ''))
+    if (!sample || sample.trialId !== trialId) continue
+    matched++
+    for (const [field, key] of RESOLVED_FIELDS) {
+      if (field in row && (row[field] == null || row[field] === '') && sample[key] != null) {
+        row[field] = sample[key]
+      }
+    }
+  }
+  return matched
+}
+
+/**
+ * Lab result rows with their registered sample's plot, treatment, rep and
+ * coordinates, joined on barcode at read time. Chemistry and tissue tables
+ * have no columns for these, so this is where results get their place in
+ * the trial; values a row has of its own are kept. Only samples registered
+ * to the row's trial count.
+ */
+export async function withRegistry<T extends Record<string, any>>(supabase: any, rows: T[]): Promise<T[]> {
+  const registry = await loadRegistry(supabase, rows.map(r => String(r.barcode ?? '')))
+  if (registry.size === 0) return rows
+  return rows.map(row => {
+    const sample = registry.get(String(row.barcode ?? ''))
+    if (!sample || sample.trialId !== row.trial_id) return row
+    const blank = (v: unknown) => v == null || v === ''
+    return {
+      ...row,
+      plot: blank(row.plot) ? sample.plot : row.plot,
+      rep: blank(row.rep) ? sample.rep : row.rep,
+      treatment: blank(row.treatment) && blank(row.trt_number) ? sample.trtNumber : row.treatment,
+      latitude: blank(row.latitude) ? sample.latitude : row.latitude,
+      longitude: blank(row.longitude) ? sample.longitude : row.longitude,
+    }
+  })
+}
+
+/**
+ * After lab results load: move their registered samples that were still
+ * waiting on results to 'analysed'.
+ */
+export async function markAnalysed(
+  supabase: any,
+  registry: Map<string, RegisteredSample>,
+  barcodes: string[],
+  filename: string
+): Promise<void> {
+  const pending = Array.from(new Set(barcodes)).filter(b => {
+    const sample = registry.get(b)
+    return sample && AWAITING_RESULTS.includes(sample.status)
+  })
+  if (pending.length === 0) return
+  // Custody logging is best-effort: the results are already loaded
+  const { error } = await supabase.rpc('record_sample_custody', {
+    p_barcodes: pending,
+    p_status: 'analysed',
+    p_note: `Results loaded from ${filename}`,
+  })
+  if (error) console.error(`Failed to mark ${pending.length} sample(s) analysed after ${filename}:`, error)
+}
@@ -0,0 +1,1037 @@
+/**
+ * Inferential statistics for trial analysis.
+ *
+ * Provides the probability distributions needed for significance testing
+ * (t, F, studentised range), one-way and RCBD analysis of variance, and
+ * mean separation (Fisher's LSD and Tukey HSD with compact letter display).
+ *
+ * Everything here is pure and dependency-free so it can run in API routes
+ * and client components alike.
+ */
+
+// ---------- Special functions ----------
+
+/** Lanczos approximation for ln(Gamma(x)) */
+export function lnGamma(x: number): number {
+  if (x <= 0) return 0
+  const g = 7
+  const coef = [
+    0.99999999999980993, 676.5203681218851, -1259.1392167224028,
+    771.32342877765313, -176.61502916214059, 12.507343278686905,
+    -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7,
+  ]
+  if (x < 0.5) {
+    return Math.log(Math.PI / Math.sin(Math.PI * x)) - lnGamma(1 - x)
+  }
+  x -= 1
+  let a = coef[0]
+  for (let i = 1; i < g + 2; i++) {
+    a += coef[i] / (x + i)
+  }
+  const t = x + g + 0.5
+  return 0.5 * Math.log(2 * Math.PI) + (x + 0.5) * Math.log(t) - t + Math.log(a)
+}
+
+/** Continued fraction for the incomplete beta function (modified Lentz). */
+function betaContinuedFraction(x: number, a: number, b: number): number {
+  const maxIter = 300
+  const eps = 3e-14
+  const tiny = 1e-300
+  const qab = a + b
+  const qap = a + 1
+  const qam = a - 1
+
+  let c = 1
+  let d = 1 - (qab * x) / qap
+  if (Math.abs(d) < tiny) d = tiny
+  d = 1 / d
+  let h = d
+
+  for (let m = 1; m <= maxIter; m++) {
+    const m2 = 2 * m
+    let aa = (m * (b - m) * x) / ((qam + m2) * (a + m2))
+    d = 1 + aa * d
+    if (Math.abs(d) < tiny) d = tiny
+    c = 1 + aa / c
+    if (Math.abs(c) < tiny) c = tiny
+    d = 1 / d
+    h *= d * c
+
+    aa = (-(a + m) * (qab + m) * x) / ((a + m2) * (qap + m2))
+    d = 1 + aa * d
+    if (Math.abs(d) < tiny) d = tiny
+    c = 1 + aa / c
+    if (Math.abs(c) < tiny) c = tiny
+    d = 1 / d
+    const delta = d * c
+    h *= delta
+    if (Math.abs(delta - 1) < eps) break
+  }
+
+  return h
+}
+
+/**
+ * Regularized incomplete beta function I_x(a, b).
+ * Uses the symmetry relation so the continued fraction always converges quickly.
+ */
+export function incompleteBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0
+  if (x >= 1) return 1
+
+  const lnBeta = lnGamma(a) + lnGamma(b) - lnGamma(a + b)
+  const front = Math.exp(a * Math.log(x) + b * Math.log(1 - x) - lnBeta)
+
+  if (x < (a + 1) / (a + b + 2)) {
+    return (front * betaContinuedFraction(x, a, b)) / a
+  }
+  return 1 - (front * betaContinuedFraction(1 - x, b, a)) / b
+}
+
+// ---------- Distributions ----------
+
+/** Standard normal density */
+export function normalPdf(z: number): number {
+  return Math.exp(-0.5 * z * z) / Math.sqrt(2 * Math.PI)
+}
+
+/** Standard normal CDF (Abramowitz & Stegun 7.1.26, |error| < 1.5e-7) */
+export function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2
+  const t = 1 / (1 + 0.3275911 * x)
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))))
+  const erf = 1 - poly * Math.exp(-x * x)
+  return z >= 0 ? 0.5 * (1 + erf) : 0.5 * (1 - erf)
+}
+
+/** Two-tailed p-value for a t statistic with `df` degrees of freedom. */
+export function tDistPValue(t: number, df: number): number {
+  if (!isFinite(t)) return 0
+  const x = df / (df + t * t)
+  return Math.min(1, incompleteBeta(x, df / 2, 0.5))
+}
+
+/** Upper-tail p-value P(F > f) for an F statistic with (df1, df2) degrees of freedom. */
+export function fDistPValue(f: number, df1: number, df2: number): number {
+  if (f <= 0 || !isFinite(f)) return f > 0 ? 0 : 1
+  const x = df2 / (df2 + df1 * f)
+  return Math.min(1, incompleteBeta(x, df2 / 2, df1 / 2))
+}
+
+/**
+ * Two-tailed critical value of Student's t: the t such that P(|T| > t) = alpha.
+ * Solved by bisection on tDistPValue.
+ */
+export function tCritical(alpha: number, df: number): number {
+  let lo = 0
+  let hi = 1000
+  for (let i = 0; i < 100; i++) {
+    const mid = (lo + hi) / 2
+    if (tDistPValue(mid, df) > alpha) lo = mid
+    else hi = mid
+  }
+  return (lo + hi) / 2
+}
+
+/** Composite Simpson's rule over [a, b] with n (even) intervals. */
+function simpson(fn: (x: number) => number, a: number, b: number, n: number): number {
+  const h = (b - a) / n
+  let sum = fn(a) + fn(b)
+  for (let i = 1; i < n; i++) {
+    sum += fn(a + i * h) * (i % 2 === 0 ? 2 : 4)
+  }
+  return (sum * h) / 3
+}
+
+/**
+ * CDF of the range of k independent standard normals:
+ * W(w) = k ∫ φ(z) [Φ(z) − Φ(z − w)]^(k−1) dz
+ */
+function normalRangeCdf(w: number, k: number): number {
+  if (w <= 0) return 0
+  const p = simpson(
+    z => normalPdf(z) * Math.pow(Math.max(0, normalCdf(z) - normalCdf(z - w)), k - 1),
+    -8,
+    8,
+    160
+  )
+  return Math.min(1, k * p)
+}
+
+/**
+ * CDF of the studentised range distribution Q(k, df).
+ * Integrates the normal-range CDF over the density of s = sqrt(χ²_df / df).
+ */
+export function studentizedRangeCdf(q: number, k: number, df: number): number {
+  if (q <= 0) return 0
+  if (df > 2000) return normalRangeCdf(q, k)
+
+  const lnConst = (df / 2) * Math.log(df / 2) - lnGamma(df / 2) + Math.log(2)
+  const sDensity = (s: number) =>
+    s <= 0 ? 0 : Math.exp(lnConst + (df - 1) * Math.log(s) - (df * s * s) / 2)
+
+  const spread = 1 / Math.sqrt(2 * df)
+  const lo = Math.max(0, 1 - 10 * spread)
+  const hi = 1 + 10 * spread + (df < 5 ? 4 : 0)
+
+  return Math.min(1, simpson(s => sDensity(s) * normalRangeCdf(q * s, k), lo, hi, 200))
+}
+
+const studentizedRangeCache = new Map<string, number>()
+
+/**
+ * Quantile of the studentised range distribution: the q such that
+ * P(Q(k, df) ≤ q) = p. Results are cached because Tukey tests reuse
+ * the same (k, df) pair for every comparison within a metric.
+ */
+export function studentizedRangeQuantile(p: number, k: number, df: number): number {
+  const key = `${p}:${k}:${df}`
+  const cached = studentizedRangeCache.get(key)
+  if (cached !== undefined) return cached
+
+  let lo = 0
+  let hi = 100
+  for (let i = 0; i < 50; i++) {
+    const mid = (lo + hi) / 2
+    if (studentizedRangeCdf(mid, k, df) < p) lo = mid
+    else hi = mid
+  }
+  const q = (lo + hi) / 2
+  studentizedRangeCache.set(key, q)
+  return q
+}
+
+// ---------- Analysis of variance ----------
+
+export interface AnovaRow {
+  source: 'Treatment' | 'Block' | 'Residual' | 'Total'
+  df: number
+  ss: number
+  ms: number | null
+  f: number | null
+  p: number | null
+}
+
+export interface SignificanceResult {
+  /** 'oneWay' = completely randomised; 'rcbd' = randomised complete block with a block/rep term */
+  design: 'oneWay' | 'rcbd'
+  anova: AnovaRow[]
+  /** p-value of the treatment F-test */
+  pValue: number | null
+  /** Residual mean square (error variance) */
+  mse: number
+  dfError: number
+  /** Fisher's least significant difference at 5% (harmonic-mean replication) */
+  lsd05: number | null
+  /** Tukey honestly significant difference at 5% (harmonic-mean replication) */
+  hsd05: number | null
+  /** Coefficient of variation, % */
+  cv: number | null
+  /** Compact letter display from Tukey HSD: groups sharing a letter do not differ at 5% */
+  letters: Record<string, string>
+}
+
+export interface Observation {
+  group: string
+  /** Block or rep identifier; required for the RCBD model */
+  block?: string | null
+  value: number
+}
+
+function sumSquares(values: number[], mean: number): number {
+  return values.reduce((s, v) => s + (v - mean) ** 2, 0)
+}
+
+function groupValues(obs: Observation[]): Map<string, number[]> {
+  const groups = new Map<string, number[]>()
+  for (const o of obs) {
+    if (!groups.has(o.group)) groups.set(o.group, [])
+    groups.get(o.group)!.push(o.value)
+  }
+  return groups
+}
+
+/**
+ * Fit the additive model y = μ + τ_trt + β_block by backfitting and return
+ * the fitted values. Backfitting converges to the least-squares solution,
+ * so this handles missing plots in an otherwise complete design.
+ */
+function fitAdditive(obs: Observation[], grandMean: number): number[] {
+  const trtEffect = new Map<string, number>()
+  const blockEffect = new Map<string, number>()
+  for (const o of obs) {
+    trtEffect.set(o.group, 0)
+    blockEffect.set(o.block!, 0)
+  }
+
+  for (let iter = 0; iter < 200; iter++) {
+    let maxChange = 0
+
+    const trtSums = new Map<string, { s: number; n: number }>()
+    for (const o of obs) {
+      const e = trtSums.get(o.group) || { s: 0, n: 0 }
+      e.s += o.value - grandMean - blockEffect.get(o.block!)!
+      e.n += 1
+      trtSums.set(o.group, e)
+    }
+    for (const [g, { s, n }] of trtSums) {
+      const next = s / n
+      maxChange = Math.max(maxChange, Math.abs(next - trtEffect.get(g)!))
+      trtEffect.set(g, next)
+    }
+
+    const blockSums = new Map<string, { s: number; n: number }>()
+    for (const o of obs) {
+      const e = blockSums.get(o.block!) || { s: 0, n: 0 }
+      e.s += o.value - grandMean - trtEffect.get(o.group)!
+      e.n += 1
+      blockSums.set(o.block!, e)
+    }
+    for (const [b, { s, n }] of blockSums) {
+      const next = s / n
+      maxChange = Math.max(maxChange, Math.abs(next - blockEffect.get(b)!))
+      blockEffect.set(b, next)
+    }
+
+    if (maxChange < 1e-10) break
+  }
+
+  return obs.map(o => grandMean + trtEffect.get(o.group)! + blockEffect.get(o.block!)!)
+}
+
+function additiveResidualSS(obs: Observation[], grandMean: number): number {
+  const fitted = fitAdditive(obs, grandMean)
+  return obs.reduce((s, o, i) => s + (o.value - fitted[i]) ** 2, 0)
+}
+
+/**
+ * Run an ANOVA on the observations and separate the treatment means.
+ *
+ * Uses the RCBD model (treatment + block, sequential SS with blocks first)
+ * when `useBlocks` is set and every observation carries a block with at
+ * least two distinct blocks; otherwise falls back to a one-way ANOVA.
+ * Returns null when there are fewer than two groups or no residual df.
+ */
+export function analyseSignificance(
+  obs: Observation[],
+  { useBlocks = true }: { useBlocks?: boolean } = {}
+): SignificanceResult | null {
+  const valid = obs.filter(o => isFinite(o.value))
+  const groups = groupValues(valid)
+  const k = groups.size
+  const N = valid.length
+  if (k < 2 || N <= k) return null
+
+  const grandMean = valid.reduce((s, o) => s + o.value, 0) / N
+  const ssTotal = sumSquares(valid.map(o => o.value), grandMean)
+
+  let ssTrt = 0
+  for (const values of groups.values()) {
+    const m = values.reduce((s, v) => s + v, 0) / values.length
+    ssTrt += values.length * (m - grandMean) ** 2
+  }
+
+  const blocks = new Set(valid.map(o => o.block).filter((b): b is string => b != null && b !== ''))
+  const hasBlocks = useBlocks && blocks.size >= 2 && valid.every(o => o.block != null && o.block !== '')
+
+  const anova: AnovaRow[] = []
+  let ssError: number
+  let dfError: number
+  let design: SignificanceResult['design']
+
+  if (hasBlocks) {
+    const b = blocks.size
+    const blockGroups = new Map<string, number[]>()
+    for (const o of valid) {
+      if (!blockGroups.has(o.block!)) blockGroups.set(o.block!, [])
+      blockGroups.get(o.block!)!.push(o.value)
+    }
+    let ssBlock = 0
+    for (const values of blockGroups.values()) {
+      const m = values.reduce((s, v) => s + v, 0) / values.length
+      ssBlock += values.length * (m - grandMean) ** 2
+    }
+
+    ssError = Math.max(0, additiveResidualSS(valid, grandMean))
+    // Treatment SS adjusted for blocks (equals the unadjusted SS when balanced)
+    ssTrt = Math.max(0, ssTotal - ssBlock - ssError)
+    dfError = N - 1 - (k - 1) - (b - 1)
+    if (dfError <= 0) return analyseSignificance(valid, { useBlocks: false })
+
+    const mse = ssError / dfError
+    const msBlock = ssBlock / (b - 1)
+    const fBlock = mse > 0 ? msBlock / mse : null
+    anova.push({
+      source: 'Block',
+      df: b - 1,
+      ss: ssBlock,
+      ms: msBlock,
+      f: fBlock,
+      p: fBlock != null ? fDistPValue(fBlock, b - 1, dfError) : null,
+    })
+    design = 'rcbd'
+  } else {
+    ssError = Math.max(0, ssTotal - ssTrt)
+    dfError = N - k
+    design = 'oneWay'
+  }
+
+  const mse = ssError / dfError
+  const msTrt = ssTrt / (k - 1)
+  const fTrt = mse > 0 ? msTrt / mse : null
+  const pTrt = fTrt != null ? fDistPValue(fTrt, k - 1, dfError) : null
+
+  anova.unshift({ source: 'Treatment', df: k - 1, ss: ssTrt, ms: msTrt, f: fTrt, p: pTrt })
+  anova.push({ source: 'Residual', df: dfError, ss: ssError, ms: mse, f: null, p: null })
+  anova.push({ source: 'Total', df: N - 1, ss: ssTotal, ms: null, f: null, p: null })
+
+  // Harmonic mean replication for the summary LSD / HSD values
+  const sizes = [...groups.values()].map(v => v.length)
+  const nHarmonic = sizes.length / sizes.reduce((s, n) => s + 1 / n, 0)
+
+  const lsd05 = mse > 0 ? tCritical(0.05, dfError) * Math.sqrt((2 * mse) / nHarmonic) : null
+  const q05 = studentizedRangeQuantile(0.95, k, dfError)
+  const hsd05 = mse > 0 ? q05 * Math.sqrt(mse / nHarmonic) : null
+  const cv = grandMean !== 0 ? (Math.sqrt(mse) / Math.abs(grandMean)) * 100 : null
+
+  const means = [...groups.entries()].map(([label, values]) => ({
+    label,
+    mean: values.reduce((s, v) => s + v, 0) / values.length,
+    n: values.length,
+  }))
+
+  const letters = tukeyLetters(means, mse, q05)
+
+  return { design, anova, pValue: pTrt, mse, dfError, lsd05, hsd05, cv, letters }
+}
+
+/**
+ * Compact letter display for Tukey–Kramer comparisons.
+ *
+ * Means are sorted high → low; each maximal run of means that are all
+ * mutually non-significant gets a letter, so groups sharing a letter
+ * do not differ at the chosen level.
+ */
+export function tukeyLetters(
+  means: { label: string; mean: number; n: number }[],
+  mse: number,
+  qCritical: number
+): Record<string, string> {
+  const sorted = [...means].sort((a, b) => b.mean - a.mean)
+  const k = sorted.length
+
+  const differs = (i: number, j: number) => {
+    if (mse <= 0) return sorted[i].mean !== sorted[j].mean
+    const hsd = qCritical * Math.sqrt((mse / 2) * (1 / sorted[i].n + 1 / sorted[j].n))
+    return Math.abs(sorted[i].mean - sorted[j].mean) > hsd
+  }
+
+  // For each start index, extend the run while every member is non-significant vs the new mean
+  const runs: [number, number][] = []
+  for (let i = 0; i < k; i++) {
+    let end = i
+    while (end + 1 < k) {
+      const next = end + 1
+      let ok = true
+      for (let m = i; m <= end; m++) {
+        if (differs(m, next)) { ok = false; break }
+      }
+      if (!ok) break
+      end = next
+    }
+    // Drop runs fully contained in the previous run
+    const prev = runs[runs.length - 1]
+    if (!prev || end > prev[1]) runs.push([i, end])
+  }
+
+  const letters: Record<string, string> = {}
+  for (const m of sorted) letters[m.label] = ''
+  runs.forEach(([start, end], idx) => {
+    const letter = letterFor(idx)
+    for (let i = start; i <= end; i++) letters[sorted[i].label] += letter
+  })
+  return letters
+}
+
+/** a, b, …, z, A, B, … for letter displays with many groups */
+function letterFor(idx: number): string {
+  if (idx < 26) return String.fromCharCode(97 + idx)
+  return String.fromCharCode(65 + ((idx - 26) % 26))
+}
+
+// ---------- Cross-site (random site) analysis ----------
+
+export interface SiteObservation {
+  group: string
+  /** Site identifier — the trial ID for cross-trial analysis */
+  site: string
+  block?: string | null
+  value: number
+}
+
+export interface SiteEffect {
+  site: string
+  /** Treatment mean minus control mean at this site */
+  estimate: number
+  se: number
+  df: number
+}
+
+export interface ProductEffect {
+  label: string
+  /** Pooled difference from control across sites */
+  estimate: number
+  se: number
+  ciLow: number
+  ciHigh: number
+  pValue: number | null
+  /** Between-site variance of the treatment effect (treatment × site) */
+  tau2: number
+  /** Share of effect variability due to site heterogeneity, % */
+  i2: number | null
+  sites: SiteEffect[]
+}
+
+export interface CrossSiteResult {
+  control: string
+  siteCount: number
+  effects: ProductEffect[]
+}
+
+/**
+ * Pool per-site effects with a DerSimonian–Laird random-effects model.
+ * The between-site variance tau² absorbs the treatment × site interaction.
+ */
+function poolRandomEffects(label: string, sites: SiteEffect[]): ProductEffect {
+  const k = sites.length
+  const w = sites.map(s => 1 / (s.se * s.se))
+  const sumW = w.reduce((a, b) => a + b, 0)
+  const fixed = sites.reduce((a, s, i) => a + w[i] * s.estimate, 0) / sumW
+  const q = sites.reduce((a, s, i) => a + w[i] * (s.estimate - fixed) ** 2, 0)
+  const c = sumW - w.reduce((a, b) => a + b * b, 0) / sumW
+  const tau2 = k > 1 && c > 0 ? Math.max(0, (q - (k - 1)) / c) : 0
+  const i2 = k > 1 && q > 0 ? Math.max(0, (q - (k - 1)) / q) * 100 : null
+
+  const wStar = sites.map(s => 1 / (s.se * s.se + tau2))
+  const sumWStar = wStar.reduce((a, b) => a + b, 0)
+  const estimate = sites.reduce((a, s, i) => a + wStar[i] * s.estimate, 0) / sumWStar
+  const se = Math.sqrt(1 / sumWStar)
+
+  // Sites are the replicates of the pooled effect; a single site falls back to its residual df
+  const df = k > 1 ? k - 1 : sites[0].df
+  const tc = tCritical(0.05, df)
+  const pValue = se > 0 ? tDistPValue(Math.abs(estimate / se), df) : null
+
+  return {
+    label,
+    estimate,
+    se,
+    ciLow: estimate - tc * se,
+    ciHigh: estimate + tc * se,
+    pValue,
+    tau2,
+    i2,
+    sites,
+  }
+}
+
+/**
+ * Estimate each treatment's effect relative to `control` across sites,
+ * treating site as random.
+ *
+ * Stage one fits a per-site ANOVA (RCBD when blocks are present) to get the
+ * site's residual variance, then takes treatment − control differences with
+ * their standard errors. Stage two pools the differences across sites with a
+ * random-effects model. Sites without the control, or without replication,
+ * are skipped.
+ */
+export function crossSiteEffects(obs: SiteObservation[], control: string): CrossSiteResult | null {
+  const bySite = new Map<string, SiteObservation[]>()
+  for (const o of obs) {
+    if (!isFinite(o.value)) continue
+    if (!bySite.has(o.site)) bySite.set(o.site, [])
+    bySite.get(o.site)!.push(o)
+  }
+
+  const perLabel = new Map<string, SiteEffect[]>()
+  let siteCount = 0
+
+  for (const [site, siteObs] of bySite) {
+    const groups = groupValues(siteObs)
+    const controlValues = groups.get(control)
+    if (!controlValues) continue
+
+    const anova = analyseSignificance(siteObs)
+    if (!anova || anova.mse <= 0) continue
+    siteCount++
+
+    const controlMean = controlValues.reduce((s, v) => s + v, 0) / controlValues.length
+    for (const [label, values] of groups) {
+      if (label === control) continue
+      const mean = values.reduce((s, v) => s + v, 0) / values.length
+      const se = Math.sqrt(anova.mse * (1 / values.length + 1 / controlValues.length))
+      if (!perLabel.has(label)) perLabel.set(label, [])
+      perLabel.get(label)!.push({ site, estimate: mean - controlMean, se, df: anova.dfError })
+    }
+  }
+
+  if (siteCount === 0) return null
+
+  const effects = [...perLabel.entries()]
+    .map(([label, sites]) => poolRandomEffects(label, sites))
+    .sort((a, b) => b.estimate - a.estimate)
+
+  return { control, siteCount, effects }
+}
+
+// ---------- Control-relative response ----------
+
+export interface ResponseStats {
+  label: string
+  /** Number of treatment observations compared against a control */
+  n: number
+  /** Share of comparisons made against the control in the same rep (vs the site control mean) */
+  pairedFraction: number
+  difference: number
+  differenceSe: number
+  /** (treatment − control) / control × 100 */
+  percentResponse: number | null
+  percentResponseSe: number | null
+  /** treatment / control */
+  responseRatio: number | null
+  responseRatioSe: number | null
+}
+
+export interface ControlResponseResult {
+  /** Control label(s) used, one per site where they differ */
+  controls: string[]
+  groups: ResponseStats[]
+}
+
+function meanAndSe(values: number[]): { mean: number; se: number } {
+  const n = values.length
+  const mean = values.reduce((s, v) => s + v, 0) / n
+  const variance = n > 1 ? values.reduce((s, v) => s + (v - mean) ** 2, 0) / (n - 1) : 0
+  return { mean, se: Math.sqrt(variance / n) }
+}
+
+/**
+ * Express every treatment observation relative to its site's control.
+ *
+ * Each observation is compared with the control mean in the same rep when
+ * the control was measured there, otherwise with the site's overall control
+ * mean. Per-observation differences, % responses and ratios are then
+ * averaged per treatment label. `controlBySite` maps site → control label;
+ * sites without a control are skipped.
+ */
+export function controlResponse(
+  obs: SiteObservation[],
+  controlBySite: Map<string, string>
+): ControlResponseResult | null {
+  const perLabel = new Map<string, { diff: number[]; pct: number[]; ratio: number[]; paired: number }>()
+  const controls = new Set<string>()
+
+  const bySite = new Map<string, SiteObservation[]>()
+  for (const o of obs) {
+    if (!isFinite(o.value) || !controlBySite.has(o.site)) continue
+    if (!bySite.has(o.site)) bySite.set(o.site, [])
+    bySite.get(o.site)!.push(o)
+  }
+
+  for (const [site, siteObs] of bySite) {
+    const control = controlBySite.get(site)!
+    const controlObs = siteObs.filter(o => o.group === control)
+    if (controlObs.length === 0) continue
+    controls.add(control)
+
+    const siteControlMean = controlObs.reduce((s, o) => s + o.value, 0) / controlObs.length
+    const byBlock = new Map<string, number[]>()
+    for (const o of controlObs) {
+      if (o.block == null) continue
+      if (!byBlock.has(o.block)) byBlock.set(o.block, [])
+      byBlock.get(o.block)!.push(o.value)
+    }
+
+    for (const o of siteObs) {
+      if (o.group === control) continue
+      const repControl = o.block != null ? byBlock.get(o.block) : undefined
+      const c = repControl
+        ? repControl.reduce((s, v) => s + v, 0) / repControl.length
+        : siteControlMean
+
+      if (!perLabel.has(o.group)) perLabel.set(o.group, { diff: [], pct: [], ratio: [], paired: 0 })
+      const entry = perLabel.get(o.group)!
+      entry.diff.push(o.value - c)
+      if (c !== 0) {
+        entry.pct.push(((o.value - c) / c) * 100)
+        entry.ratio.push(o.value / c)
+      }
+      if (repControl) entry.paired++
+    }
+  }
+
+  if (controls.size === 0) return null
+
+  const groups: ResponseStats[] = [...perLabel.entries()].map(([label, e]) => {
+    const diff = meanAndSe(e.diff)
+    const pct = e.pct.length > 0 ? meanAndSe(e.pct) : null
+    const ratio = e.ratio.length > 0 ? meanAndSe(e.ratio) : null
+    return {
+      label,
+      n: e.diff.length,
+      pairedFraction: e.paired / e.diff.length,
+      difference: diff.mean,
+      differenceSe: diff.se,
+      percentResponse: pct?.mean ?? null,
+      percentResponseSe: pct?.se ?? null,
+      responseRatio: ratio?.mean ?? null,
+      responseRatioSe: ratio?.se ?? null,
+    }
+  })
+  groups.sort((a, b) => a.label.localeCompare(b.label))
+
+  return { controls: [...controls], groups }
+}
+
+// ---------- Outlier detection ----------
+
+export type OutlierMethod = 'iqr' | 'grubbs' | 'residual'
+
+/**
+ * Indices of values outside Tukey's fences [Q1 − 1.5·IQR, Q3 + 1.5·IQR].
+ */
+function iqrOutliers(values: number[]): number[] {
+  if (values.length < 4) return []
+  const sorted = [...values].sort((a, b) => a - b)
+  const q = (p: number) => {
+    const pos = (sorted.length - 1) * p
+    const lo = Math.floor(pos)
+    const hi = Math.ceil(pos)
+    return sorted[lo] * (1 - (pos - lo)) + sorted[hi] * (pos - lo)
+  }
+  const q1 = q(0.25)
+  const q3 = q(0.75)
+  const fence = 1.5 * (q3 - q1)
+  return values.flatMap((v, i) => (v < q1 - fence || v > q3 + fence ? [i] : []))
+}
+
+/**
+ * Indices flagged by the iterated two-sided Grubbs test at `alpha`:
+ * the most extreme value is removed while G exceeds its critical value.
+ */
+function grubbsOutliers(values: number[], alpha = 0.05): number[] {
+  const remaining = values.map((v, i) => ({ v, i }))
+  const flagged: number[] = []
+
+  while (remaining.length >= 3) {
+    const n = remaining.length
+    const mean = remaining.reduce((s, r) => s + r.v, 0) / n
+    const sd = Math.sqrt(remaining.reduce((s, r) => s + (r.v - mean) ** 2, 0) / (n - 1))
+    if (sd === 0) break
+
+    let worst = 0
+    for (let k = 1; k < n; k++) {
+      if (Math.abs(remaining[k].v - mean) > Math.abs(remaining[worst].v - mean)) worst = k
+    }
+    const g = Math.abs(remaining[worst].v - mean) / sd
+
+    // Two-sided critical value uses t at alpha/(2n), i.e. a two-tailed alpha/n
+    const t = tCritical(alpha / n, n - 2)
+    const gCrit = ((n - 1) / Math.sqrt(n)) * Math.sqrt((t * t) / (n - 2 + t * t))
+    if (g <= gCrit) break
+
+    flagged.push(remaining[worst].i)
+    remaining.splice(worst, 1)
+  }
+
+  return flagged
+}
+
+/**
+ * Indices whose externally studentised (deleted) residual from the treatment
+ * (+ block, when every observation has one) model exceeds `threshold`.
+ * Internal residuals are bounded by sqrt(df), which is too small to flag
+ * anything in a typical 3–4 rep trial.
+ */
+function residualOutliers(obs: Observation[], threshold = 3): number[] {
+  const groups = groupValues(obs)
+  const N = obs.length
+  if (groups.size === 0 || N <= groups.size) return []
+
+  const grandMean = obs.reduce((s, o) => s + o.value, 0) / N
+  const blocks = new Set(obs.map(o => o.block))
+  const hasBlocks = blocks.size >= 2 && obs.every(o => o.block != null && o.block !== '')
+
+  const groupMeans = new Map([...groups.entries()].map(([g, v]) => [g, v.reduce((s, x) => s + x, 0) / v.length]))
+  const blockSizes = new Map<string, number>()
+  for (const o of obs) if (o.block != null) blockSizes.set(o.block, (blockSizes.get(o.block) || 0) + 1)
+
+  const fitted = hasBlocks ? fitAdditive(obs, grandMean) : obs.map(o => groupMeans.get(o.group)!)
+  const residuals = obs.map((o, i) => o.value - fitted[i])
+  const df = hasBlocks ? N - groups.size - blocks.size + 1 : N - groups.size
+  // Deleting an observation leaves df - 1 for its variance; with df = 1
+  // every squared residual equals df, so nothing can be told apart
+  if (df < 2) return []
+  const mse = residuals.reduce((s, r) => s + r * r, 0) / df
+  if (mse <= 0) return []
+
+  return obs.flatMap((o, i) => {
+    // Leverage of a balanced additive design; 1/n_g for one-way
+    const nG = groups.get(o.group)!.length
+    const h = hasBlocks ? 1 / nG + 1 / blockSizes.get(o.block!)! - 1 / N : 1 / nG
+    if (h >= 1) return []
+    const r = residuals[i] / Math.sqrt(mse * (1 - h))
+    const denom = df - r * r
+    if (denom <= 0) return []
+    const t = r * Math.sqrt((df - 1) / denom)
+    return Math.abs(t) > threshold ? [i] : []
+  })
+}
+
+/**
+ * Flag outliers among observations. IQR and Grubbs work within each group;
+ * the studentised residual method uses the pooled ANOVA model. Returns the
+ * indices into `obs` that were flagged.
+ */
+export function detectOutliers(obs: Observation[], method: OutlierMethod): number[] {
+  if (method === 'residual') return residualOutliers(obs)
+
+  const indicesByGroup = new Map<string, number[]>()
+  obs.forEach((o, i) => {
+    if (!indicesByGroup.has(o.group)) indicesByGroup.set(o.group, [])
+    indicesByGroup.get(o.group)!.push(i)
+  })
+
+  const flagged: number[] = []
+  for (const indices of indicesByGroup.values()) {
+    const values = indices.map(i => obs[i].value)
+    const local = method === 'grubbs' ? grubbsOutliers(values) : iqrOutliers(values)
+    for (const k of local) flagged.push(indices[k])
+  }
+  return flagged.sort((a, b) => a - b)
+}
+
+// ---------- Time series ----------
+
+export interface TimePoint {
+  date: string
+  mean: number
+  stdError: number
+  n: number
+  /** Change from this series' first (baseline) sampling event */
+  deltaFromBaseline: number
+  deltaFromBaselineSe: number
+  /** Change from the previous sampling event */
+  deltaFromPrevious: number | null
+}
+
+export interface TimeSeries {
+  label: string
+  baselineDate: string
+  points: TimePoint[]
+}
+
+/**
+ * Summarise repeated measurements into one series per label (treatment),
+ * ordered by date. Deltas treat sampling events as independent, so their
+ * SE is sqrt(SE_t² + SE_baseline²).
+ */
+export function buildTimeSeries(obs: { series: string; date: string; value: number }[]): TimeSeries[] {
+  const bySeries = new Map<string, Map<string, number[]>>()
+  for (const o of obs) {
+    if (!isFinite(o.value)) continue
+    if (!bySeries.has(o.series)) bySeries.set(o.series, new Map())
+    const byDate = bySeries.get(o.series)!
+    if (!byDate.has(o.date)) byDate.set(o.date, [])
+    byDate.get(o.date)!.push(o.value)
+  }
+
+  const series: TimeSeries[] = []
+  for (const [label, byDate] of bySeries) {
+    const dates = [...byDate.keys()].sort()
+    const summaries = dates.map(date => ({ date, ...meanAndSe(byDate.get(date)!), n: byDate.get(date)!.length }))
+    const baseline = summaries[0]
+
+    series.push({
+      label,
+      baselineDate: baseline.date,
+      points: summaries.map((p, i) => ({
+        date: p.date,
+        mean: p.mean,
+        stdError: p.se,
+        n: p.n,
+        deltaFromBaseline: p.mean - baseline.mean,
+        deltaFromBaselineSe: i === 0 ? 0 : Math.sqrt(p.se ** 2 + baseline.se ** 2),
+        deltaFromPrevious: i === 0 ? null : p.mean - summaries[i - 1].mean,
+      })),
+    })
+  }
+
+  return series.sort((a, b) => a.label.localeCompare(b.label))
+}
+
+// ---------- Correlation ----------
+
+export type CorrelationMethod = 'pearson' | 'spearman'
+
+export interface CorrelationResult {
+  r: number | null
+  pValue: number | null
+  n: number
+}
+
+/** Ranks with ties given their average rank (1-based). */
+function rank(values: number[]): number[] {
+  const order = values.map((v, i) => ({ v, i })).sort((a, b) => a.v - b.v)
+  const ranks = new Array<number>(values.length)
+  let k = 0
+  while (k < order.length) {
+    let end = k
+    while (end + 1 < order.length && order[end + 1].v === order[k].v) end++
+    const avg = (k + end) / 2 + 1
+    for (let m = k; m <= end; m++) ranks[order[m].i] = avg
+    k = end + 1
+  }
+  return ranks
+}
+
+function pearson(xs: number[], ys: number[]): number | null {
+  const n = xs.length
+  const mx = xs.reduce((s, v) => s + v, 0) / n
+  const my = ys.reduce((s, v) => s + v, 0) / n
+  let sxy = 0
+  let sxx = 0
+  let syy = 0
+  for (let i = 0; i < n; i++) {
+    sxy += (xs[i] - mx) * (ys[i] - my)
+    sxx += (xs[i] - mx) ** 2
+    syy += (ys[i] - my) ** 2
+  }
+  if (sxx === 0 || syy === 0) return null
+  return sxy / Math.sqrt(sxx * syy)
+}
+
+/**
+ * Pearson or Spearman correlation of paired values (pairs with a
+ * non-finite member are dropped). The p-value uses the t approximation
+ * t = r·sqrt((n−2)/(1−r²)) with n−2 df for both methods.
+ */
+export function correlate(xs: number[], ys: number[], method: CorrelationMethod): CorrelationResult {
+  const px: number[] = []
+  const py: number[] = []
+  for (let i = 0; i < Math.min(xs.length, ys.length); i++) {
+    if (isFinite(xs[i]) && isFinite(ys[i])) {
+      px.push(xs[i])
+      py.push(ys[i])
+    }
+  }
+  const n = px.length
+  if (n < 3) return { r: null, pValue: null, n }
+
+  const r = method === 'spearman' ? pearson(rank(px), rank(py)) : pearson(px, py)
+  if (r == null) return { r: null, pValue: null, n }
+
+  const clamped = Math.max(-1, Math.min(1, r))
+  const pValue = Math.abs(clamped) >= 1
+    ? 0
+    : tDistPValue(Math.abs(clamped) * Math.sqrt((n - 2) / (1 - clamped * clamped)), n - 2)
+  return { r: clamped, pValue, n }
+}
+
+// ---------- Principal component analysis ----------
+
+export interface PcaResult {
+  /** Proportion of total variance explained by each component, descending */
+  explained: number[]
+  /** Component scores per row (first two components) */
+  scores: [number, number][]
+  /** Variable loadings (eigenvector × sqrt(eigenvalue)) on the first two components */
+  loadings: [number, number][]
+}
+
+/** Eigen-decomposition of a symmetric matrix by cyclic Jacobi rotations. */
+function symmetricEigen(matrix: number[][]): { values: number[]; vectors: number[][] } {
+  const n = matrix.length
+  const a = matrix.map(row => [...row])
+  const v: number[][] = Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => (i === j ? 1 : 0)))
+
+  for (let sweep = 0; sweep < 100; sweep++) {
+    let off = 0
+    for (let p = 0; p < n; p++) for (let q = p + 1; q < n; q++) off += a[p][q] ** 2
+    if (off < 1e-20) break
+
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) {
+        if (Math.abs(a[p][q]) < 1e-300) continue
+        const theta = (a[q][q] - a[p][p]) / (2 * a[p][q])
+        const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1))
+        const c = 1 / Math.sqrt(t * t + 1)
+        const s = t * c
+
+        for (let k = 0; k < n; k++) {
+          const akp = a[k][p]
+          const akq = a[k][q]
+          a[k][p] = c * akp - s * akq
+          a[k][q] = s * akp + c * akq
+        }
+        for (let k = 0; k < n; k++) {
+          const apk = a[p][k]
+          const aqk = a[q][k]
+          a[p][k] = c * apk - s * aqk
+          a[q][k] = s * apk + c * aqk
+        }
+        for (let k = 0; k < n; k++) {
+          const vkp = v[k][p]
+          const vkq = v[k][q]
+          v[k][p] = c * vkp - s * vkq
+          v[k][q] = s * vkp + c * vkq
+        }
+      }
+    }
+  }
+
+  const values = a.map((row, i) => row[i])
+  const order = values.map((_, i) => i).sort((x, y) => values[y] - values[x])
+  return {
+    values: order.map(i => values[i]),
+    vectors: order.map(i => v.map(row => row[i])),
+  }
+}
+
+/**
+ * PCA on standardised variables (i.e. of the correlation matrix).
+ * `rows` must be complete cases; constant columns should be removed first.
+ * Returns null with fewer than 3 rows or 2 variables.
+ */
+export function principalComponents(rows: number[][]): PcaResult | null {
+  const n = rows.length
+  const p = rows[0]?.length ?? 0
+  if (n < 3 || p < 2) return null
+
+  const means = Array.from({ length: p }, (_, j) => rows.reduce((s, r) => s + r[j], 0) / n)
+  const sds = Array.from({ length: p }, (_, j) =>
+    Math.sqrt(rows.reduce((s, r) => s + (r[j] - means[j]) ** 2, 0) / (n - 1))
+  )
+  if (sds.some(sd => sd === 0)) return null
+
+  const z = rows.map(r => r.map((v, j) => (v - means[j]) / sds[j]))
+  const corr = Array.from({ length: p }, (_, i) =>
+    Array.from({ length: p }, (_, j) => z.reduce((s, r) => s + r[i] * r[j], 0) / (n - 1))
+  )
+
+  const { values, vectors } = symmetricEigen(corr)
+  const total = values.reduce((s, v) => s + Math.max(0, v), 0)
+  const pc = vectors.slice(0, 2)
+
+  return {
+    explained: values.map(v => Math.max(0, v) / total),
+    scores: z.map((r): [number, number] => [
+      r.reduce((s, v, j) => s + v * pc[0][j], 0),
+      r.reduce((s, v, j) => s + v * pc[1][j], 0),
+    ]),
+    loadings: Array.from({ length: p }, (_, j): [number, number] => [
+      pc[0][j] * Math.sqrt(Math.max(0, values[0])),
+      pc[1][j] * Math.sqrt(Math.max(0, values[1])),
+    ]),
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * XLSX workbook for a trial design: a "Field Map" sheet laid out as the
+ * plots sit in the field, a "Plots" list with each plot's position and
+ * centre, a "Labels" sheet with one row per plot for label printing (mail
+ * merge), and a "Design" sheet recording the type and seed.
+ */
+
+import * as XLSX from 'xlsx'
+import type { FeatureCollection, Polygon } from 'geojson'
+import { DESIGN_TYPE_LABELS, type DesignPlot, type DesignType } from '@/lib/trial-design'
+
+/** A trial_designs row, as exported */
+export interface StoredDesign {
+  design_type: DesignType
+  seed: number
+  treatments: number[]
+  reps: number
+  main_plot_levels: number | null
+  num_rows: number
+  num_cols: number
+  plots: DesignPlot[]
+  geometry: Record<string, number> | null
+  geojson: FeatureCollection<Polygon> | null
+  created_at: string
+}
+
+interface TreatmentLabel {
+  trt_number: number
+  application?: string | null
+  product?: string | null
+  rate?: string | null
+}
+
+type Cell = string | number | null
+
+function treatmentName(t: TreatmentLabel | undefined): string {
+  if (!t) return ''
+  return [t.application, t.product, t.rate].filter(Boolean).join(' ')
+}
+
+/** Mean of a polygon's corners (closing point excluded) */
+function centre(polygon: Polygon): [number, number] {
+  const ring = polygon.coordinates[0].slice(0, -1)
+  const lng = ring.reduce((s, c) => s + c[0], 0) / ring.length
+  const lat = ring.reduce((s, c) => s + c[1], 0) / ring.length
+  return [Math.round(lng * 1e6) / 1e6, Math.round(lat * 1e6) / 1e6]
+}
+
+export function buildDesignWorkbook(
+  trialId: string,
+  design: StoredDesign,
+  treatments: TreatmentLabel[]
+): Buffer {
+  const byTrt = new Map(treatments.map(t => [t.trt_number, t]))
+  const centres = new Map<string, [number, number]>()
+  for (const f of design.geojson?.features ?? []) {
+    if (f.properties?.plot != null) centres.set(String(f.properties.plot), centre(f.geometry))
+  }
+  const wb = XLSX.utils.book_new()
+
+  // Row 1 at the top, as on the map
+  const grid: Cell[][] = [['Row / Col', ...Array.from({ length: design.num_cols }, (_, i) => i + 1)]]
+  for (let row = 1; row <= design.num_rows; row++) {
+    const cells: Cell[] = Array(design.num_cols).fill(null)
+    for (const p of design.plots) {
+      if (p.row === row) cells[p.col - 1] = `${p.plot} T${p.trt_number}`
+    }
+    grid.push([row, ...cells])
+  }
+  const map = XLSX.utils.aoa_to_sheet(grid)
+  map['!cols'] = [{ wch: 10 }, ...Array(design.num_cols).fill({ wch: 11 })]
+  XLSX.utils.book_append_sheet(wb, map, 'Field Map')
+
+  const split = design.design_type === 'split_plot'
+  const plots = XLSX.utils.json_to_sheet(design.plots.map(p => ({
+    Plot: p.plot,
+    Trt: p.trt_number,
+    Rep: p.rep,
+    Row: p.row,
+    Col: p.col,
+    ...(split ? { 'Main Plot': p.main_plot ?? null, 'Sub Plot': p.sub_plot ?? null } : {}),
+    Treatment: treatmentName(byTrt.get(p.trt_number)),
+    Latitude: centres.get(p.plot)?.[1] ?? null,
+    Longitude: centres.get(p.plot)?.[0] ?? null,
+  })))
+  plots['!cols'] = [8, 6, 6, 6, 6, ...(split ? [10, 9] : []), 30, 12, 12].map(wch => ({ wch }))
+  XLSX.utils.book_append_sheet(wb, plots, 'Plots')
+
+  const labels = XLSX.utils.json_to_sheet(design.plots.map(p => ({
+    Trial: trialId,
+    Plot: p.plot,
+    Line1: `Plot ${p.plot}`,
+    Line2: `Trt ${p.trt_number} · Rep ${p.rep}`,
+    Line3: treatmentName(byTrt.get(p.trt_number)),
+  })))
+  labels['!cols'] = [12, 8, 12, 18, 30].map(wch => ({ wch }))
+  XLSX.utils.book_append_sheet(wb, labels, 'Labels')
+
+  const g = design.geometry
+  const params: Cell[][] = [
+    ['Trial', trialId],
+    ['Design', DESIGN_TYPE_LABELS[design.design_type]],
+    ['Seed', design.seed],
+    ['Treatments', design.treatments.join(', ')],
+    ['Reps', design.reps],
+    ...(split ? [['Main plots', design.main_plot_levels] as Cell[]] : []),
+    ['Grid', `${design.num_rows} rows × ${design.num_cols} columns`],
+    ...(g ? [
+      ['Plot size (m)', `${g.plotWidthM} × ${g.plotLengthM}`],
+      ['Gap / alley (m)', `${g.gapM} / ${g.alleyM}`],
+      ['Rotation (°)', g.rotationDeg],
+    ] as Cell[][] : []),
+    ['Created', design.created_at],
+  ]
+  const ws = XLSX.utils.aoa_to_sheet(params)
+  ws['!cols'] = [{ wch: 18 }, { wch: 40 }]
+  XLSX.utils.book_append_sheet(wb, ws, 'Design')
+
+  return XLSX.write(wb, { type: 'buffer', bookType: 'xlsx' }) as Buffer
+}
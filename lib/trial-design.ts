@@ -0,0 +1,273 @@
+/**
+ * Trial designs: randomised plot layouts generated from a seed, so the
+ * same seed always gives the same allocation.
+ *
+ * - rcbd: randomised complete block, one block (row) per rep with every
+ *   treatment once, randomised within the block
+ * - crd: completely randomised, every treatment × rep shuffled over the grid
+ * - latin_square: treatments × treatments grid, each treatment once per row
+ *   and column; rows are the reps
+ * - split_plot: treatments are main-plot × sub-plot combinations; main plots
+ *   are randomised within each block, sub plots within each main plot
+ *
+ * Plots are numbered row × 100 + column (101, 102 … 201 …), as in the
+ * trial template. plotPolygons lays the grid out in metres, centred in a
+ * field boundary.
+ */
+
+import type { Feature, FeatureCollection, Polygon } from 'geojson'
+import { extractPolygonRings, pointInAnyPolygon } from './geo-utils'
+
+export const DESIGN_TYPES = ['rcbd', 'crd', 'latin_square', 'split_plot'] as const
+export type DesignType = typeof DESIGN_TYPES[number]
+
+export const DESIGN_TYPE_LABELS: Record<DesignType, string> = {
+  rcbd: 'Randomised complete block',
+  crd: 'Completely randomised',
+  latin_square: 'Latin square',
+  split_plot: 'Split plot',
+}
+
+/** Largest layout a design will generate */
+export const MAX_PLOTS = 1000
+const MAX_LATIN_SQUARE = 16
+
+export interface DesignSpec {
+  type: DesignType
+  /** Treatment numbers, in order; split-plot treatments are main-major */
+  treatments: number[]
+  reps: number
+  seed: number
+  /** Split plot: number of main-plot levels (the treatments divide into main × sub) */
+  mainPlotLevels?: number | null
+}
+
+export interface DesignPlot {
+  plot: string
+  trt_number: number
+  rep: number
+  row: number
+  col: number
+  main_plot?: number
+  sub_plot?: number
+}
+
+export interface TrialDesign {
+  spec: DesignSpec
+  rows: number
+  cols: number
+  plots: DesignPlot[]
+}
+
+export function isDesignType(value: unknown): value is DesignType {
+  return typeof value === 'string' && (DESIGN_TYPES as readonly string[]).includes(value)
+}
+
+/** A fresh seed, for when the user doesn't give one */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 2147483647) + 1
+}
+
+/** mulberry32: small, fast and good enough for allocating plots */
+function seededRandom(seed: number): () => number {
+  let a = seed >>> 0
+  return () => {
+    a = (a + 0x6D2B79F5) >>> 0
+    let t = a
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/** Fisher–Yates shuffle into a new array */
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const out = [...items]
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1))
+    ;[out[i], out[j]] = [out[j], out[i]]
+  }
+  return out
+}
+
+function plotNumber(row: number, col: number, cols: number): string {
+  return String(row * (cols > 99 ? 1000 : 100) + col)
+}
+
+/** Why the spec can't be laid out, or null */
+function specError(spec: DesignSpec): string | null {
+  const t = spec.treatments.length
+  if (t < 2) return 'A design needs at least 2 treatments'
+  if (new Set(spec.treatments).size !== t) return 'Treatment numbers must be unique'
+  if (!Number.isInteger(spec.reps) || spec.reps < 1) return 'Reps must be a whole number of at least 1'
+  if (!Number.isInteger(spec.seed) || spec.seed < 1) return 'Seed must be a positive whole number'
+  if (t * spec.reps > MAX_PLOTS) return `Designs are limited to ${MAX_PLOTS} plots`
+  if (spec.type === 'latin_square') {
+    if (t > MAX_LATIN_SQUARE) return `Latin squares are limited to ${MAX_LATIN_SQUARE} treatments`
+    if (spec.reps !== t) return `A Latin square needs as many reps as treatments (${t})`
+  }
+  if (spec.type === 'split_plot') {
+    const a = spec.mainPlotLevels ?? 0
+    if (!Number.isInteger(a) || a < 2 || t % a !== 0 || t / a < 2) {
+      return `Split plot: the ${t} treatments must divide into at least 2 main plots of at least 2 sub plots`
+    }
+  }
+  return null
+}
+
+/** Lay out a design; the same spec (seed included) always gives the same plots */
+export function generateDesign(spec: DesignSpec): TrialDesign | { error: string } {
+  const error = specError(spec)
+  if (error) return { error }
+
+  const random = seededRandom(spec.seed)
+  const trts = spec.treatments
+  const t = trts.length
+  const plots: DesignPlot[] = []
+  let cols = t
+
+  if (spec.type === 'rcbd') {
+    for (let rep = 1; rep <= spec.reps; rep++) {
+      shuffle(trts, random).forEach((trt, i) => {
+        plots.push({ plot: plotNumber(rep, i + 1, cols), trt_number: trt, rep, row: rep, col: i + 1 })
+      })
+    }
+  } else if (spec.type === 'crd') {
+    // Reps count each treatment's plots in field order
+    const pool = shuffle(trts.flatMap(trt => Array(spec.reps).fill(trt) as number[]), random)
+    const seen = new Map<number, number>()
+    pool.forEach((trt, i) => {
+      const rep = (seen.get(trt) ?? 0) + 1
+      seen.set(trt, rep)
+      const row = Math.floor(i / cols) + 1
+      const col = (i % cols) + 1
+      plots.push({ plot: plotNumber(row, col, cols), trt_number: trt, rep, row, col })
+    })
+  } else if (spec.type === 'latin_square') {
+    // A cyclic square with its rows, columns and symbols permuted
+    const rowOrder = shuffle(Array.from({ length: t }, (_, i) => i), random)
+    const colOrder = shuffle(Array.from({ length: t }, (_, i) => i), random)
+    const symbols = shuffle(trts, random)
+    for (let r = 0; r < t; r++) {
+      for (let c = 0; c < t; c++) {
+        const trt = symbols[(rowOrder[r] + colOrder[c]) % t]
+        plots.push({ plot: plotNumber(r + 1, c + 1, cols), trt_number: trt, rep: r + 1, row: r + 1, col: c + 1 })
+      }
+    }
+  } else {
+    const a = spec.mainPlotLevels!
+    const b = t / a
+    for (let rep = 1; rep <= spec.reps; rep++) {
+      let col = 0
+      for (const main of shuffle(Array.from({ length: a }, (_, i) => i + 1), random)) {
+        for (const sub of shuffle(Array.from({ length: b }, (_, i) => i + 1), random)) {
+          col++
+          plots.push({
+            plot: plotNumber(rep, col, cols),
+            trt_number: trts[(main - 1) * b + sub - 1],
+            rep,
+            row: rep,
+            col,
+            main_plot: main,
+            sub_plot: sub,
+          })
+        }
+      }
+    }
+  }
+
+  return { spec, rows: Math.max(...plots.map(p => p.row)), cols, plots }
+}
+
+// ---------- Plot polygons ----------
+
+export interface PlotGeometry {
+  /** Across the row, metres */
+  plotWidthM: number
+  /** Along the row, metres */
+  plotLengthM: number
+  /** Between plots in a row, metres */
+  gapM: number
+  /** Between rows (blocks), metres */
+  alleyM: number
+  /** Clockwise rotation of the grid from north, degrees */
+  rotationDeg: number
+}
+
+export const DEFAULT_GEOMETRY: PlotGeometry = {
+  plotWidthM: 3,
+  plotLengthM: 10,
+  gapM: 0.5,
+  alleyM: 2,
+  rotationDeg: 0,
+}
+
+/** Metres per degree of latitude (constant). */
+const METRES_PER_DEG_LAT = 111320
+
+/** Area-weighted centroid of a [lng, lat] ring (planar, fine at field scale) */
+function ringCentroid(ring: [number, number][]): { centre: [number, number]; area: number } {
+  let area = 0, cx = 0, cy = 0
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const cross = ring[j][0] * ring[i][1] - ring[i][0] * ring[j][1]
+    area += cross
+    cx += (ring[j][0] + ring[i][0]) * cross
+    cy += (ring[j][1] + ring[i][1]) * cross
+  }
+  if (area === 0) return { centre: ring[0], area: 0 }
+  return { centre: [cx / (3 * area), cy / (3 * area)], area: Math.abs(area / 2) }
+}
+
+const round7 = (v: number) => Math.round(v * 1e7) / 1e7
+
+/**
+ * The design's plots as polygons, the grid centred on the largest polygon
+ * of the field boundary. Plots with a corner outside the boundary are
+ * listed in outside.
+ */
+export function plotPolygons(
+  design: TrialDesign,
+  geometry: PlotGeometry,
+  boundary: FeatureCollection
+): { geojson: FeatureCollection<Polygon>; outside: string[] } | { error: string } {
+  const rings = extractPolygonRings(boundary)
+  if (rings.length === 0) return { error: 'The field has no boundary polygon' }
+
+  const [lng0, lat0] = rings
+    .map(ringCentroid)
+    .reduce((a, b) => (b.area > a.area ? b : a)).centre
+  const metresPerDegLng = METRES_PER_DEG_LAT * Math.cos(lat0 * Math.PI / 180)
+  const theta = geometry.rotationDeg * Math.PI / 180
+
+  const { plotWidthM: w, plotLengthM: len, gapM, alleyM } = geometry
+  const totalWidth = design.cols * w + (design.cols - 1) * gapM
+  const totalLength = design.rows * len + (design.rows - 1) * alleyM
+
+  // Local metres (x east, y north, grid centre at 0,0), rotated clockwise
+  const toLngLat = (x: number, y: number): [number, number] => {
+    const xr = x * Math.cos(theta) + y * Math.sin(theta)
+    const yr = -x * Math.sin(theta) + y * Math.cos(theta)
+    return [round7(lng0 + xr / metresPerDegLng), round7(lat0 + yr / METRES_PER_DEG_LAT)]
+  }
+
+  const outside: string[] = []
+  const features: Feature<Polygon>[] = design.plots.map(p => {
+    // Row 1 at the top of the map
+    const left = -totalWidth / 2 + (p.col - 1) * (w + gapM)
+    const top = totalLength / 2 - (p.row - 1) * (len + alleyM)
+    const corners = [
+      toLngLat(left, top),
+      toLngLat(left + w, top),
+      toLngLat(left + w, top - len),
+      toLngLat(left, top - len),
+    ]
+    if (!corners.every(c => pointInAnyPolygon(c, rings))) outside.push(p.plot)
+    return {
+      type: 'Feature',
+      properties: { ...p, label: `${p.plot} T${p.trt_number}` },
+      geometry: { type: 'Polygon', coordinates: [[...corners, corners[0]]] },
+    }
+  })
+
+  return { geojson: { type: 'FeatureCollection', features }, outside }
+}
@@ -0,0 +1,651 @@
+/**
+ * Server-side PDF trial report: trial metadata, treatments, a vector map of
+ * plots/samples, per-metric charts with ANOVA/Tukey stats, a season weather
+ * summary, applications and zone comparisons, the management log and
+ * selected photos. Which sections appear, their order, the metrics charted
+ * and the branding text come from a report template (lib/report-templates).
+ *
+ * Rendering is entirely in-process (lib/pdf); only the weather section
+ * reaches out, to the same Open-Meteo archive the Weather tab uses.
+ */
+
+import { COLORS, PRODUCT_COLORS } from '@/lib/constants/brand'
+import { runAnalysis, type AnalysisQuery, type MetricStats } from '@/lib/analysis'
+import { fetchOpenMeteo, parseGPS, type WeatherDataRow } from '@/lib/weather'
+import { formatDate } from '@/lib/utils'
+import { tDistPValue } from '@/lib/stats'
+import { convexHullFromFC, pointInPolygon, computeStats } from '@/lib/geo-utils'
+import { withRegistry } from '@/lib/sample-registry'
+import {
+  resolveReportTemplate, EMPTY_BRANDING,
+  type ReportBranding, type ReportSection, type ReportTemplate,
+} from '@/lib/report-templates'
+import { ReportLayout, MARGIN } from '@/lib/pdf/layout'
+import { barChart, comboChart, vectorMap, CHART_COLORS, type MapLayer } from '@/lib/pdf/charts'
+
+export interface TrialReportOptions {
+  /** Defaults to the template the trial resolves to */
+  template?: ReportTemplate
+  /** Sections in print order; overrides the template */
+  sections?: ReportSection[]
+  /** trial_photos ids to include; defaults to the most recent few */
+  photoIds?: string[]
+  /** Soil, assay and tissue metrics to chart; overrides the template */
+  metrics?: string[]
+}
+
+const DEFAULT_PHOTO_COUNT = 4
+const DEFAULT_KEY_METRICS = 4
+const MAX_ZONE_ROWS = 60
+
+// ---------- Data loading ----------
+
+async function loadReportData(supabase: any, trialId: string) {
+  const [trialRes, treatmentsRes, samplesRes, logRes, photosRes, fieldsRes, layersRes, applicationsRes] = await Promise.all([
+    supabase.from('trials').select('*').eq('id', trialId).single(),
+    supabase.from('treatments').select('*').eq('trial_id', trialId).order('sort_order'),
+    supabase.from('soil_health_samples').select('sample_no, latitude, longitude').eq('trial_id', trialId),
+    supabase.from('management_log').select('*').eq('trial_id', trialId).order('date'),
+    supabase.from('trial_photos').select('*').eq('trial_id', trialId).order('taken_at', { ascending: false }),
+    supabase.from('field_trials').select('fields(name, boundary)').eq('trial_id', trialId),
+    supabase.from('trial_gis_layers').select('name, geojson, style').eq('trial_id', trialId).order('created_at'),
+    supabase.from('trial_applications').select('*').eq('trial_id', trialId).order('date_applied'),
+  ])
+  if (trialRes.error || !trialRes.data) return null
+
+  const trial = trialRes.data
+  let clientName: string | null = null
+  if (trial.client_id) {
+    const { data } = await supabase.from('clients').select('name').eq('id', trial.client_id).single()
+    clientName = data?.name ?? null
+  }
+
+  return {
+    trial,
+    clientName,
+    treatments: treatmentsRes.data || [],
+    samples: samplesRes.data || [],
+    log: logRes.data || [],
+    photos: photosRes.data || [],
+    fields: (fieldsRes.data || []).map((ft: any) => ft.fields).filter(Boolean),
+    layers: layersRes.data || [],
+    applications: applicationsRes.data || [],
+  }
+}
+
+type ReportData = NonNullable<Awaited<ReturnType<typeof loadReportData>>>
+
+function analysisQuery(source: string, trialId: string): AnalysisQuery {
+  return {
+    source,
+    trialIds: [trialId],
+    groupBy: 'treatment',
+    assayType: null,
+    metrics: null,
+    design: 'auto',
+    control: null,
+    outliers: 'iqr',
+    includeExcluded: false,
+    units: {},
+  }
+}
+
+/**
+ * Metrics from the given sources: the requested ones, or when none are
+ * requested (or none of them exist here) the most significant few.
+ */
+async function loadMetrics(supabase: any, trialId: string, sources: string[], requested: string[]): Promise<MetricStats[]> {
+  const results = await Promise.all(sources.map(source => runAnalysis(supabase, analysisQuery(source, trialId))))
+  const metrics = results.flatMap(r => r.metrics).filter(m => m.groups.length > 1)
+
+  const chosen = metrics.filter(m => requested.includes(m.metric))
+  if (chosen.length > 0) return chosen
+  return metrics
+    .filter(m => m.significance?.pValue != null)
+    .sort((a, b) => a.significance!.pValue! - b.significance!.pValue!)
+    .slice(0, DEFAULT_KEY_METRICS)
+}
+
+// ---------- Geometry ----------
+
+type Ring = [number, number][]
+
+function collectGeometry(geometry: any, out: { polygons: Ring[]; lines: Ring[]; points: [number, number][] }) {
+  if (!geometry) return
+  const c = geometry.coordinates
+  switch (geometry.type) {
+    case 'Polygon': out.polygons.push(c[0]); break
+    case 'MultiPolygon': for (const p of c) out.polygons.push(p[0]); break
+    case 'LineString': out.lines.push(c); break
+    case 'MultiLineString': out.lines.push(...c); break
+    case 'Point': out.points.push(c); break
+    case 'MultiPoint': out.points.push(...c); break
+    case 'GeometryCollection': for (const g of geometry.geometries || []) collectGeometry(g, out); break
+  }
+}
+
+function geojsonLayer(geojson: any, label: string, stroke: string, fill?: string): MapLayer {
+  const out = { polygons: [] as Ring[], lines: [] as Ring[], points: [] as [number, number][] }
+  const features = geojson?.type === 'FeatureCollection' ? geojson.features || [] : geojson?.type === 'Feature' ? [geojson] : []
+  for (const f of features) collectGeometry(f.geometry, out)
+  if (geojson?.type && geojson.type !== 'FeatureCollection' && geojson.type !== 'Feature') collectGeometry(geojson, out)
+  return {
+    label,
+    stroke,
+    fill,
+    polygons: out.polygons,
+    lines: out.lines,
+    points: out.points.map(([lon, lat]) => ({ lon, lat })),
+  }
+}
+
+function mapLayers(data: ReportData): MapLayer[] {
+  const layers: MapLayer[] = []
+  for (const f of data.fields) {
+    if (f.boundary) layers.push(geojsonLayer(f.boundary, `Field: ${f.name}`, COLORS.richBlue))
+  }
+  for (const l of data.layers) {
+    layers.push(geojsonLayer(l.geojson, l.name, l.style?.color || COLORS.trueBlue, COLORS.electricBlue))
+  }
+  const located = data.samples.filter((s: any) => s.latitude != null && s.longitude != null)
+  if (located.length > 0) {
+    layers.push({
+      label: `Soil samples (${located.length})`,
+      fill: COLORS.lushGreen,
+      points: located.map((s: any) => ({
+        lon: Number(s.longitude),
+        lat: Number(s.latitude),
+        label: located.length <= 40 ? s.sample_no : undefined,
+      })),
+    })
+  }
+  const gps = parseGPS(data.trial.gps)
+  if (layers.length === 0 && gps) {
+    layers.push({ label: 'Trial location', fill: '#e67e22', points: [{ lat: gps[0], lon: gps[1] }] })
+  }
+  return layers
+}
+
+// ---------- Weather ----------
+
+const WEATHER_KEYS = ['temperature_2m_max', 'temperature_2m_min', 'precipitation_sum', 'et0_fao_evapotranspiration']
+const ARCHIVE_LAG_DAYS = 5
+const MAX_SEASON_DAYS = 730
+
+function seasonRange(trial: any): { start: string; end: string } | null {
+  if (!trial.planting_date) return null
+  const latest = new Date(Date.now() - ARCHIVE_LAG_DAYS * 86_400_000).toISOString().slice(0, 10)
+  let end = trial.harvest_date && trial.harvest_date < latest ? trial.harvest_date : latest
+  const start = trial.planting_date
+  if (start > end) return null
+  const maxEnd = new Date(new Date(start).getTime() + MAX_SEASON_DAYS * 86_400_000).toISOString().slice(0, 10)
+  if (end > maxEnd) end = maxEnd
+  return { start, end }
+}
+
+function summariseWeather(rows: WeatherDataRow[]) {
+  const num = (v: unknown) => (typeof v === 'number' ? v : null)
+  let rain = 0
+  let et0 = 0
+  let gdd = 0
+  let rainDays = 0
+  let maxT = -Infinity
+  let minT = Infinity
+  const months = new Map<string, { rain: number; tmax: number[]; tmin: number[] }>()
+
+  for (const r of rows) {
+    const tmax = num(r.temperature_2m_max)
+    const tmin = num(r.temperature_2m_min)
+    const p = num(r.precipitation_sum) ?? 0
+    rain += p
+    et0 += num(r.et0_fao_evapotranspiration) ?? 0
+    if (p >= 1) rainDays++
+    if (tmax != null) maxT = Math.max(maxT, tmax)
+    if (tmin != null) minT = Math.min(minT, tmin)
+    // Growing degree days, base 10 °C
+    if (tmax != null && tmin != null) gdd += Math.max(0, (tmax + tmin) / 2 - 10)
+
+    const month = r.time.slice(0, 7)
+    if (!months.has(month)) months.set(month, { rain: 0, tmax: [], tmin: [] })
+    const m = months.get(month)!
+    m.rain += p
+    if (tmax != null) m.tmax.push(tmax)
+    if (tmin != null) m.tmin.push(tmin)
+  }
+
+  const mean = (v: number[]) => (v.length > 0 ? v.reduce((s, x) => s + x, 0) / v.length : null)
+  return {
+    rain, et0, gdd, rainDays,
+    maxT: isFinite(maxT) ? maxT : null,
+    minT: isFinite(minT) ? minT : null,
+    months: Array.from(months.entries()).map(([month, m]) => ({
+      month, rain: m.rain, tmax: mean(m.tmax), tmin: mean(m.tmin),
+    })),
+  }
+}
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
+
+function monthLabel(month: string): string {
+  const [y, m] = month.split('-')
+  return `${MONTHS[Number(m) - 1]} ${y.slice(2)}`
+}
+
+// ---------- Sections ----------
+
+function fmt(v: number | null | undefined, dp = 2): string {
+  return v == null || !isFinite(v) ? '—' : v.toFixed(dp)
+}
+
+function fmtP(p: number | null): string {
+  if (p == null) return '—'
+  return p < 0.001 ? '<0.001' : p.toFixed(3)
+}
+
+function drawSummary(layout: ReportLayout, data: ReportData) {
+  const t = data.trial
+  layout.sectionHeading('Trial summary')
+  layout.keyValues([
+    ['Client', data.clientName || '—'],
+    ['Grower', t.grower || '—'],
+    ['Location', t.location || '—'],
+    ['GPS', t.gps || '—'],
+    ['Crop', t.crop || '—'],
+    ['Trial type', t.trial_type || '—'],
+    ['Status', t.status || '—'],
+    ['Contact', t.contact || '—'],
+    ['Planting date', formatDate(t.planting_date)],
+    ['Harvest date', formatDate(t.harvest_date)],
+    ['Treatments', String(t.num_treatments ?? data.treatments.length)],
+    ['Reps', String(t.reps ?? '—')],
+  ])
+  if (t.notes) layout.paragraph(t.notes)
+}
+
+function drawTreatments(layout: ReportLayout, data: ReportData) {
+  if (data.treatments.length === 0) return
+  layout.sectionHeading('Treatments')
+  layout.table(
+    [
+      { header: 'Trt', width: 0.6, align: 'center' },
+      { header: 'Application', width: 3 },
+      { header: 'Fertiliser', width: 2 },
+      { header: 'Product', width: 2 },
+      { header: 'Rate', width: 1.4 },
+      { header: 'Timing', width: 1.6 },
+    ],
+    data.treatments.map((t: any) => [
+      String(t.trt_number),
+      (t.application || '—') + (t.is_control ? ' (control)' : ''),
+      t.fertiliser || '—',
+      t.product || '—',
+      t.rate || '—',
+      t.timing || '—',
+    ])
+  )
+}
+
+function drawMap(layout: ReportLayout, data: ReportData) {
+  const layers = mapLayers(data)
+  if (layers.length === 0) return
+  layout.sectionHeading('Site map')
+  layout.block(300, (x, y, width) => {
+    vectorMap(layout.doc, x, y, width, 290, layers)
+  })
+}
+
+function drawMetric(layout: ReportLayout, m: MetricStats) {
+  const sig = m.significance
+  const response = new Map((m.response?.groups || []).map(r => [r.label, r]))
+  const controls = new Set(m.response?.controls || [])
+
+  layout.ensure(200)
+  layout.heading(m.metric + (m.unit ? ` (${m.unit})` : ''), 10)
+  if (sig) {
+    const design = sig.design === 'rcbd' ? 'RCBD' : 'one-way'
+    layout.paragraph(
+      `ANOVA (${design}): p = ${fmtP(sig.pValue)} · LSD(5%) = ${fmt(sig.lsd05)} · ` +
+      `Tukey HSD(5%) = ${fmt(sig.hsd05)} · CV = ${fmt(sig.cv, 1)}%`,
+      { size: 8, color: '#555B61' }
+    )
+  }
+
+  layout.block(170, (x, y, width) => {
+    barChart(layout.doc, x, y, width, 165, m.groups.map((g, i) => ({
+      label: g.label,
+      value: g.mean,
+      error: g.stdError,
+      note: g.letter,
+      color: PRODUCT_COLORS[g.label] ?? CHART_COLORS[i % CHART_COLORS.length],
+    })), { yLabel: m.unit })
+  })
+
+  layout.table(
+    [
+      { header: 'Treatment', width: 3 },
+      { header: 'n', width: 0.6, align: 'right' },
+      { header: 'Mean', width: 1.2, align: 'right' },
+      { header: 'SE', width: 1, align: 'right' },
+      { header: 'Tukey', width: 0.9, align: 'center' },
+      { header: '% vs control', width: 1.3, align: 'right' },
+    ],
+    m.groups.map(g => {
+      const r = response.get(g.label)
+      return [
+        g.label + (controls.has(g.label) ? ' (control)' : ''),
+        String(g.n),
+        fmt(g.mean),
+        fmt(g.stdError),
+        g.letter ?? '—',
+        r?.percentResponse != null ? `${r.percentResponse >= 0 ? '+' : ''}${r.percentResponse.toFixed(1)}%` : '—',
+      ]
+    })
+  )
+}
+
+function drawMetrics(layout: ReportLayout, title: string, metrics: MetricStats[], empty: string) {
+  layout.sectionHeading(title)
+  if (metrics.length === 0) {
+    layout.paragraph(empty, { color: '#555B61' })
+    return
+  }
+  layout.paragraph(
+    'Bars show treatment means ± standard error. Treatments sharing a letter do not differ ' +
+    'significantly (Tukey HSD, p < 0.05). Records excluded during review are left out.',
+    { size: 8, color: '#555B61' }
+  )
+  for (const m of metrics) drawMetric(layout, m)
+}
+
+async function drawWeather(layout: ReportLayout, data: ReportData) {
+  layout.sectionHeading('Season weather')
+  const gps = parseGPS(data.trial.gps)
+  const range = seasonRange(data.trial)
+  if (!gps || !range) {
+    layout.paragraph('Weather needs the trial GPS and a planting date.', { color: '#555B61' })
+    return
+  }
+
+  let rows: WeatherDataRow[] | null = null
+  try {
+    rows = await fetchOpenMeteo(gps[0], gps[1], range.start, range.end, 'daily', WEATHER_KEYS)
+  } catch (err) {
+    console.error('[trial-report] weather fetch failed:', err)
+  }
+  if (!rows || rows.length === 0) {
+    layout.paragraph('Weather data was unavailable when this report was generated.', { color: '#555B61' })
+    return
+  }
+
+  const w = summariseWeather(rows)
+  layout.paragraph(`${formatDate(range.start)} to ${formatDate(range.end)} (Open-Meteo archive)`, { size: 8, color: '#555B61' })
+  layout.keyValues([
+    ['Rainfall', `${w.rain.toFixed(0)} mm`],
+    ['Rain days (≥1 mm)', String(w.rainDays)],
+    ['Reference ET', `${w.et0.toFixed(0)} mm`],
+    ['Growing degree days (base 10 °C)', w.gdd.toFixed(0)],
+    ['Highest max', w.maxT != null ? `${w.maxT.toFixed(1)} °C` : '—'],
+    ['Lowest min', w.minT != null ? `${w.minT.toFixed(1)} °C` : '—'],
+  ], 3)
+
+  layout.block(190, (x, y, width) => {
+    comboChart(
+      layout.doc, x, y, width, 185,
+      w.months.map(m => monthLabel(m.month)),
+      { label: 'Rainfall (mm)', values: w.months.map(m => m.rain), color: COLORS.metaBlue },
+      [
+        { label: 'Mean max °C', values: w.months.map(m => m.tmax), color: '#e63946' },
+        { label: 'Mean min °C', values: w.months.map(m => m.tmin), color: '#457b9d' },
+      ],
+      { barLabel: 'mm', lineLabel: '°C' }
+    )
+  })
+}
+
+function drawApplications(layout: ReportLayout, data: ReportData) {
+  if (data.applications.length === 0) return
+  const treatments = new Map(data.treatments.map((t: any) => [t.trt_number, t]))
+  layout.sectionHeading('Applications')
+  layout.table(
+    [
+      { header: 'Date', width: 1.2 },
+      { header: 'Application', width: 2.6 },
+      { header: 'Type', width: 1.2 },
+      { header: 'Product', width: 1.8 },
+      { header: 'Rate', width: 1.2 },
+      { header: 'Treatment', width: 1.6 },
+    ],
+    data.applications.map((a: any) => {
+      const trt: any = a.trt_number != null ? treatments.get(a.trt_number) : null
+      return [
+        formatDate(a.date_applied),
+        a.name,
+        a.application_type || '—',
+        a.product || '—',
+        a.rate || '—',
+        a.trt_number != null ? `${a.trt_number}${trt?.product ? ` · ${trt.product}` : ''}` : '—',
+      ]
+    })
+  )
+}
+
+/** Welch's t-test p-value for two independent samples */
+function welchP(a: number[], b: number[]): number | null {
+  const sa = computeStats(a)
+  const sb = computeStats(b)
+  if (sa.n < 2 || sb.n < 2) return null
+  const va = sa.stdDev ** 2 / sa.n
+  const vb = sb.stdDev ** 2 / sb.n
+  if (va + vb === 0) return null
+  const t = (sa.mean - sb.mean) / Math.sqrt(va + vb)
+  const df = (va + vb) ** 2 / (va ** 2 / (sa.n - 1) + vb ** 2 / (sb.n - 1))
+  return tDistPValue(t, df)
+}
+
+/**
+ * Soil chemistry inside each application zone's hull against the rest of
+ * the trial's located samples, as on the Applications tab.
+ */
+async function drawZoneAnalysis(layout: ReportLayout, supabase: any, data: ReportData, requested: string[]) {
+  if (data.applications.length === 0) return
+  layout.sectionHeading('Zone analysis')
+
+  const located = new Map<string, [number, number]>()
+  for (const s of data.samples) {
+    if (s.latitude != null && s.longitude != null) located.set(s.sample_no, [Number(s.longitude), Number(s.latitude)])
+  }
+  const { data: chemistry, error } = await supabase
+    .from('soil_chemistry')
+    .select('trial_id, sample_no, barcode, metric, value, unit')
+    .eq('trial_id', data.trial.id)
+  if (error) throw error
+
+  const byMetric = new Map<string, { unit: string | null; values: { point: [number, number]; value: number }[] }>()
+  // Registered samples are placed by the registry when soil health has no GPS
+  for (const row of await withRegistry(supabase, chemistry || [])) {
+    const point = located.get(row.sample_no)
+      ?? (row.latitude != null && row.longitude != null
+        ? [Number(row.longitude), Number(row.latitude)] as [number, number]
+        : undefined)
+    if (!point || row.value == null) continue
+    if (requested.length > 0 && !requested.includes(row.metric)) continue
+    if (!byMetric.has(row.metric)) byMetric.set(row.metric, { unit: row.unit, values: [] })
+    byMetric.get(row.metric)!.values.push({ point, value: Number(row.value) })
+  }
+
+  const rows: string[][] = []
+  for (const app of data.applications) {
+    const hull = convexHullFromFC(app.geojson)
+    if (hull.length < 3) continue
+    for (const [metric, { unit, values }] of Array.from(byMetric.entries())) {
+      const inside: number[] = []
+      const outside: number[] = []
+      for (const v of values) (pointInPolygon(v.point, hull) ? inside : outside).push(v.value)
+      if (inside.length === 0 || outside.length === 0) continue
+      const sIn = computeStats(inside)
+      const sOut = computeStats(outside)
+      const diff = sOut.mean !== 0 ? ((sIn.mean - sOut.mean) / Math.abs(sOut.mean)) * 100 : null
+      rows.push([
+        app.name,
+        metric + (unit ? ` (${unit})` : ''),
+        `${fmt(sIn.mean)} (n=${sIn.n})`,
+        `${fmt(sOut.mean)} (n=${sOut.n})`,
+        diff != null ? `${diff >= 0 ? '+' : ''}${diff.toFixed(1)}%` : '—',
+        fmtP(welchP(inside, outside)),
+      ])
+    }
+  }
+
+  if (rows.length === 0) {
+    layout.paragraph('No located soil chemistry samples fall both inside and outside the application zones.', { color: '#555B61' })
+    return
+  }
+  layout.paragraph(
+    'Mean soil chemistry inside each application zone (convex hull) against samples outside it; ' +
+    'p from Welch\'s t-test.' + (rows.length > MAX_ZONE_ROWS ? ` First ${MAX_ZONE_ROWS} of ${rows.length} comparisons shown.` : ''),
+    { size: 8, color: '#555B61' }
+  )
+  layout.table(
+    [
+      { header: 'Zone', width: 2 },
+      { header: 'Metric', width: 2.2 },
+      { header: 'Inside', width: 1.4, align: 'right' },
+      { header: 'Outside', width: 1.4, align: 'right' },
+      { header: 'Diff', width: 0.9, align: 'right' },
+      { header: 'p', width: 0.8, align: 'right' },
+    ],
+    rows.slice(0, MAX_ZONE_ROWS)
+  )
+}
+
+function drawManagement(layout: ReportLayout, data: ReportData) {
+  if (data.log.length === 0) return
+  layout.sectionHeading('Management log')
+  layout.table(
+    [
+      { header: 'Date', width: 1.2 },
+      { header: 'Entry', width: 5 },
+      { header: 'By', width: 1.4 },
+    ],
+    data.log.map((e: any) => [formatDate(e.date), e.entry || '', e.created_by || '—'])
+  )
+}
+
+async function drawPhotos(layout: ReportLayout, supabase: any, data: ReportData, photoIds?: string[]) {
+  const photos = photoIds && photoIds.length > 0
+    ? data.photos.filter((p: any) => photoIds.includes(p.id))
+    : data.photos.slice(0, DEFAULT_PHOTO_COUNT)
+  if (photos.length === 0) return
+
+  const images = await Promise.all(photos.map(async (p: any) => {
+    const { data: blob, error } = await supabase.storage.from('trial-photos').download(p.storage_path)
+    if (error || !blob) return null
+    const img = layout.doc.embedImage(Buffer.from(await blob.arrayBuffer()))
+    return img ? { photo: p, img } : null
+  }))
+  const embedded = images.filter((i): i is NonNullable<typeof i> => i != null)
+  if (embedded.length === 0) return
+
+  layout.sectionHeading('Photos')
+  const gap = 12
+  const cellW = (layout.contentWidth - gap) / 2
+  const imgH = 180
+  for (let i = 0; i < embedded.length; i += 2) {
+    layout.block(imgH + 34, (x, y) => {
+      embedded.slice(i, i + 2).forEach(({ photo, img }, j) => {
+        const cx = x + j * (cellW + gap)
+        // Fit inside the cell, preserving aspect ratio
+        const s = Math.min(cellW / img.width, imgH / img.height)
+        const w = img.width * s
+        const h = img.height * s
+        layout.doc.image(img, cx + (cellW - w) / 2, y + (imgH - h) / 2, w, h)
+        const caption = [photo.caption || photo.filename, photo.taken_at ? formatDate(photo.taken_at) : null]
+          .filter(Boolean).join(' · ')
+        layout.doc.text(layout.doc.truncate(caption, cellW, 8), cx, y + imgH + 12, { size: 8, color: '#555B61' })
+      })
+    })
+  }
+}
+
+// ---------- Entry point ----------
+
+/**
+ * Build the PDF for one trial. Returns null if the trial does not exist.
+ */
+export async function generateTrialReport(
+  supabase: any,
+  trialId: string,
+  options: TrialReportOptions = {}
+): Promise<{ pdf: Buffer; filename: string } | null> {
+  const data = await loadReportData(supabase, trialId)
+  if (!data) return null
+
+  const template = options.template ?? (await resolveReportTemplate(supabase, data.trial)).template
+  const sections = options.sections && options.sections.length > 0 ? options.sections : template.sections
+  const metrics = options.metrics ?? template.metrics
+  const branding: ReportBranding = { ...EMPTY_BRANDING, ...template.branding }
+  const t = data.trial
+  const layout = new ReportLayout(`${t.id} — ${t.name}`)
+
+  // Title block
+  layout.doc.text((branding.title || 'Trial report').toUpperCase(), MARGIN, layout.y + 8, {
+    size: 8, font: 'bold', color: COLORS.metaBlue,
+  })
+  layout.doc.text(`Generated ${formatDate(new Date())}`, MARGIN + layout.contentWidth, layout.y + 8, {
+    size: 8, color: COLORS.grey1, align: 'right',
+  })
+  layout.space(14)
+  layout.doc.text(t.id, MARGIN, layout.y + 14, { size: 14, font: 'bold', color: '#555B61' })
+  layout.space(20)
+  for (const line of layout.doc.wrap(t.name, layout.contentWidth, 18, 'bold')) {
+    layout.doc.text(line, MARGIN, layout.y + 18, { size: 18, font: 'bold' })
+    layout.space(22)
+  }
+  if (branding.subtitle) layout.paragraph(branding.subtitle, { size: 10, color: '#555B61' })
+  layout.space(6)
+
+  for (const section of sections) {
+    switch (section) {
+      case 'summary': drawSummary(layout, data); break
+      case 'treatments': drawTreatments(layout, data); break
+      case 'map': drawMap(layout, data); break
+      case 'yield': {
+        const plot = await runAnalysis(supabase, analysisQuery('plotData', trialId))
+        drawMetrics(layout, 'Yield & plot data', plot.metrics, 'No plot data has been uploaded for this trial yet.')
+        break
+      }
+      case 'soil_chemistry':
+        drawMetrics(
+          layout, 'Soil chemistry',
+          await loadMetrics(supabase, trialId, ['soilChemistry', 'sampleMetadata'], metrics),
+          'No soil chemistry or assay data has been uploaded for this trial yet.'
+        )
+        break
+      case 'tissue':
+        drawMetrics(
+          layout, 'Tissue',
+          await loadMetrics(supabase, trialId, ['tissueChemistry'], metrics),
+          'No tissue data has been uploaded for this trial yet.'
+        )
+        break
+      case 'weather': await drawWeather(layout, data); break
+      case 'applications': drawApplications(layout, data); break
+      case 'zone_analysis': await drawZoneAnalysis(layout, supabase, data, metrics); break
+      case 'management': drawManagement(layout, data); break
+      case 'photos': await drawPhotos(layout, supabase, data, options.photoIds); break
+    }
+  }
+
+  if (branding.disclaimer) {
+    layout.space(12)
+    layout.paragraph(branding.disclaimer, { size: 7, color: '#555B61' })
+  }
+
+  layout.footers(`${branding.footer || 'SoilTrack'} · ${t.id} — ${t.name}`)
+
+  const stamp = new Date().toISOString().slice(0, 10)
+  return {
+    pdf: layout.toBuffer(),
+    filename: `${t.id}_report_${stamp}.pdf`.replace(/[^\w.-]/g, '_'),
+  }
+}
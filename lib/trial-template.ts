@@ -0,0 +1,143 @@
+/**
+ * The "START HERE" trial workbook, pre-filled for a new or existing trial:
+ * a "Trial Summary" sheet in the key-value + treatments layout that
+ * parseTrialSummary reads, and blank "Plot Data" and "Soil Health" sheets
+ * with a row per plot (plot, trt and rep from the trial design).
+ *
+ * Uploaded back through the folder upload, the summary creates or updates
+ * the trial and the data sheets load as their own types; rows left with
+ * only their pre-filled design columns are dropped (templateRows).
+ */
+
+import * as XLSX from 'xlsx'
+
+export interface TemplateTrial {
+  id: string
+  name?: string | null
+  grower?: string | null
+  location?: string | null
+  gps?: string | null
+  crop?: string | null
+  trial_type?: string | null
+  contact?: string | null
+  planting_date?: string | null
+  harvest_date?: string | null
+  num_treatments?: number | null
+  reps?: number | null
+}
+
+export interface TemplateTreatment {
+  trt_number: number
+  application?: string | null
+  fertiliser?: string | null
+  product?: string | null
+  rate?: string | null
+  timing?: string | null
+}
+
+export interface TemplatePlot {
+  plot: string
+  trt_number: number | null
+  rep: number | null
+}
+
+export const SUMMARY_SHEET = 'Trial Summary'
+
+/** Columns the template fills in on the data sheets */
+const DESIGN_COLUMNS = ['Plot', 'Trt', 'Rep']
+
+const PLOT_DATA_COLUMNS = [...DESIGN_COLUMNS, 'Yield (t/ha)', 'Plant Count', 'Vigour', 'Disease Score']
+const SOIL_HEALTH_COLUMNS = [...DESIGN_COLUMNS, 'Sample No', 'Barcode', 'Date', 'Depth', 'Latitude', 'Longitude']
+
+type Cell = string | number
+
+/**
+ * One plot per treatment per rep, numbered rep × 100 + position (101, 102 …
+ * 201 …), or rep × 1000 past 99 treatments. Treatments are in standard
+ * order; a randomised layout comes from the trial's own plot data.
+ */
+export function standardPlots(trtNumbers: number[], reps: number): TemplatePlot[] {
+  const base = trtNumbers.length > 99 ? 1000 : 100
+  const plots: TemplatePlot[] = []
+  for (let rep = 1; rep <= reps; rep++) {
+    trtNumbers.forEach((trt, i) => {
+      plots.push({ plot: String(rep * base + i + 1), trt_number: trt, rep })
+    })
+  }
+  return plots
+}
+
+/**
+ * The template workbook. Plots default to standardPlots over the
+ * treatments (or 1…num_treatments) and reps.
+ */
+export function buildTrialTemplate(
+  trial: TemplateTrial,
+  treatments: TemplateTreatment[],
+  plots?: TemplatePlot[]
+): Buffer {
+  const numTreatments = trial.num_treatments || treatments.length
+  const trtRows: TemplateTreatment[] = treatments.length > 0
+    ? treatments
+    : Array.from({ length: numTreatments }, (_, i) => ({ trt_number: i + 1 }))
+  const reps = trial.reps || 1
+
+  const summary: Cell[][] = [
+    ['Trial', trial.id],
+    ['Name', trial.name ?? ''],
+    ['Grower', trial.grower ?? ''],
+    ['Location', trial.location ?? ''],
+    ['GPS', trial.gps ?? ''],
+    ['Crop', trial.crop ?? ''],
+    ['Trial Type', trial.trial_type ?? ''],
+    ['Contact', trial.contact ?? ''],
+    // ISO dates read back unambiguously
+    ['Planting Date', trial.planting_date ?? ''],
+    ['Harvest Date', trial.harvest_date ?? ''],
+    ['Treatments', numTreatments || ''],
+    ['Reps', reps],
+    [],
+    ['Treatment', 'Application', 'Fertiliser', 'Product', 'Rate', 'Timing'],
+    ...trtRows.map(t => [
+      t.trt_number,
+      t.application ?? '',
+      t.fertiliser ?? '',
+      t.product ?? '',
+      t.rate ?? '',
+      t.timing ?? '',
+    ]),
+  ]
+
+  const layout = plots && plots.length > 0 ? plots : standardPlots(trtRows.map(t => t.trt_number), reps)
+  const designRows = layout.map(p => [p.plot, p.trt_number ?? '', p.rep ?? ''])
+
+  const wb = XLSX.utils.book_new()
+  const ws = XLSX.utils.aoa_to_sheet(summary)
+  ws['!cols'] = [{ wch: 16 }, { wch: 28 }, { wch: 20 }, { wch: 20 }, { wch: 12 }, { wch: 16 }]
+  XLSX.utils.book_append_sheet(wb, ws, SUMMARY_SHEET)
+
+  const plotData = XLSX.utils.aoa_to_sheet([PLOT_DATA_COLUMNS, ...designRows])
+  plotData['!cols'] = PLOT_DATA_COLUMNS.map(h => ({ wch: Math.max(8, h.length + 2) }))
+  XLSX.utils.book_append_sheet(wb, plotData, 'Plot Data')
+
+  const soilHealth = XLSX.utils.aoa_to_sheet([SOIL_HEALTH_COLUMNS, ...designRows])
+  soilHealth['!cols'] = SOIL_HEALTH_COLUMNS.map(h => ({ wch: Math.max(8, h.length + 2) }))
+  XLSX.utils.book_append_sheet(wb, soilHealth, 'Soil Health')
+
+  return XLSX.write(wb, { type: 'buffer', bookType: 'xlsx' }) as Buffer
+}
+
+/** Download name; the folder upload recognises "START HERE" as a trial summary */
+export function templateFilename(trialId: string): string {
+  return `START HERE - ${trialId || 'New Trial'}.xlsx`.replace(/[^\w .#-]/g, '_')
+}
+
+/** Rows with something entered beyond the template's pre-filled design columns */
+export function templateRows(rows: Record<string, any>[]): Record<string, any>[] {
+  const design = new Set(DESIGN_COLUMNS.map(c => c.toLowerCase()))
+  return rows.filter(row =>
+    Object.entries(row).some(([key, val]) =>
+      !design.has(key.toLowerCase().trim()) && val !== undefined && val !== null && String(val).trim() !== ''
+    )
+  )
+}
@@ -0,0 +1,228 @@
+/**
+ * Canonical chemistry metrics and unit conversion.
+ *
+ * Labs report the same nutrient under different names and units ("Exc. Ca"
+ * in meq/100g, "Calcium" in cmol(+)/kg or mg/kg). A catalogue maps those
+ * aliases to one metric name and unit. The built-in entries below are
+ * extended and overridden by the admin-managed metric_catalogue table
+ * (lib/metric-catalogue). genericParse applies the catalogue when pivoting
+ * a file, and runAnalysis re-applies it so rows loaded earlier line up,
+ * then converts to any unit the analysis asks for.
+ *
+ * Conversions stay within a dimension (mass fraction, exchangeable charge,
+ * conductivity), except that metrics with an equivalent weight (the
+ * exchangeable cations) convert between mass and charge:
+ * 1 cmol(+)/kg = 10 × equivalent weight mg/kg.
+ */
+
+type Dimension = 'mass' | 'charge' | 'conductivity'
+
+interface UnitDef {
+  /** Display spelling */
+  label: string
+  dimension: Dimension
+  /** Multiplier to the dimension's base unit (mg/kg, cmol(+)/kg, dS/m) */
+  factor: number
+}
+
+const MG_KG: UnitDef = { label: 'mg/kg', dimension: 'mass', factor: 1 }
+const CMOL_KG: UnitDef = { label: 'cmol(+)/kg', dimension: 'charge', factor: 1 }
+const MMOL_KG: UnitDef = { label: 'mmol(+)/kg', dimension: 'charge', factor: 0.1 }
+const DS_M: UnitDef = { label: 'dS/m', dimension: 'conductivity', factor: 1 }
+
+/** Keyed by unitKey(spelling) */
+const UNITS: Record<string, UnitDef> = {
+  'mg/kg': MG_KG,
+  'ppm': MG_KG,
+  'µg/g': MG_KG,
+  'g/kg': { label: 'g/kg', dimension: 'mass', factor: 1000 },
+  '%': { label: '%', dimension: 'mass', factor: 10000 },
+  'mg/100g': { label: 'mg/100g', dimension: 'mass', factor: 10 },
+  'µg/kg': { label: 'µg/kg', dimension: 'mass', factor: 0.001 },
+  'ppb': { label: 'µg/kg', dimension: 'mass', factor: 0.001 },
+  'cmol(+)/kg': CMOL_KG,
+  'cmolc/kg': CMOL_KG,
+  'cmol/kg': CMOL_KG,
+  'meq/100g': CMOL_KG,
+  'me/100g': CMOL_KG,
+  'mmol(+)/kg': MMOL_KG,
+  'mmolc/kg': MMOL_KG,
+  'meq/kg': MMOL_KG,
+  'ds/m': DS_M,
+  'ms/cm': DS_M,
+  'µs/cm': { label: 'µS/cm', dimension: 'conductivity', factor: 0.001 },
+  'ms/m': { label: 'mS/m', dimension: 'conductivity', factor: 0.01 },
+}
+
+/** Units offered when re-expressing a metric, per dimension */
+const UNIT_CHOICES: Record<Dimension, string[]> = {
+  mass: ['mg/kg', 'g/kg', '%'],
+  charge: ['cmol(+)/kg', 'mmol(+)/kg'],
+  conductivity: ['dS/m', 'µS/cm'],
+}
+
+export interface CanonicalMetric {
+  name: string
+  category?: string | null
+  unit: string
+  /** Lowercased, without full stops */
+  aliases: string[]
+  /** mg per mmol of charge, for cations reported as mass or charge */
+  equivalentWeight?: number | null
+  /** Agronomic optimal range, in `unit` */
+  optimalMin?: number | null
+  optimalMax?: number | null
+}
+
+/** Built-in entries per data source (analysis source / file type) */
+export const BUILTIN_METRICS: Record<string, CanonicalMetric[]> = {
+  soilChemistry: [
+    { name: 'pH (CaCl2)', category: 'Acidity', unit: '', aliases: ['ph (cacl2)', 'ph cacl2', 'ph-cacl2'] },
+    { name: 'pH (water)', category: 'Acidity', unit: '', aliases: ['ph (water)', 'ph (h2o)', 'ph water', 'ph h2o', 'ph (1:5 water)'] },
+    { name: 'EC', category: 'Salinity', unit: 'dS/m', aliases: ['ec', 'ec (1:5)', 'ec 1:5', 'electrical conductivity', 'conductivity'] },
+    { name: 'Organic Carbon', category: 'Organic matter', unit: '%', aliases: ['organic carbon', 'organic c', 'oc', 'org c', 'walkley-black c'] },
+    { name: 'Total Nitrogen', category: 'Nitrogen', unit: '%', aliases: ['total nitrogen', 'total n', 'tn'] },
+    { name: 'Nitrate-N', category: 'Nitrogen', unit: 'mg/kg', aliases: ['nitrate-n', 'nitrate n', 'nitrate nitrogen', 'no3-n', 'no3 n'] },
+    { name: 'Ammonium-N', category: 'Nitrogen', unit: 'mg/kg', aliases: ['ammonium-n', 'ammonium n', 'ammonium nitrogen', 'nh4-n', 'nh4 n'] },
+    { name: 'Colwell P', category: 'Phosphorus', unit: 'mg/kg', aliases: ['colwell p', 'p colwell', 'phosphorus colwell', 'phosphorus (colwell)'] },
+    { name: 'Olsen P', category: 'Phosphorus', unit: 'mg/kg', aliases: ['olsen p', 'p olsen', 'phosphorus olsen', 'phosphorus (olsen)'] },
+    { name: 'Bray P', category: 'Phosphorus', unit: 'mg/kg', aliases: ['bray p', 'bray-1 p', 'p bray', 'phosphorus (bray)'] },
+    { name: 'PBI', category: 'Phosphorus', unit: '', aliases: ['pbi', 'phosphorus buffering index'] },
+    { name: 'Sulfur', category: 'Sulfur', unit: 'mg/kg', aliases: ['sulfur', 'sulphur', 's', 'kcl-40 s', 'kcl40 s', 'sulfur (kcl40)', 'sulphur (kcl40)'] },
+    { name: 'CEC', category: 'Exchangeable cations', unit: 'cmol(+)/kg', aliases: ['cec', 'ecec', 'cation exchange capacity', 'effective cec'] },
+    { name: 'Calcium', category: 'Exchangeable cations', unit: 'cmol(+)/kg', equivalentWeight: 20.04, aliases: ['calcium', 'ca', 'exc ca', 'exch ca', 'exchangeable calcium', 'exchangeable ca'] },
+    { name: 'Magnesium', category: 'Exchangeable cations', unit: 'cmol(+)/kg', equivalentWeight: 12.15, aliases: ['magnesium', 'mg', 'exc mg', 'exch mg', 'exchangeable magnesium', 'exchangeable mg'] },
+    { name: 'Potassium', category: 'Exchangeable cations', unit: 'cmol(+)/kg', equivalentWeight: 39.1, aliases: ['potassium', 'k', 'exc k', 'exch k', 'exchangeable potassium', 'exchangeable k'] },
+    { name: 'Sodium', category: 'Exchangeable cations', unit: 'cmol(+)/kg', equivalentWeight: 22.99, aliases: ['sodium', 'na', 'exc na', 'exch na', 'exchangeable sodium', 'exchangeable na'] },
+    { name: 'Aluminium', category: 'Exchangeable cations', unit: 'cmol(+)/kg', equivalentWeight: 8.99, aliases: ['aluminium', 'aluminum', 'al', 'exc al', 'exch al', 'exchangeable aluminium', 'exchangeable al'] },
+    { name: 'Zinc', category: 'Trace elements', unit: 'mg/kg', aliases: ['zinc', 'zn', 'dtpa zn'] },
+    { name: 'Copper', category: 'Trace elements', unit: 'mg/kg', aliases: ['copper', 'cu', 'dtpa cu'] },
+    { name: 'Manganese', category: 'Trace elements', unit: 'mg/kg', aliases: ['manganese', 'mn', 'dtpa mn'] },
+    { name: 'Iron', category: 'Trace elements', unit: 'mg/kg', aliases: ['iron', 'fe', 'dtpa fe'] },
+    { name: 'Boron', category: 'Trace elements', unit: 'mg/kg', aliases: ['boron', 'b', 'hot cacl2 b'] },
+  ],
+  // Plant tissue is reported on a dry-matter basis: macronutrients in %,
+  // micronutrients in mg/kg. No charge units here.
+  tissueChemistry: [
+    { name: 'Nitrogen', category: 'Macronutrients', unit: '%', aliases: ['nitrogen', 'n', 'total n', 'total nitrogen'] },
+    { name: 'Phosphorus', category: 'Macronutrients', unit: '%', aliases: ['phosphorus', 'p'] },
+    { name: 'Potassium', category: 'Macronutrients', unit: '%', aliases: ['potassium', 'k'] },
+    { name: 'Sulfur', category: 'Macronutrients', unit: '%', aliases: ['sulfur', 'sulphur', 's'] },
+    { name: 'Calcium', category: 'Macronutrients', unit: '%', aliases: ['calcium', 'ca'] },
+    { name: 'Magnesium', category: 'Macronutrients', unit: '%', aliases: ['magnesium', 'mg'] },
+    { name: 'Sodium', category: 'Macronutrients', unit: '%', aliases: ['sodium', 'na'] },
+    { name: 'Zinc', category: 'Micronutrients', unit: 'mg/kg', aliases: ['zinc', 'zn'] },
+    { name: 'Copper', category: 'Micronutrients', unit: 'mg/kg', aliases: ['copper', 'cu'] },
+    { name: 'Manganese', category: 'Micronutrients', unit: 'mg/kg', aliases: ['manganese', 'mn'] },
+    { name: 'Iron', category: 'Micronutrients', unit: 'mg/kg', aliases: ['iron', 'fe'] },
+    { name: 'Boron', category: 'Micronutrients', unit: 'mg/kg', aliases: ['boron', 'b'] },
+  ],
+}
+
+function unitKey(unit: string): string {
+  return unit.trim().toLowerCase().replace(/\s+/g, '').replace(/μ/g, 'µ').replace(/^u(?=[sg]\/)/, 'µ')
+}
+
+export const metricKey = (name: string) => name.trim().toLowerCase().replace(/\./g, '').replace(/\s+/g, ' ')
+
+/**
+ * The catalogue for a data source: the built-in entries, with managed
+ * entries replacing built-ins of the same name and adding new ones.
+ */
+export function catalogueFor(source: string, managed: CanonicalMetric[] = []): CanonicalMetric[] {
+  const names = new Set(managed.map(m => metricKey(m.name)))
+  return [...(BUILTIN_METRICS[source] || []).filter(b => !names.has(metricKey(b.name))), ...managed]
+}
+
+const aliasIndex = new WeakMap<CanonicalMetric[], Map<string, CanonicalMetric>>()
+
+/** Later entries win an alias claimed twice, so managed entries override built-ins */
+export function findCanonicalMetric(catalogue: CanonicalMetric[] | undefined, name: string): CanonicalMetric | undefined {
+  if (!catalogue) return undefined
+  let index = aliasIndex.get(catalogue)
+  if (!index) {
+    index = new Map()
+    for (const def of catalogue) {
+      for (const alias of def.aliases) index.set(metricKey(alias), def)
+    }
+    for (const def of catalogue) index.set(metricKey(def.name), def)
+    aliasIndex.set(catalogue, index)
+  }
+  return index.get(metricKey(name))
+}
+
+export function isKnownUnit(unit: string): boolean {
+  return unitKey(unit) in UNITS
+}
+
+/** The standard spelling of a recognised unit ("ppm" → "mg/kg"), else the unit trimmed */
+export function normaliseUnit(unit: string): string {
+  return UNITS[unitKey(unit)]?.label ?? unit.trim()
+}
+
+/**
+ * Convert a value between units. Returns null when the units are
+ * unrecognised or incompatible (e.g. % to cmol(+)/kg without an
+ * equivalent weight).
+ */
+export function convertValue(value: number, from: string, to: string, equivalentWeight?: number | null): number | null {
+  if (unitKey(from) === unitKey(to)) return value
+  const a = UNITS[unitKey(from)]
+  const b = UNITS[unitKey(to)]
+  if (!a || !b) return null
+
+  let base = value * a.factor
+  if (a.dimension !== b.dimension) {
+    if (!equivalentWeight) return null
+    if (a.dimension === 'mass' && b.dimension === 'charge') base = base / (10 * equivalentWeight)
+    else if (a.dimension === 'charge' && b.dimension === 'mass') base = base * 10 * equivalentWeight
+    else return null
+  }
+  // Trim floating-point noise from the factor arithmetic
+  return Number((base / b.factor).toPrecision(12))
+}
+
+/** Units a metric measured in `unit` can be expressed in, for unit pickers */
+export function unitOptions(unit: string, equivalentWeight?: number | null): string[] {
+  const def = UNITS[unitKey(unit)]
+  if (!def) return []
+  const options = [...UNIT_CHOICES[def.dimension]]
+  if (equivalentWeight && def.dimension !== 'conductivity') {
+    options.push(...UNIT_CHOICES[def.dimension === 'mass' ? 'charge' : 'mass'])
+  }
+  return options
+}
+
+export interface Measurement {
+  metric: string
+  value: number
+  unit: string
+}
+
+/**
+ * Rename a measurement to its catalogue metric and convert it to that
+ * metric's unit. Headers like "pH (CaCl2)", where the parenthesised part
+ * is a method rather than a unit, are matched as a whole. Values whose
+ * unit can't be converted keep it (in standard spelling); a missing unit
+ * stays missing rather than being assumed.
+ */
+export function canonicalMeasurement(
+  measurement: Measurement,
+  catalogue: CanonicalMetric[] | undefined
+): Measurement & { definition?: CanonicalMetric } {
+  const { metric, value, unit } = measurement
+  let sourceUnit = unit
+
+  // "EC (1:5)": the whole header is the alias and the value is in the
+  // catalogue unit
+  let definition = unit && !isKnownUnit(unit) ? findCanonicalMetric(catalogue, `${metric} (${unit})`) : undefined
+  if (definition) sourceUnit = definition.unit
+  else definition = findCanonicalMetric(catalogue, metric)
+
+  if (!definition) return { metric, value, unit: normaliseUnit(unit) }
+
+  const converted = sourceUnit ? convertValue(value, sourceUnit, definition.unit, definition.equivalentWeight) : null
+  return converted != null
+    ? { metric: definition.name, value: converted, unit: definition.unit, definition }
+    : { metric: definition.name, value, unit: normaliseUnit(sourceUnit), definition }
+}
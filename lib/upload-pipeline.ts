@@ -10,12 +10,46 @@
  *
  * If column mapping has unmapped columns, the raw_upload stays in 'pending'
  * status and the UI can prompt the user to review.
+ *
+ * Before mapping, the file's headers are matched against saved import
+ * profiles (lib/import-profiles); a matching profile supplies the sheet,
+ * header-row offset, column overrides, units and date format. Pivoted
+ * metrics are resolved against the managed metric catalogue
+ * (lib/metric-catalogue).
+ *
+ * Workbooks with several data tabs are split by readWorkbookSheets and
+ * each sheet runs through the pipeline for its own type (runWorkbookSheets).
+ *
+ * With dryRun, the pipeline stops before staging and returns a diff of the
+ * rows against what's stored (lib/import-diff) for the user to confirm.
+ *
+ * Mapped rows are checked against the type's validation rules
+ * (lib/parsers/validation); rows with errors are left out of the load and
+ * reported, with the source rows, in PipelineResult.validation.
+ *
+ * Types with a sampleRegistry config resolve their barcodes against the
+ * sample registry first (lib/sample-registry): blanks are filled from the
+ * registered sample, and loaded lab results mark their samples analysed.
  */
 
 import Papa from 'papaparse'
 import * as XLSX from 'xlsx'
-import { COLUMN_MAPS, type ColumnMapConfig } from './parsers/column-maps'
-import { genericParse, type ParseResult } from './parsers/generic-parser'
+import { COLUMN_MAPS, extractTrialId, type ColumnMapConfig } from './parsers/column-maps'
+import { classifySheet, isDataClassification } from './parsers/classify'
+import { countCensored, genericParse, type ParseResult } from './parsers/generic-parser'
+import { tabulate } from './parsers/sheet-layout'
+import {
+  headerFingerprint, groupByLayout, profileFromRow,
+  type ImportProfile, type ImportLayout,
+} from './import-profiles'
+import { loadMetricCatalogue } from './metric-catalogue'
+import { computeImportDiff, describeDiff, type ImportDiff } from './import-diff'
+import { validateRows, type ValidationContext, type ValidationReport } from './parsers/validation'
+import {
+  loadRegistry, markAnalysed, resolveFromRegistry, trialHasSamples,
+  type RegisteredSample,
+} from './sample-registry'
+import { templateRows } from './trial-template'
 import { type SupabaseClient } from '@supabase/supabase-js'
 
 /**
@@ -36,12 +70,18 @@ function deduplicateRows(
 }
 
 export interface PipelineResult {
-  status: 'success' | 'needs_review' | 'error'
+  status: 'success' | 'needs_review' | 'error' | 'preview'
   records?: number
   detail?: string
   rawUploadId?: string
   unmappedColumns?: string[]
   parseResult?: ParseResult
+  /** The import profile the file was read with, if any */
+  importProfile?: { id: string; name: string }
+  /** Dry runs: how the load would change stored rows */
+  diff?: ImportDiff
+  /** Per-row errors and warnings; rows with errors weren't loaded */
+  validation?: ValidationReport
 }
 
 interface PipelineOptions {
@@ -51,41 +91,286 @@ interface PipelineOptions {
   extraDefaults?: Record<string, any>
   /** If true, skip staging to raw_uploads (for re-processing an existing raw_upload) */
   rawUploadId?: string
+  /** Import profile to read the file with; null disables auto-selection by header fingerprint */
+  importProfileId?: string | null
+  /** If true, return a diff against stored rows instead of staging and loading */
+  dryRun?: boolean
+  /** Worksheet to read, for workbooks split by readWorkbookSheets (overrides the profile's) */
+  sheetName?: string
+  /** A sheet of a generated trial template: rows with only their pre-filled design columns are dropped */
+  fromTemplate?: boolean
+  /** Check rows against these treatments and season instead of the stored trial's */
+  trialDetails?: TrialDetails
 }
 
+/**
+ * The parts of a trial the row checks use. A dry run of a trial summary's
+ * data sheets passes the summary's, since the trial isn't written yet.
+ */
+export type TrialDetails = Pick<ValidationContext, 'treatments' | 'plantingDate' | 'harvestDate'>
+
 /**
  * Parse raw file content into an array of row objects.
  * Handles both CSV (string) and Excel (ArrayBuffer).
+ *
+ * layout picks the worksheet (default: the first) and pins the header row;
+ * otherwise the header row is detected below any title block, and stacked
+ * unit rows and summary footers are handled (lib/parsers/sheet-layout).
  */
 export function parseRawContent(
   content: string | ArrayBuffer,
-  isExcel: boolean
+  isExcel: boolean,
+  layout?: ImportLayout
 ): { rows: Record<string, any>[]; headers: string[] } {
+  const offset = layout?.headerRowOffset ?? 0
+
   if (isExcel) {
     const workbook = XLSX.read(content as ArrayBuffer, { type: 'array' })
-    const sheet = workbook.Sheets[workbook.SheetNames[0]]
-    const data: Record<string, any>[] = XLSX.utils.sheet_to_json(sheet, { raw: true })
-    const headers = data.length > 0 ? Object.keys(data[0]) : []
-    // Normalize all values to strings for consistency
-    const rows = data.map(row => {
-      const out: Record<string, string> = {}
-      for (const [k, v] of Object.entries(row)) {
-        out[k] = String(v ?? '').trim()
-      }
-      return out
-    })
-    return { rows, headers }
+    const sheetName = layout?.sheetName ?? workbook.SheetNames[0]
+    const sheet = workbook.Sheets[sheetName]
+    if (!sheet) throw new Error(`Sheet "${sheetName}" not found`)
+    return sheetRows(sheet, offset)
   }
 
   // CSV
-  const result = Papa.parse(content as string, {
-    header: true,
-    skipEmptyLines: true,
-    transformHeader: (h: string) => h.trim(),
-  })
-  const rows = result.data as Record<string, string>[]
-  const headers = result.meta?.fields || (rows.length > 0 ? Object.keys(rows[0]) : [])
-  return { rows, headers }
+  const result = Papa.parse(content as string, { skipEmptyLines: true })
+  return tabulate(result.data as string[][], offset)
+}
+
+function sheetRows(sheet: XLSX.WorkSheet, offset = 0): { rows: Record<string, any>[]; headers: string[] } {
+  const grid: unknown[][] = XLSX.utils.sheet_to_json(sheet, { header: 1, raw: true, defval: '' })
+  return tabulate(grid, offset)
+}
+
+export interface WorkbookSheet {
+  sheetName: string
+  fileType: string
+  rows: Record<string, any>[]
+}
+
+/**
+ * The data sheets of a workbook, each classified by sheet name and header
+ * signature. Empty sheets and sheets that don't look like a data type
+ * (notes, lookups, a trial summary tab) are left out.
+ */
+export function readWorkbookSheets(content: ArrayBuffer): WorkbookSheet[] {
+  const workbook = XLSX.read(content, { type: 'array' })
+  const sheets: WorkbookSheet[] = []
+  for (const sheetName of workbook.SheetNames) {
+    const { rows, headers } = sheetRows(workbook.Sheets[sheetName])
+    if (rows.length === 0) continue
+    const fileType = classifySheet(sheetName, headers)
+    if (isDataClassification(fileType)) sheets.push({ sheetName, fileType, rows })
+  }
+  return sheets
+}
+
+export interface SheetResult extends PipelineResult {
+  sheetName: string
+  fileType: string
+  trialId?: string
+}
+
+/**
+ * Run each data sheet of a workbook through the pipeline for its own type.
+ * Sheets without a trial ID (none given, none in the sheet) are reported
+ * as errors; an auto-detected trial is created unless this is a dry run.
+ * The staged filename is "<file> [<sheet>]", so each sheet has its own
+ * raw_upload, log entry and undo.
+ */
+export async function runWorkbookSheets(
+  supabase: SupabaseClient,
+  sheets: WorkbookSheet[],
+  filename: string,
+  content: ArrayBuffer,
+  options: {
+    trialId?: string | null
+    dryRun?: boolean
+    assayType?: string
+    fromTemplate?: boolean
+    trialDetails?: TrialDetails
+  }
+): Promise<SheetResult[]> {
+  const results: SheetResult[] = []
+  for (const sheet of sheets) {
+    const trialId = options.trialId || extractTrialId(sheet.rows, COLUMN_MAPS[sheet.fileType])
+    if (!trialId) {
+      results.push({
+        sheetName: sheet.sheetName,
+        fileType: sheet.fileType,
+        status: 'error',
+        detail: 'No trial context — select a trial or ensure the sheet contains a grower/property/trial column',
+      })
+      continue
+    }
+    if (!options.trialId && !options.dryRun) {
+      await supabase.from('trials').upsert(
+        { id: trialId, name: trialId },
+        { onConflict: 'id', ignoreDuplicates: true }
+      )
+    }
+
+    const result = await runPipeline(
+      supabase,
+      trialId,
+      sheet.fileType,
+      `${filename} [${sheet.sheetName}]`,
+      content,
+      true,
+      {
+        sheetName: sheet.sheetName,
+        dryRun: options.dryRun,
+        fromTemplate: options.fromTemplate,
+        trialDetails: options.trialDetails,
+        extraDefaults: sheet.fileType === 'sampleMetadata' && options.assayType
+          ? { assay_type: options.assayType }
+          : undefined,
+      }
+    )
+    // parseResult holds every row; keep it out of the per-sheet response
+    results.push({ ...result, parseResult: undefined, sheetName: sheet.sheetName, fileType: sheet.fileType, trialId })
+  }
+  return results
+}
+
+/** Overall status of a workbook's sheets, for the per-file row */
+export function summariseSheets(results: SheetResult[]): Pick<PipelineResult, 'status' | 'records' | 'detail'> {
+  const status = results.every(r => r.status === 'error')
+    ? 'error'
+    : results.some(r => r.status === 'needs_review')
+      ? 'needs_review'
+      : results.some(r => r.status === 'preview') ? 'preview' : 'success'
+  const records = results.reduce((n, r) => n + (r.records ?? 0), 0)
+  const failed = results.filter(r => r.status === 'error').length
+  return {
+    status,
+    records: status === 'preview' ? undefined : records,
+    detail: `${results.length} sheets` + (failed > 0 ? `, ${failed} failed` : ''),
+  }
+}
+
+/**
+ * What the validation rules check rows against: the trial's treatments and
+ * season (trialDetails when given), and the registered samples for the
+ * rows' barcodes
+ */
+async function loadValidationContext(
+  supabase: SupabaseClient,
+  trialId: string,
+  config: ColumnMapConfig,
+  rows: Record<string, any>[],
+  trialDetails?: TrialDetails
+): Promise<ValidationContext> {
+  const context: ValidationContext = {
+    trialId,
+    treatments: [],
+    plantingDate: null,
+    harvestDate: null,
+    registry: new Map(),
+    registryInUse: false,
+    ...trialDetails,
+  }
+  if (config.validation?.treatmentField && !trialDetails) {
+    const { data, error } = await supabase.from('treatments').select('trt_number').eq('trial_id', trialId)
+    if (error) throw error
+    context.treatments = (data || []).map(t => Number(t.trt_number))
+  }
+  if (config.validation?.season && !trialDetails) {
+    const { data, error } = await supabase
+      .from('trials')
+      .select('planting_date, harvest_date')
+      .eq('id', trialId)
+      .maybeSingle()
+    if (error) throw error
+    context.plantingDate = data?.planting_date ?? null
+    context.harvestDate = data?.harvest_date ?? null
+  }
+  if (config.sampleRegistry) {
+    const field = config.sampleRegistry.barcodeField
+    context.registry = await loadRegistry(supabase, rows.map(r => String(r[field] ?? '')))
+    context.registryInUse = await trialHasSamples(supabase, trialId)
+  }
+  return context
+}
+
+/**
+ * Fill blanks from the sample registry (in place), then validate. The
+ * registry lookup comes back for marking loaded results analysed.
+ */
+async function checkRows(
+  supabase: SupabaseClient,
+  trialId: string,
+  config: ColumnMapConfig,
+  parseResult: ParseResult,
+  rawRows: Record<string, any>[],
+  trialDetails?: TrialDetails
+): Promise<{ rows: Record<string, any>[]; report: ValidationReport; registry: Map<string, RegisteredSample> }> {
+  const context = await loadValidationContext(supabase, trialId, config, parseResult.rows, trialDetails)
+  if (config.sampleRegistry) {
+    resolveFromRegistry(parseResult.rows, context.registry, trialId, config.sampleRegistry.barcodeField)
+  }
+  return { ...validateRows(parseResult, rawRows, config, context), registry: context.registry }
+}
+
+/** Lab results just loaded: move their registered samples to 'analysed' */
+async function recordResults(
+  supabase: SupabaseClient,
+  config: ColumnMapConfig,
+  registry: Map<string, RegisteredSample>,
+  rows: Record<string, any>[],
+  filename: string
+): Promise<void> {
+  if (!config.sampleRegistry?.marksAnalysed) return
+  const field = config.sampleRegistry.barcodeField
+  await markAnalysed(supabase, registry, rows.map(r => String(r[field] ?? '')), filename)
+}
+
+/** Follows the load summary: censored values among the loaded rows, and rejected rows */
+function loadNotes(rows: Record<string, any>[], validation?: ValidationReport): string {
+  const notes: string[] = []
+  const censored = countCensored(rows)
+  if (censored > 0) notes.push(`${censored} below/above detection limit`)
+  if (validation?.rejected) notes.push(`${validation.rejected} rows rejected`)
+  if (validation?.warnings) notes.push(`${validation.warnings} warnings`)
+  return notes.length > 0 ? ` (${notes.join(', ')})` : ''
+}
+
+/**
+ * Find the saved profile whose fingerprint matches the file's headers. The
+ * file is read once per distinct sheet/offset among the candidates; the
+ * most recently updated profile wins a tie.
+ */
+async function selectImportProfile(
+  supabase: SupabaseClient,
+  fileType: string,
+  content: string | ArrayBuffer,
+  isExcel: boolean,
+  sheetName?: string
+): Promise<ImportProfile | null> {
+  const { data, error } = await supabase
+    .from('import_profiles')
+    .select('*')
+    .eq('file_type', fileType)
+    .order('updated_at', { ascending: false })
+  if (error || !data || data.length === 0) return null
+
+  for (const { layout, profiles } of groupByLayout(data.map(profileFromRow))) {
+    let headers: string[]
+    try {
+      headers = parseRawContent(content, isExcel, sheetName ? { ...layout, sheetName } : layout).headers
+    } catch {
+      continue // e.g. the profile's sheet isn't in this workbook
+    }
+    const fingerprint = headerFingerprint(headers)
+    const match = profiles.find(p => p.header_fingerprint === fingerprint)
+    if (match) return match
+  }
+  return null
+}
+
+async function loadImportProfile(supabase: SupabaseClient, id: string): Promise<ImportProfile | null> {
+  const { data } = await supabase.from('import_profiles').select('*').eq('id', id).single()
+  return data ? profileFromRow(data) : null
 }
 
 /**
@@ -106,24 +391,71 @@ export async function runPipeline(
   }
 
   try {
-    // Step 1: Parse raw content
-    const { rows: rawRows, headers } = parseRawContent(content, isExcel)
+    // Step 1: Pick the import profile and parse raw content with its layout
+    const profile = options?.importProfileId === null
+      ? null
+      : options?.importProfileId
+        ? await loadImportProfile(supabase, options.importProfileId)
+        : await selectImportProfile(supabase, fileType, content, isExcel, options?.sheetName)
+
+    const parsed = parseRawContent(content, isExcel, {
+      sheetName: options?.sheetName ?? profile?.sheet_name,
+      headerRowOffset: profile?.header_row_offset,
+    })
+    const rawRows = options?.fromTemplate ? templateRows(parsed.rows) : parsed.rows
+    const { headers } = parsed
     if (rawRows.length === 0) {
       return { status: 'error', detail: 'No data rows found in file' }
     }
 
-    // Step 2: Apply column mapping
+    // Step 2: Apply column mapping (user overrides win over the profile's)
     const parseResult = genericParse(
       rawRows,
       config,
-      options?.columnOverrides,
-      options?.extraDefaults
+      profile ? { ...profile.column_overrides, ...options?.columnOverrides } : options?.columnOverrides,
+      options?.extraDefaults,
+      {
+        units: profile?.units,
+        dateFormat: profile?.date_format,
+        catalogue: await loadMetricCatalogue(supabase, fileType),
+      }
     )
+    const importProfile = profile ? { id: profile.id, name: profile.name } : undefined
 
     if (parseResult.rows.length === 0) {
       return { status: 'error', detail: 'No valid records after transformation (check column mapping)' }
     }
 
+    // Direct-mode parsers with unmapped columns pause for user review
+    // (Pivot-mode parsers treat unknown columns as metrics, so no review needed)
+    // (allowExtraColumns types store extras in raw_data — no review needed)
+    const needsReview =
+      parseResult.unmappedColumns.length > 0 &&
+      config.pivotMode === 'none' &&
+      !options?.columnOverrides &&
+      !config.allowExtraColumns
+
+    // Row checks wait for review: unmapped columns would read as missing fields
+    const validated = needsReview ? null : await checkRows(supabase, trialId, config, parseResult, rawRows, options?.trialDetails)
+    const validation = validated?.report
+    const loadRows = validated ? validated.rows : parseResult.rows
+
+    // Dry run: diff the rows as mapped so far; unmapped columns are
+    // reported so the user knows review will follow the real import
+    if (options?.dryRun) {
+      const diff = await computeImportDiff(
+        supabase, config.tableName, trialId, deduplicateRows(loadRows, config.naturalKeyFields)
+      )
+      return {
+        status: 'preview',
+        diff,
+        importProfile,
+        validation,
+        unmappedColumns: needsReview ? parseResult.unmappedColumns : undefined,
+        detail: describeDiff(diff),
+      }
+    }
+
     // Step 3: Stage raw content in raw_uploads
     let rawUploadId = options?.rawUploadId
     if (!rawUploadId) {
@@ -137,6 +469,7 @@ export async function runPipeline(
           headers,
           column_map: parseResult.appliedMap,
           unmapped_columns: parseResult.unmappedColumns,
+          import_profile_id: profile?.id ?? null,
           status: parseResult.unmappedColumns.length > 0 && config.pivotMode === 'none'
             ? 'pending'
             : 'mapped',
@@ -150,27 +483,26 @@ export async function runPipeline(
       rawUploadId = staged.id
     }
 
-    // For direct-mode parsers with unmapped columns, pause for user review
-    // (Pivot-mode parsers treat unknown columns as metrics, so no review needed)
-    // (allowExtraColumns types store extras in raw_data — no review needed)
-    if (
-      parseResult.unmappedColumns.length > 0 &&
-      config.pivotMode === 'none' &&
-      !options?.columnOverrides &&
-      !config.allowExtraColumns
-    ) {
+    if (needsReview) {
       return {
         status: 'needs_review',
         rawUploadId,
         unmappedColumns: parseResult.unmappedColumns,
         parseResult,
+        importProfile,
         detail: `${parseResult.unmappedColumns.length} column(s) could not be auto-matched`,
       }
     }
 
+    if (loadRows.length === 0) {
+      const detail = `All ${validation?.rejected ?? 0} rows failed validation`
+      await supabase.from('raw_uploads').update({ status: 'error', error_detail: detail }).eq('id', rawUploadId)
+      return { status: 'error', detail, rawUploadId, validation }
+    }
+
     // Step 4: Deduplicate rows by natural key to prevent
     // "ON CONFLICT DO UPDATE command cannot affect row a second time"
-    const dedupedRows = deduplicateRows(parseResult.rows, config.naturalKeyFields)
+    const dedupedRows = deduplicateRows(loadRows, config.naturalKeyFields)
 
     // Step 5: Load via atomic RPC
     const { data: rpcResult, error: rpcError } = await supabase.rpc('load_and_track', {
@@ -196,12 +528,17 @@ export async function runPipeline(
     if (result.status === 'error') {
       return { status: 'error', detail: result.detail, rawUploadId }
     }
+    if (validated) await recordResults(supabase, config, validated.registry, dedupedRows, filename)
 
     return {
       status: 'success',
       records: result.records,
       rawUploadId,
-      detail: `Upserted ${result.records} records`,
+      importProfile,
+      validation,
+      detail: (importProfile
+        ? `Upserted ${result.records} records using import profile "${importProfile.name}"`
+        : `Upserted ${result.records} records`) + loadNotes(dedupedRows, validation),
     }
   } catch (err: any) {
     return { status: 'error', detail: err.message || 'Pipeline failed' }
@@ -243,19 +580,37 @@ export async function reprocessRawUpload(
     })
     .eq('id', rawUploadId)
 
-  // Re-run generic parse with overrides
+  // Re-run generic parse with overrides, on top of the profile the file was read with
+  const profile = rawUpload.import_profile_id
+    ? await loadImportProfile(supabase, rawUpload.import_profile_id)
+    : null
   const parseResult = genericParse(
     rawUpload.raw_rows,
     config,
-    columnOverrides
+    profile ? { ...profile.column_overrides, ...columnOverrides } : columnOverrides,
+    undefined,
+    {
+      units: profile?.units,
+      dateFormat: profile?.date_format,
+      catalogue: await loadMetricCatalogue(supabase, rawUpload.file_type),
+    }
   )
 
   if (parseResult.rows.length === 0) {
     return { status: 'error', detail: 'No valid records after re-mapping' }
   }
 
+  const { rows: validRows, report: validation, registry } = await checkRows(
+    supabase, rawUpload.trial_id, config, parseResult, rawUpload.raw_rows
+  )
+  if (validRows.length === 0) {
+    const detail = `All ${validation.rejected} rows failed validation`
+    await supabase.from('raw_uploads').update({ status: 'error', error_detail: detail }).eq('id', rawUploadId)
+    return { status: 'error', detail, rawUploadId, validation }
+  }
+
   // Deduplicate rows by natural key before RPC
-  const dedupedRows = deduplicateRows(parseResult.rows, config.naturalKeyFields)
+  const dedupedRows = deduplicateRows(validRows, config.naturalKeyFields)
 
   // Load via RPC
   const { data: rpcResult, error: rpcError } = await supabase.rpc('load_and_track', {
@@ -279,11 +634,13 @@ export async function reprocessRawUpload(
   if (result.status === 'error') {
     return { status: 'error', detail: result.detail, rawUploadId }
   }
+  await recordResults(supabase, config, registry, dedupedRows, rawUpload.filename)
 
   return {
     status: 'success',
     records: result.records,
     rawUploadId,
-    detail: `Upserted ${result.records} records`,
+    validation,
+    detail: `Upserted ${result.records} records` + loadNotes(dedupedRows, validation),
   }
 }
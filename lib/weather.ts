@@ -54,6 +54,51 @@ export interface WeatherResponse {
   data: WeatherDataRow[]
 }
 
+const OPEN_METEO_BASE = 'https://archive-api.open-meteo.com/v1/archive'
+
+/**
+ * Fetch historical weather from the Open-Meteo archive and normalise it to
+ * one flat row per day/hour. Returns null if Open-Meteo responds with an error.
+ * Server-side only (called from API routes and report generation).
+ */
+export async function fetchOpenMeteo(
+  lat: number,
+  lon: number,
+  startDate: string,
+  endDate: string,
+  frequency: 'daily' | 'hourly',
+  keys: string[]
+): Promise<WeatherDataRow[] | null> {
+  const params = new URLSearchParams({
+    latitude: lat.toString(),
+    longitude: lon.toString(),
+    start_date: startDate,
+    end_date: endDate,
+    timezone: 'auto',
+  })
+  params.set(frequency, keys.join(','))
+
+  const resp = await fetch(`${OPEN_METEO_BASE}?${params.toString()}`, {
+    signal: AbortSignal.timeout(15_000),
+  })
+
+  if (!resp.ok) {
+    const text = await resp.text().catch(() => '')
+    console.error('[weather] Open-Meteo error:', resp.status, text)
+    return null
+  }
+
+  const raw = await resp.json()
+  const timeArray: string[] = raw[frequency]?.time ?? []
+  return timeArray.map((time: string, i: number) => {
+    const row: WeatherDataRow = { time }
+    for (const key of keys) {
+      row[key] = raw[frequency]?.[key]?.[i] ?? null
+    }
+    return row
+  })
+}
+
 /**
  * Parse a "lat, lon" GPS string into a [lat, lon] tuple.
  * Extracted from TrialMap.tsx to be shared across components.
@@ -0,0 +1,10 @@
+-- Control treatment flag: lets a trial designate its untreated check so
+-- analyses and reports can express results relative to the control.
+ALTER TABLE treatments
+  ADD COLUMN IF NOT EXISTS is_control BOOLEAN NOT NULL DEFAULT false;
+
+-- At most one control per trial
+CREATE UNIQUE INDEX IF NOT EXISTS idx_treatments_one_control
+  ON treatments(trial_id) WHERE is_control;
+
+NOTIFY pgrst, 'reload schema';
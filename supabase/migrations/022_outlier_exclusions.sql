@@ -0,0 +1,46 @@
+-- Outlier exclusions: analysed records can be excluded with a reason rather
+-- than deleted, so analyses remain reproducible (the "include excluded"
+-- option brings them back). Upserts from load_and_track leave these columns
+-- untouched, so an exclusion survives re-uploading the same file.
+--
+-- For plot_data an exclusion applies to the whole plot row (all metrics).
+
+ALTER TABLE plot_data
+  ADD COLUMN IF NOT EXISTS excluded         BOOLEAN     NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS exclusion_reason TEXT,
+  ADD COLUMN IF NOT EXISTS excluded_by      UUID        REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS excluded_at      TIMESTAMPTZ;
+
+ALTER TABLE soil_chemistry
+  ADD COLUMN IF NOT EXISTS excluded         BOOLEAN     NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS exclusion_reason TEXT,
+  ADD COLUMN IF NOT EXISTS excluded_by      UUID        REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS excluded_at      TIMESTAMPTZ;
+
+ALTER TABLE tissue_chemistry
+  ADD COLUMN IF NOT EXISTS excluded         BOOLEAN     NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS exclusion_reason TEXT,
+  ADD COLUMN IF NOT EXISTS excluded_by      UUID        REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS excluded_at      TIMESTAMPTZ;
+
+ALTER TABLE sample_metadata
+  ADD COLUMN IF NOT EXISTS excluded         BOOLEAN     NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS exclusion_reason TEXT,
+  ADD COLUMN IF NOT EXISTS excluded_by      UUID        REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS excluded_at      TIMESTAMPTZ;
+
+-- A reason is mandatory whenever a record is excluded
+ALTER TABLE plot_data
+  ADD CONSTRAINT plot_data_exclusion_reason_check
+  CHECK (NOT excluded OR exclusion_reason IS NOT NULL);
+ALTER TABLE soil_chemistry
+  ADD CONSTRAINT soil_chemistry_exclusion_reason_check
+  CHECK (NOT excluded OR exclusion_reason IS NOT NULL);
+ALTER TABLE tissue_chemistry
+  ADD CONSTRAINT tissue_chemistry_exclusion_reason_check
+  CHECK (NOT excluded OR exclusion_reason IS NOT NULL);
+ALTER TABLE sample_metadata
+  ADD CONSTRAINT sample_metadata_exclusion_reason_check
+  CHECK (NOT excluded OR exclusion_reason IS NOT NULL);
+
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,34 @@
+-- Saved analyses: named /analysis configurations that can be reopened from
+-- a URL (/analysis?saved=<id>) so a result can be regenerated with identical
+-- settings. trial_ids is denormalised from config for the per-trial list.
+CREATE TABLE saved_analyses (
+  id          UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  name        TEXT        NOT NULL,
+  description TEXT,
+  config      JSONB       NOT NULL,            -- AnalysisConfig (mode, source, groupBy, ...)
+  trial_ids   TEXT[]      NOT NULL DEFAULT '{}',
+  created_by  UUID        REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at  TIMESTAMPTZ DEFAULT now(),
+  updated_at  TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX idx_saved_analyses_created_by ON saved_analyses(created_by);
+CREATE INDEX idx_saved_analyses_trial_ids ON saved_analyses USING GIN (trial_ids);
+
+ALTER TABLE saved_analyses ENABLE ROW LEVEL SECURITY;
+
+-- Everyone can open a shared analysis; only the owner (or an admin) may change it
+CREATE POLICY "Anyone authenticated can read saved_analyses"
+  ON saved_analyses FOR SELECT
+  USING (auth.role() = 'authenticated');
+CREATE POLICY "Authenticated users can create saved_analyses"
+  ON saved_analyses FOR INSERT
+  WITH CHECK (auth.role() = 'authenticated' AND created_by = auth.uid());
+CREATE POLICY "Owner or admin can update saved_analyses"
+  ON saved_analyses FOR UPDATE
+  USING (created_by = auth.uid() OR get_my_role() = 'admin');
+CREATE POLICY "Owner or admin can delete saved_analyses"
+  ON saved_analyses FOR DELETE
+  USING (created_by = auth.uid() OR get_my_role() = 'admin');
+
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,41 @@
+-- Report templates: which sections a trial PDF report contains, in what
+-- order, which metrics it charts and the branding text printed on it.
+-- A trial picks up its client's template first, then the first template
+-- listing its trial_type, then the template flagged is_default.
+CREATE TABLE report_templates (
+  id          UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  name        TEXT        NOT NULL,
+  description TEXT,
+  sections    TEXT[]      NOT NULL DEFAULT '{}',   -- ordered ReportSection values
+  metrics     TEXT[]      NOT NULL DEFAULT '{}',   -- empty = most significant metrics
+  branding    JSONB       NOT NULL DEFAULT '{}',   -- { title, subtitle, footer, disclaimer }
+  trial_types TEXT[]      NOT NULL DEFAULT '{}',
+  is_default  BOOLEAN     NOT NULL DEFAULT false,
+  created_by  UUID        REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at  TIMESTAMPTZ DEFAULT now(),
+  updated_at  TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX idx_report_templates_trial_types ON report_templates USING GIN (trial_types);
+-- At most one fallback template
+CREATE UNIQUE INDEX idx_report_templates_default ON report_templates(is_default) WHERE is_default;
+
+ALTER TABLE clients ADD COLUMN report_template_id UUID REFERENCES report_templates(id) ON DELETE SET NULL;
+
+ALTER TABLE report_templates ENABLE ROW LEVEL SECURITY;
+
+-- Everyone reports with templates; only admins maintain them
+CREATE POLICY "Anyone authenticated can read report_templates"
+  ON report_templates FOR SELECT
+  USING (auth.role() = 'authenticated');
+CREATE POLICY "Admins can create report_templates"
+  ON report_templates FOR INSERT
+  WITH CHECK (get_my_role() = 'admin');
+CREATE POLICY "Admins can update report_templates"
+  ON report_templates FOR UPDATE
+  USING (get_my_role() = 'admin');
+CREATE POLICY "Admins can delete report_templates"
+  ON report_templates FOR DELETE
+  USING (get_my_role() = 'admin');
+
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,71 @@
+-- Report jobs: PDF trial reports rendered in the background, either when a
+-- trial is marked completed, on a weekly cadence for active trials, or on
+-- request. Finished reports are kept in the private trial-reports bucket,
+-- so the succeeded jobs for a trial form its report history.
+CREATE TABLE report_jobs (
+  id           UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  trial_id     TEXT        NOT NULL REFERENCES trials(id) ON DELETE CASCADE,
+  trigger      TEXT        NOT NULL CHECK (trigger IN ('status_completed', 'weekly', 'manual')),
+  status       TEXT        NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'succeeded', 'failed')),
+  template_id  UUID        REFERENCES report_templates(id) ON DELETE SET NULL,
+  storage_path TEXT,                          -- trial-reports/<trial_id>/<job id>.pdf once rendered
+  file_size    INT,
+  error        TEXT,
+  requested_by UUID        REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at   TIMESTAMPTZ DEFAULT now(),
+  started_at   TIMESTAMPTZ,
+  finished_at  TIMESTAMPTZ
+);
+
+CREATE INDEX idx_report_jobs_trial ON report_jobs(trial_id, created_at DESC);
+CREATE INDEX idx_report_jobs_pending ON report_jobs(created_at) WHERE status = 'pending';
+
+-- Outbox: notification emails queued by report jobs and sent by whichever
+-- mailer is configured (lib/mailer). Rows are never deleted, so the table
+-- doubles as a delivery log.
+CREATE TABLE email_outbox (
+  id          UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  to_address  TEXT        NOT NULL,
+  subject     TEXT        NOT NULL,
+  body        TEXT        NOT NULL,
+  job_id      UUID        REFERENCES report_jobs(id) ON DELETE SET NULL,
+  status      TEXT        NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+  attempts    INT         NOT NULL DEFAULT 0,
+  last_error  TEXT,
+  created_at  TIMESTAMPTZ DEFAULT now(),
+  sent_at     TIMESTAMPTZ
+);
+
+CREATE INDEX idx_email_outbox_pending ON email_outbox(created_at) WHERE status = 'pending';
+
+ALTER TABLE report_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE email_outbox ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users full access" ON report_jobs
+  FOR ALL USING (auth.role() = 'authenticated');
+-- Queued by report jobs; only admins can read the delivery log
+CREATE POLICY "Authenticated users can queue email" ON email_outbox
+  FOR INSERT WITH CHECK (auth.role() = 'authenticated');
+CREATE POLICY "Admins can read email_outbox" ON email_outbox
+  FOR SELECT USING (get_my_role() = 'admin');
+CREATE POLICY "Admins can update email_outbox" ON email_outbox
+  FOR UPDATE USING (get_my_role() = 'admin');
+
+-- Private bucket: reports are served through signed URLs
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('trial-reports', 'trial-reports', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Authenticated users can upload reports"
+  ON storage.objects FOR INSERT
+  WITH CHECK (bucket_id = 'trial-reports' AND auth.role() = 'authenticated');
+
+CREATE POLICY "Authenticated users can read reports"
+  ON storage.objects FOR SELECT
+  USING (bucket_id = 'trial-reports' AND auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can delete reports"
+  ON storage.objects FOR DELETE
+  USING (bucket_id = 'trial-reports' AND get_my_role() = 'admin');
+
+NOTIFY pgrst, 'reload schema';
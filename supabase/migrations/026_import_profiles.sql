@@ -0,0 +1,44 @@
+-- Import profiles: saved lab/format settings for the upload pipeline.
+-- runPipeline reads the file with each candidate profile's sheet and
+-- header-row offset and picks the profile whose header fingerprint matches,
+-- so a lab's export maps itself after the first reviewed upload.
+CREATE TABLE import_profiles (
+  id                 UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  name               TEXT        NOT NULL,
+  lab                TEXT,
+  file_type          TEXT        NOT NULL,                -- COLUMN_MAPS key
+  header_fingerprint TEXT        NOT NULL,                -- normalised, sorted headers
+  headers            TEXT[]      NOT NULL DEFAULT '{}',   -- headers in file order
+  column_overrides   JSONB       NOT NULL DEFAULT '{}',   -- { lowercased header: db field | __skip__ | __metric__ }
+  units              JSONB       NOT NULL DEFAULT '{}',   -- { lowercased header: unit } for metric columns
+  header_row_offset  INT         NOT NULL DEFAULT 0 CHECK (header_row_offset >= 0),  -- rows above the header row
+  sheet_name         TEXT,                                -- null = first sheet
+  date_format        TEXT        NOT NULL DEFAULT 'DD/MM/YYYY'
+                     CHECK (date_format IN ('DD/MM/YYYY', 'MM/DD/YYYY', 'YYYY-MM-DD')),
+  created_by         UUID        REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at         TIMESTAMPTZ DEFAULT now(),
+  updated_at         TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX idx_import_profiles_fingerprint ON import_profiles(file_type, header_fingerprint);
+
+-- Which profile (if any) an upload was read with, so re-processing after
+-- review applies the same overrides, units and date format
+ALTER TABLE raw_uploads ADD COLUMN import_profile_id UUID REFERENCES import_profiles(id) ON DELETE SET NULL;
+
+ALTER TABLE import_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone authenticated can read import_profiles"
+  ON import_profiles FOR SELECT
+  USING (auth.role() = 'authenticated');
+CREATE POLICY "Upload+ can insert import_profiles"
+  ON import_profiles FOR INSERT
+  WITH CHECK (auth.role() = 'authenticated' AND get_my_role() IN ('admin', 'upload'));
+CREATE POLICY "Upload+ can update import_profiles"
+  ON import_profiles FOR UPDATE
+  USING (auth.role() = 'authenticated' AND get_my_role() IN ('admin', 'upload'));
+CREATE POLICY "Upload+ can delete import_profiles"
+  ON import_profiles FOR DELETE
+  USING (auth.role() = 'authenticated' AND get_my_role() IN ('admin', 'upload'));
+
+NOTIFY pgrst, 'reload schema';
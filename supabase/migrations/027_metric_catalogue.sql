@@ -0,0 +1,111 @@
+-- Managed metric catalogue: canonical names, units, aliases and optimal
+-- ranges for pivoted chemistry metrics. Rows extend and override the
+-- built-in entries in lib/units.ts; an entry named like a built-in
+-- replaces it for that source.
+CREATE TABLE metric_catalogue (
+  id                UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  source            TEXT        NOT NULL CHECK (source IN ('soilChemistry', 'tissueChemistry', 'sampleMetadata')),
+  name              TEXT        NOT NULL,                -- canonical metric name
+  category          TEXT,
+  unit              TEXT        NOT NULL DEFAULT '',     -- default unit values are stored in
+  aliases           TEXT[]      NOT NULL DEFAULT '{}',   -- lowercased, without full stops
+  equivalent_weight NUMERIC,                             -- mg per mmol(+), for cations
+  optimal_min       NUMERIC,                             -- agronomic optimal range, in unit
+  optimal_max       NUMERIC,
+  created_by        UUID        REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at        TIMESTAMPTZ DEFAULT now(),
+  updated_at        TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE UNIQUE INDEX ux_metric_catalogue_name ON metric_catalogue(source, lower(name));
+
+ALTER TABLE metric_catalogue ENABLE ROW LEVEL SECURITY;
+
+-- Everyone's uploads and analyses resolve against it; only admins curate it
+CREATE POLICY "Anyone authenticated can read metric_catalogue"
+  ON metric_catalogue FOR SELECT
+  USING (auth.role() = 'authenticated');
+CREATE POLICY "Admins can create metric_catalogue"
+  ON metric_catalogue FOR INSERT
+  WITH CHECK (get_my_role() = 'admin');
+CREATE POLICY "Admins can update metric_catalogue"
+  ON metric_catalogue FOR UPDATE
+  USING (get_my_role() = 'admin');
+CREATE POLICY "Admins can delete metric_catalogue"
+  ON metric_catalogue FOR DELETE
+  USING (get_my_role() = 'admin');
+
+-- Metric names (and units) present in a pivoted table, with row counts,
+-- so the catalogue UI can list names that still need merging.
+CREATE OR REPLACE FUNCTION distinct_metrics(p_table_name TEXT)
+RETURNS TABLE (metric TEXT, unit TEXT, n BIGINT)
+LANGUAGE plpgsql
+STABLE
+AS $$
+BEGIN
+  IF p_table_name NOT IN ('soil_chemistry', 'tissue_chemistry', 'sample_metadata') THEN
+    RAISE EXCEPTION 'Invalid table name: %', p_table_name;
+  END IF;
+
+  RETURN QUERY EXECUTE format(
+    'SELECT metric, COALESCE(unit, ''''), count(*) FROM %I WHERE metric IS NOT NULL GROUP BY 1, 2 ORDER BY 1, 2',
+    p_table_name
+  );
+END;
+$$;
+
+-- Rename one metric/unit combination to its canonical name and unit,
+-- scaling values by p_factor (NULL keeps value and unit). The first
+-- rename keeps the row as loaded under raw_data.__original. Rows whose
+-- new natural key already exists are left alone and counted as skipped.
+CREATE OR REPLACE FUNCTION rekey_metric(
+  p_table_name TEXT,
+  p_from_metric TEXT,
+  p_from_unit TEXT,
+  p_to_metric TEXT,
+  p_to_unit TEXT,
+  p_factor NUMERIC DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_id UUID;
+  v_updated INT := 0;
+  v_skipped INT := 0;
+BEGIN
+  IF get_my_role() <> 'admin' THEN
+    RAISE EXCEPTION 'Insufficient permissions: admin role required';
+  END IF;
+
+  IF p_table_name NOT IN ('soil_chemistry', 'tissue_chemistry', 'sample_metadata') THEN
+    RAISE EXCEPTION 'Invalid table name: %', p_table_name;
+  END IF;
+
+  FOR v_id IN EXECUTE format(
+    'SELECT id FROM %I WHERE metric = $1 AND COALESCE(unit, '''') = $2', p_table_name
+  ) USING p_from_metric, p_from_unit
+  LOOP
+    BEGIN
+      EXECUTE format(
+        'UPDATE %I SET
+           raw_data = COALESCE(raw_data, ''{}''::jsonb) || jsonb_build_object(''__original'',
+             COALESCE(raw_data->''__original'', jsonb_build_object(''metric'', metric, ''value'', value, ''unit'', unit))),
+           metric = $2,
+           unit = CASE WHEN $4 IS NULL THEN unit ELSE $3 END,
+           value = CASE WHEN $4 IS NULL THEN value ELSE value * $4 END
+         WHERE id = $1',
+        p_table_name
+      ) USING v_id, p_to_metric, p_to_unit, p_factor;
+      v_updated := v_updated + 1;
+    EXCEPTION WHEN unique_violation THEN
+      v_skipped := v_skipped + 1;
+    END;
+  END LOOP;
+
+  RETURN jsonb_build_object('updated', v_updated, 'skipped', v_skipped);
+END;
+$$;
+
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,374 @@
+-- Upload rollback: every row load_and_track writes is tagged with the
+-- raw_upload it came from, and the first time an upload inserts or updates
+-- a row the change is recorded in upload_snapshots (the whole row as it
+-- was, for updates). rollback_upload() replays those snapshots in reverse:
+-- rows the upload inserted are deleted, rows it updated get their previous
+-- values back, and trial_data_files is brought in line.
+--
+-- An upload can only be undone while it is the last one to have written
+-- its rows; undo later uploads that touched the same rows first.
+
+ALTER TABLE soil_health_samples ADD COLUMN IF NOT EXISTS raw_upload_id UUID REFERENCES raw_uploads(id) ON DELETE SET NULL;
+ALTER TABLE soil_chemistry      ADD COLUMN IF NOT EXISTS raw_upload_id UUID REFERENCES raw_uploads(id) ON DELETE SET NULL;
+ALTER TABLE plot_data           ADD COLUMN IF NOT EXISTS raw_upload_id UUID REFERENCES raw_uploads(id) ON DELETE SET NULL;
+ALTER TABLE tissue_chemistry    ADD COLUMN IF NOT EXISTS raw_upload_id UUID REFERENCES raw_uploads(id) ON DELETE SET NULL;
+ALTER TABLE sample_metadata     ADD COLUMN IF NOT EXISTS raw_upload_id UUID REFERENCES raw_uploads(id) ON DELETE SET NULL;
+
+-- Lets the upload log offer "undo" on the entry for a loaded file
+ALTER TABLE upload_log ADD COLUMN IF NOT EXISTS raw_upload_id UUID REFERENCES raw_uploads(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_upload_log_raw_upload ON upload_log(raw_upload_id);
+
+ALTER TABLE raw_uploads DROP CONSTRAINT IF EXISTS raw_uploads_status_check;
+ALTER TABLE raw_uploads ADD CONSTRAINT raw_uploads_status_check
+  CHECK (status IN ('pending', 'mapped', 'loaded', 'error', 'rolled_back'));
+ALTER TABLE raw_uploads
+  ADD COLUMN IF NOT EXISTS rolled_back_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS rolled_back_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE TABLE upload_snapshots (
+  id            UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  raw_upload_id UUID        NOT NULL REFERENCES raw_uploads(id) ON DELETE CASCADE,
+  table_name    TEXT        NOT NULL,
+  row_id        UUID        NOT NULL,
+  action        TEXT        NOT NULL CHECK (action IN ('insert', 'update')),
+  previous      JSONB,                      -- the row before the update; NULL for inserts
+  created_at    TIMESTAMPTZ DEFAULT now()
+);
+
+-- Only an upload's first write to a row is kept (re-processing the same
+-- raw_upload updates rows it inserted itself)
+CREATE UNIQUE INDEX ux_upload_snapshots_row ON upload_snapshots(raw_upload_id, table_name, row_id);
+
+ALTER TABLE upload_snapshots ENABLE ROW LEVEL SECURITY;
+
+-- Written and consumed only by the SECURITY DEFINER functions below
+CREATE POLICY "Anyone authenticated can read upload_snapshots"
+  ON upload_snapshots FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+-- Stamp rows written inside load_and_track with the upload's id
+CREATE OR REPLACE FUNCTION stamp_raw_upload_id()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_upload UUID := NULLIF(current_setting('soiltrack.raw_upload_id', true), '')::uuid;
+BEGIN
+  IF v_upload IS NOT NULL THEN
+    NEW.raw_upload_id := v_upload;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- AFTER, so an INSERT … ON CONFLICT that ends up updating is recorded
+-- once, as an update, with OLD as the row it replaced
+CREATE OR REPLACE FUNCTION track_upload_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_upload UUID := NULLIF(current_setting('soiltrack.raw_upload_id', true), '')::uuid;
+BEGIN
+  IF v_upload IS NOT NULL THEN
+    INSERT INTO upload_snapshots (raw_upload_id, table_name, row_id, action, previous)
+    VALUES (
+      v_upload,
+      TG_TABLE_NAME,
+      NEW.id,
+      lower(TG_OP),
+      CASE WHEN TG_OP = 'UPDATE' THEN to_jsonb(OLD) END
+    )
+    ON CONFLICT (raw_upload_id, table_name, row_id) DO NOTHING;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DO $$
+DECLARE
+  t TEXT;
+BEGIN
+  FOREACH t IN ARRAY ARRAY['soil_health_samples', 'soil_chemistry', 'plot_data', 'tissue_chemistry', 'sample_metadata']
+  LOOP
+    EXECUTE format('CREATE INDEX IF NOT EXISTS %I ON %I(raw_upload_id)', 'idx_' || t || '_raw_upload', t);
+    EXECUTE format('DROP TRIGGER IF EXISTS stamp_raw_upload_id ON %I', t);
+    EXECUTE format(
+      'CREATE TRIGGER stamp_raw_upload_id BEFORE INSERT OR UPDATE ON %I FOR EACH ROW EXECUTE FUNCTION stamp_raw_upload_id()', t
+    );
+    EXECUTE format('DROP TRIGGER IF EXISTS track_upload_change ON %I', t);
+    EXECUTE format(
+      'CREATE TRIGGER track_upload_change AFTER INSERT OR UPDATE ON %I FOR EACH ROW EXECUTE FUNCTION track_upload_change()', t
+    );
+  END LOOP;
+END;
+$$;
+
+-- load_and_track as in 015, plus setting soiltrack.raw_upload_id for the
+-- triggers above (transaction-local, so it ends with the call)
+CREATE OR REPLACE FUNCTION load_and_track(
+  p_table_name TEXT,
+  p_trial_id TEXT,
+  p_file_type TEXT,
+  p_filename TEXT,
+  p_rows JSONB,
+  p_raw_upload_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_count INT;
+  v_result JSONB;
+BEGIN
+  -- Role guard: only upload+ can call this function
+  IF get_my_role() NOT IN ('admin', 'upload') THEN
+    RAISE EXCEPTION 'Insufficient permissions: upload role required';
+  END IF;
+
+  -- Tag every row this call writes with its upload, and snapshot what it
+  -- replaces (track_upload_change trigger), so the batch can be undone
+  IF p_raw_upload_id IS NOT NULL THEN
+    PERFORM set_config('soiltrack.raw_upload_id', p_raw_upload_id::text, true);
+  END IF;
+
+  -- Validate table name to prevent injection
+  IF p_table_name NOT IN (
+    'soil_health_samples', 'soil_chemistry', 'plot_data',
+    'tissue_chemistry', 'sample_metadata'
+  ) THEN
+    RAISE EXCEPTION 'Invalid table name: %', p_table_name;
+  END IF;
+
+  -- Insert rows with ON CONFLICT DO UPDATE (upsert) based on the natural key.
+  IF p_table_name = 'soil_health_samples' THEN
+    INSERT INTO soil_health_samples (trial_id, sample_no, date, property, block, barcode, latitude, longitude, raw_data)
+    SELECT
+      p_trial_id,
+      COALESCE(r->>'sample_no', ''),
+      CASE WHEN r->>'date' IS NOT NULL AND r->>'date' != '' THEN (r->>'date')::date ELSE NULL END,
+      COALESCE(r->>'property', ''),
+      COALESCE(r->>'block', ''),
+      COALESCE(r->>'barcode', ''),
+      CASE WHEN r->>'latitude' IS NOT NULL AND r->>'latitude' != '' THEN (r->>'latitude')::decimal ELSE NULL END,
+      CASE WHEN r->>'longitude' IS NOT NULL AND r->>'longitude' != '' THEN (r->>'longitude')::decimal ELSE NULL END,
+      r->'raw_data'
+    FROM jsonb_array_elements(p_rows) AS r
+    ON CONFLICT (trial_id, COALESCE(sample_no, ''), COALESCE(date, '1900-01-01'::date))
+    DO UPDATE SET
+      property = EXCLUDED.property,
+      block = EXCLUDED.block,
+      barcode = EXCLUDED.barcode,
+      latitude = EXCLUDED.latitude,
+      longitude = EXCLUDED.longitude,
+      raw_data = EXCLUDED.raw_data;
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  ELSIF p_table_name = 'soil_chemistry' THEN
+    INSERT INTO soil_chemistry (trial_id, sample_no, date, block, barcode, metric, value, unit, raw_data)
+    SELECT
+      p_trial_id,
+      COALESCE(r->>'sample_no', ''),
+      CASE WHEN r->>'date' IS NOT NULL AND r->>'date' != '' THEN (r->>'date')::date ELSE NULL END,
+      COALESCE(r->>'block', ''),
+      COALESCE(r->>'barcode', ''),
+      COALESCE(r->>'metric', ''),
+      CASE WHEN r->>'value' IS NOT NULL AND r->>'value' != '' THEN (r->>'value')::decimal ELSE NULL END,
+      COALESCE(r->>'unit', ''),
+      r->'raw_data'
+    FROM jsonb_array_elements(p_rows) AS r
+    ON CONFLICT (trial_id, COALESCE(sample_no, ''), COALESCE(date, '1900-01-01'::date), COALESCE(metric, ''))
+    DO UPDATE SET
+      block = EXCLUDED.block,
+      barcode = EXCLUDED.barcode,
+      value = EXCLUDED.value,
+      unit = EXCLUDED.unit,
+      raw_data = EXCLUDED.raw_data;
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  ELSIF p_table_name = 'plot_data' THEN
+    INSERT INTO plot_data (trial_id, plot, trt_number, rep, block, yield_t_ha, plant_count, vigour, disease_score, raw_data)
+    SELECT
+      p_trial_id,
+      COALESCE(r->>'plot', ''),
+      CASE WHEN r->>'trt_number' IS NOT NULL AND r->>'trt_number' != '' THEN (r->>'trt_number')::int ELSE NULL END,
+      CASE WHEN r->>'rep' IS NOT NULL AND r->>'rep' != '' THEN (r->>'rep')::int ELSE NULL END,
+      COALESCE(r->>'block', ''),
+      CASE WHEN r->>'yield_t_ha' IS NOT NULL AND r->>'yield_t_ha' != '' THEN (r->>'yield_t_ha')::decimal ELSE NULL END,
+      CASE WHEN r->>'plant_count' IS NOT NULL AND r->>'plant_count' != '' THEN (r->>'plant_count')::int ELSE NULL END,
+      CASE WHEN r->>'vigour' IS NOT NULL AND r->>'vigour' != '' THEN (r->>'vigour')::decimal ELSE NULL END,
+      CASE WHEN r->>'disease_score' IS NOT NULL AND r->>'disease_score' != '' THEN (r->>'disease_score')::decimal ELSE NULL END,
+      r->'raw_data'
+    FROM jsonb_array_elements(p_rows) AS r
+    ON CONFLICT (trial_id, COALESCE(plot, ''), COALESCE(trt_number::text, ''), COALESCE(rep::text, ''))
+    DO UPDATE SET
+      block = EXCLUDED.block,
+      yield_t_ha = EXCLUDED.yield_t_ha,
+      plant_count = EXCLUDED.plant_count,
+      vigour = EXCLUDED.vigour,
+      disease_score = EXCLUDED.disease_score,
+      raw_data = EXCLUDED.raw_data;
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  ELSIF p_table_name = 'tissue_chemistry' THEN
+    INSERT INTO tissue_chemistry (trial_id, sample_no, date, tissue_type, block, barcode, metric, value, unit, raw_data)
+    SELECT
+      p_trial_id,
+      COALESCE(r->>'sample_no', ''),
+      CASE WHEN r->>'date' IS NOT NULL AND r->>'date' != '' THEN (r->>'date')::date ELSE NULL END,
+      COALESCE(r->>'tissue_type', ''),
+      COALESCE(r->>'block', ''),
+      COALESCE(r->>'barcode', ''),
+      COALESCE(r->>'metric', ''),
+      CASE WHEN r->>'value' IS NOT NULL AND r->>'value' != '' THEN (r->>'value')::decimal ELSE NULL END,
+      COALESCE(r->>'unit', ''),
+      r->'raw_data'
+    FROM jsonb_array_elements(p_rows) AS r
+    ON CONFLICT (trial_id, COALESCE(sample_no, ''), COALESCE(date, '1900-01-01'::date), COALESCE(tissue_type, ''), COALESCE(metric, ''))
+    DO UPDATE SET
+      block = EXCLUDED.block,
+      barcode = EXCLUDED.barcode,
+      value = EXCLUDED.value,
+      unit = EXCLUDED.unit,
+      raw_data = EXCLUDED.raw_data;
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  ELSIF p_table_name = 'sample_metadata' THEN
+    INSERT INTO sample_metadata (trial_id, assay_type, sample_no, date, block, treatment, metric, value, unit, raw_data)
+    SELECT
+      p_trial_id,
+      COALESCE(r->>'assay_type', ''),
+      COALESCE(r->>'sample_no', ''),
+      CASE WHEN r->>'date' IS NOT NULL AND r->>'date' != '' THEN (r->>'date')::date ELSE NULL END,
+      COALESCE(r->>'block', ''),
+      CASE WHEN r->>'treatment' IS NOT NULL AND r->>'treatment' != '' THEN (r->>'treatment')::int ELSE NULL END,
+      COALESCE(r->>'metric', ''),
+      CASE WHEN r->>'value' IS NOT NULL AND r->>'value' != '' THEN (r->>'value')::decimal ELSE NULL END,
+      COALESCE(r->>'unit', ''),
+      r->'raw_data'
+    FROM jsonb_array_elements(p_rows) AS r
+    ON CONFLICT (trial_id, COALESCE(assay_type, ''), COALESCE(sample_no, ''), COALESCE(metric, ''))
+    DO UPDATE SET
+      date = EXCLUDED.date,
+      block = EXCLUDED.block,
+      treatment = EXCLUDED.treatment,
+      value = EXCLUDED.value,
+      unit = EXCLUDED.unit,
+      raw_data = EXCLUDED.raw_data;
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+  END IF;
+
+  -- Update trial_data_files tracking
+  INSERT INTO trial_data_files (trial_id, file_type, has_data, last_updated)
+  VALUES (p_trial_id, p_file_type, true, now())
+  ON CONFLICT (trial_id, file_type)
+  DO UPDATE SET has_data = true, last_updated = now();
+
+  -- Mark raw_upload as loaded (if one was provided)
+  IF p_raw_upload_id IS NOT NULL THEN
+    UPDATE raw_uploads
+    SET status = 'loaded', records_loaded = v_count
+    WHERE id = p_raw_upload_id;
+  END IF;
+
+  v_result := jsonb_build_object('status', 'success', 'records', v_count);
+  RETURN v_result;
+END;
+$$;
+
+-- Undo a loaded upload. Returns { deleted, restored }.
+CREATE OR REPLACE FUNCTION rollback_upload(p_raw_upload_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_upload raw_uploads%ROWTYPE;
+  v_snap upload_snapshots%ROWTYPE;
+  v_cols TEXT;
+  v_blocking INT := 0;
+  v_count INT;
+  v_deleted INT := 0;
+  v_restored INT := 0;
+  v_table TEXT;
+  v_has_data BOOLEAN;
+BEGIN
+  IF get_my_role() NOT IN ('admin', 'upload') THEN
+    RAISE EXCEPTION 'Insufficient permissions: upload role required';
+  END IF;
+
+  SELECT * INTO v_upload FROM raw_uploads WHERE id = p_raw_upload_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Upload not found';
+  END IF;
+  IF v_upload.status <> 'loaded' THEN
+    RAISE EXCEPTION 'Only loaded uploads can be undone (this one is %)', v_upload.status;
+  END IF;
+
+  -- Rows a later upload has since written would lose that upload's values
+  FOR v_table IN SELECT DISTINCT table_name FROM upload_snapshots WHERE raw_upload_id = p_raw_upload_id
+  LOOP
+    EXECUTE format(
+      'SELECT count(*) FROM %I t JOIN upload_snapshots s ON s.row_id = t.id
+        WHERE s.raw_upload_id = $1 AND s.table_name = $2
+          AND t.raw_upload_id IS DISTINCT FROM $1',
+      v_table
+    ) INTO v_count USING p_raw_upload_id, v_table;
+    v_blocking := v_blocking + v_count;
+  END LOOP;
+  IF v_blocking > 0 THEN
+    RAISE EXCEPTION '% row(s) from this upload were changed by a later upload — undo that upload first', v_blocking;
+  END IF;
+
+  FOR v_snap IN
+    SELECT * FROM upload_snapshots WHERE raw_upload_id = p_raw_upload_id
+  LOOP
+    IF v_snap.action = 'insert' THEN
+      EXECUTE format('DELETE FROM %I WHERE id = $1', v_snap.table_name) USING v_snap.row_id;
+      GET DIAGNOSTICS v_count = ROW_COUNT;
+      v_deleted := v_deleted + v_count;
+    ELSE
+      SELECT string_agg(quote_ident(column_name), ', ') INTO v_cols
+      FROM information_schema.columns
+      WHERE table_schema = 'public' AND table_name = v_snap.table_name AND column_name <> 'id';
+
+      EXECUTE format(
+        'UPDATE %I SET (%s) = (SELECT %s FROM jsonb_populate_record(NULL::%I, $1)) WHERE id = $2',
+        v_snap.table_name, v_cols, v_cols, v_snap.table_name
+      ) USING v_snap.previous, v_snap.row_id;
+      GET DIAGNOSTICS v_count = ROW_COUNT;
+      v_restored := v_restored + v_count;
+    END IF;
+  END LOOP;
+
+  -- The trial may have no rows of this type left
+  FOR v_table IN SELECT DISTINCT table_name FROM upload_snapshots WHERE raw_upload_id = p_raw_upload_id
+  LOOP
+    EXECUTE format('SELECT EXISTS (SELECT 1 FROM %I WHERE trial_id = $1)', v_table)
+      INTO v_has_data USING v_upload.trial_id;
+    UPDATE trial_data_files
+    SET has_data = v_has_data, last_updated = now()
+    WHERE trial_id = v_upload.trial_id AND file_type = v_upload.file_type;
+  END LOOP;
+
+  DELETE FROM upload_snapshots WHERE raw_upload_id = p_raw_upload_id;
+
+  UPDATE raw_uploads
+  SET status = 'rolled_back', rolled_back_at = now(), rolled_back_by = auth.uid()
+  WHERE id = p_raw_upload_id;
+
+  INSERT INTO upload_log (trial_id, filename, file_type, status, detail, records_imported, raw_upload_id)
+  VALUES (
+    v_upload.trial_id, v_upload.filename, v_upload.file_type, 'rolled_back',
+    format('Undone: %s row(s) removed, %s restored', v_deleted, v_restored), 0, p_raw_upload_id
+  );
+
+  RETURN jsonb_build_object('deleted', v_deleted, 'restored', v_restored);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION rollback_upload(UUID) TO authenticated;
+
+NOTIFY pgrst, 'reload schema';
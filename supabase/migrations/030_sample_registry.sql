@@ -0,0 +1,123 @@
+-- Sample registry: one row per physical sample, keyed by the barcode on
+-- the bag or tube. Soil health, chemistry, tissue and assay rows carry the
+-- same barcode (migration 010); the upload pipeline resolves lab results
+-- against the registry for their plot, treatment, location and date, and
+-- flags barcodes it doesn't know.
+CREATE TABLE samples (
+  id             UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  barcode        TEXT        NOT NULL,
+  trial_id       TEXT        NOT NULL REFERENCES trials(id) ON DELETE CASCADE,
+  sample_no      TEXT,
+  sample_type    TEXT        NOT NULL DEFAULT 'soil' CHECK (sample_type IN ('soil', 'tissue', 'other')),
+  plot           TEXT,
+  trt_number     INT,
+  rep            INT,
+  latitude       DECIMAL(10,6),
+  longitude      DECIMAL(10,6),
+  depth_upper_cm NUMERIC     CHECK (depth_upper_cm >= 0),
+  depth_lower_cm NUMERIC     CHECK (depth_lower_cm >= depth_upper_cm),
+  collected_on   DATE,
+  status         TEXT        NOT NULL DEFAULT 'registered'
+                 CHECK (status IN ('registered', 'collected', 'dispatched', 'received', 'analysed', 'archived', 'discarded')),
+  notes          TEXT,
+  created_by     UUID        REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at     TIMESTAMPTZ DEFAULT now(),
+  updated_at     TIMESTAMPTZ DEFAULT now()
+);
+
+-- Barcodes are printed once; the same code in two trials is a labelling error
+CREATE UNIQUE INDEX ux_samples_barcode ON samples(barcode);
+CREATE INDEX idx_samples_trial ON samples(trial_id);
+
+-- Chain of custody: every status a sample has been given, by whom and when
+CREATE TABLE sample_custody_events (
+  id          UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  sample_id   UUID        NOT NULL REFERENCES samples(id) ON DELETE CASCADE,
+  status      TEXT        NOT NULL,
+  note        TEXT,
+  recorded_by UUID        REFERENCES auth.users(id) ON DELETE SET NULL,
+  recorded_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX idx_sample_custody_events_sample ON sample_custody_events(sample_id, recorded_at);
+
+ALTER TABLE samples ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sample_custody_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone authenticated can read samples"
+  ON samples FOR SELECT
+  USING (auth.role() = 'authenticated');
+CREATE POLICY "Upload+ can insert samples"
+  ON samples FOR INSERT
+  WITH CHECK (auth.role() = 'authenticated' AND get_my_role() IN ('admin', 'upload'));
+CREATE POLICY "Upload+ can update samples"
+  ON samples FOR UPDATE
+  USING (auth.role() = 'authenticated' AND get_my_role() IN ('admin', 'upload'));
+CREATE POLICY "Admins can delete samples"
+  ON samples FOR DELETE
+  USING (get_my_role() = 'admin');
+
+-- Written only by the log_sample_custody trigger, so the history can't be edited
+CREATE POLICY "Anyone authenticated can read sample_custody_events"
+  ON sample_custody_events FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+-- Log registration and each status change. A note for the event can be
+-- passed in soiltrack.custody_note (see record_sample_custody).
+CREATE OR REPLACE FUNCTION log_sample_custody()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO sample_custody_events (sample_id, status, note, recorded_by)
+    VALUES (NEW.id, NEW.status, NULLIF(current_setting('soiltrack.custody_note', true), ''), auth.uid());
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER log_sample_custody
+  AFTER INSERT OR UPDATE OF status ON samples
+  FOR EACH ROW EXECUTE FUNCTION log_sample_custody();
+
+-- Move a batch of scanned barcodes to a status, with an optional note on
+-- each custody event. Samples already at the status are left alone.
+-- Returns { updated, unknown } where unknown lists unregistered barcodes.
+CREATE OR REPLACE FUNCTION record_sample_custody(
+  p_barcodes TEXT[],
+  p_status TEXT,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_updated INT;
+  v_unknown TEXT[];
+BEGIN
+  IF get_my_role() NOT IN ('admin', 'upload') THEN
+    RAISE EXCEPTION 'Insufficient permissions: upload role required';
+  END IF;
+
+  PERFORM set_config('soiltrack.custody_note', COALESCE(p_note, ''), true);
+
+  UPDATE samples
+     SET status = p_status, updated_at = now()
+   WHERE barcode = ANY(p_barcodes)
+     AND status IS DISTINCT FROM p_status;
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+
+  SELECT COALESCE(array_agg(DISTINCT b), '{}') INTO v_unknown
+    FROM unnest(p_barcodes) AS b
+   WHERE NOT EXISTS (SELECT 1 FROM samples s WHERE s.barcode = b);
+
+  PERFORM set_config('soiltrack.custody_note', '', true);
+
+  RETURN jsonb_build_object('updated', v_updated, 'unknown', to_jsonb(v_unknown));
+END;
+$$;
+
+NOTIFY pgrst, 'reload schema';
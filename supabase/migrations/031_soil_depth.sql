@@ -0,0 +1,220 @@
+-- Sampling depth for soil health and soil chemistry. Cores taken at
+-- 0-10, 10-30 and 30-60 cm share a sample number and date, so without
+-- depth in the natural key each depth overwrote the last.
+--
+-- Depth is stored in cm; NULL (no depth given) is its own key value, so
+-- rows loaded before this migration keep matching re-uploads without one.
+
+ALTER TABLE soil_health_samples
+  ADD COLUMN IF NOT EXISTS depth_upper_cm NUMERIC CHECK (depth_upper_cm >= 0),
+  ADD COLUMN IF NOT EXISTS depth_lower_cm NUMERIC CHECK (depth_lower_cm >= 0);
+ALTER TABLE soil_chemistry
+  ADD COLUMN IF NOT EXISTS depth_upper_cm NUMERIC CHECK (depth_upper_cm >= 0),
+  ADD COLUMN IF NOT EXISTS depth_lower_cm NUMERIC CHECK (depth_lower_cm >= 0);
+
+-- The unique indexes match load_and_track's ON CONFLICT targets below
+-- expression for expression, as the conflict target requires
+DROP INDEX IF EXISTS ux_soil_health_natural;
+CREATE UNIQUE INDEX ux_soil_health_natural
+  ON soil_health_samples (
+    trial_id,
+    COALESCE(sample_no, ''),
+    COALESCE(date, '1900-01-01'::date),
+    COALESCE(depth_upper_cm, -1),
+    COALESCE(depth_lower_cm, -1)
+  );
+
+DROP INDEX IF EXISTS ux_soil_chemistry_natural;
+CREATE UNIQUE INDEX ux_soil_chemistry_natural
+  ON soil_chemistry (
+    trial_id,
+    COALESCE(sample_no, ''),
+    COALESCE(date, '1900-01-01'::date),
+    COALESCE(depth_upper_cm, -1),
+    COALESCE(depth_lower_cm, -1),
+    COALESCE(metric, '')
+  );
+
+-- load_and_track as in 029, writing depth and keying soil rows on it
+CREATE OR REPLACE FUNCTION load_and_track(
+  p_table_name TEXT,
+  p_trial_id TEXT,
+  p_file_type TEXT,
+  p_filename TEXT,
+  p_rows JSONB,
+  p_raw_upload_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_count INT;
+  v_result JSONB;
+BEGIN
+  -- Role guard: only upload+ can call this function
+  IF get_my_role() NOT IN ('admin', 'upload') THEN
+    RAISE EXCEPTION 'Insufficient permissions: upload role required';
+  END IF;
+
+  -- Tag every row this call writes with its upload, and snapshot what it
+  -- replaces (track_upload_change trigger), so the batch can be undone
+  IF p_raw_upload_id IS NOT NULL THEN
+    PERFORM set_config('soiltrack.raw_upload_id', p_raw_upload_id::text, true);
+  END IF;
+
+  -- Validate table name to prevent injection
+  IF p_table_name NOT IN (
+    'soil_health_samples', 'soil_chemistry', 'plot_data',
+    'tissue_chemistry', 'sample_metadata'
+  ) THEN
+    RAISE EXCEPTION 'Invalid table name: %', p_table_name;
+  END IF;
+
+  -- Insert rows with ON CONFLICT DO UPDATE (upsert) based on the natural key.
+  IF p_table_name = 'soil_health_samples' THEN
+    INSERT INTO soil_health_samples (trial_id, sample_no, date, depth_upper_cm, depth_lower_cm, property, block, barcode, latitude, longitude, raw_data)
+    SELECT
+      p_trial_id,
+      COALESCE(r->>'sample_no', ''),
+      CASE WHEN r->>'date' IS NOT NULL AND r->>'date' != '' THEN (r->>'date')::date ELSE NULL END,
+      CASE WHEN r->>'depth_upper_cm' IS NOT NULL AND r->>'depth_upper_cm' != '' THEN (r->>'depth_upper_cm')::decimal ELSE NULL END,
+      CASE WHEN r->>'depth_lower_cm' IS NOT NULL AND r->>'depth_lower_cm' != '' THEN (r->>'depth_lower_cm')::decimal ELSE NULL END,
+      COALESCE(r->>'property', ''),
+      COALESCE(r->>'block', ''),
+      COALESCE(r->>'barcode', ''),
+      CASE WHEN r->>'latitude' IS NOT NULL AND r->>'latitude' != '' THEN (r->>'latitude')::decimal ELSE NULL END,
+      CASE WHEN r->>'longitude' IS NOT NULL AND r->>'longitude' != '' THEN (r->>'longitude')::decimal ELSE NULL END,
+      r->'raw_data'
+    FROM jsonb_array_elements(p_rows) AS r
+    ON CONFLICT (trial_id, COALESCE(sample_no, ''), COALESCE(date, '1900-01-01'::date), COALESCE(depth_upper_cm, -1), COALESCE(depth_lower_cm, -1))
+    DO UPDATE SET
+      property = EXCLUDED.property,
+      block = EXCLUDED.block,
+      barcode = EXCLUDED.barcode,
+      latitude = EXCLUDED.latitude,
+      longitude = EXCLUDED.longitude,
+      raw_data = EXCLUDED.raw_data;
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  ELSIF p_table_name = 'soil_chemistry' THEN
+    INSERT INTO soil_chemistry (trial_id, sample_no, date, depth_upper_cm, depth_lower_cm, block, barcode, metric, value, unit, censored, raw_data)
+    SELECT
+      p_trial_id,
+      COALESCE(r->>'sample_no', ''),
+      CASE WHEN r->>'date' IS NOT NULL AND r->>'date' != '' THEN (r->>'date')::date ELSE NULL END,
+      CASE WHEN r->>'depth_upper_cm' IS NOT NULL AND r->>'depth_upper_cm' != '' THEN (r->>'depth_upper_cm')::decimal ELSE NULL END,
+      CASE WHEN r->>'depth_lower_cm' IS NOT NULL AND r->>'depth_lower_cm' != '' THEN (r->>'depth_lower_cm')::decimal ELSE NULL END,
+      COALESCE(r->>'block', ''),
+      COALESCE(r->>'barcode', ''),
+      COALESCE(r->>'metric', ''),
+      CASE WHEN r->>'value' IS NOT NULL AND r->>'value' != '' THEN (r->>'value')::decimal ELSE NULL END,
+      COALESCE(r->>'unit', ''),
+      NULLIF(r->>'censored', ''),
+      r->'raw_data'
+    FROM jsonb_array_elements(p_rows) AS r
+    ON CONFLICT (trial_id, COALESCE(sample_no, ''), COALESCE(date, '1900-01-01'::date), COALESCE(depth_upper_cm, -1), COALESCE(depth_lower_cm, -1), COALESCE(metric, ''))
+    DO UPDATE SET
+      block = EXCLUDED.block,
+      barcode = EXCLUDED.barcode,
+      value = EXCLUDED.value,
+      unit = EXCLUDED.unit,
+      censored = EXCLUDED.censored,
+      raw_data = EXCLUDED.raw_data;
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  ELSIF p_table_name = 'plot_data' THEN
+    INSERT INTO plot_data (trial_id, plot, trt_number, rep, block, yield_t_ha, plant_count, vigour, disease_score, raw_data)
+    SELECT
+      p_trial_id,
+      COALESCE(r->>'plot', ''),
+      CASE WHEN r->>'trt_number' IS NOT NULL AND r->>'trt_number' != '' THEN (r->>'trt_number')::int ELSE NULL END,
+      CASE WHEN r->>'rep' IS NOT NULL AND r->>'rep' != '' THEN (r->>'rep')::int ELSE NULL END,
+      COALESCE(r->>'block', ''),
+      CASE WHEN r->>'yield_t_ha' IS NOT NULL AND r->>'yield_t_ha' != '' THEN (r->>'yield_t_ha')::decimal ELSE NULL END,
+      CASE WHEN r->>'plant_count' IS NOT NULL AND r->>'plant_count' != '' THEN (r->>'plant_count')::int ELSE NULL END,
+      CASE WHEN r->>'vigour' IS NOT NULL AND r->>'vigour' != '' THEN (r->>'vigour')::decimal ELSE NULL END,
+      CASE WHEN r->>'disease_score' IS NOT NULL AND r->>'disease_score' != '' THEN (r->>'disease_score')::decimal ELSE NULL END,
+      r->'raw_data'
+    FROM jsonb_array_elements(p_rows) AS r
+    ON CONFLICT (trial_id, COALESCE(plot, ''), COALESCE(trt_number::text, ''), COALESCE(rep::text, ''))
+    DO UPDATE SET
+      block = EXCLUDED.block,
+      yield_t_ha = EXCLUDED.yield_t_ha,
+      plant_count = EXCLUDED.plant_count,
+      vigour = EXCLUDED.vigour,
+      disease_score = EXCLUDED.disease_score,
+      raw_data = EXCLUDED.raw_data;
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  ELSIF p_table_name = 'tissue_chemistry' THEN
+    INSERT INTO tissue_chemistry (trial_id, sample_no, date, tissue_type, block, barcode, metric, value, unit, censored, raw_data)
+    SELECT
+      p_trial_id,
+      COALESCE(r->>'sample_no', ''),
+      CASE WHEN r->>'date' IS NOT NULL AND r->>'date' != '' THEN (r->>'date')::date ELSE NULL END,
+      COALESCE(r->>'tissue_type', ''),
+      COALESCE(r->>'block', ''),
+      COALESCE(r->>'barcode', ''),
+      COALESCE(r->>'metric', ''),
+      CASE WHEN r->>'value' IS NOT NULL AND r->>'value' != '' THEN (r->>'value')::decimal ELSE NULL END,
+      COALESCE(r->>'unit', ''),
+      NULLIF(r->>'censored', ''),
+      r->'raw_data'
+    FROM jsonb_array_elements(p_rows) AS r
+    ON CONFLICT (trial_id, COALESCE(sample_no, ''), COALESCE(date, '1900-01-01'::date), COALESCE(tissue_type, ''), COALESCE(metric, ''))
+    DO UPDATE SET
+      block = EXCLUDED.block,
+      barcode = EXCLUDED.barcode,
+      value = EXCLUDED.value,
+      unit = EXCLUDED.unit,
+      censored = EXCLUDED.censored,
+      raw_data = EXCLUDED.raw_data;
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  ELSIF p_table_name = 'sample_metadata' THEN
+    INSERT INTO sample_metadata (trial_id, assay_type, sample_no, date, block, treatment, metric, value, unit, censored, raw_data)
+    SELECT
+      p_trial_id,
+      COALESCE(r->>'assay_type', ''),
+      COALESCE(r->>'sample_no', ''),
+      CASE WHEN r->>'date' IS NOT NULL AND r->>'date' != '' THEN (r->>'date')::date ELSE NULL END,
+      COALESCE(r->>'block', ''),
+      CASE WHEN r->>'treatment' IS NOT NULL AND r->>'treatment' != '' THEN (r->>'treatment')::int ELSE NULL END,
+      COALESCE(r->>'metric', ''),
+      CASE WHEN r->>'value' IS NOT NULL AND r->>'value' != '' THEN (r->>'value')::decimal ELSE NULL END,
+      COALESCE(r->>'unit', ''),
+      NULLIF(r->>'censored', ''),
+      r->'raw_data'
+    FROM jsonb_array_elements(p_rows) AS r
+    ON CONFLICT (trial_id, COALESCE(assay_type, ''), COALESCE(sample_no, ''), COALESCE(metric, ''))
+    DO UPDATE SET
+      date = EXCLUDED.date,
+      block = EXCLUDED.block,
+      treatment = EXCLUDED.treatment,
+      value = EXCLUDED.value,
+      unit = EXCLUDED.unit,
+      censored = EXCLUDED.censored,
+      raw_data = EXCLUDED.raw_data;
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+  END IF;
+
+  -- Update trial_data_files tracking
+  INSERT INTO trial_data_files (trial_id, file_type, has_data, last_updated)
+  VALUES (p_trial_id, p_file_type, true, now())
+  ON CONFLICT (trial_id, file_type)
+  DO UPDATE SET has_data = true, last_updated = now();
+
+  -- Mark raw_upload as loaded (if one was provided)
+  IF p_raw_upload_id IS NOT NULL THEN
+    UPDATE raw_uploads
+    SET status = 'loaded', records_loaded = v_count
+    WHERE id = p_raw_upload_id;
+  END IF;
+
+  v_result := jsonb_build_object('status', 'success', 'records', v_count);
+  RETURN v_result;
+END;
+$$;
+
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,130 @@
+-- Trial designs: the randomised plot layout of a trial (lib/trial-design),
+-- kept with its seed so the allocation can be regenerated and checked.
+-- Applying a design writes the plot_data skeleton (plot, trt_number, rep)
+-- in the same transaction; the plot polygons, when laid out in a linked
+-- field, are kept here for the field map export and added to the trial's
+-- GIS layers.
+CREATE TABLE trial_designs (
+  id               UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  trial_id         TEXT        NOT NULL UNIQUE REFERENCES trials(id) ON DELETE CASCADE,
+  design_type      TEXT        NOT NULL CHECK (design_type IN ('rcbd', 'crd', 'latin_square', 'split_plot')),
+  seed             BIGINT      NOT NULL,
+  treatments       INT[]       NOT NULL,
+  reps             INT         NOT NULL CHECK (reps >= 1),
+  main_plot_levels INT,
+  num_rows         INT         NOT NULL,
+  num_cols         INT         NOT NULL,
+  plots            JSONB       NOT NULL DEFAULT '[]',  -- [{plot, trt_number, rep, row, col, main_plot?, sub_plot?}]
+  field_id         UUID        REFERENCES fields(id) ON DELETE SET NULL,
+  geometry         JSONB,                             -- {plotWidthM, plotLengthM, gapM, alleyM, rotationDeg}
+  geojson          JSONB,                             -- FeatureCollection of plot polygons
+  gis_layer_id     UUID        REFERENCES trial_gis_layers(id) ON DELETE SET NULL,
+  created_by       UUID        REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at       TIMESTAMPTZ DEFAULT now()
+);
+
+ALTER TABLE trial_designs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone authenticated can read trial_designs"
+  ON trial_designs FOR SELECT
+  USING (auth.role() = 'authenticated');
+CREATE POLICY "Upload+ can insert trial_designs"
+  ON trial_designs FOR INSERT
+  WITH CHECK (auth.role() = 'authenticated' AND get_my_role() IN ('admin', 'upload'));
+CREATE POLICY "Upload+ can update trial_designs"
+  ON trial_designs FOR UPDATE
+  USING (auth.role() = 'authenticated' AND get_my_role() IN ('admin', 'upload'));
+CREATE POLICY "Admins can delete trial_designs"
+  ON trial_designs FOR DELETE
+  USING (get_my_role() = 'admin');
+
+-- Save a design and its plot_data skeleton together. Refused while the
+-- trial has a design or any plot data, so an allocation never changes
+-- under recorded results. Skeleton rows are marked in raw_data.source.
+CREATE OR REPLACE FUNCTION apply_trial_design(
+  p_trial_id TEXT,
+  p_design JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  IF get_my_role() NOT IN ('admin', 'upload') THEN
+    RAISE EXCEPTION 'Insufficient permissions: upload role required';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM trial_designs WHERE trial_id = p_trial_id) THEN
+    RAISE EXCEPTION 'Trial % already has a design', p_trial_id USING ERRCODE = 'P0001';
+  END IF;
+  IF EXISTS (SELECT 1 FROM plot_data WHERE trial_id = p_trial_id) THEN
+    RAISE EXCEPTION 'Trial % already has plot data', p_trial_id USING ERRCODE = 'P0001';
+  END IF;
+
+  INSERT INTO trial_designs (
+    trial_id, design_type, seed, treatments, reps, main_plot_levels,
+    num_rows, num_cols, plots, field_id, geometry, geojson
+  )
+  VALUES (
+    p_trial_id,
+    p_design->>'design_type',
+    (p_design->>'seed')::bigint,
+    ARRAY(SELECT jsonb_array_elements_text(p_design->'treatments')::int),
+    (p_design->>'reps')::int,
+    NULLIF(p_design->>'main_plot_levels', '')::int,
+    (p_design->>'num_rows')::int,
+    (p_design->>'num_cols')::int,
+    p_design->'plots',
+    NULLIF(p_design->>'field_id', '')::uuid,
+    p_design->'geometry',
+    p_design->'geojson'
+  )
+  RETURNING id INTO v_id;
+
+  INSERT INTO plot_data (trial_id, plot, trt_number, rep, raw_data)
+  SELECT
+    p_trial_id,
+    p->>'plot',
+    (p->>'trt_number')::int,
+    (p->>'rep')::int,
+    jsonb_build_object('source', 'trial_design', 'row', p->'row', 'col', p->'col')
+      || CASE WHEN p ? 'main_plot'
+           THEN jsonb_build_object('main_plot', p->'main_plot', 'sub_plot', p->'sub_plot')
+           ELSE '{}'::jsonb END
+  FROM jsonb_array_elements(p_design->'plots') AS p;
+
+  RETURN v_id;
+END;
+$$;
+
+-- Remove a trial's design and the skeleton plot_data rows that never had
+-- results entered. Returns the GIS layer the design added, if any, for the
+-- caller to remove.
+CREATE OR REPLACE FUNCTION remove_trial_design(p_trial_id TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_layer UUID;
+BEGIN
+  IF get_my_role() <> 'admin' THEN
+    RAISE EXCEPTION 'Insufficient permissions: admin role required';
+  END IF;
+
+  DELETE FROM trial_designs WHERE trial_id = p_trial_id
+  RETURNING gis_layer_id INTO v_layer;
+
+  DELETE FROM plot_data
+   WHERE trial_id = p_trial_id
+     AND raw_data->>'source' = 'trial_design'
+     AND yield_t_ha IS NULL AND plant_count IS NULL
+     AND vigour IS NULL AND disease_score IS NULL;
+
+  RETURN v_layer;
+END;
+$$;
+
+NOTIFY pgrst, 'reload schema';
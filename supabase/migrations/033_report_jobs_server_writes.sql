@@ -0,0 +1,13 @@
+-- Report jobs and their notification emails are written by the server only
+-- (lib/report-jobs with the service role, which bypasses RLS). Letting any
+-- signed-in user insert into email_outbox made the dispatcher an open mail
+-- relay, and write access to report_jobs let them rewrite report history.
+DROP POLICY IF EXISTS "Authenticated users full access" ON report_jobs;
+DROP POLICY IF EXISTS "Authenticated users can queue email" ON email_outbox;
+DROP POLICY IF EXISTS "Authenticated users can upload reports" ON storage.objects;
+
+CREATE POLICY "Anyone authenticated can read report_jobs"
+  ON report_jobs FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+NOTIFY pgrst, 'reload schema';
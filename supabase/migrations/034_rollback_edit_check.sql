@@ -0,0 +1,146 @@
+-- Undo safety: upload_snapshots also keeps each row as the upload left it
+-- (loaded), and rollback_upload refuses when the row has changed since —
+-- whether by an exclusion, rekey_metric or a manual edit — instead of
+-- silently reverting those changes or deleting an edited row. Snapshots
+-- taken before this migration have no loaded state and are checked as
+-- before (later uploads only).
+
+ALTER TABLE upload_snapshots ADD COLUMN IF NOT EXISTS loaded JSONB;  -- the row after the upload's last write
+
+-- Re-processing the same raw_upload keeps the first snapshot's action and
+-- previous row but moves loaded on to the latest write
+CREATE OR REPLACE FUNCTION track_upload_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_upload UUID := NULLIF(current_setting('soiltrack.raw_upload_id', true), '')::uuid;
+BEGIN
+  IF v_upload IS NOT NULL THEN
+    INSERT INTO upload_snapshots (raw_upload_id, table_name, row_id, action, previous, loaded)
+    VALUES (
+      v_upload,
+      TG_TABLE_NAME,
+      NEW.id,
+      lower(TG_OP),
+      CASE WHEN TG_OP = 'UPDATE' THEN to_jsonb(OLD) END,
+      to_jsonb(NEW)
+    )
+    ON CONFLICT (raw_upload_id, table_name, row_id) DO UPDATE SET loaded = EXCLUDED.loaded;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+-- rollback_upload as in 028, also refused when a row differs from its
+-- post-upload state. Returns { deleted, restored }.
+CREATE OR REPLACE FUNCTION rollback_upload(p_raw_upload_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_upload raw_uploads%ROWTYPE;
+  v_snap upload_snapshots%ROWTYPE;
+  v_cols TEXT;
+  v_blocking INT := 0;
+  v_count INT;
+  v_deleted INT := 0;
+  v_restored INT := 0;
+  v_table TEXT;
+  v_has_data BOOLEAN;
+BEGIN
+  IF get_my_role() NOT IN ('admin', 'upload') THEN
+    RAISE EXCEPTION 'Insufficient permissions: upload role required';
+  END IF;
+
+  SELECT * INTO v_upload FROM raw_uploads WHERE id = p_raw_upload_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Upload not found';
+  END IF;
+  IF v_upload.status <> 'loaded' THEN
+    RAISE EXCEPTION 'Only loaded uploads can be undone (this one is %)', v_upload.status;
+  END IF;
+
+  -- Rows a later upload has since written would lose that upload's values
+  FOR v_table IN SELECT DISTINCT table_name FROM upload_snapshots WHERE raw_upload_id = p_raw_upload_id
+  LOOP
+    EXECUTE format(
+      'SELECT count(*) FROM %I t JOIN upload_snapshots s ON s.row_id = t.id
+        WHERE s.raw_upload_id = $1 AND s.table_name = $2
+          AND t.raw_upload_id IS DISTINCT FROM $1',
+      v_table
+    ) INTO v_count USING p_raw_upload_id, v_table;
+    v_blocking := v_blocking + v_count;
+  END LOOP;
+  IF v_blocking > 0 THEN
+    RAISE EXCEPTION '% row(s) from this upload were changed by a later upload — undo that upload first', v_blocking;
+  END IF;
+
+  -- Rows edited outside an upload since (exclusions, metric renames,
+  -- corrections) would lose those edits. Only the columns the row had when
+  -- loaded are compared, so columns added by later migrations don't count.
+  FOR v_table IN SELECT DISTINCT table_name FROM upload_snapshots WHERE raw_upload_id = p_raw_upload_id
+  LOOP
+    EXECUTE format(
+      'SELECT count(*) FROM %I t JOIN upload_snapshots s ON s.row_id = t.id
+        WHERE s.raw_upload_id = $1 AND s.table_name = $2 AND s.loaded IS NOT NULL
+          AND (SELECT jsonb_object_agg(c.key, c.value) FROM jsonb_each(to_jsonb(t)) c
+                WHERE s.loaded ? c.key) IS DISTINCT FROM s.loaded',
+      v_table
+    ) INTO v_count USING p_raw_upload_id, v_table;
+    v_blocking := v_blocking + v_count;
+  END LOOP;
+  IF v_blocking > 0 THEN
+    RAISE EXCEPTION '% row(s) from this upload have been edited since it was loaded — undo is unavailable', v_blocking;
+  END IF;
+
+  FOR v_snap IN
+    SELECT * FROM upload_snapshots WHERE raw_upload_id = p_raw_upload_id
+  LOOP
+    IF v_snap.action = 'insert' THEN
+      EXECUTE format('DELETE FROM %I WHERE id = $1', v_snap.table_name) USING v_snap.row_id;
+      GET DIAGNOSTICS v_count = ROW_COUNT;
+      v_deleted := v_deleted + v_count;
+    ELSE
+      SELECT string_agg(quote_ident(column_name), ', ') INTO v_cols
+      FROM information_schema.columns
+      WHERE table_schema = 'public' AND table_name = v_snap.table_name AND column_name <> 'id';
+
+      EXECUTE format(
+        'UPDATE %I SET (%s) = (SELECT %s FROM jsonb_populate_record(NULL::%I, $1)) WHERE id = $2',
+        v_snap.table_name, v_cols, v_cols, v_snap.table_name
+      ) USING v_snap.previous, v_snap.row_id;
+      GET DIAGNOSTICS v_count = ROW_COUNT;
+      v_restored := v_restored + v_count;
+    END IF;
+  END LOOP;
+
+  -- The trial may have no rows of this type left
+  FOR v_table IN SELECT DISTINCT table_name FROM upload_snapshots WHERE raw_upload_id = p_raw_upload_id
+  LOOP
+    EXECUTE format('SELECT EXISTS (SELECT 1 FROM %I WHERE trial_id = $1)', v_table)
+      INTO v_has_data USING v_upload.trial_id;
+    UPDATE trial_data_files
+    SET has_data = v_has_data, last_updated = now()
+    WHERE trial_id = v_upload.trial_id AND file_type = v_upload.file_type;
+  END LOOP;
+
+  DELETE FROM upload_snapshots WHERE raw_upload_id = p_raw_upload_id;
+
+  UPDATE raw_uploads
+  SET status = 'rolled_back', rolled_back_at = now(), rolled_back_by = auth.uid()
+  WHERE id = p_raw_upload_id;
+
+  INSERT INTO upload_log (trial_id, filename, file_type, status, detail, records_imported, raw_upload_id)
+  VALUES (
+    v_upload.trial_id, v_upload.filename, v_upload.file_type, 'rolled_back',
+    format('Undone: %s row(s) removed, %s restored', v_deleted, v_restored), 0, p_raw_upload_id
+  );
+
+  RETURN jsonb_build_object('deleted', v_deleted, 'restored', v_restored);
+END;
+$$;
+
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,5 @@
+-- GIS layers generated in the app (a trial design's plot layout) keep their
+-- GeoJSON in the row and have no uploaded file behind them
+ALTER TABLE trial_gis_layers ALTER COLUMN storage_path DROP NOT NULL;
+
+NOTIFY pgrst, 'reload schema';
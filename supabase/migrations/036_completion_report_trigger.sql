@@ -0,0 +1,27 @@
+-- Completion reports are queued by the database when a trial's status moves
+-- to completed, however the status was changed. The job is left pending for
+-- the report scheduler (POST /api/jobs/reports) to render. Skipped when a
+-- completion report for the trial is already pending.
+CREATE OR REPLACE FUNCTION queue_completion_report()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.status = 'completed' AND NEW.status IS DISTINCT FROM OLD.status
+     AND NOT EXISTS (
+       SELECT 1 FROM report_jobs
+       WHERE trial_id = NEW.id AND trigger = 'status_completed' AND status = 'pending'
+     ) THEN
+    INSERT INTO report_jobs (trial_id, trigger, requested_by)
+    VALUES (NEW.id, 'status_completed', auth.uid());
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER queue_completion_report
+  AFTER UPDATE OF status ON trials
+  FOR EACH ROW EXECUTE FUNCTION queue_completion_report();
+
+NOTIFY pgrst, 'reload schema';